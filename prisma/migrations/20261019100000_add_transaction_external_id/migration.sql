@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "externalId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_paymentSourceId_externalId_key" ON "Transaction"("paymentSourceId", "externalId");
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'TRANSFER';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "transferToPaymentSourceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_userId_transferToPaymentSourceId_idx" ON "Transaction"("userId", "transferToPaymentSourceId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_transferToPaymentSourceId_fkey" FOREIGN KEY ("transferToPaymentSourceId") REFERENCES "PaymentSource"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#64748b',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransactionTag" (
+    "transactionId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TransactionTag_pkey" PRIMARY KEY ("transactionId","tagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_name_key" ON "Tag"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "TransactionTag_tagId_idx" ON "TransactionTag"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionTag" ADD CONSTRAINT "TransactionTag_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionTag" ADD CONSTRAINT "TransactionTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed: every existing user gets the three former flags as tags.
+-- Ids are derived from (user, flag) so the next statement can link rows without a lookup.
+INSERT INTO "Tag" ("id", "userId", "name", "color", "updatedAt")
+SELECT 'tag_' || md5(u."id" || ':' || f."flag"), u."id", f."name", f."color", CURRENT_TIMESTAMP
+FROM "User" u
+CROSS JOIN (
+    VALUES
+        ('WORTH_IT', 'Felt worth it', '#22c55e'),
+        ('UNEXPECTED', 'Unexpected', '#f97316'),
+        ('REVIEW_LATER', 'Review later', '#3b82f6')
+) AS f("flag", "name", "color");
+
+-- Move flags onto the seeded tags
+INSERT INTO "TransactionTag" ("transactionId", "tagId")
+SELECT DISTINCT t."id", 'tag_' || md5(t."userId" || ':' || f."flag"::text)
+FROM "Transaction" t
+CROSS JOIN LATERAL unnest(t."flags") AS f("flag");
+
+-- AlterTable
+ALTER TABLE "Transaction" DROP COLUMN "flags";
+
+-- DropEnum
+DROP TYPE "TransactionFlag";
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "TransactionStatus" AS ENUM ('PENDING', 'CLEARED', 'RECONCILED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "status" "TransactionStatus" NOT NULL DEFAULT 'PENDING';
+
+-- CreateTable
+CREATE TABLE "Reconciliation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentSourceId" TEXT NOT NULL,
+    "statementDate" TIMESTAMP(3) NOT NULL,
+    "endingBalanceCents" INTEGER NOT NULL,
+    "transactionCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reconciliation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_paymentSourceId_status_idx" ON "Transaction"("paymentSourceId", "status");
+
+-- CreateIndex
+CREATE INDEX "Reconciliation_paymentSourceId_statementDate_idx" ON "Reconciliation"("paymentSourceId", "statementDate");
+
+-- CreateIndex
+CREATE INDEX "Reconciliation_userId_idx" ON "Reconciliation"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Reconciliation" ADD CONSTRAINT "Reconciliation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reconciliation" ADD CONSTRAINT "Reconciliation_paymentSourceId_fkey" FOREIGN KEY ("paymentSourceId") REFERENCES "PaymentSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "payeeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Payee" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "defaultCategoryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayeeAlias" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "payeeId" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayeeAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_userId_payeeId_idx" ON "Transaction"("userId", "payeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payee_userId_name_key" ON "Payee"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayeeAlias_userId_pattern_key" ON "PayeeAlias"("userId", "pattern");
+
+-- CreateIndex
+CREATE INDEX "PayeeAlias_payeeId_idx" ON "PayeeAlias"("payeeId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_payeeId_fkey" FOREIGN KEY ("payeeId") REFERENCES "Payee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payee" ADD CONSTRAINT "Payee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payee" ADD CONSTRAINT "Payee_defaultCategoryId_fkey" FOREIGN KEY ("defaultCategoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayeeAlias" ADD CONSTRAINT "PayeeAlias_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayeeAlias" ADD CONSTRAINT "PayeeAlias_payeeId_fkey" FOREIGN KEY ("payeeId") REFERENCES "Payee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "TransactionRevisionAction" AS ENUM ('UPDATE', 'DELETE', 'RESTORE', 'REVERT');
+
+-- CreateTable
+CREATE TABLE "TransactionRevision" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "actorUserId" TEXT,
+    "action" "TransactionRevisionAction" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "before" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TransactionRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionRevision_transactionId_createdAt_idx" ON "TransactionRevision"("transactionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TransactionRevision_actorUserId_idx" ON "TransactionRevision"("actorUserId");
+
+-- AddForeignKey
+ALTER TABLE "TransactionRevision" ADD CONSTRAINT "TransactionRevision_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionRevision" ADD CONSTRAINT "TransactionRevision_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "defaultReportViewId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SavedView" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "params" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "User_defaultReportViewId_idx" ON "User"("defaultReportViewId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedView_userId_name_key" ON "SavedView"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_defaultReportViewId_fkey" FOREIGN KEY ("defaultReportViewId") REFERENCES "SavedView"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedView" ADD CONSTRAINT "SavedView_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "RuleDescriptionMatch" AS ENUM ('CONTAINS', 'STARTS_WITH', 'REGEX');
+
+-- CreateTable
+CREATE TABLE "TransactionRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "descriptionMatch" "RuleDescriptionMatch",
+    "descriptionPattern" TEXT,
+    "minAmountCents" INTEGER,
+    "maxAmountCents" INTEGER,
+    "type" "TransactionType",
+    "paymentSourceId" TEXT,
+    "setCategoryId" TEXT,
+    "setPaymentSourceId" TEXT,
+    "renameTo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransactionRuleTag" (
+    "ruleId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+
+    CONSTRAINT "TransactionRuleTag_pkey" PRIMARY KEY ("ruleId","tagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransactionRule_userId_name_key" ON "TransactionRule"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "TransactionRule_userId_priority_idx" ON "TransactionRule"("userId", "priority");
+
+-- CreateIndex
+CREATE INDEX "TransactionRuleTag_tagId_idx" ON "TransactionRuleTag"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "TransactionRule" ADD CONSTRAINT "TransactionRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionRule" ADD CONSTRAINT "TransactionRule_paymentSourceId_fkey" FOREIGN KEY ("paymentSourceId") REFERENCES "PaymentSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionRule" ADD CONSTRAINT "TransactionRule_setCategoryId_fkey" FOREIGN KEY ("setCategoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionRule" ADD CONSTRAINT "TransactionRule_setPaymentSourceId_fkey" FOREIGN KEY ("setPaymentSourceId") REFERENCES "PaymentSource"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionRuleTag" ADD CONSTRAINT "TransactionRuleTag_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "TransactionRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionRuleTag" ADD CONSTRAINT "TransactionRuleTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "PaymentSource" ADD COLUMN     "archivedAt" TIMESTAMP(3);
@@ -0,0 +1,16 @@
+-- "Every month" budgets are stored with an empty month so the month can be part of a unique key
+UPDATE "Budget" SET "month" = '' WHERE "month" IS NULL;
+
+-- Keep the most recently updated budget for each (user, category, month)
+DELETE FROM "Budget" a
+USING "Budget" b
+WHERE a."userId" = b."userId"
+  AND a."categoryId" = b."categoryId"
+  AND a."month" = b."month"
+  AND (a."updatedAt", a."id") < (b."updatedAt", b."id");
+
+-- AlterTable
+ALTER TABLE "Budget" ALTER COLUMN "month" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_userId_categoryId_month_key" ON "Budget"("userId", "categoryId", "month");
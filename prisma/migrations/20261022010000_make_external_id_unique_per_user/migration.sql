@@ -0,0 +1,16 @@
+-- A FITID imported into more than one account keeps it on the oldest row only
+UPDATE "Transaction" t
+SET "externalId" = NULL
+WHERE t."externalId" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "Transaction" o
+    WHERE o."userId" = t."userId"
+      AND o."externalId" = t."externalId"
+      AND (o."createdAt", o."id") < (t."createdAt", t."id")
+  );
+
+-- DropIndex
+DROP INDEX "Transaction_paymentSourceId_externalId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_userId_externalId_key" ON "Transaction"("userId", "externalId");
@@ -1,6 +1,7 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { mergeAnonUser } from "@/lib/anonMerge";
 import { cookies } from "next/headers";
 import crypto from "crypto";
 
@@ -77,71 +78,7 @@ export async function POST() {
     });
   }
 
-  // Merge inside a transaction
-  await prisma.$transaction(async (tx) => {
-    // Ensure authed user exists
-    const authedUser = await tx.user.findUnique({
-      where: { id: authedUserId },
-      select: { id: true },
-    });
-    if (!authedUser) throw new Error(`Authed user not found: ${authedUserId}`);
-
-    const finalAuthedUserId = authedUser.id;
-
-    // Pull categories for both users
-    const [anonCategories, authedCategories] = await Promise.all([
-      tx.category.findMany({
-        where: { userId: anonUserId },
-        select: { id: true, name: true },
-      }),
-      tx.category.findMany({
-        where: { userId: finalAuthedUserId },
-        select: { id: true, name: true },
-      }),
-    ]);
-
-    const authedByName = new Map(
-      authedCategories.map((c) => [c.name.toLowerCase(), c.id])
-    );
-
-    // Merge categories with collision handling
-    for (const anonCat of anonCategories) {
-      const key = anonCat.name.toLowerCase();
-      const existingId = authedByName.get(key);
-
-      if (existingId) {
-        // Move anon transactions to existing authed category
-        await tx.transaction.updateMany({
-          where: { userId: anonUserId, categoryId: anonCat.id },
-          data: { categoryId: existingId },
-        });
-
-        // Delete anon category
-        await tx.category.delete({ where: { id: anonCat.id } });
-      } else {
-        // Reassign category to authed user
-        await tx.category.update({
-          where: { id: anonCat.id },
-          data: { userId: finalAuthedUserId },
-        });
-        authedByName.set(key, anonCat.id);
-      }
-    }
-
-    // Move all anon transactions to authed user
-    await tx.transaction.updateMany({
-      where: { userId: anonUserId },
-      data: { userId: finalAuthedUserId },
-    });
-
-    // Remove anon sessions for anon user
-    await tx.anonSession.deleteMany({ where: { userId: anonUserId } });
-
-    // Delete the anon user if truly anonymous
-    await tx.user.deleteMany({
-      where: { id: anonUserId, isAnonymous: true },
-    });
-  });
+  await mergeAnonUser({ anonUserId, authedUserId });
 
   // Clear cookie so user doesn't keep being prompted
   return new Response(null, {
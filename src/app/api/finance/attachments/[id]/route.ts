@@ -0,0 +1,125 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getAttachmentStorage } from "@/lib/storage";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+function getIdFromReq(req: Request): string | null {
+  // Works reliably in App Router route handlers
+  const url = new URL(req.url);
+  const parts = url.pathname.split("/").filter(Boolean);
+  const id = parts[parts.length - 1];
+  return id ? decodeURIComponent(id) : null;
+}
+
+/**
+ * GET /api/finance/attachments/:id
+ * The file itself, only for the user who owns its transaction.
+ * ?download=1 asks the browser to save instead of display.
+ */
+export async function GET(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = getIdFromReq(req);
+  if (!id) return json({ error: "Missing id" }, { status: 400 });
+
+  const attachment = await prisma.attachment.findFirst({
+    where: { id, transaction: { userId } },
+    select: { fileName: true, contentType: true, storageKey: true },
+  });
+  if (!attachment) return json({ error: "Not found" }, { status: 404 });
+
+  const data = await getAttachmentStorage().get(attachment.storageKey);
+  if (!data) return json({ error: "File is missing from storage" }, { status: 404 });
+
+  const download = new URL(req.url).searchParams.get("download") === "1";
+  const disposition = `${download ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(
+    attachment.fileName
+  )}`;
+
+  return new Response(data as BodyInit, {
+    headers: {
+      "Content-Type": attachment.contentType,
+      "Content-Length": String(data.byteLength),
+      "Content-Disposition": disposition,
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,221 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  sanitizeFileName,
+} from "@/lib/attachments";
+import { deleteStoredFiles, getAttachmentStorage } from "@/lib/storage";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+/** ----------------------------
+ * Attachments
+ * ---------------------------- */
+const ALLOWED_CONTENT_TYPES = new Set(ATTACHMENT_CONTENT_TYPES);
+
+const ATTACHMENT_SELECT = {
+  id: true,
+  transactionId: true,
+  fileName: true,
+  contentType: true,
+  sizeBytes: true,
+  createdAt: true,
+} as const;
+
+function parseIdFromUrl(req: Request, key = "id") {
+  const url = new URL(req.url);
+  return url.searchParams.get(key)?.trim() || null;
+}
+
+async function assertTransactionBelongsToUser(userId: string, transactionId: string) {
+  const exists = await prisma.transaction.findFirst({
+    where: { id: transactionId, userId, deletedAt: null },
+    select: { id: true },
+  });
+  return !!exists;
+}
+
+/**
+ * GET /api/finance/attachments?transactionId=...
+ */
+export async function GET(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json([]);
+
+  const transactionId = parseIdFromUrl(req, "transactionId");
+  if (!transactionId) {
+    return json({ error: 'Missing "transactionId" query param' }, { status: 400 });
+  }
+
+  const ok = await assertTransactionBelongsToUser(userId, transactionId);
+  if (!ok) return json({ error: "Not found" }, { status: 404 });
+
+  const attachments = await prisma.attachment.findMany({
+    where: { transactionId },
+    orderBy: { createdAt: "asc" },
+    select: ATTACHMENT_SELECT,
+  });
+
+  return json(attachments);
+}
+
+/**
+ * POST /api/finance/attachments
+ * multipart/form-data: transactionId, file (image or PDF, max 10 MB)
+ */
+export async function POST(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return json({ error: "Expected multipart/form-data" }, { status: 400 });
+  }
+
+  const transactionId = String(form.get("transactionId") ?? "").trim();
+  if (!transactionId) return json({ error: "transactionId is required" }, { status: 400 });
+
+  const file = form.get("file");
+  if (!(file instanceof File)) return json({ error: "file is required" }, { status: 400 });
+
+  if (!ALLOWED_CONTENT_TYPES.has(file.type)) {
+    return json({ error: "Only images (JPEG, PNG, WebP, GIF, HEIC) and PDFs can be attached" }, { status: 400 });
+  }
+  if (file.size === 0) return json({ error: "File is empty" }, { status: 400 });
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return json({ error: "File is too large (max 10 MB)" }, { status: 400 });
+  }
+
+  const ok = await assertTransactionBelongsToUser(userId, transactionId);
+  if (!ok) return json({ error: "Invalid transactionId" }, { status: 400 });
+
+  const count = await prisma.attachment.count({ where: { transactionId } });
+  if (count >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+    return json(
+      { error: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments` },
+      { status: 400 }
+    );
+  }
+
+  // Bytes first, row second: a failed insert leaves an orphan file, never a row without bytes
+  const storageKey = crypto.randomBytes(16).toString("hex");
+  await getAttachmentStorage().put(storageKey, new Uint8Array(await file.arrayBuffer()));
+
+  try {
+    const created = await prisma.attachment.create({
+      data: {
+        transactionId,
+        fileName: sanitizeFileName(file.name),
+        contentType: file.type,
+        sizeBytes: file.size,
+        storageKey,
+      },
+      select: ATTACHMENT_SELECT,
+    });
+    return json(created, { status: 201 });
+  } catch (err) {
+    await deleteStoredFiles([storageKey]);
+    throw err;
+  }
+}
+
+/**
+ * DELETE /api/finance/attachments?id=...
+ */
+export async function DELETE(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const existing = await prisma.attachment.findFirst({
+    where: { id, transaction: { userId } },
+    select: { id: true, storageKey: true },
+  });
+  if (!existing) return json({ error: "Not found" }, { status: 404 });
+
+  await prisma.attachment.delete({ where: { id } });
+  await deleteStoredFiles([existing.storageKey]);
+
+  return json({ ok: true });
+}
@@ -0,0 +1,128 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { EVERY_MONTH_KEY, parseBudgetMonth, readBudgetMonth } from "@/lib/budgets";
+import { MAX_AMOUNT_CENTS } from "@/lib/transactions";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+async function getAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+const BUDGET_SELECT = {
+  id: true,
+  categoryId: true,
+  month: true,
+  amountCents: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * GET /api/finance/budgets
+ * All budgets for the signed-in user ("every month" rows first).
+ */
+export async function GET() {
+  const userId = await getAuthedUserId();
+  if (!userId) return json([]);
+
+  const budgets = await prisma.budget.findMany({
+    where: { userId },
+    orderBy: [{ month: "asc" }],
+    select: BUDGET_SELECT,
+  });
+
+  return json(budgets.map((b) => ({ ...b, month: readBudgetMonth(b.month) })));
+}
+
+/**
+ * PUT /api/finance/budgets
+ * body: { categoryId: string, month: "YYYY-MM" | null, amountCents: number }
+ *
+ * Sets the budget for (category, month); month null = every month.
+ * Replaces an existing budget for the same pair.
+ */
+export async function PUT(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const categoryId = String(body?.categoryId ?? "").trim();
+  if (!categoryId) return json({ error: "categoryId is required" }, { status: 400 });
+
+  const month = parseBudgetMonth(body?.month);
+  if (!month.ok) return json({ error: month.error }, { status: 400 });
+
+  const amountCents = Number(body?.amountCents);
+  if (!Number.isInteger(amountCents) || amountCents <= 0 || amountCents > MAX_AMOUNT_CENTS) {
+    return json({ error: "amountCents must be a positive integer" }, { status: 400 });
+  }
+
+  const category = await prisma.category.findFirst({
+    where: { id: categoryId, userId },
+    select: { id: true },
+  });
+  if (!category) return json({ error: "Invalid categoryId" }, { status: 400 });
+
+  const monthKey = month.value ?? EVERY_MONTH_KEY;
+  const saved = await prisma.budget.upsert({
+    where: { userId_categoryId_month: { userId, categoryId, month: monthKey } },
+    update: { amountCents },
+    create: { userId, categoryId, month: monthKey, amountCents },
+    select: BUDGET_SELECT,
+  });
+
+  return json({ ...saved, month: readBudgetMonth(saved.month) });
+}
+
+/**
+ * DELETE /api/finance/budgets?id=...
+ */
+export async function DELETE(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const deleted = await prisma.budget.deleteMany({ where: { id, userId } });
+  if (deleted.count === 0) return json({ error: "Not found" }, { status: 404 });
+
+  return json({ ok: true });
+}
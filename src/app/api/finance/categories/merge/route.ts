@@ -0,0 +1,251 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { validateCategoryTree } from "@/lib/categories";
+import { loadTransactionSnapshots, recordTransactionRevisions } from "@/lib/revisions";
+import { readSavedViewParams } from "@/lib/savedViews";
+import { MAX_AMOUNT_CENTS } from "@/lib/transactions";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/**
+ * Logged-in only (categories are managed in Profile).
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+const CATEGORY_SELECT = {
+  id: true,
+  name: true,
+  sortOrder: true,
+  parentId: true,
+  archivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type MergeCounts = {
+  transactions: number; // rows using it directly or on a split line (trashed included)
+  budgets: number;
+  rules: number;
+  payees: number;
+  recurring: number;
+  subcategories: number;
+  savedViews: number;
+};
+
+// Everything that points at the category being merged away
+function transactionsUsing(userId: string, categoryId: string) {
+  return {
+    userId,
+    OR: [{ categoryId }, { splits: { some: { categoryId } } }],
+  };
+}
+
+async function savedViewsUsing(userId: string, categoryId: string) {
+  const views = await prisma.savedView.findMany({
+    where: { userId },
+    select: { id: true, params: true },
+  });
+  return views.flatMap((v) => {
+    const params = readSavedViewParams(v.params);
+    return params.categoryId === categoryId ? [{ id: v.id, params }] : [];
+  });
+}
+
+async function countMergeEffects(userId: string, sourceId: string): Promise<MergeCounts> {
+  const [transactions, budgets, rules, payees, recurring, subcategories, savedViews] = await Promise.all([
+    prisma.transaction.count({ where: transactionsUsing(userId, sourceId) }),
+    prisma.budget.count({ where: { userId, categoryId: sourceId } }),
+    prisma.transactionRule.count({ where: { userId, setCategoryId: sourceId } }),
+    prisma.payee.count({ where: { userId, defaultCategoryId: sourceId } }),
+    prisma.recurringTransaction.count({ where: { userId, categoryId: sourceId } }),
+    prisma.category.count({ where: { userId, parentId: sourceId } }),
+    savedViewsUsing(userId, sourceId),
+  ]);
+
+  return { transactions, budgets, rules, payees, recurring, subcategories, savedViews: savedViews.length };
+}
+
+/**
+ * POST /api/finance/categories/merge
+ * body: { sourceId: string, targetId: string, dryRun?: boolean }
+ *
+ * Moves everything on the source category onto the target (transactions and
+ * split lines, budgets, rules, payee defaults, recurring transactions, saved
+ * views, subcategories), then deletes the source and renumbers sortOrder.
+ * The target can't be archived.
+ * Moved transactions get an UPDATE in their history. Budgets for the same
+ * month add up. All in one database transaction.
+ *
+ * With dryRun nothing changes: returns { counts } for the preview.
+ * Otherwise returns { counts, categories } (the updated list).
+ */
+export async function POST(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const sourceId = String(body?.sourceId ?? "").trim();
+  const targetId = String(body?.targetId ?? "").trim();
+  if (!sourceId || !targetId) {
+    return json({ error: "sourceId and targetId are required" }, { status: 400 });
+  }
+  if (sourceId === targetId) {
+    return json({ error: "A category can't be merged into itself" }, { status: 400 });
+  }
+
+  const all = await prisma.category.findMany({
+    where: { userId },
+    select: { id: true, parentId: true, archivedAt: true },
+  });
+  const source = all.find((c) => c.id === sourceId);
+  const target = all.find((c) => c.id === targetId);
+  if (!source) return json({ error: "Not found" }, { status: 404 });
+  if (!target) return json({ error: "Invalid targetId" }, { status: 400 });
+  if (target.archivedAt) return json({ error: "Target category is archived" }, { status: 400 });
+
+  // Subcategories move under the target; a target nested in the source takes its place
+  const parentAfterMerge = (c: { id: string; parentId: string | null }) => {
+    if (c.id === targetId && c.parentId === sourceId) return source.parentId;
+    if (c.parentId === sourceId) return targetId;
+    return c.parentId;
+  };
+  const treeError = validateCategoryTree(
+    all.filter((c) => c.id !== sourceId).map((c) => ({ id: c.id, parentId: parentAfterMerge(c) }))
+  );
+  if (treeError) return json({ error: treeError }, { status: 400 });
+
+  const counts = await countMergeEffects(userId, sourceId);
+  if (body?.dryRun === true) return json({ counts });
+
+  const views = await savedViewsUsing(userId, sourceId);
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Transactions and split lines, with the same history entries a hand edit records
+      const moved = await tx.transaction.findMany({
+        where: transactionsUsing(userId, sourceId),
+        select: { id: true },
+      });
+      const ids = moved.map((t) => t.id);
+      const before = await loadTransactionSnapshots(tx, ids);
+
+      await tx.transaction.updateMany({
+        where: { userId, categoryId: sourceId },
+        data: { categoryId: targetId },
+      });
+      await tx.transactionSplit.updateMany({
+        where: { categoryId: sourceId, transaction: { userId } },
+        data: { categoryId: targetId },
+      });
+
+      const after = await loadTransactionSnapshots(tx, ids);
+      await recordTransactionRevisions(
+        tx,
+        userId,
+        "UPDATE",
+        ids.flatMap((id) =>
+          before.has(id) && after.has(id) ? [{ transactionId: id, before: before.get(id)!, after: after.get(id)! }] : []
+        )
+      );
+
+      // Budgets: a month both have adds up, the rest just move
+      const budgets = await tx.budget.findMany({
+        where: { userId, categoryId: { in: [sourceId, targetId] } },
+        select: { id: true, categoryId: true, month: true, amountCents: true },
+      });
+      for (const b of budgets.filter((x) => x.categoryId === sourceId)) {
+        const existing = budgets.find((x) => x.categoryId === targetId && x.month === b.month);
+        if (existing) {
+          await tx.budget.update({
+            where: { id: existing.id },
+            data: { amountCents: Math.min(existing.amountCents + b.amountCents, MAX_AMOUNT_CENTS) },
+          });
+          await tx.budget.delete({ where: { id: b.id } });
+        } else {
+          await tx.budget.update({ where: { id: b.id }, data: { categoryId: targetId } });
+        }
+      }
+
+      await tx.transactionRule.updateMany({
+        where: { userId, setCategoryId: sourceId },
+        data: { setCategoryId: targetId },
+      });
+      await tx.payee.updateMany({
+        where: { userId, defaultCategoryId: sourceId },
+        data: { defaultCategoryId: targetId },
+      });
+      await tx.recurringTransaction.updateMany({
+        where: { userId, categoryId: sourceId },
+        data: { categoryId: targetId },
+      });
+      for (const v of views) {
+        await tx.savedView.update({
+          where: { id: v.id },
+          data: { params: { ...v.params, categoryId: targetId } },
+        });
+      }
+
+      if (target.parentId === sourceId) {
+        await tx.category.update({ where: { id: targetId }, data: { parentId: source.parentId } });
+      }
+      await tx.category.updateMany({
+        where: { userId, parentId: sourceId },
+        data: { parentId: targetId },
+      });
+
+      await tx.category.delete({ where: { id: sourceId } });
+
+      // Close the gap the source left in the order
+      const remaining = await tx.category.findMany({
+        where: { userId },
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        select: { id: true, sortOrder: true },
+      });
+      for (let idx = 0; idx < remaining.length; idx++) {
+        if (remaining[idx].sortOrder === idx) continue;
+        await tx.category.update({ where: { id: remaining[idx].id }, data: { sortOrder: idx } });
+      }
+    },
+    { timeout: 60_000 }
+  );
+
+  const categories = await prisma.category.findMany({
+    where: { userId },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    select: CATEGORY_SELECT,
+  });
+
+  return json({ counts, categories });
+}
@@ -1,6 +1,8 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { categorySubtreeIds, validateCategoryTree } from "@/lib/categories";
 import { cookies } from "next/headers";
 import crypto from "crypto";
 
@@ -146,6 +148,84 @@ async function assertCategoryBelongsToUser(userId: string, categoryId: string) {
   return !!exists;
 }
 
+const CATEGORY_SELECT = {
+  id: true,
+  name: true,
+  sortOrder: true,
+  parentId: true,
+  archivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// undefined = leave as is, null = top level
+function parseParentId(raw: unknown): string | null | undefined {
+  if (raw === undefined) return undefined;
+  if (raw === null || raw === "") return null;
+  return String(raw).trim() || null;
+}
+
+/**
+ * Checks the user's category tree with some parents changed (and an
+ * optional new category added), including that no active category ends up
+ * inside an archived one. `archived` overrides a category's own archived
+ * state for the check. Returns an error message or null.
+ */
+async function checkCategoryTree(
+  userId: string,
+  parents: Map<string, string | null>,
+  added?: { id: string; parentId: string | null },
+  archived?: Map<string, boolean>
+): Promise<string | null> {
+  const current = await prisma.category.findMany({
+    where: { userId },
+    select: { id: true, parentId: true, archivedAt: true },
+  });
+
+  const next = current.map((c) => ({ id: c.id, parentId: parents.has(c.id) ? parents.get(c.id)! : c.parentId }));
+  if (added) next.push(added);
+  const treeError = validateCategoryTree(next);
+  if (treeError) return treeError;
+
+  const archivedIds = new Set(current.filter((c) => c.archivedAt).map((c) => c.id));
+  const isArchived = (id: string) => archived?.get(id) ?? archivedIds.has(id);
+  const moved = [...parents, ...(added ? [[added.id, added.parentId] as const] : [])];
+  if (moved.some(([id, parentId]) => parentId && isArchived(parentId) && !isArchived(id))) {
+    return "Parent category is archived";
+  }
+
+  return null;
+}
+
+/**
+ * Archives a category with everything nested under it, or unarchives it
+ * along with its parents (an active category never sits inside an archived one).
+ */
+async function setCategoryArchived(db: Prisma.TransactionClient, userId: string, id: string, archived: boolean) {
+  const all = await db.category.findMany({
+    where: { userId },
+    select: { id: true, name: true, parentId: true },
+  });
+
+  let ids: string[];
+  if (archived) {
+    ids = [...categorySubtreeIds(all, id)];
+  } else {
+    ids = [];
+    const byId = new Map(all.map((c) => [c.id, c]));
+    let cur: string | null = id;
+    while (cur && byId.has(cur) && !ids.includes(cur)) {
+      ids.push(cur);
+      cur = byId.get(cur)!.parentId;
+    }
+  }
+
+  await db.category.updateMany({
+    where: { userId, id: { in: ids }, archivedAt: archived ? null : { not: null } },
+    data: { archivedAt: archived ? new Date() : null },
+  });
+}
+
 async function getNextSortOrder(userId: string): Promise<number> {
   const max = await prisma.category.aggregate({
     where: { userId },
@@ -163,13 +243,7 @@ export async function GET() {
   const categories = await prisma.category.findMany({
     where: { userId },
     orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
-    select: {
-      id: true,
-      name: true,
-      sortOrder: true,
-      createdAt: true,
-      updatedAt: true,
-    },
+    select: CATEGORY_SELECT,
   });
 
   return json(categories);
@@ -192,19 +266,19 @@ export async function POST(req: Request) {
     return json({ error: "name is too long (max 40)" }, { status: 400 });
   }
 
+  const parentId = parseParentId(body?.parentId) ?? null;
+  if (parentId) {
+    const treeError = await checkCategoryTree(userId, new Map(), { id: "__new__", parentId });
+    if (treeError) return json({ error: treeError }, { status: 400 });
+  }
+
   // Append to end by default
   const sortOrder = await getNextSortOrder(userId);
 
   try {
     const created = await prisma.category.create({
-      data: { userId, name, sortOrder },
-      select: {
-        id: true,
-        name: true,
-        sortOrder: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      data: { userId, name, sortOrder, parentId },
+      select: CATEGORY_SELECT,
     });
 
     return json(created, {
@@ -223,13 +297,16 @@ export async function POST(req: Request) {
 /**
  * PATCH supports:
  *
- * 1) Rename (and/or set sortOrder):
+ * 1) Rename (and/or set sortOrder / parent / archived):
  *    PATCH /api/finance/categories?id=CATEGORY_ID
- *    body: { name?: string, sortOrder?: number }
+ *    body: { name?: string, sortOrder?: number, parentId?: string | null, archived?: boolean }
+ *    // archiving takes its subcategories along; unarchiving brings back its parents
  *
  * 2) Reorder (bulk):
  *    PATCH /api/finance/categories
- *    body: { order: string[] }  // array of category ids in desired order
+ *    body: { order: Array<string | { id: string, parentId?: string | null }> }
+ *    // category ids in desired order; objects also move the category under
+ *    // parentId (null = top level)
  *
  * Note: Editing/reordering is logged-in only (guests can view, but cannot customize).
  */
@@ -250,21 +327,27 @@ export async function PATCH(req: Request) {
   if (!id) {
     const order = body?.order;
 
-    if (
-      !Array.isArray(order) ||
-      order.some((x: any) => typeof x !== "string")
-    ) {
+    const isEntry = (x: unknown) =>
+      typeof x === "string" ||
+      (typeof x === "object" && x !== null && typeof (x as { id?: unknown }).id === "string");
+
+    if (!Array.isArray(order) || !order.every(isEntry)) {
       return json(
-        { error: "For reorder, body must be: { order: string[] }" },
+        { error: "For reorder, body must be: { order: Array<string | { id, parentId? }> }" },
         { status: 400 }
       );
     }
 
     // De-dupe while preserving order
     const ids: string[] = [];
-    for (const raw of order) {
-      const v = raw.trim();
-      if (v && !ids.includes(v)) ids.push(v);
+    const parents = new Map<string, string | null>();
+    for (const entry of order as Array<string | { id: string; parentId?: unknown }>) {
+      const v = (typeof entry === "string" ? entry : entry.id).trim();
+      if (!v || ids.includes(v)) continue;
+      ids.push(v);
+
+      const parentId = typeof entry === "string" ? undefined : parseParentId(entry.parentId);
+      if (parentId !== undefined) parents.set(v, parentId);
     }
 
     if (ids.length === 0) {
@@ -284,12 +367,20 @@ export async function PATCH(req: Request) {
       );
     }
 
-    // Apply sortOrder atomically
+    if (parents.size > 0) {
+      const treeError = await checkCategoryTree(userId, parents);
+      if (treeError) return json({ error: treeError }, { status: 400 });
+    }
+
+    // Apply sortOrder (and parents) atomically
     await prisma.$transaction(async (tx) => {
       for (let idx = 0; idx < ids.length; idx++) {
         await tx.category.update({
           where: { id: ids[idx] },
-          data: { sortOrder: idx },
+          data: {
+            sortOrder: idx,
+            ...(parents.has(ids[idx]) ? { parentId: parents.get(ids[idx]) } : {}),
+          },
         });
       }
     });
@@ -297,21 +388,20 @@ export async function PATCH(req: Request) {
     const updated = await prisma.category.findMany({
       where: { userId },
       orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
-      select: {
-        id: true,
-        name: true,
-        sortOrder: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select: CATEGORY_SELECT,
     });
 
     return json(updated);
   }
 
-  // -------- Single category update (rename/sortOrder) --------
+  // -------- Single category update (rename/sortOrder/parent/archived) --------
   const data: any = {};
 
+  if (body?.archived !== undefined && typeof body.archived !== "boolean") {
+    return json({ error: "archived must be a boolean" }, { status: 400 });
+  }
+  const archived: boolean | undefined = body?.archived;
+
   if (body?.name !== undefined) {
     const name = String(body?.name ?? "").trim();
     if (!name) return json({ error: "name cannot be empty" }, { status: 400 });
@@ -331,7 +421,10 @@ export async function PATCH(req: Request) {
     data.sortOrder = n;
   }
 
-  if (Object.keys(data).length === 0) {
+  const parentId = parseParentId(body?.parentId);
+  if (parentId !== undefined) data.parentId = parentId;
+
+  if (Object.keys(data).length === 0 && archived === undefined) {
     return json({ error: "No valid fields to update" }, { status: 400 });
   }
 
@@ -339,17 +432,25 @@ export async function PATCH(req: Request) {
   const ok = await assertCategoryBelongsToUser(userId, id);
   if (!ok) return json({ error: "Not found" }, { status: 404 });
 
+  // Validate everything before writing anything
+  if (parentId !== undefined) {
+    const treeError = await checkCategoryTree(
+      userId,
+      new Map([[id, parentId]]),
+      undefined,
+      archived === undefined ? undefined : new Map([[id, archived]])
+    );
+    if (treeError) return json({ error: treeError }, { status: 400 });
+  }
+
   try {
-    const updated = await prisma.category.update({
-      where: { id },
-      data,
-      select: {
-        id: true,
-        name: true,
-        sortOrder: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    // The archive change sees the new parent, and both land or neither does
+    const updated = await prisma.$transaction(async (tx) => {
+      if (Object.keys(data).length > 0) {
+        await tx.category.update({ where: { id }, data });
+      }
+      if (archived !== undefined) await setCategoryArchived(tx, userId, id, archived);
+      return tx.category.findUnique({ where: { id }, select: CATEGORY_SELECT });
     });
 
     return json(updated);
@@ -365,6 +466,7 @@ export async function PATCH(req: Request) {
 /**
  * DELETE /api/finance/categories?id=CATEGORY_ID
  * body (optional): { reassignToCategoryId?: string | null }
+ * Its subcategories move up a level (they are not deleted).
  *
  * Logged-in only (guests cannot customize categories).
  */
@@ -425,6 +527,13 @@ export async function DELETE(req: Request) {
       });
     }
 
+    // Subcategories move up to this category's parent
+    const deleted = await tx.category.findUnique({ where: { id }, select: { parentId: true } });
+    await tx.category.updateMany({
+      where: { userId, parentId: id },
+      data: { parentId: deleted?.parentId ?? null },
+    });
+
     await tx.category.delete({
       where: { id },
     });
@@ -0,0 +1,100 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { suggestCategories } from "@/lib/suggestions";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+/**
+ * GET /api/finance/categories/suggest?description=blue%20bottle&limit=3
+ * -> [{ categoryId, name, confidence }] best first (confidence 0..1)
+ *
+ * Guests get suggestions too (the model learns from their own rows).
+ */
+export async function GET(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json([]);
+
+  const url = new URL(req.url);
+  const description = (url.searchParams.get("description") ?? "").trim();
+  if (!description) return json([]);
+
+  const limitRaw = Number(url.searchParams.get("limit") ?? "3");
+  const limit = Number.isInteger(limitRaw) ? limitRaw : 3;
+
+  const suggestions = await suggestCategories(userId, description, limit);
+  return json(suggestions);
+}
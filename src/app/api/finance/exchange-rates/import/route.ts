@@ -0,0 +1,90 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_CURRENCY, parseExchangeRatesCsv } from "@/lib/currency";
+import { parseLocalDateOnly } from "@/lib/transactions";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+async function getAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+
+/**
+ * POST /api/finance/exchange-rates/import
+ * body: { csv: string }
+ *
+ * CSV header: date, from, to, rate ("to" optional = base currency).
+ * Valid rows are upserted (same pair + day replaces the old rate);
+ * invalid rows are reported back and skipped.
+ */
+export async function POST(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const csv = typeof body?.csv === "string" ? body.csv : "";
+  if (!csv.trim()) return json({ error: "csv is required" }, { status: 400 });
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { baseCurrency: true },
+  });
+
+  const parsed = parseExchangeRatesCsv(csv, user?.baseCurrency ?? DEFAULT_CURRENCY);
+  if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
+
+  const imported = await prisma.$transaction(
+    async (tx) => {
+      for (const r of parsed.rows) {
+        const date = parseLocalDateOnly(r.date)!;
+        await tx.exchangeRate.upsert({
+          where: {
+            userId_fromCurrency_toCurrency_date: {
+              userId,
+              fromCurrency: r.fromCurrency,
+              toCurrency: r.toCurrency,
+              date,
+            },
+          },
+          create: { userId, fromCurrency: r.fromCurrency, toCurrency: r.toCurrency, date, rate: r.rate },
+          update: { rate: r.rate },
+        });
+      }
+      return parsed.rows.length;
+    },
+    { timeout: 60_000 }
+  );
+
+  return json({ ok: true, imported, skipped: parsed.errors.length, errors: parsed.errors.slice(0, 20) });
+}
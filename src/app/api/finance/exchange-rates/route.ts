@@ -0,0 +1,133 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseCurrencyCode, parseRate } from "@/lib/currency";
+import { parseLocalDateOnly } from "@/lib/transactions";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+async function getAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+const RATE_SELECT = {
+  id: true,
+  fromCurrency: true,
+  toCurrency: true,
+  date: true,
+  rate: true,
+} as const;
+
+/**
+ * GET /api/finance/exchange-rates
+ * Every rate for the signed-in user, newest first.
+ */
+export async function GET() {
+  const userId = await getAuthedUserId();
+  if (!userId) return json([]);
+
+  const rates = await prisma.exchangeRate.findMany({
+    where: { userId },
+    orderBy: [{ date: "desc" }, { fromCurrency: "asc" }, { toCurrency: "asc" }],
+    select: RATE_SELECT,
+  });
+
+  return json(rates);
+}
+
+/**
+ * PUT /api/finance/exchange-rates
+ * body: { date: "YYYY-MM-DD", fromCurrency: "EUR", toCurrency?: "USD", rate: 1.08 }
+ *
+ * 1 fromCurrency = rate toCurrency from `date` on; toCurrency defaults to the
+ * user's base currency. Replaces a rate already set for the same pair + day.
+ */
+export async function PUT(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const date = parseLocalDateOnly(body?.date);
+  if (!date) return json({ error: "date must be YYYY-MM-DD" }, { status: 400 });
+
+  const fromCurrency = parseCurrencyCode(body?.fromCurrency);
+  if (!fromCurrency) return json({ error: "Invalid fromCurrency" }, { status: 400 });
+
+  let toCurrency: string | null;
+  if (body?.toCurrency === undefined || body?.toCurrency === null || body?.toCurrency === "") {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true },
+    });
+    toCurrency = user?.baseCurrency ?? null;
+  } else {
+    toCurrency = parseCurrencyCode(body.toCurrency);
+  }
+  if (!toCurrency) return json({ error: "Invalid toCurrency" }, { status: 400 });
+  if (toCurrency === fromCurrency) {
+    return json({ error: "fromCurrency and toCurrency must differ" }, { status: 400 });
+  }
+
+  const rate = parseRate(body?.rate);
+  if (rate === null) return json({ error: "rate must be a positive number" }, { status: 400 });
+
+  const saved = await prisma.exchangeRate.upsert({
+    where: { userId_fromCurrency_toCurrency_date: { userId, fromCurrency, toCurrency, date } },
+    create: { userId, fromCurrency, toCurrency, date, rate },
+    update: { rate },
+    select: RATE_SELECT,
+  });
+
+  return json(saved);
+}
+
+/**
+ * DELETE /api/finance/exchange-rates?id=...
+ */
+export async function DELETE(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const deleted = await prisma.exchangeRate.deleteMany({ where: { id, userId } });
+  if (deleted.count === 0) return json({ error: "Not found" }, { status: 404 });
+
+  return json({ ok: true });
+}
@@ -0,0 +1,345 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { toCsvLine } from "@/lib/csv";
+import { Prisma } from "@prisma/client";
+import { formatLocalDateOnly, TRANSACTION_LIST_ORDER_BY, transactionsAfterWhere } from "@/lib/transactions";
+import { parseDateFilter, parseTransactionListFilter } from "@/lib/search";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+/** ----------------------------
+ * Filters (same params as the Reports page / ReportsFilters form)
+ * ---------------------------- */
+
+function currentMonthYYYYMM() {
+  const d = new Date();
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  return `${y}-${m}`;
+}
+
+function parseMonth(month: string | null) {
+  const value = (month ?? "").trim() || currentMonthYYYYMM();
+  if (!/^\d{4}-\d{2}$/.test(value)) {
+    return { ok: false as const, error: 'Invalid "month". Use YYYY-MM.' };
+  }
+
+  const [y, m] = value.split("-").map(Number);
+  if (!Number.isInteger(y) || !Number.isInteger(m) || m < 1 || m > 12) {
+    return { ok: false as const, error: 'Invalid "month". Use YYYY-MM.' };
+  }
+
+  // Month range (UTC), matching the Reports page
+  const start = new Date(Date.UTC(y, m - 1, 1));
+  const end = new Date(Date.UTC(y, m, 1));
+  return { ok: true as const, month: value, range: { start, end } };
+}
+
+function parseFormat(value: string | null) {
+  const v = (value ?? "csv").trim().toLowerCase();
+  if (v === "csv" || v === "json") return { ok: true as const, value: v };
+  return { ok: false as const, error: 'Invalid "format". Use csv or json.' };
+}
+
+/** ----------------------------
+ * Rows
+ * ---------------------------- */
+
+const BATCH_SIZE = 500;
+
+const CSV_HEADER = [
+  "date",
+  "description",
+  "type",
+  "amount",
+  "currency",
+  "category",
+  "payee",
+  "account",
+  "to_account",
+  "notes",
+  "tags",
+  "status",
+];
+
+type ExportRow = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  type: "EXPENSE" | "INCOME" | "TRANSFER";
+  amountCents: number; // signed: expenses negative (transfers positive)
+  amount: string; // signed, e.g. "-12.50"
+  currency: string;
+  category: string | null; // split rows: every line's category, "; "-separated
+  payee: string | null;
+  account: string | null; // transfers: the "from" account
+  toAccount: string | null; // transfers only
+  notes: string | null;
+  tags: string[]; // tag names
+  status: "PENDING" | "CLEARED" | "RECONCILED";
+  splits: Array<{
+    category: string | null;
+    amountCents: number; // signed like the parent
+    amount: string;
+    note: string | null;
+  }>;
+};
+
+const EXPORT_SELECT = {
+  id: true,
+  date: true,
+  createdAt: true,
+  description: true,
+  type: true,
+  amountCents: true,
+  currency: true,
+  notes: true,
+  status: true,
+  category: { select: { name: true } },
+  payee: { select: { name: true } },
+  paymentSource: { select: { name: true } },
+  transferToPaymentSource: { select: { name: true } },
+  splits: {
+    orderBy: { sortOrder: "asc" },
+    select: { amountCents: true, note: true, category: { select: { name: true } } },
+  },
+  tags: {
+    orderBy: { tag: { name: "asc" } },
+    select: { tag: { select: { name: true } } },
+  },
+} satisfies Prisma.TransactionSelect;
+
+type ExportSourceRow = Prisma.TransactionGetPayload<{ select: typeof EXPORT_SELECT }>;
+
+// Pages by sort key like the transaction list, so rows added or deleted
+// while the file streams aren't skipped or repeated
+async function* readRows(where: Prisma.TransactionWhereInput): AsyncGenerator<ExportRow> {
+  let last: ExportSourceRow | null = null;
+
+  for (;;) {
+    const batch: ExportSourceRow[] = await prisma.transaction.findMany({
+      where: last ? { AND: [where, transactionsAfterWhere(last)] } : where,
+      orderBy: TRANSACTION_LIST_ORDER_BY,
+      take: BATCH_SIZE,
+      select: EXPORT_SELECT,
+    });
+
+    for (const t of batch) {
+      const sign = t.type === "EXPENSE" ? -1 : 1;
+      const signed = sign * t.amountCents;
+      const splits = t.splits.map((sp) => ({
+        category: sp.category?.name ?? null,
+        amountCents: sign * sp.amountCents,
+        amount: ((sign * sp.amountCents) / 100).toFixed(2),
+        note: sp.note ?? null,
+      }));
+      yield {
+        id: t.id,
+        date: formatLocalDateOnly(t.date),
+        description: t.description,
+        type: t.type,
+        amountCents: signed,
+        amount: (signed / 100).toFixed(2),
+        currency: t.currency,
+        category: splits.length
+          ? splits.map((sp) => sp.category ?? "Uncategorized").join("; ")
+          : t.category?.name ?? null,
+        payee: t.payee?.name ?? null,
+        account: t.paymentSource?.name ?? null,
+        toAccount: t.transferToPaymentSource?.name ?? null,
+        notes: t.notes ?? null,
+        tags: t.tags.map((tt) => tt.tag.name),
+        status: t.status,
+        splits,
+      };
+    }
+
+    if (batch.length < BATCH_SIZE) return;
+    last = batch[batch.length - 1];
+  }
+}
+
+function streamCsv(rows: AsyncGenerator<ExportRow>) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        controller.enqueue(encoder.encode(toCsvLine(CSV_HEADER)));
+        for await (const r of rows) {
+          const line = toCsvLine([
+            r.date,
+            r.description,
+            r.type,
+            r.amount,
+            r.currency,
+            r.category,
+            r.payee,
+            r.account,
+            r.toAccount,
+            r.notes,
+            r.tags.join("; "),
+            r.status,
+          ]);
+          controller.enqueue(encoder.encode(line));
+        }
+        controller.close();
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+  });
+}
+
+function streamJson(rows: AsyncGenerator<ExportRow>) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        controller.enqueue(encoder.encode("["));
+        let first = true;
+        for await (const r of rows) {
+          controller.enqueue(encoder.encode((first ? "\n" : ",\n") + JSON.stringify(r)));
+          first = false;
+        }
+        controller.enqueue(encoder.encode("\n]\n"));
+        controller.close();
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+  });
+}
+
+/**
+ * GET /api/finance/export?format=csv|json&month=YYYY-MM&range=&from=&to=&minAmount=&maxAmount=&type=&q=&categoryId=&paymentSourceId=&tagId=&payeeId=&status=
+ *
+ * Streams every transaction matching the transaction list filters (lib/search)
+ * as a file download.
+ * - month defaults to the current month; range (a preset) or from/to (YYYY-MM-DD) replace it
+ * - minAmount / maxAmount: absolute amount bounds; type: EXPENSE | INCOME | TRANSFER
+ * - q: search query (see lib/search)
+ * - categoryId: "" | "uncategorized" | id (split transactions match on any line)
+ * - paymentSourceId: "" | "unassigned" | id (transfers match either side)
+ * - tagId: "" | "untagged" | id
+ * - payeeId: "" | "none" | id
+ * - status: PENDING | CLEARED | RECONCILED
+ * Amounts are signed (expenses negative).
+ */
+export async function GET(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const url = new URL(req.url);
+
+  const format = parseFormat(url.searchParams.get("format"));
+  if (!format.ok) return json({ error: format.error }, { status: 400 });
+
+  const parsedMonth = parseMonth(url.searchParams.get("month"));
+  if (!parsedMonth.ok) return json({ error: parsedMonth.error }, { status: 400 });
+
+  // range / from / to replace the month when given (same precedence as Reports)
+  const params = new URLSearchParams(url.searchParams);
+  params.set("month", parsedMonth.month);
+
+  const filter = parseTransactionListFilter(params);
+  if (!filter.ok) return json({ error: filter.error }, { status: 400 });
+
+  // Only names the file: the filter above already checked these
+  const date = parseDateFilter({
+    month: parsedMonth.month,
+    from: params.get("from"),
+    to: params.get("to"),
+    range: params.get("range"),
+  });
+  if (!date.ok) return json({ error: date.error }, { status: 400 });
+
+  const rows = readRows({ userId, deletedAt: null, ...filter.where });
+  const period =
+    date.value.from || date.value.to
+      ? `${date.value.from || "start"}_${date.value.to || "today"}`
+      : parsedMonth.month;
+  const filename = `zento-transactions-${period}.${format.value}`;
+
+  return new Response(format.value === "csv" ? streamCsv(rows) : streamJson(rows), {
+    headers: {
+      "Content-Type":
+        format.value === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,605 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  CSV_DATE_FORMATS,
+  CSV_DECIMAL_SEPARATORS,
+  detectCsvDecimalSeparator,
+  normalizeCsvDate,
+  parseCsv,
+  parseCsvAmountToCents,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type CsvDecimalSeparator,
+} from "@/lib/csv";
+import {
+  inferTransactionType,
+  parseLocalDateOnly,
+  parseSignedAmountCents,
+  type TransactionType,
+} from "@/lib/transactions";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { loadPayeeMatcher, matchPayee } from "@/lib/payees";
+import { loadTransactionRules, runTransactionRules } from "@/lib/rules";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+const ANON_MAX_AGE_SECONDS = 60 * 60 * 24 * 180; // 180 days
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+function makeCookieHeader(token: string) {
+  const secure = process.env.NODE_ENV === "production" ? " Secure;" : "";
+  return `${ANON_COOKIE}=${encodeURIComponent(
+    token
+  )}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${ANON_MAX_AGE_SECONDS};${secure}`;
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+async function getUserIdOrCreateAnonForWrite(): Promise<{
+  userId: string;
+  setCookie: string | null;
+}> {
+  const existing = await getUserIdOrNull();
+  if (existing.userId) return { userId: existing.userId, setCookie: null };
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const tokenHash = hashToken(token);
+  const expiresAt = new Date(Date.now() + ANON_MAX_AGE_SECONDS * 1000);
+
+  const created = await prisma.user.create({
+    data: {
+      isAnonymous: true,
+      anonSessions: {
+        create: {
+          tokenHash,
+          expiresAt,
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  return { userId: created.id, setCookie: makeCookieHeader(token) };
+}
+
+/** ----------------------------
+ * CSV import
+ * ---------------------------- */
+
+const MAX_ROWS = 5000;
+
+// categoryMap values besides a real category id
+const CATEGORY_CREATE = "__create__";
+const CATEGORY_NONE = "";
+
+type ImportRow = {
+  line: number; // 1-based line in the CSV file
+  date: string | null; // YYYY-MM-DD
+  description: string;
+  amountCents: number | null; // signed (negative = expense)
+  type: TransactionType | null;
+  categoryName: string | null;
+  categoryId: string | null;
+  createCategory: boolean;
+  paymentSourceId: string | null;
+  notes: string | null;
+  error: string | null;
+};
+
+function parseColumnIndex(input: unknown): number | null {
+  if (input === undefined || input === null || input === "") return null;
+  const n = typeof input === "string" ? Number(input) : input;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > 200) return null;
+  return n;
+}
+
+function parseMapping(
+  input: unknown
+): { ok: true; value: CsvColumnMapping } | { ok: false; error: string } {
+  const raw = (input ?? {}) as Record<string, unknown>;
+
+  const date = parseColumnIndex(raw.date);
+  const description = parseColumnIndex(raw.description);
+  if (date === null) return { ok: false, error: "mapping.date is required" };
+  if (description === null) {
+    return { ok: false, error: "mapping.description is required" };
+  }
+
+  const mapping: CsvColumnMapping = {
+    date,
+    description,
+    amount: parseColumnIndex(raw.amount),
+    debit: parseColumnIndex(raw.debit),
+    credit: parseColumnIndex(raw.credit),
+    category: parseColumnIndex(raw.category),
+    account: parseColumnIndex(raw.account),
+    notes: parseColumnIndex(raw.notes),
+  };
+
+  const hasAmount = mapping.amount !== null;
+  const hasDebitCredit = mapping.debit !== null || mapping.credit !== null;
+  if (!hasAmount && !hasDebitCredit) {
+    return {
+      ok: false,
+      error: "mapping must include amount, or debit and/or credit",
+    };
+  }
+
+  return { ok: true, value: mapping };
+}
+
+function parseDateFormat(input: unknown): CsvDateFormat | null {
+  if (input === undefined || input === null || input === "") return "YYYY-MM-DD";
+  const v = String(input).trim().toUpperCase();
+  return CSV_DATE_FORMATS.includes(v as CsvDateFormat) ? (v as CsvDateFormat) : null;
+}
+
+// undefined => detect from the amount cells
+function parseDecimalSeparator(input: unknown): CsvDecimalSeparator | undefined | null {
+  if (input === undefined || input === null || input === "") return undefined;
+  const v = String(input).trim();
+  return CSV_DECIMAL_SEPARATORS.includes(v as CsvDecimalSeparator) ? (v as CsvDecimalSeparator) : null;
+}
+
+function parseCategoryMap(input: unknown): Map<string, string> {
+  const out = new Map<string, string>();
+  if (!input || typeof input !== "object" || Array.isArray(input)) return out;
+  for (const [k, v] of Object.entries(input as Record<string, unknown>)) {
+    if (typeof v !== "string") continue;
+    out.set(k.trim().toLowerCase(), v.trim());
+  }
+  return out;
+}
+
+function cell(row: string[], idx: number | null | undefined) {
+  if (idx === null || idx === undefined) return "";
+  return (row[idx] ?? "").trim();
+}
+
+/**
+ * Amount cell(s) -> signed cents.
+ * - single "amount" column: sign as exported (optionally inverted for card exports)
+ * - debit/credit columns: debit = expense (negative), credit = income (positive)
+ */
+function readSignedAmount(
+  row: string[],
+  mapping: CsvColumnMapping,
+  invert: boolean,
+  decimalSeparator: CsvDecimalSeparator
+) {
+  if (mapping.amount !== null && mapping.amount !== undefined) {
+    const cents = parseCsvAmountToCents(cell(row, mapping.amount), decimalSeparator);
+    if (cents === null) return null;
+    return invert ? -cents : cents;
+  }
+
+  const debit = parseCsvAmountToCents(cell(row, mapping.debit), decimalSeparator);
+  const credit = parseCsvAmountToCents(cell(row, mapping.credit), decimalSeparator);
+
+  if (debit !== null && debit !== 0) return -Math.abs(debit);
+  if (credit !== null && credit !== 0) return Math.abs(credit);
+  if (debit === 0 || credit === 0) return 0;
+  return null;
+}
+
+async function buildImportRows(params: {
+  userId: string | null;
+  rows: string[][];
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: CsvDecimalSeparator;
+  invertAmounts: boolean;
+  lineOffset: number;
+  paymentSourceId: string | null;
+  categoryMap: Map<string, string>;
+}) {
+  const [categories, paymentSources] = params.userId
+    ? await Promise.all([
+        prisma.category.findMany({
+          where: { userId: params.userId },
+          select: { id: true, name: true, archivedAt: true },
+        }),
+        prisma.paymentSource.findMany({
+          where: { userId: params.userId },
+          select: { id: true, name: true, archivedAt: true },
+        }),
+      ])
+    : [[], []];
+
+  // Archived names still match (so they aren't created again) but assign nothing
+  const categoryByName = new Map(
+    categories.map((c) => [c.name.toLowerCase(), c.archivedAt ? null : c.id])
+  );
+  const categoryIds = new Set(categories.filter((c) => !c.archivedAt).map((c) => c.id));
+  const paymentSourceByName = new Map(
+    paymentSources.map((p) => [p.name.toLowerCase(), p.archivedAt ? null : p.id])
+  );
+
+  // Unknown CSV category names (lowercased key -> display name)
+  const unknownCategories = new Map<string, string>();
+
+  const out: ImportRow[] = params.rows.map((row, i) => {
+    const line = i + 1 + params.lineOffset;
+
+    const description = cell(row, params.mapping.description);
+    const notesRaw = cell(row, params.mapping.notes);
+    const categoryName = cell(row, params.mapping.category) || null;
+    const accountName = cell(row, params.mapping.account);
+
+    const result: ImportRow = {
+      line,
+      date: normalizeCsvDate(cell(row, params.mapping.date), params.dateFormat),
+      description,
+      amountCents: readSignedAmount(row, params.mapping, params.invertAmounts, params.decimalSeparator),
+      type: null,
+      categoryName,
+      categoryId: null,
+      createCategory: false,
+      paymentSourceId: params.paymentSourceId,
+      notes: notesRaw ? notesRaw : null,
+      error: null,
+    };
+
+    // Same rules as POST /api/finance/transactions
+    if (!result.date || !parseLocalDateOnly(result.date)) {
+      result.error = "Invalid date";
+      return result;
+    }
+
+    if (!description) {
+      result.error = "description is required";
+      return result;
+    }
+
+    const parsedAmount = parseSignedAmountCents(result.amountCents);
+    if (!parsedAmount.ok) {
+      result.error = result.amountCents === null ? "Invalid amount" : parsedAmount.error;
+      return result;
+    }
+    result.type = inferTransactionType(parsedAmount.value);
+
+    if (accountName) {
+      const id = paymentSourceByName.get(accountName.toLowerCase());
+      if (id === undefined) {
+        result.error = `Unknown account: ${accountName}`;
+        return result;
+      }
+      // An archived account leaves the row on the import's target account
+      if (id) result.paymentSourceId = id;
+    }
+
+    if (categoryName) {
+      const key = categoryName.toLowerCase();
+      const mapped = params.categoryMap.get(key);
+
+      if (mapped !== undefined && mapped !== CATEGORY_CREATE) {
+        if (mapped === CATEGORY_NONE) {
+          result.categoryId = null;
+        } else if (categoryIds.has(mapped)) {
+          result.categoryId = mapped;
+        } else {
+          result.error = "Invalid category mapping";
+          return result;
+        }
+      } else if (categoryByName.has(key)) {
+        result.categoryId = categoryByName.get(key) ?? null;
+      } else {
+        if (categoryName.length > 40) {
+          result.error = "category name is too long (max 40)";
+          return result;
+        }
+        result.createCategory = true;
+        if (!unknownCategories.has(key)) unknownCategories.set(key, categoryName);
+      }
+    }
+
+    return result;
+  });
+
+  return { rows: out, unknownCategories, categories };
+}
+
+/**
+ * POST /api/finance/import/csv
+ *
+ * body: {
+ *   mode: "preview" | "commit",
+ *   csv: string,
+ *   hasHeader?: boolean,                 // default true
+ *   dateFormat?: "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY",
+ *   decimalSeparator?: "." | ",",        // default: detected from the amount cells
+ *   mapping: { date, description, amount? , debit?, credit?, category?, account?, notes? },
+ *   invertAmounts?: boolean,             // card exports where charges are positive
+ *   paymentSourceId?: string | null,     // target account for rows without an account column
+ *   categoryMap?: { [csvCategoryName]: categoryId | "__create__" | "" }
+ * }
+ *
+ * preview => parsed rows with per-row validation errors (nothing is written)
+ * commit  => valid rows are created in a single transaction (invalid rows are skipped)
+ */
+export async function POST(req: Request) {
+  let body: Record<string, unknown> | null;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const mode = body?.mode === "commit" ? "commit" : "preview";
+
+  const csv = typeof body?.csv === "string" ? body.csv : "";
+  if (!csv.trim()) return json({ error: "csv is required" }, { status: 400 });
+
+  const parsedMapping = parseMapping(body?.mapping);
+  if (!parsedMapping.ok)
+    return json({ error: parsedMapping.error }, { status: 400 });
+
+  const dateFormat = parseDateFormat(body?.dateFormat);
+  if (!dateFormat) {
+    return json(
+      { error: `dateFormat must be one of: ${CSV_DATE_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const decimalSeparatorInput = parseDecimalSeparator(body?.decimalSeparator);
+  if (decimalSeparatorInput === null) {
+    return json({ error: 'decimalSeparator must be "." or ","' }, { status: 400 });
+  }
+
+  const hasHeader = body?.hasHeader !== false;
+  const allRows = parseCsv(csv);
+  const dataRows = hasHeader ? allRows.slice(1) : allRows;
+
+  if (dataRows.length === 0) {
+    return json({ error: "No rows found in CSV" }, { status: 400 });
+  }
+  if (dataRows.length > MAX_ROWS) {
+    return json(
+      { error: `Too many rows (max ${MAX_ROWS} per import)` },
+      { status: 400 }
+    );
+  }
+
+  const { userId, setCookie } =
+    mode === "commit"
+      ? await getUserIdOrCreateAnonForWrite()
+      : { ...(await getUserIdOrNull()), setCookie: null };
+
+  const paymentSourceIdRaw = body?.paymentSourceId;
+  const paymentSourceId =
+    paymentSourceIdRaw === null ||
+    paymentSourceIdRaw === undefined ||
+    paymentSourceIdRaw === ""
+      ? null
+      : String(paymentSourceIdRaw);
+
+  if (paymentSourceId) {
+    const exists = userId
+      ? await prisma.paymentSource.findFirst({
+          where: { id: paymentSourceId, userId },
+          select: { id: true },
+        })
+      : null;
+    if (!exists) return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+  }
+
+  const mapping = parsedMapping.value;
+  const decimalSeparator =
+    decimalSeparatorInput ??
+    detectCsvDecimalSeparator(
+      dataRows.flatMap((row) => [cell(row, mapping.amount), cell(row, mapping.debit), cell(row, mapping.credit)])
+    );
+
+  const built = await buildImportRows({
+    userId,
+    rows: dataRows,
+    mapping,
+    dateFormat,
+    decimalSeparator,
+    invertAmounts: body?.invertAmounts === true,
+    lineOffset: hasHeader ? 1 : 0,
+    paymentSourceId,
+    categoryMap: parseCategoryMap(body?.categoryMap),
+  });
+
+  const validRows = built.rows.filter((r) => !r.error);
+  const errorCount = built.rows.length - validRows.length;
+
+  if (mode === "preview") {
+    const categoryByName = new Map(
+      built.categories.filter((c) => !c.archivedAt).map((c) => [c.name.toLowerCase(), c.id])
+    );
+
+    return json({
+      rows: built.rows,
+      validCount: validRows.length,
+      errorCount,
+      decimalSeparator, // as sent, else what the amounts were detected to use
+      // For each unknown name, suggest an existing category with a similar name (if any)
+      unknownCategories: Array.from(built.unknownCategories.entries()).map(
+        ([key, name]) => ({
+          name,
+          suggestedCategoryId:
+            Array.from(categoryByName.entries()).find(
+              ([existing]) => existing.includes(key) || key.includes(existing)
+            )?.[1] ?? null,
+        })
+      ),
+    });
+  }
+
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  if (validRows.length === 0) {
+    return json({ error: "No valid rows to import" }, { status: 400 });
+  }
+
+  // Rows take their account's currency, else the user's base currency
+  const [user, accountCurrencies, payeeMatcher, rules] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } }),
+    prisma.paymentSource.findMany({
+      where: { userId },
+      select: { id: true, currency: true },
+    }),
+    loadPayeeMatcher(userId),
+    loadTransactionRules(userId),
+  ]);
+  const currencyByPaymentSource = new Map(accountCurrencies.map((p) => [p.id, p.currency]));
+  const fallbackCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const created = await prisma.$transaction(async (tx) => {
+    // Create missing categories (appended to the end of the user's order)
+    const toCreate = new Map<string, string>();
+    for (const r of validRows) {
+      if (r.createCategory && r.categoryName) {
+        const key = r.categoryName.toLowerCase();
+        if (!toCreate.has(key)) toCreate.set(key, r.categoryName);
+      }
+    }
+
+    const createdCategoryIds = new Map<string, string>();
+    if (toCreate.size > 0) {
+      const max = await tx.category.aggregate({
+        where: { userId },
+        _max: { sortOrder: true },
+      });
+      let sortOrder = (max._max?.sortOrder ?? 0) + 1;
+
+      for (const [key, name] of toCreate) {
+        const category = await tx.category.create({
+          data: { userId, name, sortOrder: sortOrder++ },
+          select: { id: true },
+        });
+        createdCategoryIds.set(key, category.id);
+      }
+    }
+
+    const data = validRows.map((r) => {
+      const payee = matchPayee(payeeMatcher, r.description);
+      const categoryId = r.createCategory
+        ? createdCategoryIds.get(r.categoryName!.toLowerCase()) ?? null
+        : r.categoryId;
+      const ruled = runTransactionRules(rules, {
+        description: r.description,
+        amountCents: Math.abs(r.amountCents!),
+        type: r.type!,
+        categoryId,
+        paymentSourceId: r.paymentSourceId,
+        hasSplits: false,
+        tagIds: [],
+      });
+      const paymentSourceId = r.paymentSourceId ?? ruled.paymentSourceId;
+
+      return {
+        row: {
+          userId,
+          date: parseLocalDateOnly(r.date)!,
+          amountCents: Math.abs(r.amountCents!),
+          currency:
+            (paymentSourceId && currencyByPaymentSource.get(paymentSourceId)) ||
+            fallbackCurrency,
+          type: r.type!,
+          description: ruled.description ?? r.description,
+          notes: r.notes,
+          // rows without a category column value take a rule's category, else the matched payee's default
+          categoryId: categoryId ?? ruled.categoryId ?? payee?.defaultCategoryId ?? null,
+          payeeId: payee?.payeeId ?? null,
+          paymentSourceId,
+        },
+        tagIds: ruled.addTagIds,
+      };
+    });
+
+    // Rows a rule tags are created one by one (createMany can't add tags)
+    const result = await tx.transaction.createMany({
+      data: data.filter((d) => d.tagIds.length === 0).map((d) => d.row),
+    });
+    for (const d of data.filter((d) => d.tagIds.length > 0)) {
+      await tx.transaction.create({
+        data: { ...d.row, tags: { create: d.tagIds.map((tagId) => ({ tagId })) } },
+        select: { id: true },
+      });
+    }
+
+    return result.count + data.filter((d) => d.tagIds.length > 0).length;
+  });
+
+  return json(
+    { ok: true, created, skipped: errorCount },
+    {
+      status: 201,
+      headers: setCookie ? { "Set-Cookie": setCookie } : undefined,
+    }
+  );
+}
@@ -0,0 +1,341 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseOfx, type OfxTransaction } from "@/lib/ofx";
+import {
+  parseLocalDateOnly,
+  parseSignedAmountCents,
+  type TransactionType,
+} from "@/lib/transactions";
+import { parseCurrencyCode } from "@/lib/currency";
+import { loadPayeeMatcher, matchPayee } from "@/lib/payees";
+import { loadTransactionRules, runTransactionRules } from "@/lib/rules";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+
+/** ----------------------------
+ * OFX / QFX import
+ * ---------------------------- */
+
+const MAX_TRANSACTIONS = 5000;
+
+type ImportRow = {
+  fitId: string;
+  date: string;
+  description: string;
+  notes: string | null;
+  amountCents: number; // signed, as reported by the bank
+  type: TransactionType | null;
+  duplicate: boolean;
+  error: string | null;
+};
+
+/**
+ * DEBIT/CREDIT map directly; every other TRNTYPE (POS, ATM, FEE, INT, XFER...)
+ * falls back to the sign of TRNAMT, same as POST /api/finance/transactions.
+ */
+function typeForOfx(t: OfxTransaction): TransactionType {
+  if (t.trnType === "DEBIT") return "EXPENSE";
+  if (t.trnType === "CREDIT") return "INCOME";
+  return t.amountCents < 0 ? "EXPENSE" : "INCOME";
+}
+
+function toImportRow(t: OfxTransaction, existingFitIds: Set<string>): ImportRow {
+  const row: ImportRow = {
+    fitId: t.fitId,
+    date: t.date,
+    description: t.name.trim().slice(0, 200),
+    notes: t.memo,
+    amountCents: t.amountCents,
+    type: null,
+    duplicate: existingFitIds.has(t.fitId),
+    error: null,
+  };
+
+  if (!parseLocalDateOnly(row.date)) {
+    row.error = "Invalid date";
+    return row;
+  }
+
+  if (!row.description) {
+    row.error = "description is required";
+    return row;
+  }
+
+  const parsedAmount = parseSignedAmountCents(t.amountCents);
+  if (!parsedAmount.ok) {
+    row.error = parsedAmount.error;
+    return row;
+  }
+
+  row.type = typeForOfx(t);
+  return row;
+}
+
+/**
+ * POST /api/finance/import/ofx
+ *
+ * body: {
+ *   mode: "preview" | "commit",
+ *   ofx: string,               // raw .ofx / .qfx file contents
+ *   paymentSourceId: string    // BANK or CARD payment source to import into
+ * }
+ *
+ * FITIDs are stored on Transaction.externalId (unique per user, so moving a
+ * row to another account keeps it), so importing the same statement twice
+ * only adds rows that are new.
+ * Entries missing a FITID, date or amount come back in `invalid` and are
+ * counted as skipped.
+ */
+export async function POST(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const mode = body?.mode === "commit" ? "commit" : "preview";
+
+  const ofxText = typeof body?.ofx === "string" ? body.ofx : "";
+  if (!ofxText.trim()) return json({ error: "ofx is required" }, { status: 400 });
+
+  const paymentSourceId =
+    typeof body?.paymentSourceId === "string" ? body.paymentSourceId.trim() : "";
+  if (!paymentSourceId) {
+    return json({ error: "paymentSourceId is required" }, { status: 400 });
+  }
+
+  const paymentSource = await prisma.paymentSource.findFirst({
+    where: { id: paymentSourceId, userId },
+    select: { id: true, type: true, currency: true },
+  });
+  if (!paymentSource) {
+    return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+  }
+  if (paymentSource.type === "CASH") {
+    return json(
+      { error: "OFX statements can only be imported into a BANK or CARD account" },
+      { status: 400 }
+    );
+  }
+
+  let statement: ReturnType<typeof parseOfx>;
+  try {
+    statement = parseOfx(ofxText);
+  } catch (err) {
+    return json(
+      { error: err instanceof Error ? err.message : "Could not read OFX file" },
+      { status: 400 }
+    );
+  }
+
+  if (statement.transactions.length === 0) {
+    const [firstInvalid] = statement.invalid;
+    return json(
+      {
+        error: firstInvalid
+          ? `None of the ${statement.invalid.length} transactions could be read (${firstInvalid.error})`
+          : "No transactions found in statement",
+        invalid: statement.invalid,
+      },
+      { status: 400 }
+    );
+  }
+  if (statement.transactions.length > MAX_TRANSACTIONS) {
+    return json(
+      { error: `Too many transactions (max ${MAX_TRANSACTIONS} per import)` },
+      { status: 400 }
+    );
+  }
+
+  // Rows sitting in Trash count too: the FITID is still taken until they're purged
+  const existing = await prisma.transaction.findMany({
+    where: {
+      userId,
+      externalId: { in: statement.transactions.map((t) => t.fitId) },
+    },
+    select: { externalId: true },
+  });
+  const existingFitIds = new Set(
+    existing.map((e) => e.externalId).filter((v): v is string => !!v)
+  );
+
+  // A statement can repeat a FITID (e.g. overlapping date ranges); keep the first
+  const seen = new Set<string>();
+  const rows = statement.transactions.map((t) => {
+    const row = toImportRow(t, existingFitIds);
+    if (seen.has(t.fitId)) row.duplicate = true;
+    seen.add(t.fitId);
+    return row;
+  });
+
+  const toCreate = rows.filter((r) => !r.error && !r.duplicate);
+
+  // CURDEF from the statement wins over the account's currency
+  const currency = parseCurrencyCode(statement.currency) ?? paymentSource.currency;
+
+  if (mode === "preview") {
+    return json({
+      account: {
+        accountId: statement.accountId,
+        kind: statement.accountKind,
+        currency: statement.currency,
+      },
+      currency,
+      rows,
+      invalid: statement.invalid,
+      newCount: toCreate.length,
+      duplicateCount: rows.filter((r) => r.duplicate).length,
+      errorCount: rows.filter((r) => r.error).length + statement.invalid.length,
+    });
+  }
+
+  // Bank descriptions are the noisy kind payee aliases and rules are for
+  const [payeeMatcher, rules] = await Promise.all([loadPayeeMatcher(userId), loadTransactionRules(userId)]);
+
+  const ruled = new Map(
+    toCreate.map((r) => [
+      r.fitId,
+      runTransactionRules(rules, {
+        description: r.description,
+        amountCents: Math.abs(r.amountCents),
+        type: r.type!,
+        categoryId: null,
+        paymentSourceId: paymentSource.id,
+        hasSplits: false,
+        tagIds: [],
+      }),
+    ])
+  );
+
+  const created = await prisma.$transaction(async (tx) => {
+    const result = await tx.transaction.createMany({
+      data: toCreate.map((r) => {
+        const payee = matchPayee(payeeMatcher, r.description);
+        const rule = ruled.get(r.fitId)!;
+        return {
+          userId,
+          date: parseLocalDateOnly(r.date)!,
+          amountCents: Math.abs(r.amountCents),
+          currency,
+          type: r.type!,
+          description: rule.description ?? r.description,
+          notes: r.notes,
+          paymentSourceId: paymentSource.id,
+          externalId: r.fitId,
+          // straight from the bank's statement, so already cleared
+          status: "CLEARED" as const,
+          payeeId: payee?.payeeId ?? null,
+          categoryId: rule.categoryId ?? payee?.defaultCategoryId ?? null,
+        };
+      }),
+      // Guards against a concurrent import of the same file
+      skipDuplicates: true,
+    });
+
+    // Tags from rules, on the rows just created (FITIDs are unique per user)
+    const tagged = toCreate.filter((r) => ruled.get(r.fitId)!.addTagIds.length > 0);
+    if (tagged.length) {
+      const rows = await tx.transaction.findMany({
+        where: { userId, externalId: { in: tagged.map((r) => r.fitId) } },
+        select: { id: true, externalId: true },
+      });
+      await tx.transactionTag.createMany({
+        data: rows.flatMap((row) =>
+          (ruled.get(row.externalId!)?.addTagIds ?? []).map((tagId) => ({ transactionId: row.id, tagId }))
+        ),
+        skipDuplicates: true,
+      });
+    }
+
+    return result.count;
+  });
+
+  return json(
+    {
+      ok: true,
+      created,
+      skipped: rows.length + statement.invalid.length - created,
+      invalid: statement.invalid,
+    },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,49 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { applyPayeeRules } from "@/lib/payees";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/**
+ * Logged-in only (payee rules are managed in Profile).
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+/**
+ * POST /api/finance/payees/apply
+ * Runs the payee alias rules over existing transactions that have no payee.
+ * Logged-in only.
+ */
+export async function POST() {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const result = await applyPayeeRules(userId);
+  return json(result);
+}
@@ -0,0 +1,334 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parsePayeeAliases, validatePayeeName } from "@/lib/payees";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+/**
+ * Logged-in only (NOT anon cookie).
+ * Use this for Profile editing actions.
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const authed = await getUserIdFromNextAuth();
+  return authed ?? null;
+}
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+async function assertPayeeBelongsToUser(userId: string, payeeId: string) {
+  const exists = await prisma.payee.findFirst({
+    where: { id: payeeId, userId },
+    select: { id: true },
+  });
+  return !!exists;
+}
+
+async function assertCategoryBelongsToUser(userId: string, categoryId: string) {
+  const exists = await prisma.category.findFirst({
+    where: { id: categoryId, userId },
+    select: { id: true },
+  });
+  return !!exists;
+}
+
+/**
+ * Alias patterns are unique per user: returns the first one already used by
+ * another payee (exceptPayeeId = the payee being edited).
+ */
+async function findTakenAlias(userId: string, patterns: string[], exceptPayeeId: string | null) {
+  if (patterns.length === 0) return null;
+
+  const taken = await prisma.payeeAlias.findFirst({
+    where: {
+      userId,
+      pattern: { in: patterns },
+      ...(exceptPayeeId ? { payeeId: { not: exceptPayeeId } } : {}),
+    },
+    select: { pattern: true, payee: { select: { name: true } } },
+  });
+  return taken;
+}
+
+const PAYEE_SELECT = {
+  id: true,
+  name: true,
+  defaultCategoryId: true,
+  defaultCategory: { select: { id: true, name: true } },
+  aliases: { orderBy: { pattern: "asc" }, select: { id: true, pattern: true } },
+  createdAt: true,
+  updatedAt: true,
+  // trashed transactions don't count
+  _count: { select: { transactions: { where: { deletedAt: null } } } },
+} as const;
+
+const AUTOCOMPLETE_LIMIT = 10;
+
+/**
+ * GET /api/finance/payees
+ * GET /api/finance/payees?q=star   (autocomplete: name or alias contains q)
+ * Guests can read (for the picker on the Transactions page).
+ */
+export async function GET(req: Request) {
+  const { userId } = await getUserIdOrNull();
+
+  // ✅ If no user context yet, return empty list (keeps UI smooth)
+  if (!userId) return json([]);
+
+  const q = (new URL(req.url).searchParams.get("q") ?? "").trim();
+
+  const payees = await prisma.payee.findMany({
+    where: {
+      userId,
+      ...(q
+        ? {
+            OR: [
+              { name: { contains: q, mode: "insensitive" } },
+              { aliases: { some: { pattern: { contains: q.toLowerCase() } } } },
+            ],
+          }
+        : {}),
+    },
+    orderBy: [{ name: "asc" }],
+    take: q ? AUTOCOMPLETE_LIMIT : undefined,
+    select: PAYEE_SELECT,
+  });
+
+  return json(payees);
+}
+
+/**
+ * POST /api/finance/payees
+ * body: { name: string, defaultCategoryId?: string | null, aliases?: string[] }
+ *
+ * Logged-in only (guests get payees from the transaction form instead).
+ */
+export async function POST(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = validatePayeeName(body?.name);
+  if (!name.ok) return json({ error: name.error }, { status: 400 });
+
+  const defaultCategoryId = body?.defaultCategoryId ? String(body.defaultCategoryId) : null;
+  if (defaultCategoryId && !(await assertCategoryBelongsToUser(userId, defaultCategoryId))) {
+    return json({ error: "Invalid defaultCategoryId" }, { status: 400 });
+  }
+
+  const aliases = parsePayeeAliases(body?.aliases);
+  if (!aliases.ok) return json({ error: aliases.error }, { status: 400 });
+  const patterns = aliases.value ?? [];
+
+  const taken = await findTakenAlias(userId, patterns, null);
+  if (taken) {
+    return json(
+      { error: `Alias “${taken.pattern}” already belongs to ${taken.payee.name}.` },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const created = await prisma.payee.create({
+      data: {
+        userId,
+        name: name.value,
+        defaultCategoryId,
+        aliases: { create: patterns.map((pattern) => ({ userId, pattern })) },
+      },
+      select: PAYEE_SELECT,
+    });
+
+    return json(created, { status: 201 });
+  } catch {
+    // Handles unique constraint: @@unique([userId, name])
+    return json({ error: "Payee already exists (same name)." }, { status: 409 });
+  }
+}
+
+/**
+ * PATCH /api/finance/payees?id=PAYEE_ID
+ * body: { name?: string, defaultCategoryId?: string | null, aliases?: string[] | null }
+ * `aliases` replaces the whole list.
+ *
+ * Logged-in only.
+ */
+export async function PATCH(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ok = await assertPayeeBelongsToUser(userId, id);
+  if (!ok) return json({ error: "Not found" }, { status: 404 });
+
+  const data: { name?: string; defaultCategoryId?: string | null } = {};
+
+  if (body?.name !== undefined) {
+    const name = validatePayeeName(body.name);
+    if (!name.ok) return json({ error: name.error }, { status: 400 });
+    data.name = name.value;
+  }
+
+  if (body?.defaultCategoryId !== undefined) {
+    const defaultCategoryId = body.defaultCategoryId ? String(body.defaultCategoryId) : null;
+    if (defaultCategoryId && !(await assertCategoryBelongsToUser(userId, defaultCategoryId))) {
+      return json({ error: "Invalid defaultCategoryId" }, { status: 400 });
+    }
+    data.defaultCategoryId = defaultCategoryId;
+  }
+
+  const aliases = parsePayeeAliases(body?.aliases);
+  if (!aliases.ok) return json({ error: aliases.error }, { status: 400 });
+  const patterns = aliases.value;
+
+  if (Object.keys(data).length === 0 && patterns === undefined) {
+    return json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  if (patterns) {
+    const taken = await findTakenAlias(userId, patterns, id);
+    if (taken) {
+      return json(
+        { error: `Alias “${taken.pattern}” already belongs to ${taken.payee.name}.` },
+        { status: 409 }
+      );
+    }
+  }
+
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      if (patterns !== undefined) {
+        await tx.payeeAlias.deleteMany({ where: { payeeId: id } });
+        if (patterns.length) {
+          await tx.payeeAlias.createMany({
+            data: patterns.map((pattern) => ({ userId, payeeId: id, pattern })),
+          });
+        }
+      }
+
+      return tx.payee.update({
+        where: { id },
+        data,
+        select: PAYEE_SELECT,
+      });
+    });
+
+    return json(updated);
+  } catch {
+    // likely unique violation (same name)
+    return json({ error: "Payee already exists (same name)." }, { status: 409 });
+  }
+}
+
+/**
+ * DELETE /api/finance/payees?id=PAYEE_ID
+ * Transactions keep their description and lose the payee link.
+ *
+ * Logged-in only.
+ */
+export async function DELETE(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const ok = await assertPayeeBelongsToUser(userId, id);
+  if (!ok) return json({ error: "Not found" }, { status: 404 });
+
+  // Aliases cascade; Transaction.payeeId is set to null
+  await prisma.payee.delete({ where: { id } });
+
+  return json({ ok: true });
+}
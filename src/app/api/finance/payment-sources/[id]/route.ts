@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { PaymentSourceType } from "@prisma/client";
+import { parseCurrencyCode } from "@/lib/currency";
 
 export const runtime = "nodejs";
 
@@ -61,7 +62,7 @@ async function assertPaymentSourceBelongsToUser(userId: string, id: string) {
 
 /**
  * PATCH /api/finance/payment-sources/:id
- * body: { name?: string, type?: "BANK" | "CARD" | "CASH" }
+ * body: { name?: string, type?: "BANK" | "CARD" | "CASH", currency?: "EUR", archived?: boolean }
  */
 export async function PATCH(req: Request) {
   const userId = await getAuthedUserId();
@@ -101,6 +102,19 @@ export async function PATCH(req: Request) {
     data.type = type;
   }
 
+  if (body?.currency !== undefined) {
+    const currency = parseCurrencyCode(body.currency);
+    if (!currency) return json({ error: "Invalid currency" }, { status: 400 });
+    data.currency = currency;
+  }
+
+  if (body?.archived !== undefined) {
+    if (typeof body.archived !== "boolean") {
+      return json({ error: "archived must be a boolean" }, { status: 400 });
+    }
+    data.archivedAt = body.archived ? new Date() : null;
+  }
+
   if (Object.keys(data).length === 0) {
     return json({ error: "No valid fields to update" }, { status: 400 });
   }
@@ -113,6 +127,8 @@ export async function PATCH(req: Request) {
         id: true,
         name: true,
         type: true,
+        currency: true,
+        archivedAt: true,
         createdAt: true,
         updatedAt: true,
       },
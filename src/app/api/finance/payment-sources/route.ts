@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { PaymentSourceType } from "@prisma/client";
+import { parseCurrencyCode } from "@/lib/currency";
 import { cookies } from "next/headers";
 import crypto from "crypto";
 
@@ -130,6 +131,8 @@ export async function GET() {
       id: true,
       name: true,
       type: true,
+      currency: true,
+      archivedAt: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -141,7 +144,7 @@ export async function GET() {
 /**
  * POST /api/finance/payment-sources
  * Logged-in only.
- * body: { name: string, type: "BANK" | "CARD" | "CASH" }
+ * body: { name: string, type: "BANK" | "CARD" | "CASH", currency?: "EUR" }
  */
 export async function POST(req: Request) {
   const userId = await requireAuthedUserId();
@@ -167,13 +170,28 @@ export async function POST(req: Request) {
     );
   }
 
+  // Defaults to the user's base currency
+  let currency: string | null;
+  if (body?.currency === undefined || body?.currency === null || body?.currency === "") {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true },
+    });
+    currency = user?.baseCurrency ?? null;
+  } else {
+    currency = parseCurrencyCode(body.currency);
+  }
+  if (!currency) return json({ error: "Invalid currency" }, { status: 400 });
+
   try {
     const created = await prisma.paymentSource.create({
-      data: { userId, name, type },
+      data: { userId, name, type, currency },
       select: {
         id: true,
         name: true,
         type: true,
+        currency: true,
+        archivedAt: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -191,7 +209,7 @@ export async function POST(req: Request) {
 /**
  * PATCH /api/finance/payment-sources?id=PAYMENT_SOURCE_ID
  * Logged-in only.
- * body: { name?: string, type?: "BANK" | "CARD" | "CASH" }
+ * body: { name?: string, type?: "BANK" | "CARD" | "CASH", currency?: "EUR", archived?: boolean }
  */
 export async function PATCH(req: Request) {
   const userId = await requireAuthedUserId();
@@ -231,6 +249,19 @@ export async function PATCH(req: Request) {
     data.type = type;
   }
 
+  if (body?.currency !== undefined) {
+    const currency = parseCurrencyCode(body.currency);
+    if (!currency) return json({ error: "Invalid currency" }, { status: 400 });
+    data.currency = currency;
+  }
+
+  if (body?.archived !== undefined) {
+    if (typeof body.archived !== "boolean") {
+      return json({ error: "archived must be a boolean" }, { status: 400 });
+    }
+    data.archivedAt = body.archived ? new Date() : null;
+  }
+
   if (Object.keys(data).length === 0) {
     return json({ error: "No valid fields to update" }, { status: 400 });
   }
@@ -243,6 +274,8 @@ export async function PATCH(req: Request) {
         id: true,
         name: true,
         type: true,
+        currency: true,
+        archivedAt: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -0,0 +1,256 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { buildRateTable, convertCents, formatMoneyCents } from "@/lib/currency";
+import {
+  MAX_AMOUNT_CENTS,
+  formatLocalDateOnly,
+  parseLocalDateOnly,
+} from "@/lib/transactions";
+import {
+  accountSignedCents,
+  reconcileDifferenceCents,
+  type ReconcileItem,
+} from "@/lib/reconcile";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/**
+ * Logged-in only (payment sources are managed in Profile).
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+/**
+ * Everything the reconcile screen needs for one payment source:
+ * the balance already reconciled and every row not reconciled yet,
+ * converted into the account's currency.
+ */
+async function loadAccountState(userId: string, paymentSourceId: string) {
+  const paymentSource = await prisma.paymentSource.findFirst({
+    where: { id: paymentSourceId, userId },
+    select: { id: true, name: true, currency: true },
+  });
+  if (!paymentSource) return null;
+
+  const [rows, rates, lastReconciliation] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        OR: [{ paymentSourceId }, { transferToPaymentSourceId: paymentSourceId }],
+      },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+      select: {
+        id: true,
+        date: true,
+        description: true,
+        type: true,
+        amountCents: true,
+        currency: true,
+        status: true,
+        transferToPaymentSourceId: true,
+      },
+    }),
+    prisma.exchangeRate.findMany({
+      where: { userId },
+      select: { fromCurrency: true, toCurrency: true, date: true, rate: true },
+    }),
+    prisma.reconciliation.findFirst({
+      where: { paymentSourceId },
+      orderBy: [{ statementDate: "desc" }, { createdAt: "desc" }],
+      select: { statementDate: true, endingBalanceCents: true, createdAt: true },
+    }),
+  ]);
+
+  const rateTable = buildRateTable(rates);
+
+  let reconciledBalanceCents = 0;
+  let unconvertedReconciledCount = 0;
+  const items: ReconcileItem[] = [];
+
+  for (const t of rows) {
+    const signed = accountSignedCents(t, paymentSourceId);
+    const accountCents = convertCents(rateTable, signed, t.currency, paymentSource.currency, t.date);
+
+    if (t.status === "RECONCILED") {
+      if (accountCents === null) unconvertedReconciledCount++;
+      else reconciledBalanceCents += accountCents;
+      continue;
+    }
+
+    items.push({
+      id: t.id,
+      date: formatLocalDateOnly(t.date),
+      description: t.description,
+      type: t.type,
+      amountCents: t.amountCents,
+      currency: t.currency,
+      status: t.status,
+      accountCents,
+    });
+  }
+
+  return {
+    paymentSource,
+    reconciledBalanceCents,
+    unconvertedReconciledCount,
+    lastReconciliation: lastReconciliation
+      ? {
+          statementDate: formatLocalDateOnly(lastReconciliation.statementDate),
+          endingBalanceCents: lastReconciliation.endingBalanceCents,
+          createdAt: lastReconciliation.createdAt,
+        }
+      : null,
+    items,
+  };
+}
+
+/**
+ * GET /api/finance/reconcile?paymentSourceId=ID
+ * Logged-in only.
+ *
+ * Ticking rows off is a plain PATCH of `status` on /api/finance/transactions,
+ * so progress survives a reload.
+ */
+export async function GET(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const url = new URL(req.url);
+  const paymentSourceId = url.searchParams.get("paymentSourceId")?.trim();
+  if (!paymentSourceId) {
+    return json({ error: 'Missing "paymentSourceId" query param' }, { status: 400 });
+  }
+
+  const state = await loadAccountState(userId, paymentSourceId);
+  if (!state) return json({ error: "Not found" }, { status: 404 });
+
+  return json(state);
+}
+
+/**
+ * POST /api/finance/reconcile
+ * Logged-in only.
+ * body: { paymentSourceId: string, statementDate: "YYYY-MM-DD", endingBalanceCents: number }
+ *
+ * Locks every CLEARED row on the account dated on or before the statement
+ * (status -> RECONCILED), but only when the cleared balance matches the
+ * statement's ending balance exactly.
+ */
+export async function POST(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const paymentSourceId = String(body?.paymentSourceId ?? "").trim();
+  if (!paymentSourceId) return json({ error: "paymentSourceId is required" }, { status: 400 });
+
+  const statementDateRaw = typeof body?.statementDate === "string" ? body.statementDate : "";
+  const statementDate = parseLocalDateOnly(statementDateRaw);
+  if (!statementDate) return json({ error: "Invalid statementDate" }, { status: 400 });
+
+  const endingBalanceCents =
+    typeof body?.endingBalanceCents === "string"
+      ? Number(body.endingBalanceCents)
+      : body?.endingBalanceCents;
+  if (
+    typeof endingBalanceCents !== "number" ||
+    !Number.isInteger(endingBalanceCents) ||
+    Math.abs(endingBalanceCents) > MAX_AMOUNT_CENTS
+  ) {
+    return json({ error: "endingBalanceCents must be an integer" }, { status: 400 });
+  }
+
+  const state = await loadAccountState(userId, paymentSourceId);
+  if (!state) return json({ error: "Not found" }, { status: 404 });
+
+  const cleared = state.items.filter(
+    (it) => it.status === "CLEARED" && it.date <= statementDateRaw
+  );
+
+  const unconverted = cleared.filter((it) => it.accountCents === null).length;
+  if (unconverted > 0 || state.unconvertedReconciledCount > 0) {
+    return json(
+      {
+        error: `Some transactions have no exchange rate to ${state.paymentSource.currency}. Add the missing rates in Profile first.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const difference = reconcileDifferenceCents({
+    endingBalanceCents,
+    reconciledBalanceCents: state.reconciledBalanceCents,
+    items: state.items,
+    statementDate: statementDateRaw,
+  });
+  if (difference !== 0) {
+    return json(
+      {
+        error: `Cleared balance doesn’t match the statement (off by ${formatMoneyCents(
+          difference,
+          state.paymentSource.currency
+        )}).`,
+        differenceCents: difference,
+      },
+      { status: 400 }
+    );
+  }
+
+  const reconciliation = await prisma.$transaction(async (tx) => {
+    const res = await tx.transaction.updateMany({
+      where: { id: { in: cleared.map((it) => it.id) }, userId, status: "CLEARED", deletedAt: null },
+      data: { status: "RECONCILED" },
+    });
+
+    return tx.reconciliation.create({
+      data: {
+        userId,
+        paymentSourceId,
+        statementDate,
+        endingBalanceCents,
+        transactionCount: res.count,
+      },
+      select: {
+        id: true,
+        statementDate: true,
+        endingBalanceCents: true,
+        transactionCount: true,
+        createdAt: true,
+      },
+    });
+  });
+
+  return json(reconciliation, { status: 201 });
+}
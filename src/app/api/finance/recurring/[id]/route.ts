@@ -0,0 +1,241 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { formatLocalDateOnly, parseSignedAmountCents, parseTransactionType } from "@/lib/transactions";
+import { firstOccurrenceOnOrAfter, parseRecurrenceSchedule, startOfToday } from "@/lib/recurring";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+
+function getIdFromReq(req: Request): string | null {
+  const url = new URL(req.url);
+  const parts = url.pathname.split("/").filter(Boolean);
+  const id = parts[parts.length - 1];
+  return id ? decodeURIComponent(id) : null;
+}
+
+function optionalId(raw: unknown) {
+  return raw === null || raw === undefined || raw === "" ? null : String(raw);
+}
+
+const SCHEDULE_FIELDS = ["frequency", "interval", "dayOfMonth", "startDate", "endDate"] as const;
+
+/**
+ * PATCH /api/finance/recurring/:id
+ * body: any of { description, amountCents, type, notes, categoryId, paymentSourceId, isActive,
+ *                frequency, interval, dayOfMonth, startDate, endDate }
+ *
+ * Changing the schedule or resuming a paused rule restarts it from today:
+ * missed occurrences are not backfilled. Already-posted transactions are never touched.
+ */
+export async function PATCH(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = getIdFromReq(req);
+  if (!id) return json({ error: "Missing id" }, { status: 400 });
+
+  const existing = await prisma.recurringTransaction.findFirst({ where: { id, userId } });
+  if (!existing) return json({ error: "Not found" }, { status: 404 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body) return json({ error: "Invalid JSON body" }, { status: 400 });
+
+  const data: Prisma.RecurringTransactionUncheckedUpdateInput = {};
+
+  if (body.description !== undefined) {
+    const description = String(body.description ?? "").trim();
+    if (!description) return json({ error: "description cannot be empty" }, { status: 400 });
+    data.description = description;
+  }
+
+  if (body.notes !== undefined) {
+    data.notes = body.notes ? String(body.notes) : null;
+  }
+
+  if (body.type !== undefined) {
+    const type = parseTransactionType(body.type);
+    if (!type || type === "TRANSFER") {
+      return json({ error: 'type must be "EXPENSE" or "INCOME"' }, { status: 400 });
+    }
+    data.type = type;
+  }
+
+  if (body.amountCents !== undefined) {
+    const parsed = parseSignedAmountCents(body.amountCents);
+    if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
+    data.amountCents = Math.abs(parsed.value);
+  }
+
+  if (body.categoryId !== undefined) {
+    const categoryId = optionalId(body.categoryId);
+    if (categoryId) {
+      const ok = await prisma.category.findFirst({ where: { id: categoryId, userId }, select: { id: true } });
+      if (!ok) return json({ error: "Invalid categoryId" }, { status: 400 });
+    }
+    data.categoryId = categoryId;
+  }
+
+  if (body.paymentSourceId !== undefined) {
+    const paymentSourceId = optionalId(body.paymentSourceId);
+    if (paymentSourceId) {
+      const ok = await prisma.paymentSource.findFirst({
+        where: { id: paymentSourceId, userId },
+        select: { id: true },
+      });
+      if (!ok) return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+    }
+    data.paymentSourceId = paymentSourceId;
+  }
+
+  let restart = false;
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") {
+      return json({ error: "isActive must be a boolean" }, { status: 400 });
+    }
+    data.isActive = body.isActive;
+    if (body.isActive && !existing.isActive) restart = true;
+  }
+
+  let schedule = {
+    frequency: existing.frequency,
+    interval: existing.interval,
+    dayOfMonth: existing.dayOfMonth,
+    startDate: existing.startDate,
+    endDate: existing.endDate,
+  };
+
+  if (SCHEDULE_FIELDS.some((f) => body[f] !== undefined)) {
+    // Re-validate the whole schedule with the new values merged over the stored ones
+    const parsed = parseRecurrenceSchedule({
+      frequency: existing.frequency,
+      interval: existing.interval,
+      // switching to MONTHLY without a day falls back to the start date's day
+      dayOfMonth: body.frequency !== undefined && body.dayOfMonth === undefined ? null : existing.dayOfMonth,
+      startDate: formatLocalDateOnly(existing.startDate),
+      endDate: existing.endDate ? formatLocalDateOnly(existing.endDate) : null,
+      ...Object.fromEntries(SCHEDULE_FIELDS.filter((f) => body[f] !== undefined).map((f) => [f, body[f]])),
+    });
+    if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
+
+    schedule = parsed.value;
+    Object.assign(data, parsed.value);
+    restart = true;
+  }
+
+  if (restart) {
+    data.nextDate = firstOccurrenceOnOrAfter(schedule, startOfToday());
+  }
+
+  if (Object.keys(data).length === 0) {
+    return json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const updated = await prisma.recurringTransaction.update({
+    where: { id },
+    data,
+    include: {
+      category: { select: { id: true, name: true } },
+      paymentSource: { select: { id: true, name: true } },
+    },
+  });
+
+  return json(updated);
+}
+
+/**
+ * DELETE /api/finance/recurring/:id
+ * Stops the schedule. Transactions it already posted are kept.
+ */
+export async function DELETE(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = getIdFromReq(req);
+  if (!id) return json({ error: "Missing id" }, { status: 400 });
+
+  const deleted = await prisma.recurringTransaction.deleteMany({ where: { id, userId } });
+  if (deleted.count === 0) return json({ error: "Not found" }, { status: 404 });
+
+  return json({ ok: true });
+}
@@ -0,0 +1,238 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  inferTransactionType,
+  parseSignedAmountCents,
+  parseTransactionType,
+  type TransactionType,
+} from "@/lib/transactions";
+import { firstOccurrenceOnOrAfter, parseRecurrenceSchedule } from "@/lib/recurring";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+const ANON_MAX_AGE_SECONDS = 60 * 60 * 24 * 180; // 180 days
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+function makeCookieHeader(token: string) {
+  const secure = process.env.NODE_ENV === "production" ? " Secure;" : "";
+  return `${ANON_COOKIE}=${encodeURIComponent(
+    token
+  )}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${ANON_MAX_AGE_SECONDS};${secure}`;
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+async function getUserIdOrCreateAnonForWrite(): Promise<{
+  userId: string;
+  setCookie: string | null;
+}> {
+  const existing = await getUserIdOrNull();
+  if (existing.userId) return { userId: existing.userId, setCookie: null };
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const tokenHash = hashToken(token);
+  const expiresAt = new Date(Date.now() + ANON_MAX_AGE_SECONDS * 1000);
+
+  const created = await prisma.user.create({
+    data: {
+      isAnonymous: true,
+      anonSessions: {
+        create: {
+          tokenHash,
+          expiresAt,
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  return { userId: created.id, setCookie: makeCookieHeader(token) };
+}
+
+/** ----------------------------
+ * Route logic
+ * ---------------------------- */
+
+async function assertCategoryBelongsToUser(userId: string, categoryId: string) {
+  const exists = await prisma.category.findFirst({
+    where: { id: categoryId, userId },
+    select: { id: true },
+  });
+  return !!exists;
+}
+
+async function assertPaymentSourceBelongsToUser(userId: string, paymentSourceId: string) {
+  const exists = await prisma.paymentSource.findFirst({
+    where: { id: paymentSourceId, userId },
+    select: { id: true },
+  });
+  return !!exists;
+}
+
+function optionalId(raw: unknown) {
+  return raw === null || raw === undefined || raw === "" ? null : String(raw);
+}
+
+/**
+ * GET /api/finance/recurring
+ * Lists the user's recurring rules (soonest nextDate first; ended rules last).
+ */
+export async function GET() {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json([]);
+
+  const items = await prisma.recurringTransaction.findMany({
+    where: { userId },
+    orderBy: [{ nextDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    include: {
+      category: { select: { id: true, name: true } },
+      paymentSource: { select: { id: true, name: true } },
+    },
+  });
+
+  return json(items);
+}
+
+/**
+ * POST /api/finance/recurring
+ * body: {
+ *   description, amountCents (signed or with type), type?, notes?, categoryId?, paymentSourceId?,
+ *   frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY", interval?, dayOfMonth?,
+ *   startDate: "YYYY-MM-DD", endDate?: "YYYY-MM-DD" | null
+ * }
+ *
+ * Occurrences up to today (including a startDate in the past) are posted
+ * the next time materialization runs.
+ */
+export async function POST(req: Request) {
+  const { userId, setCookie } = await getUserIdOrCreateAnonForWrite();
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body) return json({ error: "Invalid JSON body" }, { status: 400 });
+
+  const description = String(body.description ?? "").trim();
+  if (!description) return json({ error: "description is required" }, { status: 400 });
+
+  const notes = body.notes ? String(body.notes) : null;
+
+  const parsedAmount = parseSignedAmountCents(body.amountCents);
+  if (!parsedAmount.ok) return json({ error: parsedAmount.error }, { status: 400 });
+
+  // Transfers can't recur (yet)
+  const typeFromBody = parseTransactionType(body.type);
+  if (body.type !== undefined && (!typeFromBody || typeFromBody === "TRANSFER")) {
+    return json({ error: 'type must be "EXPENSE" or "INCOME"' }, { status: 400 });
+  }
+  const type: TransactionType = typeFromBody ?? inferTransactionType(parsedAmount.value);
+
+  const schedule = parseRecurrenceSchedule(body);
+  if (!schedule.ok) return json({ error: schedule.error }, { status: 400 });
+
+  const categoryId = optionalId(body.categoryId);
+  if (categoryId && !(await assertCategoryBelongsToUser(userId, categoryId))) {
+    return json({ error: "Invalid categoryId" }, { status: 400 });
+  }
+
+  const paymentSourceId = optionalId(body.paymentSourceId);
+  if (paymentSourceId && !(await assertPaymentSourceBelongsToUser(userId, paymentSourceId))) {
+    return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+  }
+
+  const created = await prisma.recurringTransaction.create({
+    data: {
+      userId,
+      description,
+      amountCents: Math.abs(parsedAmount.value),
+      type,
+      notes,
+      categoryId,
+      paymentSourceId,
+      ...schedule.value,
+      nextDate: firstOccurrenceOnOrAfter(schedule.value, schedule.value.startDate),
+    },
+    include: {
+      category: { select: { id: true, name: true } },
+      paymentSource: { select: { id: true, name: true } },
+    },
+  });
+
+  return json(created, {
+    status: 201,
+    headers: setCookie ? { "Set-Cookie": setCookie } : undefined,
+  });
+}
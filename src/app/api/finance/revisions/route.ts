@@ -0,0 +1,250 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  applyTransactionSnapshot,
+  collectRevisionIds,
+  formatRevisionValue,
+  loadTransactionSnapshot,
+  parseStoredChanges,
+  parseStoredSnapshot,
+  prepareSnapshotForRevert,
+  recordTransactionRevision,
+  REVISION_FIELD_LABELS,
+} from "@/lib/revisions";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+function parseIdFromUrl(req: Request, key = "id") {
+  const url = new URL(req.url);
+  return url.searchParams.get(key)?.trim() || null;
+}
+
+function parseOverride(req: Request) {
+  const v = new URL(req.url).searchParams.get("override")?.trim().toLowerCase();
+  return v === "1" || v === "true";
+}
+
+const RECONCILED_LOCKED_ERROR =
+  "This transaction is reconciled. Resend with ?override=1 to change it anyway.";
+
+/**
+ * GET /api/finance/revisions?transactionId=TX_ID
+ * The transaction's edit history, newest first, with each change formatted
+ * for display (names as they are now; deleted things show as "(deleted)").
+ */
+export async function GET(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json([]);
+
+  const transactionId = parseIdFromUrl(req, "transactionId");
+  if (!transactionId) {
+    return json({ error: 'Missing "transactionId" query param' }, { status: 400 });
+  }
+
+  const transaction = await prisma.transaction.findFirst({
+    where: { id: transactionId, userId },
+    select: { id: true, currency: true, deletedAt: true },
+  });
+  if (!transaction) return json({ error: "Not found" }, { status: 404 });
+
+  const revisions = await prisma.transactionRevision.findMany({
+    where: { transactionId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      action: true,
+      changes: true,
+      before: true,
+      createdAt: true,
+      actorUserId: true,
+      actor: { select: { name: true, email: true } },
+    },
+  });
+
+  const parsed = revisions.map((r) => ({
+    ...r,
+    changes: parseStoredChanges(r.changes),
+    before: parseStoredSnapshot(r.before),
+  }));
+  const ids = collectRevisionIds(parsed.flatMap((r) => r.changes));
+
+  const [categories, paymentSources, payees, tags] = await Promise.all([
+    prisma.category.findMany({ where: { userId, id: { in: [...ids.categories] } }, select: { id: true, name: true } }),
+    prisma.paymentSource.findMany({
+      where: { userId, id: { in: [...ids.paymentSources] } },
+      select: { id: true, name: true },
+    }),
+    prisma.payee.findMany({ where: { userId, id: { in: [...ids.payees] } }, select: { id: true, name: true } }),
+    prisma.tag.findMany({ where: { userId, id: { in: [...ids.tags] } }, select: { id: true, name: true } }),
+  ]);
+
+  const toMap = (rows: Array<{ id: string; name: string }>) => new Map(rows.map((x) => [x.id, x.name]));
+  const names = {
+    categories: toMap(categories),
+    paymentSources: toMap(paymentSources),
+    payees: toMap(payees),
+    tags: toMap(tags),
+  };
+
+  return json(
+    parsed.map((r) => {
+      // each side's amounts are shown in that side's currency
+      const beforeCurrency = r.before?.currency ?? transaction.currency;
+      const currencyChange = r.changes.find((c) => c.field === "currency");
+      const afterCurrency = typeof currencyChange?.after === "string" ? currencyChange.after : beforeCurrency;
+
+      return {
+        id: r.id,
+        action: r.action,
+        createdAt: r.createdAt.toISOString(),
+        actor: r.actorUserId === userId ? "You" : (r.actor?.name ?? r.actor?.email ?? "Someone"),
+        changes: r.changes.map((c) => ({
+          field: c.field,
+          label: REVISION_FIELD_LABELS[c.field],
+          before: formatRevisionValue(c.field, c.before, names, beforeCurrency),
+          after: formatRevisionValue(c.field, c.after, names, afterCurrency),
+        })),
+        canRevert:
+          !transaction.deletedAt &&
+          (r.action === "UPDATE" || r.action === "REVERT") &&
+          r.changes.length > 0 &&
+          r.before !== null,
+      };
+    })
+  );
+}
+
+/**
+ * POST /api/finance/revisions?id=REVISION_ID
+ * Puts the transaction back the way it was right before that revision.
+ * Recorded as a REVERT, so a revert can itself be reverted.
+ * Reconciled transactions need ?override=1 like any other edit.
+ */
+export async function POST(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  // Trashed rows are restored first, then reverted
+  const revision = await prisma.transactionRevision.findFirst({
+    where: { id, transaction: { userId, deletedAt: null } },
+    select: {
+      transactionId: true,
+      action: true,
+      before: true,
+      transaction: { select: { status: true } },
+    },
+  });
+  if (!revision) return json({ error: "Not found" }, { status: 404 });
+
+  if (revision.action !== "UPDATE" && revision.action !== "REVERT") {
+    return json({ error: "Only edits can be reverted" }, { status: 400 });
+  }
+
+  const snapshot = parseStoredSnapshot(revision.before);
+  if (!snapshot) return json({ error: "This revision can't be reverted" }, { status: 400 });
+
+  if (revision.transaction.status === "RECONCILED" && !parseOverride(req)) {
+    return json({ error: RECONCILED_LOCKED_ERROR }, { status: 409 });
+  }
+
+  const prepared = await prepareSnapshotForRevert(userId, snapshot, revision.transaction.status);
+  if (!prepared.ok) return json({ error: prepared.error }, { status: 409 });
+
+  const transactionId = revision.transactionId;
+  const changed = await prisma.$transaction(async (tx) => {
+    const before = await loadTransactionSnapshot(tx, transactionId);
+    if (!before) return false;
+
+    await applyTransactionSnapshot(tx, transactionId, prepared.value);
+
+    const after = await loadTransactionSnapshot(tx, transactionId);
+    if (!after) return false;
+
+    return recordTransactionRevision(tx, {
+      transactionId,
+      actorUserId: userId,
+      action: "REVERT",
+      before,
+      after,
+    });
+  });
+
+  return json({ ok: true, changed });
+}
@@ -0,0 +1,59 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { applyRulesToUncategorized } from "@/lib/rules";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/**
+ * Logged-in only (rules are managed in Profile).
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+/**
+ * POST /api/finance/rules/apply
+ * body: { dryRun?: boolean }
+ * Runs the rules over existing uncategorized transactions. With dryRun the
+ * rows that would change come back and nothing is saved.
+ * Returns { scanned, changed, rows } (rows capped at MAX_RULE_PREVIEW_ROWS).
+ * Logged-in only.
+ */
+export async function POST(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null = null;
+  try {
+    body = await req.json();
+  } catch {
+    // no body = apply for real
+  }
+
+  const result = await applyRulesToUncategorized(userId, { dryRun: body?.dryRun === true });
+  return json(result);
+}
@@ -0,0 +1,365 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseTransactionType } from "@/lib/transactions";
+import { parseTagIds } from "@/lib/tags";
+import {
+  MAX_RULES,
+  hasRuleAction,
+  hasRuleCondition,
+  parseRuleAmountCents,
+  parseRuleDescriptionCondition,
+  validateRuleName,
+  type TransactionRuleDefinition,
+} from "@/lib/rules";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/**
+ * Logged-in only (rules are managed in Profile).
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+function parseOptionalId(v: unknown): string | null {
+  if (v === undefined || v === null || v === "") return null;
+  return String(v).trim() || null;
+}
+
+const RULE_SELECT = {
+  id: true,
+  name: true,
+  priority: true,
+  enabled: true,
+  descriptionMatch: true,
+  descriptionPattern: true,
+  minAmountCents: true,
+  maxAmountCents: true,
+  type: true,
+  paymentSourceId: true,
+  setCategoryId: true,
+  setPaymentSourceId: true,
+  renameTo: true,
+  addTags: { select: { tagId: true } },
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type RuleFields = Omit<TransactionRuleDefinition, "id" | "name">;
+
+/**
+ * Reads the condition / action fields of a create or update body over
+ * `current` (the saved rule, or empty for a new one) and checks that every
+ * id belongs to the user. A rule needs at least one condition and one action.
+ */
+async function parseRuleFields(
+  userId: string,
+  body: Record<string, unknown>,
+  current: RuleFields
+): Promise<{ ok: true; value: RuleFields } | { ok: false; error: string }> {
+  const next: RuleFields = { ...current };
+
+  if (body.descriptionPattern !== undefined || body.descriptionMatch !== undefined) {
+    const description = parseRuleDescriptionCondition(
+      body.descriptionMatch ?? current.descriptionMatch,
+      body.descriptionPattern !== undefined ? body.descriptionPattern : current.descriptionPattern
+    );
+    if (!description.ok) return description;
+    next.descriptionMatch = description.value?.match ?? null;
+    next.descriptionPattern = description.value?.pattern ?? null;
+  }
+
+  for (const field of ["minAmountCents", "maxAmountCents"] as const) {
+    if (body[field] === undefined) continue;
+    const parsed = parseRuleAmountCents(body[field], field);
+    if (!parsed.ok) return parsed;
+    next[field] = parsed.value;
+  }
+  if (next.minAmountCents !== null && next.maxAmountCents !== null && next.minAmountCents > next.maxAmountCents) {
+    return { ok: false, error: "minAmountCents must not be more than maxAmountCents" };
+  }
+
+  if (body.type !== undefined) {
+    const type = body.type === null || body.type === "" ? null : parseTransactionType(body.type);
+    if (body.type !== null && body.type !== "" && !type) {
+      return { ok: false, error: 'type must be "EXPENSE", "INCOME" or "TRANSFER"' };
+    }
+    next.type = type;
+  }
+
+  if (body.paymentSourceId !== undefined) next.paymentSourceId = parseOptionalId(body.paymentSourceId);
+  if (body.setCategoryId !== undefined) next.setCategoryId = parseOptionalId(body.setCategoryId);
+  if (body.setPaymentSourceId !== undefined) next.setPaymentSourceId = parseOptionalId(body.setPaymentSourceId);
+
+  if (body.renameTo !== undefined) {
+    const renameTo = String(body.renameTo ?? "").trim();
+    next.renameTo = renameTo || null;
+  }
+
+  if (body.addTagIds !== undefined) {
+    const tagIds = parseTagIds(body.addTagIds);
+    if (!tagIds.ok) return { ok: false, error: tagIds.error.replace("tagIds", "addTagIds") };
+    next.addTagIds = tagIds.value ?? [];
+  }
+
+  if (!hasRuleCondition(next)) return { ok: false, error: "A rule needs at least one condition" };
+  if (!hasRuleAction(next)) return { ok: false, error: "A rule needs at least one action" };
+
+  // Everything a rule points at must be the user's own
+  const sourceIds = [next.paymentSourceId, next.setPaymentSourceId].filter((v): v is string => !!v);
+  const [categoryOk, sourceCount, tagCount] = await Promise.all([
+    next.setCategoryId
+      ? prisma.category.count({ where: { id: next.setCategoryId, userId } }).then((n) => n > 0)
+      : true,
+    prisma.paymentSource.count({ where: { id: { in: sourceIds }, userId } }),
+    prisma.tag.count({ where: { id: { in: next.addTagIds }, userId } }),
+  ]);
+  if (!categoryOk) return { ok: false, error: "Invalid setCategoryId" };
+  if (sourceCount !== new Set(sourceIds).size) return { ok: false, error: "Invalid paymentSourceId" };
+  if (tagCount !== next.addTagIds.length) return { ok: false, error: "Invalid addTagIds" };
+
+  return { ok: true, value: next };
+}
+
+// The rule's own columns (tags live in TransactionRuleTag)
+function ruleData(f: RuleFields) {
+  return {
+    descriptionMatch: f.descriptionMatch,
+    descriptionPattern: f.descriptionPattern,
+    minAmountCents: f.minAmountCents,
+    maxAmountCents: f.maxAmountCents,
+    type: f.type,
+    paymentSourceId: f.paymentSourceId,
+    setCategoryId: f.setCategoryId,
+    setPaymentSourceId: f.setPaymentSourceId,
+    renameTo: f.renameTo,
+  };
+}
+
+/**
+ * GET /api/finance/rules
+ * Every rule, in the order they run. Guests get [].
+ */
+export async function GET() {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json([]);
+
+  const rules = await prisma.transactionRule.findMany({
+    where: { userId },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+    select: RULE_SELECT,
+  });
+
+  return json(rules);
+}
+
+/**
+ * POST /api/finance/rules
+ * body: {
+ *   name: string,
+ *   descriptionMatch?: "CONTAINS" | "STARTS_WITH" | "REGEX", descriptionPattern?: string,
+ *   minAmountCents?: number, maxAmountCents?: number, type?: TransactionType, paymentSourceId?: string,
+ *   setCategoryId?: string, setPaymentSourceId?: string, addTagIds?: string[], renameTo?: string,
+ *   enabled?: boolean
+ * }
+ * New rules run last.
+ *
+ * Logged-in only.
+ */
+export async function POST(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object") return json({ error: "Invalid JSON body" }, { status: 400 });
+
+  const name = validateRuleName(body.name);
+  if (!name.ok) return json({ error: name.error }, { status: 400 });
+
+  const fields = await parseRuleFields(userId, body, {
+    descriptionMatch: null,
+    descriptionPattern: null,
+    minAmountCents: null,
+    maxAmountCents: null,
+    type: null,
+    paymentSourceId: null,
+    setCategoryId: null,
+    setPaymentSourceId: null,
+    renameTo: null,
+    addTagIds: [],
+  });
+  if (!fields.ok) return json({ error: fields.error }, { status: 400 });
+
+  const [count, last] = await Promise.all([
+    prisma.transactionRule.count({ where: { userId } }),
+    prisma.transactionRule.aggregate({ where: { userId }, _max: { priority: true } }),
+  ]);
+  if (count >= MAX_RULES) {
+    return json({ error: `You can have at most ${MAX_RULES} rules` }, { status: 400 });
+  }
+
+  try {
+    const created = await prisma.transactionRule.create({
+      data: {
+        userId,
+        name: name.value,
+        priority: (last._max.priority ?? -1) + 1,
+        enabled: body.enabled === undefined ? true : Boolean(body.enabled),
+        ...ruleData(fields.value),
+        addTags: { create: fields.value.addTagIds.map((tagId) => ({ tagId })) },
+      },
+      select: RULE_SELECT,
+    });
+
+    return json(created, { status: 201 });
+  } catch {
+    // Handles unique constraint: @@unique([userId, name])
+    return json({ error: "Rule already exists (same name)." }, { status: 409 });
+  }
+}
+
+/**
+ * PATCH /api/finance/rules?id=RULE_ID
+ * body: any POST field (null / "" clears a condition or action)
+ *
+ * PATCH /api/finance/rules
+ * body: { order: string[] }   (every rule id, in the order they should run)
+ *
+ * Logged-in only.
+ */
+export async function PATCH(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object") return json({ error: "Invalid JSON body" }, { status: 400 });
+
+  const id = parseIdFromUrl(req);
+
+  // Reorder
+  if (!id) {
+    const order = body.order;
+    if (!Array.isArray(order) || order.some((x) => typeof x !== "string")) {
+      return json({ error: "order must be an array of rule ids" }, { status: 400 });
+    }
+
+    const current = await prisma.transactionRule.findMany({ where: { userId }, select: { id: true } });
+    const ids = new Set(current.map((r) => r.id));
+    if (order.length !== ids.size || new Set(order).size !== order.length || order.some((x) => !ids.has(x))) {
+      return json({ error: "order must list every rule exactly once" }, { status: 400 });
+    }
+
+    await prisma.$transaction(
+      (order as string[]).map((ruleId, priority) =>
+        prisma.transactionRule.update({ where: { id: ruleId }, data: { priority } })
+      )
+    );
+    return json({ ok: true });
+  }
+
+  const existing = await prisma.transactionRule.findFirst({
+    where: { id, userId },
+    select: RULE_SELECT,
+  });
+  if (!existing) return json({ error: "Not found" }, { status: 404 });
+
+  let name: string | undefined;
+  if (body.name !== undefined) {
+    const parsed = validateRuleName(body.name);
+    if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
+    name = parsed.value;
+  }
+
+  const fields = await parseRuleFields(userId, body, {
+    ...existing,
+    addTagIds: existing.addTags.map((t) => t.tagId),
+  });
+  if (!fields.ok) return json({ error: fields.error }, { status: 400 });
+
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      if (body.addTagIds !== undefined) {
+        await tx.transactionRuleTag.deleteMany({ where: { ruleId: id } });
+        if (fields.value.addTagIds.length) {
+          await tx.transactionRuleTag.createMany({
+            data: fields.value.addTagIds.map((tagId) => ({ ruleId: id, tagId })),
+          });
+        }
+      }
+
+      return tx.transactionRule.update({
+        where: { id },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(body.enabled !== undefined ? { enabled: Boolean(body.enabled) } : {}),
+          ...ruleData(fields.value),
+        },
+        select: RULE_SELECT,
+      });
+    });
+
+    return json(updated);
+  } catch {
+    // likely unique violation (same name)
+    return json({ error: "Rule already exists (same name)." }, { status: 409 });
+  }
+}
+
+/**
+ * DELETE /api/finance/rules?id=RULE_ID
+ * Transactions it already changed stay as they are.
+ *
+ * Logged-in only.
+ */
+export async function DELETE(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const existing = await prisma.transactionRule.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!existing) return json({ error: "Not found" }, { status: 404 });
+
+  await prisma.transactionRule.delete({ where: { id } });
+  return json({ ok: true });
+}
@@ -0,0 +1,195 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  MAX_SAVED_VIEWS,
+  parseSavedViewParams,
+  readSavedViewParams,
+  validateSavedViewName,
+  type SavedViewSummary,
+} from "@/lib/savedViews";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+async function getAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+const SAVED_VIEW_SELECT = { id: true, name: true, params: true } as const;
+
+async function getDefaultViewId(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { defaultReportViewId: true } });
+  return user?.defaultReportViewId ?? null;
+}
+
+function toSummary(view: { id: string; name: string; params: unknown }, defaultViewId: string | null): SavedViewSummary {
+  return {
+    id: view.id,
+    name: view.name,
+    params: readSavedViewParams(view.params),
+    isDefault: view.id === defaultViewId,
+  };
+}
+
+/**
+ * GET /api/finance/saved-views
+ * Signed-in only; guests get an empty list (keeps the pickers quiet).
+ */
+export async function GET() {
+  const userId = await getAuthedUserId();
+  if (!userId) return json([]);
+
+  const [views, defaultViewId] = await Promise.all([
+    prisma.savedView.findMany({
+      where: { userId },
+      orderBy: [{ name: "asc" }],
+      select: SAVED_VIEW_SELECT,
+    }),
+    getDefaultViewId(userId),
+  ]);
+
+  return json(views.map((v) => toSummary(v, defaultViewId)));
+}
+
+/**
+ * POST /api/finance/saved-views
+ * body: { name: string, params: { month?, range?, from?, to?, q?, categoryId?, ... } }
+ *
+ * Make one the Reports default with POST /api/user/preferences { defaultReportViewId }.
+ */
+export async function POST(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = validateSavedViewName(body?.name);
+  if (!name.ok) return json({ error: name.error }, { status: 400 });
+
+  const params = parseSavedViewParams(body?.params);
+  if (!params.ok) return json({ error: params.error }, { status: 400 });
+
+  const count = await prisma.savedView.count({ where: { userId } });
+  if (count >= MAX_SAVED_VIEWS) {
+    return json({ error: `You can save up to ${MAX_SAVED_VIEWS} views` }, { status: 400 });
+  }
+
+  try {
+    const created = await prisma.savedView.create({
+      data: { userId, name: name.value, params: params.value },
+      select: SAVED_VIEW_SELECT,
+    });
+
+    // A new view is never the default yet
+    return json(toSummary(created, null), { status: 201 });
+  } catch {
+    // Handles unique constraint: @@unique([userId, name])
+    return json({ error: "A view with that name already exists." }, { status: 409 });
+  }
+}
+
+/**
+ * PATCH /api/finance/saved-views?id=VIEW_ID
+ * body: { name?: string, params?: {...} }
+ */
+export async function PATCH(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data: { name?: string; params?: Record<string, string> } = {};
+
+  if (body?.name !== undefined) {
+    const name = validateSavedViewName(body.name);
+    if (!name.ok) return json({ error: name.error }, { status: 400 });
+    data.name = name.value;
+  }
+
+  if (body?.params !== undefined) {
+    const params = parseSavedViewParams(body.params);
+    if (!params.ok) return json({ error: params.error }, { status: 400 });
+    data.params = params.value;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const existing = await prisma.savedView.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!existing) return json({ error: "Not found" }, { status: 404 });
+
+  try {
+    const updated = await prisma.savedView.update({
+      where: { id },
+      data,
+      select: SAVED_VIEW_SELECT,
+    });
+
+    return json(toSummary(updated, await getDefaultViewId(userId)));
+  } catch {
+    // likely unique violation (same name)
+    return json({ error: "A view with that name already exists." }, { status: 409 });
+  }
+}
+
+/**
+ * DELETE /api/finance/saved-views?id=VIEW_ID
+ * If it was the Reports default, Reports goes back to the current month.
+ */
+export async function DELETE(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const existing = await prisma.savedView.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!existing) return json({ error: "Not found" }, { status: 404 });
+
+  // User.defaultReportViewId is set to null by the FK
+  await prisma.savedView.delete({ where: { id } });
+
+  return json({ ok: true });
+}
@@ -0,0 +1,248 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_TAG_COLOR, parseTagColor, validateTagName } from "@/lib/tags";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+/**
+ * Logged-in only (NOT anon cookie).
+ * Use this for Profile editing actions.
+ */
+async function requireAuthedUserId(): Promise<string | null> {
+  const authed = await getUserIdFromNextAuth();
+  return authed ?? null;
+}
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+async function assertTagBelongsToUser(userId: string, tagId: string) {
+  const exists = await prisma.tag.findFirst({
+    where: { id: tagId, userId },
+    select: { id: true },
+  });
+  return !!exists;
+}
+
+const TAG_SELECT = {
+  id: true,
+  name: true,
+  color: true,
+  createdAt: true,
+  updatedAt: true,
+  // trashed transactions don't count
+  _count: { select: { transactions: { where: { transaction: { deletedAt: null } } } } },
+} as const;
+
+/**
+ * GET /api/finance/tags
+ * Guests can read (for the pickers on the Transactions page).
+ */
+export async function GET() {
+  const { userId } = await getUserIdOrNull();
+
+  // ✅ If no user context yet, return empty list (keeps UI smooth)
+  if (!userId) return json([]);
+
+  const tags = await prisma.tag.findMany({
+    where: { userId },
+    orderBy: [{ name: "asc" }],
+    select: TAG_SELECT,
+  });
+
+  return json(tags);
+}
+
+/**
+ * POST /api/finance/tags
+ * body: { name: string, color?: "#rrggbb" }
+ *
+ * Logged-in only (guests cannot customize tags).
+ */
+export async function POST(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = validateTagName(body?.name);
+  if (!name.ok) return json({ error: name.error }, { status: 400 });
+
+  let color = DEFAULT_TAG_COLOR;
+  if (body?.color !== undefined) {
+    const parsed = parseTagColor(body.color);
+    if (!parsed) return json({ error: 'color must be a hex color like "#3b82f6"' }, { status: 400 });
+    color = parsed;
+  }
+
+  try {
+    const created = await prisma.tag.create({
+      data: { userId, name: name.value, color },
+      select: TAG_SELECT,
+    });
+
+    return json(created, { status: 201 });
+  } catch {
+    // Handles unique constraint: @@unique([userId, name])
+    return json({ error: "Tag already exists (same name)." }, { status: 409 });
+  }
+}
+
+/**
+ * PATCH /api/finance/tags?id=TAG_ID
+ * body: { name?: string, color?: "#rrggbb" }
+ *
+ * Logged-in only.
+ */
+export async function PATCH(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data: { name?: string; color?: string } = {};
+
+  if (body?.name !== undefined) {
+    const name = validateTagName(body.name);
+    if (!name.ok) return json({ error: name.error }, { status: 400 });
+    data.name = name.value;
+  }
+
+  if (body?.color !== undefined) {
+    const color = parseTagColor(body.color);
+    if (!color) return json({ error: 'color must be a hex color like "#3b82f6"' }, { status: 400 });
+    data.color = color;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const ok = await assertTagBelongsToUser(userId, id);
+  if (!ok) return json({ error: "Not found" }, { status: 404 });
+
+  try {
+    const updated = await prisma.tag.update({
+      where: { id },
+      data,
+      select: TAG_SELECT,
+    });
+
+    return json(updated);
+  } catch {
+    // likely unique violation (same name)
+    return json({ error: "Tag already exists (same name)." }, { status: 409 });
+  }
+}
+
+/**
+ * DELETE /api/finance/tags?id=TAG_ID
+ * Removes the tag from every transaction (the transactions themselves stay).
+ *
+ * Logged-in only.
+ */
+export async function DELETE(req: Request) {
+  const userId = await requireAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const ok = await assertTagBelongsToUser(userId, id);
+  if (!ok) return json({ error: "Not found" }, { status: 404 });
+
+  // TransactionTag rows cascade
+  await prisma.tag.delete({ where: { id } });
+
+  return json({ ok: true });
+}
@@ -0,0 +1,344 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { parseLocalDateOnly } from "@/lib/transactions";
+import { parseTransactionListFilter } from "@/lib/search";
+import { MAX_TAGS_PER_TRANSACTION, parseTagIds } from "@/lib/tags";
+import { loadTransactionSnapshots, recordTransactionRevisions } from "@/lib/revisions";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+// ?override=1 lets a bulk operation touch RECONCILED rows
+function parseOverride(req: Request) {
+  const v = new URL(req.url).searchParams.get("override")?.trim().toLowerCase();
+  return v === "1" || v === "true";
+}
+
+/** ----------------------------
+ * Bulk operations
+ * ---------------------------- */
+const MAX_BULK_TRANSACTIONS = 1000;
+
+const BULK_ACTIONS = ["setCategory", "setPaymentSource", "addTags", "removeTags", "setDate", "delete"] as const;
+type BulkAction = (typeof BULK_ACTIONS)[number];
+
+function parseBulkAction(input: unknown): BulkAction | null {
+  return BULK_ACTIONS.includes(input as BulkAction) ? (input as BulkAction) : null;
+}
+
+function parseOptionalId(raw: unknown) {
+  return raw === null || raw === "" || raw === undefined ? null : String(raw);
+}
+
+/**
+ * ids: explicit selection (every one must be the caller's, else nothing changes)
+ * filter: the GET /api/finance/transactions params, as an object
+ */
+function parseBulkTarget(
+  body: { ids?: unknown; filter?: unknown } | null
+): { ok: true; ids: string[] | null; where: Prisma.TransactionWhereInput } | { ok: false; error: string } {
+  const hasIds = body?.ids !== undefined;
+  const hasFilter = body?.filter !== undefined;
+  if (hasIds === hasFilter) return { ok: false, error: 'Send either "ids" or "filter"' };
+
+  if (hasIds) {
+    if (!Array.isArray(body!.ids) || body!.ids.some((id) => typeof id !== "string" || !id.trim())) {
+      return { ok: false, error: "ids must be an array of transaction ids" };
+    }
+    const ids = [...new Set((body!.ids as string[]).map((id) => id.trim()))];
+    if (ids.length === 0) return { ok: false, error: "ids is empty" };
+    if (ids.length > MAX_BULK_TRANSACTIONS) {
+      return { ok: false, error: `At most ${MAX_BULK_TRANSACTIONS} transactions at a time` };
+    }
+    return { ok: true, ids, where: { id: { in: ids } } };
+  }
+
+  const raw = body!.filter;
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: "filter must be an object of list params" };
+  }
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(raw)) {
+    if (value !== undefined && value !== null) params.set(key, String(value));
+  }
+  const filter = parseTransactionListFilter(params);
+  if (!filter.ok) return { ok: false, error: filter.error };
+  return { ok: true, ids: null, where: filter.where };
+}
+
+/**
+ * POST /api/finance/transactions/bulk
+ * Body: { ids: string[] } or { filter: { month, q, categoryId, ... } }, plus
+ *   action: "setCategory"      + categoryId (null = uncategorized)
+ *           "setPaymentSource" + paymentSourceId (null = unassigned)
+ *           "addTags" / "removeTags" + tagIds
+ *           "setDate"          + date (YYYY-MM-DD)
+ *           "delete"           (moves them to Trash)
+ *
+ * All or nothing. Rows an action doesn't apply to are skipped and counted:
+ * category on transfers / split rows, payment source on transfers.
+ * An archived category or payment source can't be assigned to rows that
+ * don't already have it.
+ * Reconciled rows need ?override=1, like single edits.
+ */
+export async function POST(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const action = parseBulkAction(body?.action);
+  if (!action) {
+    return json({ error: `action must be one of: ${BULK_ACTIONS.join(", ")}` }, { status: 400 });
+  }
+
+  const target = parseBulkTarget(body);
+  if (!target.ok) return json({ error: target.error }, { status: 400 });
+
+  const rows = await prisma.transaction.findMany({
+    where: { userId, deletedAt: null, ...target.where },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      categoryId: true,
+      paymentSourceId: true,
+      tags: { select: { tagId: true } },
+      _count: { select: { splits: true } },
+    },
+    take: MAX_BULK_TRANSACTIONS + 1,
+  });
+
+  if (target.ids && rows.length !== target.ids.length) {
+    const missing = target.ids.length - rows.length;
+    return json(
+      { error: `${missing} of the selected transactions ${missing === 1 ? "was" : "were"} not found` },
+      { status: 404 }
+    );
+  }
+  if (rows.length > MAX_BULK_TRANSACTIONS) {
+    return json(
+      { error: `More than ${MAX_BULK_TRANSACTIONS} transactions match; narrow the filter` },
+      { status: 400 }
+    );
+  }
+
+  const reconciledCount = rows.filter((r) => r.status === "RECONCILED").length;
+  if (reconciledCount > 0 && !parseOverride(req)) {
+    return json(
+      {
+        error: `${reconciledCount} of these transactions ${reconciledCount === 1 ? "is" : "are"} reconciled. Resend with ?override=1 to change them anyway.`,
+      },
+      { status: 409 }
+    );
+  }
+
+  // Validate the action's value and pick the rows it applies to
+  let eligible = rows;
+  let data: Prisma.TransactionUncheckedUpdateManyInput | null = null;
+  let tagIds: string[] = [];
+
+  switch (action) {
+    case "setCategory": {
+      const categoryId = parseOptionalId(body?.categoryId);
+      const category = categoryId
+        ? await prisma.category.findFirst({ where: { id: categoryId, userId }, select: { archivedAt: true } })
+        : null;
+      if (categoryId && !category) return json({ error: "Invalid categoryId" }, { status: 400 });
+      // transfers have no category; split rows carry theirs on the lines
+      eligible = rows.filter((r) => r.type !== "TRANSFER" && r._count.splits === 0);
+      // rows already in an archived category can stay; no others move in
+      if (category?.archivedAt && eligible.some((r) => r.categoryId !== categoryId)) {
+        return json({ error: "Category is archived" }, { status: 400 });
+      }
+      data = { categoryId };
+      break;
+    }
+
+    case "setPaymentSource": {
+      const paymentSourceId = parseOptionalId(body?.paymentSourceId);
+      const source = paymentSourceId
+        ? await prisma.paymentSource.findFirst({
+            where: { id: paymentSourceId, userId },
+            select: { archivedAt: true },
+          })
+        : null;
+      if (paymentSourceId && !source) return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+      // a transfer's accounts are edited one at a time (they must differ)
+      eligible = rows.filter((r) => r.type !== "TRANSFER");
+      if (source?.archivedAt && eligible.some((r) => r.paymentSourceId !== paymentSourceId)) {
+        return json({ error: "Payment source is archived" }, { status: 400 });
+      }
+      data = { paymentSourceId };
+      break;
+    }
+
+    case "addTags":
+    case "removeTags": {
+      const parsed = parseTagIds(body?.tagIds);
+      if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
+      tagIds = parsed.value ?? [];
+      if (tagIds.length === 0) return json({ error: "tagIds is empty" }, { status: 400 });
+
+      const owned = await prisma.tag.count({ where: { id: { in: tagIds }, userId } });
+      if (owned !== tagIds.length) return json({ error: "Invalid tagIds" }, { status: 400 });
+
+      if (action === "addTags") {
+        const tooMany = rows.some(
+          (r) => new Set([...r.tags.map((t) => t.tagId), ...tagIds]).size > MAX_TAGS_PER_TRANSACTION
+        );
+        if (tooMany) {
+          return json(
+            { error: `A transaction can have at most ${MAX_TAGS_PER_TRANSACTION} tags` },
+            { status: 400 }
+          );
+        }
+      }
+      break;
+    }
+
+    case "setDate": {
+      const date = parseLocalDateOnly(body?.date);
+      if (!date) return json({ error: "Invalid date" }, { status: 400 });
+      data = { date };
+      break;
+    }
+
+    case "delete":
+      data = { deletedAt: new Date() };
+      break;
+  }
+
+  const ids = eligible.map((r) => r.id);
+
+  if (ids.length > 0) {
+    try {
+      await prisma.$transaction(
+        async (tx) => {
+          const before = await loadTransactionSnapshots(tx, ids);
+
+          if (data) {
+            await tx.transaction.updateMany({ where: { id: { in: ids } }, data });
+          } else if (action === "addTags") {
+            await tx.transactionTag.createMany({
+              data: ids.flatMap((transactionId) => tagIds.map((tagId) => ({ transactionId, tagId }))),
+              skipDuplicates: true,
+            });
+          } else {
+            await tx.transactionTag.deleteMany({ where: { transactionId: { in: ids }, tagId: { in: tagIds } } });
+          }
+
+          // Same history entries the single-row PATCH / DELETE record
+          if (action === "delete") {
+            await recordTransactionRevisions(
+              tx,
+              userId,
+              "DELETE",
+              ids.flatMap((id) => (before.has(id) ? [{ transactionId: id, before: before.get(id)! }] : []))
+            );
+          } else {
+            const after = await loadTransactionSnapshots(tx, ids);
+            await recordTransactionRevisions(
+              tx,
+              userId,
+              "UPDATE",
+              ids.flatMap((id) =>
+                before.has(id) && after.has(id)
+                  ? [{ transactionId: id, before: before.get(id)!, after: after.get(id)! }]
+                  : []
+              )
+            );
+          }
+        },
+        { timeout: 60_000 }
+      );
+    } catch (err) {
+      // A clash on a unique key (say, with a concurrent edit) is a conflict, not a server error
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        return json({ error: "These changes would duplicate an existing transaction" }, { status: 409 });
+      }
+      throw err;
+    }
+  }
+
+  return json({ ok: true, updated: ids.length, skipped: rows.length - ids.length });
+}
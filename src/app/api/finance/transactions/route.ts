@@ -1,7 +1,26 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { TransactionFlag } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import {
+  inferTransactionType,
+  parseLocalDateOnly,
+  parseSignedAmountCents,
+  parseTransactionSplits,
+  parseTransactionStatus,
+  encodeTransactionCursor,
+  parseTransactionType,
+  transactionCursorWhere,
+  TRANSACTION_LIST_ORDER_BY,
+  type TransactionSplitInput,
+  type TransactionType,
+} from "@/lib/transactions";
+import { DEFAULT_CURRENCY, buildRateTable, convertCents, parseCurrencyCode } from "@/lib/currency";
+import { parseTransactionListFilter } from "@/lib/search";
+import { parseTagIds } from "@/lib/tags";
+import { loadPayeeMatcher, matchPayee, validatePayeeName } from "@/lib/payees";
+import { loadTransactionRules, runTransactionRules } from "@/lib/rules";
+import { loadTransactionSnapshot, recordTransactionRevision } from "@/lib/revisions";
 import { cookies } from "next/headers";
 import crypto from "crypto";
 
@@ -17,20 +36,6 @@ function json(data: unknown, init?: ResponseInit) {
   });
 }
 
-function parseLocalDateOnly(value: unknown): Date | null {
-  if (typeof value !== "string") return null;
-  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (!m) return null;
-
-  const y = Number(m[1]);
-  const mo = Number(m[2]);
-  const d = Number(m[3]);
-
-  // Create a local-time date (prevents UTC shift)
-  const dt = new Date(y, mo - 1, d);
-  return Number.isNaN(dt.getTime()) ? null : dt;
-}
-
 /** ----------------------------
  * Anonymous session support
  * ---------------------------- */
@@ -131,55 +136,25 @@ async function getUserIdOrCreateAnonForWrite(): Promise<{
  * Existing route logic below
  * ---------------------------- */
 
-type TransactionType = "EXPENSE" | "INCOME";
-const ALLOWED_TYPES = new Set<TransactionType>(["EXPENSE", "INCOME"]);
-
-function parseTransactionType(input: unknown): TransactionType | null {
-  if (input === undefined || input === null) return null;
-  const raw = String(input).trim().toUpperCase();
-  if (ALLOWED_TYPES.has(raw as TransactionType)) return raw as TransactionType;
-  return null;
-}
-
-function parseMonth(month: string | null) {
-  if (!month) return { ok: true as const, range: null as null };
-  if (!/^\d{4}-\d{2}$/.test(month)) {
-    return { ok: false as const, error: 'Invalid "month". Use YYYY-MM.' };
-  }
-
-  const [y, m] = month.split("-").map(Number);
-  if (!Number.isInteger(y) || !Number.isInteger(m) || m < 1 || m > 12) {
-    return { ok: false as const, error: 'Invalid "month". Use YYYY-MM.' };
-  }
-
-  const start = new Date(Date.UTC(y, m - 1, 1));
-  const end = new Date(Date.UTC(y, m, 1));
-  return { ok: true as const, range: { start, end } };
-}
-
 function parseIdFromUrl(req: Request) {
   const url = new URL(req.url);
   return url.searchParams.get("id")?.trim() || null;
 }
 
-function parseCategoryFilter(value: string | null) {
-  if (!value) return null;
-  const v = value.trim();
-  if (!v) return null;
-  if (v === "uncategorized") return { isNull: true as const };
-  return { equals: v };
+// ?override=1 lets PATCH / DELETE touch a RECONCILED row
+function parseOverride(req: Request) {
+  const v = new URL(req.url).searchParams.get("override")?.trim().toLowerCase();
+  return v === "1" || v === "true";
 }
 
-function parsePaymentSourceFilter(value: string | null) {
-  if (!value) return null;
-  const v = value.trim();
-  if (!v || v === "all") return null;
-  if (v === "unassigned") return { isNull: true as const };
-  return { equals: v };
-}
+const RECONCILED_LOCKED_ERROR =
+  "This transaction is reconciled. Resend with ?override=1 to change it anyway.";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
 
 function parseLimit(value: string | null) {
-  if (!value) return { ok: true as const, value: null as number | null };
+  if (!value) return { ok: true as const, value: DEFAULT_PAGE_SIZE };
   const n = Number(value);
   if (!Number.isInteger(n) || n < 1) {
     return {
@@ -187,121 +162,275 @@ function parseLimit(value: string | null) {
       error: 'Invalid "limit". Must be a positive integer.',
     };
   }
-  return { ok: true as const, value: Math.min(n, 200) };
+  return { ok: true as const, value: Math.min(n, MAX_PAGE_SIZE) };
+}
+
+/**
+ * Count and income / expense sums of a filtered list, in the user's base
+ * currency (foreign rows converted at the rate on their date, like the
+ * Dashboard; rows without a rate are counted in unconvertedCount).
+ */
+async function listTotals(userId: string, where: Prisma.TransactionWhereInput) {
+  const [user, rates, count, amounts] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } }),
+    prisma.exchangeRate.findMany({
+      where: { userId },
+      select: { fromCurrency: true, toCurrency: true, date: true, rate: true },
+    }),
+    prisma.transaction.count({ where }),
+    prisma.transaction.findMany({
+      where: { AND: [where, { type: { in: ["EXPENSE", "INCOME"] } }] },
+      select: { amountCents: true, currency: true, type: true, date: true },
+    }),
+  ]);
+  const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+  const rateTable = buildRateTable(rates);
+
+  let incomeCents = 0;
+  let expenseCents = 0;
+  let unconvertedCount = 0;
+  for (const t of amounts) {
+    const cents = convertCents(rateTable, t.amountCents, t.currency, baseCurrency, t.date);
+    if (cents === null) {
+      unconvertedCount++;
+      continue;
+    }
+    if (t.type === "INCOME") incomeCents += cents;
+    else expenseCents += cents;
+  }
+
+  return { count, currency: baseCurrency, incomeCents, expenseCents, unconvertedCount };
 }
 
-async function assertCategoryBelongsToUser(userId: string, categoryId: string) {
-  const exists = await prisma.category.findFirst({
+// Archived categories and accounts take no new transactions; a row that
+// already has one (`current`) can keep it. These return an error or null.
+async function validateCategory(userId: string, categoryId: string, current: string | null = null) {
+  const category = await prisma.category.findFirst({
     where: { id: categoryId, userId },
-    select: { id: true },
+    select: { archivedAt: true },
   });
-  return !!exists;
+  if (!category) return "Invalid categoryId";
+  return category.archivedAt && categoryId !== current ? "Category is archived" : null;
 }
 
-async function assertPaymentSourceBelongsToUser(
+async function validateSplitCategories(
   userId: string,
-  paymentSourceId: string
+  splits: TransactionSplitInput[],
+  current: Array<string | null> = []
 ) {
-  const exists = await prisma.paymentSource.findFirst({
-    where: { id: paymentSourceId, userId },
-    select: { id: true },
+  const ids = [...new Set(splits.map((s) => s.categoryId).filter((id): id is string => !!id))];
+  if (ids.length === 0) return null;
+
+  const categories = await prisma.category.findMany({
+    where: { id: { in: ids }, userId },
+    select: { id: true, archivedAt: true },
+  });
+  if (categories.length !== ids.length) return "Invalid split categoryId";
+  return categories.some((c) => c.archivedAt && !current.includes(c.id)) ? "Split category is archived" : null;
+}
+
+async function assertTagsBelongToUser(userId: string, tagIds: string[]) {
+  if (tagIds.length === 0) return true;
+
+  const count = await prisma.tag.count({
+    where: { id: { in: tagIds }, userId },
   });
-  return !!exists;
+  return count === tagIds.length;
 }
 
-const ALLOWED_FLAGS = new Set<TransactionFlag>(Object.values(TransactionFlag));
+async function validatePaymentSource(
+  userId: string,
+  paymentSourceId: string,
+  field: "paymentSourceId" | "transferToPaymentSourceId",
+  current: string | null = null
+) {
+  const source = await prisma.paymentSource.findFirst({
+    where: { id: paymentSourceId, userId },
+    select: { archivedAt: true },
+  });
+  if (!source) return `Invalid ${field}`;
+  return source.archivedAt && paymentSourceId !== current ? "Payment source is archived" : null;
+}
 
-function parseFlags(
-  input: unknown
-):
-  | { ok: true; value: TransactionFlag[] | undefined }
-  | { ok: false; error: string } {
-  if (input === undefined) return { ok: true as const, value: undefined };
-  if (input === null) return { ok: true as const, value: [] };
+type ResolvedPayee = { id: string; defaultCategoryId: string | null };
+
+// A default category that has since been archived isn't applied
+const RESOLVED_PAYEE_SELECT = {
+  id: true,
+  defaultCategoryId: true,
+  defaultCategory: { select: { archivedAt: true } },
+} as const;
+
+function toResolvedPayee(p: {
+  id: string;
+  defaultCategoryId: string | null;
+  defaultCategory: { archivedAt: Date | null } | null;
+}): ResolvedPayee {
+  return { id: p.id, defaultCategoryId: p.defaultCategory?.archivedAt ? null : p.defaultCategoryId };
+}
 
-  if (!Array.isArray(input)) {
-    return { ok: false as const, error: "flags must be an array of strings" };
+/**
+ * Payee from a create/update body:
+ * - payeeId: an existing payee (null => no payee)
+ * - payeeName: the payee with that name (any case), created if missing
+ * - neither: undefined (callers decide whether to match the description)
+ */
+async function resolvePayeeFromBody(
+  userId: string,
+  body: { payeeId?: unknown; payeeName?: unknown } | null
+): Promise<{ ok: true; value: ResolvedPayee | null | undefined } | { ok: false; error: string }> {
+  if (body?.payeeId !== undefined) {
+    if (body.payeeId === null || body.payeeId === "") return { ok: true, value: null };
+
+    const payee = await prisma.payee.findFirst({
+      where: { id: String(body.payeeId), userId },
+      select: RESOLVED_PAYEE_SELECT,
+    });
+    return payee ? { ok: true, value: toResolvedPayee(payee) } : { ok: false, error: "Invalid payeeId" };
   }
 
-  const out: TransactionFlag[] = [];
-  for (const raw of input) {
-    if (typeof raw !== "string") {
-      return {
-        ok: false as const,
-        error: "flags must be an array of strings",
-      };
+  if (body?.payeeName !== undefined) {
+    if (body.payeeName === null || String(body.payeeName).trim() === "") return { ok: true, value: null };
+
+    const name = validatePayeeName(body.payeeName);
+    if (!name.ok) return { ok: false, error: `payeeName: ${name.error}` };
+
+    const where = { userId, name: { equals: name.value, mode: "insensitive" as const } };
+    const existing = await prisma.payee.findFirst({ where, select: RESOLVED_PAYEE_SELECT });
+    if (existing) return { ok: true, value: toResolvedPayee(existing) };
+
+    try {
+      const created = await prisma.payee.create({
+        data: { userId, name: name.value },
+        select: RESOLVED_PAYEE_SELECT,
+      });
+      return { ok: true, value: toResolvedPayee(created) };
+    } catch {
+      // created concurrently under the same name
+      const again = await prisma.payee.findFirst({ where, select: RESOLVED_PAYEE_SELECT });
+      return again ? { ok: true, value: toResolvedPayee(again) } : { ok: false, error: "Could not save payee" };
     }
+  }
 
-    const v = raw.trim().toUpperCase();
+  return { ok: true, value: undefined };
+}
 
-    if (!ALLOWED_FLAGS.has(v as TransactionFlag)) {
-      return { ok: false as const, error: `Invalid flag: ${raw}` };
-    }
+/**
+ * Currency for a new transaction when the body doesn't name one:
+ * the account's currency, else the user's base currency.
+ */
+async function defaultTransactionCurrency(
+  userId: string,
+  paymentSourceId: string | null
+) {
+  if (paymentSourceId) {
+    const source = await prisma.paymentSource.findFirst({
+      where: { id: paymentSourceId, userId },
+      select: { currency: true },
+    });
+    if (source) return source.currency;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { baseCurrency: true },
+  });
+  return user?.baseCurrency ?? DEFAULT_CURRENCY;
+}
 
-    const flag = v as TransactionFlag;
-    if (!out.includes(flag)) out.push(flag);
+/**
+ * A TRANSFER needs two different payment sources owned by the user.
+ * `from` ownership is checked with the regular paymentSourceId validation.
+ */
+async function validateTransferAccounts(
+  userId: string,
+  from: string | null,
+  to: string | null,
+  currentTo: string | null = null
+): Promise<string | null> {
+  if (!from || !to) {
+    return "A transfer needs both paymentSourceId (from) and transferToPaymentSourceId (to)";
   }
+  if (from === to) return "A transfer must move money between two different accounts";
 
-  return { ok: true as const, value: out };
+  return validatePaymentSource(userId, to, "transferToPaymentSourceId", currentTo);
 }
 
+const TRANSACTION_INCLUDE = {
+  category: true,
+  paymentSource: true,
+  transferToPaymentSource: true,
+  payee: { select: { id: true, name: true } },
+  splits: {
+    orderBy: { sortOrder: "asc" },
+    include: { category: true },
+  },
+  attachments: {
+    orderBy: { createdAt: "asc" },
+    select: { id: true, fileName: true, contentType: true, sizeBytes: true },
+  },
+  tags: {
+    orderBy: { tag: { name: "asc" } },
+    select: { tag: { select: { id: true, name: true, color: true } } },
+  },
+} satisfies Prisma.TransactionInclude;
+
+function splitCreateData(splits: TransactionSplitInput[]) {
+  return splits.map((s, i) => ({ ...s, sortOrder: i }));
+}
+
+/**
+ * GET /api/finance/transactions
+ * Query: the list filters (month, or range=last7|last30|last90|ytd|lastYear,
+ * or from/to as YYYY-MM-DD; minAmount, maxAmount, type, q, categoryId,
+ * paymentSourceId, tagId, payeeId, status), limit (default 50, max 200),
+ * cursor, totals=1.
+ *
+ * Returns { items, nextCursor, totals? }, newest first. Pass nextCursor back
+ * as ?cursor= for the next page; it's null on the last one. totals covers the
+ * whole filtered set (not just this page), so ask for it on the first page only.
+ * q is the search language in lib/search; a query that doesn't parse is a 400.
+ */
 export async function GET(req: Request) {
   const { userId } = await getUserIdOrNull();
 
   // ✅ Smooth UX: no user context yet => empty list
-  if (!userId) return json([]);
+  if (!userId) return json({ items: [], nextCursor: null });
 
   const url = new URL(req.url);
 
-  const parsedMonth = parseMonth(url.searchParams.get("month"));
-  if (!parsedMonth.ok)
-    return json({ error: parsedMonth.error }, { status: 400 });
-
-  const q = (url.searchParams.get("q") ?? "").trim();
-
-  const categoryFilter = parseCategoryFilter(
-    url.searchParams.get("categoryId")
-  );
-
-  const paymentSourceFilter = parsePaymentSourceFilter(
-    url.searchParams.get("paymentSourceId")
-  );
+  const filter = parseTransactionListFilter(url.searchParams);
+  if (!filter.ok) return json({ error: filter.error }, { status: 400 });
 
   const parsedLimit = parseLimit(url.searchParams.get("limit"));
   if (!parsedLimit.ok)
     return json({ error: parsedLimit.error }, { status: 400 });
-
-  const transactions = await prisma.transaction.findMany({
-    where: {
-      userId,
-      ...(parsedMonth.range
-        ? { date: { gte: parsedMonth.range.start, lt: parsedMonth.range.end } }
-        : {}),
-      ...(q
-        ? {
-            description: {
-              contains: q,
-              mode: "insensitive",
-            },
-          }
-        : {}),
-      ...(categoryFilter
-        ? categoryFilter.isNull
-          ? { categoryId: null }
-          : { categoryId: categoryFilter.equals }
-        : {}),
-      ...(paymentSourceFilter
-        ? paymentSourceFilter.isNull
-          ? { paymentSourceId: null }
-          : { paymentSourceId: paymentSourceFilter.equals }
-        : {}),
-    },
-    orderBy: [{ date: "desc" }, { createdAt: "desc" }],
-    take: parsedLimit.value ?? undefined,
-    include: { category: true, paymentSource: true },
+  const limit = parsedLimit.value;
+
+  const cursorParam = url.searchParams.get("cursor")?.trim();
+  const afterCursor = cursorParam ? transactionCursorWhere(cursorParam) : null;
+  if (cursorParam && !afterCursor)
+    return json({ error: 'Invalid "cursor"' }, { status: 400 });
+
+  const where: Prisma.TransactionWhereInput = {
+    AND: [{ userId, deletedAt: null }, filter.where],
+  };
+
+  // one extra row tells whether there's a next page
+  const rows = await prisma.transaction.findMany({
+    where: afterCursor ? { AND: [where, afterCursor] } : where,
+    orderBy: TRANSACTION_LIST_ORDER_BY,
+    take: limit + 1,
+    include: TRANSACTION_INCLUDE,
   });
 
-  return json(transactions);
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeTransactionCursor(items[items.length - 1]) : null;
+
+  const wantTotals = ["1", "true"].includes(url.searchParams.get("totals")?.trim().toLowerCase() ?? "");
+  const totals = wantTotals ? await listTotals(userId, where) : undefined;
+
+  return json({ items, nextCursor, ...(totals ? { totals } : {}) });
 }
 
 export async function POST(req: Request) {
@@ -317,11 +446,11 @@ export async function POST(req: Request) {
   const description = String(body?.description ?? "").trim();
   const notes = body?.notes ? String(body.notes) : null;
 
-  const parsedFlags = parseFlags(body?.flags);
-  if (!parsedFlags.ok)
-    return json({ error: parsedFlags.error }, { status: 400 });
+  const parsedTagIds = parseTagIds(body?.tagIds);
+  if (!parsedTagIds.ok)
+    return json({ error: parsedTagIds.error }, { status: 400 });
 
-  const flags: TransactionFlag[] = parsedFlags.value ?? [];
+  const tagIds = parsedTagIds.value ?? [];
 
   const categoryIdRaw = body?.categoryId;
   const categoryId =
@@ -339,65 +468,140 @@ export async function POST(req: Request) {
       ? null
       : String(paymentSourceIdRaw);
 
+  const transferToRaw = body?.transferToPaymentSourceId;
+  const transferToPaymentSourceId =
+    transferToRaw === null || transferToRaw === undefined || transferToRaw === ""
+      ? null
+      : String(transferToRaw);
+
   const date = parseLocalDateOnly(body?.date);
   if (!date) return json({ error: "Invalid date" }, { status: 400 });
 
-  const amountCentsRaw = body?.amountCents;
-  const amountCentsInput =
-    typeof amountCentsRaw === "string"
-      ? Number(amountCentsRaw)
-      : amountCentsRaw;
+  const parsedAmount = parseSignedAmountCents(body?.amountCents);
+  if (!parsedAmount.ok)
+    return json({ error: parsedAmount.error }, { status: 400 });
+  const amountCentsInput = parsedAmount.value;
 
-  if (!Number.isInteger(amountCentsInput)) {
-    return json({ error: "amountCents must be an integer" }, { status: 400 });
-  }
-  if (Math.abs(amountCentsInput) > 10_000_000_00) {
-    return json({ error: "amountCents is out of bounds" }, { status: 400 });
-  }
-  if (amountCentsInput === 0) {
-    return json({ error: "amountCents cannot be 0" }, { status: 400 });
-  }
   if (!description) {
     return json({ error: "description is required" }, { status: 400 });
   }
 
   if (categoryId) {
-    const ok = await assertCategoryBelongsToUser(userId, categoryId);
-    if (!ok) return json({ error: "Invalid categoryId" }, { status: 400 });
+    const categoryError = await validateCategory(userId, categoryId);
+    if (categoryError) return json({ error: categoryError }, { status: 400 });
   }
 
   if (paymentSourceId) {
-    const ok = await assertPaymentSourceBelongsToUser(userId, paymentSourceId);
-    if (!ok) return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+    const sourceError = await validatePaymentSource(userId, paymentSourceId, "paymentSourceId");
+    if (sourceError) return json({ error: sourceError }, { status: 400 });
+  }
+
+  if (!(await assertTagsBelongToUser(userId, tagIds))) {
+    return json({ error: "Invalid tagIds" }, { status: 400 });
+  }
+
+  let currency: string;
+  if (body?.currency === undefined || body?.currency === null || body?.currency === "") {
+    currency = await defaultTransactionCurrency(userId, paymentSourceId);
+  } else {
+    const parsedCurrency = parseCurrencyCode(body.currency);
+    if (!parsedCurrency) return json({ error: "Invalid currency" }, { status: 400 });
+    currency = parsedCurrency;
   }
 
   const typeFromBody = parseTransactionType(body?.type);
   if (body?.type !== undefined && !typeFromBody) {
     return json(
-      { error: 'type must be "EXPENSE" or "INCOME"' },
+      { error: 'type must be "EXPENSE", "INCOME" or "TRANSFER"' },
       { status: 400 }
     );
   }
 
-  const inferredType: TransactionType =
-    amountCentsInput < 0 ? "EXPENSE" : "INCOME";
+  const inferredType = inferTransactionType(amountCentsInput);
   const type: TransactionType = typeFromBody ?? inferredType;
 
+  // New rows can start out cleared; RECONCILED only comes from /api/finance/reconcile
+  const status = body?.status === undefined ? "PENDING" : parseTransactionStatus(body.status);
+  if (!status || status === "RECONCILED") {
+    return json({ error: 'status must be "PENDING" or "CLEARED"' }, { status: 400 });
+  }
+
   const amountCents = Math.abs(amountCentsInput);
 
+  const parsedSplits = parseTransactionSplits(body?.splits, amountCents);
+  if (!parsedSplits.ok)
+    return json({ error: parsedSplits.error }, { status: 400 });
+  const splits = parsedSplits.value ?? null;
+
+  if (splits) {
+    const splitError = await validateSplitCategories(userId, splits);
+    if (splitError) return json({ error: splitError }, { status: 400 });
+  }
+
+  if (type === "TRANSFER") {
+    const transferError = await validateTransferAccounts(
+      userId,
+      paymentSourceId,
+      transferToPaymentSourceId
+    );
+    if (transferError) return json({ error: transferError }, { status: 400 });
+    if (splits) return json({ error: "Transfers can't be split" }, { status: 400 });
+  } else if (transferToPaymentSourceId) {
+    return json(
+      { error: "transferToPaymentSourceId is only allowed on transfers" },
+      { status: 400 }
+    );
+  }
+
+  // Payee: picked / typed in the form, else matched from the description by alias rules
+  const resolvedPayee = await resolvePayeeFromBody(userId, body);
+  if (!resolvedPayee.ok) return json({ error: resolvedPayee.error }, { status: 400 });
+
+  let payee = resolvedPayee.value ?? null;
+  if (resolvedPayee.value === undefined) {
+    const m = matchPayee(await loadPayeeMatcher(userId), description);
+    payee = m ? { id: m.payeeId, defaultCategoryId: m.defaultCategoryId } : null;
+  }
+
+  // Auto-categorization rules fill in what the form left empty
+  const ruled = runTransactionRules(await loadTransactionRules(userId), {
+    description,
+    amountCents,
+    type,
+    categoryId,
+    paymentSourceId,
+    hasSplits: !!splits,
+    tagIds,
+  });
+  const finalTagIds = [...tagIds, ...ruled.addTagIds];
+  // ...and an account picked by a rule brings its currency, like one picked in the form
+  if (ruled.paymentSourceId && (body?.currency === undefined || body?.currency === null || body?.currency === "")) {
+    currency = await defaultTransactionCurrency(userId, ruled.paymentSourceId);
+  }
+
   const created = await prisma.transaction.create({
     data: {
       userId,
       date,
       amountCents,
+      currency,
       type,
-      description,
+      description: ruled.description ?? description,
       notes,
-      flags,
-      categoryId,
-      paymentSourceId,
+      status,
+      // a split transaction is categorized by its lines only; transfers have no category.
+      // Uncategorized rows take a rule's category, else the payee's default category.
+      categoryId:
+        splits || type === "TRANSFER"
+          ? null
+          : categoryId ?? ruled.categoryId ?? payee?.defaultCategoryId ?? null,
+      payeeId: payee?.id ?? null,
+      paymentSourceId: paymentSourceId ?? ruled.paymentSourceId,
+      transferToPaymentSourceId,
+      ...(splits ? { splits: { create: splitCreateData(splits) } } : {}),
+      ...(finalTagIds.length ? { tags: { create: finalTagIds.map((tagId) => ({ tagId })) } } : {}),
     },
-    include: { category: true, paymentSource: true },
+    include: TRANSACTION_INCLUDE,
   });
 
   return json(created, {
@@ -420,13 +624,27 @@ export async function PATCH(req: Request) {
     return json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
+  // Trashed rows are restored first (see /api/finance/trash), not edited in place
   const existing = await prisma.transaction.findFirst({
-    where: { id, userId },
-    select: { id: true },
+    where: { id, userId, deletedAt: null },
+    select: {
+      id: true,
+      amountCents: true,
+      type: true,
+      categoryId: true,
+      paymentSourceId: true,
+      transferToPaymentSourceId: true,
+      status: true,
+      splits: { select: { categoryId: true } },
+    },
   });
 
   if (!existing) return json({ error: "Not found" }, { status: 404 });
 
+  if (existing.status === "RECONCILED" && !parseOverride(req)) {
+    return json({ error: RECONCILED_LOCKED_ERROR }, { status: 409 });
+  }
+
   const data: any = {};
 
   if (body?.description !== undefined) {
@@ -440,28 +658,21 @@ export async function PATCH(req: Request) {
     const t = parseTransactionType(body.type);
     if (!t)
       return json(
-        { error: 'type must be "EXPENSE" or "INCOME"' },
+        { error: 'type must be "EXPENSE", "INCOME" or "TRANSFER"' },
         { status: 400 }
       );
     data.type = t;
   }
 
   if (body?.amountCents !== undefined) {
-    const raw = body.amountCents;
-    const amountCentsInput = typeof raw === "string" ? Number(raw) : raw;
-
-    if (!Number.isInteger(amountCentsInput)) {
-      return json({ error: "amountCents must be an integer" }, { status: 400 });
-    }
-    if (Math.abs(amountCentsInput) > 10_000_000_00) {
-      return json({ error: "amountCents is out of bounds" }, { status: 400 });
-    }
-    if (amountCentsInput === 0) {
-      return json({ error: "amountCents cannot be 0" }, { status: 400 });
-    }
-
-    if (body?.type === undefined) {
-      data.type = amountCentsInput < 0 ? "EXPENSE" : "INCOME";
+    const parsedAmount = parseSignedAmountCents(body.amountCents);
+    if (!parsedAmount.ok)
+      return json({ error: parsedAmount.error }, { status: 400 });
+    const amountCentsInput = parsedAmount.value;
+
+    // a transfer has no direction, so its sign never changes the type
+    if (body?.type === undefined && existing.type !== "TRANSFER") {
+      data.type = inferTransactionType(amountCentsInput);
     }
     data.amountCents = Math.abs(amountCentsInput);
   }
@@ -477,10 +688,31 @@ export async function PATCH(req: Request) {
       body.notes === null || body.notes === "" ? null : String(body.notes);
   }
 
-  if (body?.flags !== undefined) {
-    const parsed = parseFlags(body.flags);
-    if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
-    data.flags = parsed.value ?? [];
+  // PENDING <-> CLEARED; a reconciled row can only be moved back (with override)
+  if (body?.status !== undefined) {
+    const status = parseTransactionStatus(body.status);
+    if (!status)
+      return json(
+        { error: 'status must be "PENDING", "CLEARED" or "RECONCILED"' },
+        { status: 400 }
+      );
+    if (status === "RECONCILED" && existing.status !== "RECONCILED") {
+      return json(
+        { error: "Transactions are marked reconciled by finishing a reconciliation" },
+        { status: 400 }
+      );
+    }
+    data.status = status;
+  }
+
+  // tagIds: omitted => unchanged, null / [] => removed, array => replaces every tag
+  const parsedTagIds = parseTagIds(body?.tagIds);
+  if (!parsedTagIds.ok)
+    return json({ error: parsedTagIds.error }, { status: 400 });
+  const tagIds = parsedTagIds.value;
+
+  if (tagIds && !(await assertTagsBelongToUser(userId, tagIds))) {
+    return json({ error: "Invalid tagIds" }, { status: 400 });
   }
 
   if (body?.categoryId !== undefined) {
@@ -489,8 +721,8 @@ export async function PATCH(req: Request) {
       raw === null || raw === "" || raw === undefined ? null : String(raw);
 
     if (categoryId) {
-      const ok = await assertCategoryBelongsToUser(userId, categoryId);
-      if (!ok) return json({ error: "Invalid categoryId" }, { status: 400 });
+      const categoryError = await validateCategory(userId, categoryId, existing.categoryId);
+      if (categoryError) return json({ error: categoryError }, { status: 400 });
     }
 
     data.categoryId = categoryId;
@@ -502,30 +734,138 @@ export async function PATCH(req: Request) {
       raw === null || raw === "" || raw === undefined ? null : String(raw);
 
     if (paymentSourceId) {
-      const ok = await assertPaymentSourceBelongsToUser(
+      const sourceError = await validatePaymentSource(
         userId,
-        paymentSourceId
+        paymentSourceId,
+        "paymentSourceId",
+        existing.paymentSourceId
       );
-      if (!ok)
-        return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+      if (sourceError) return json({ error: sourceError }, { status: 400 });
     }
 
     data.paymentSourceId = paymentSourceId;
   }
 
-  if (Object.keys(data).length === 0) {
+  if (body?.currency !== undefined) {
+    const currency = parseCurrencyCode(body.currency);
+    if (!currency) return json({ error: "Invalid currency" }, { status: 400 });
+    data.currency = currency;
+  }
+
+  if (body?.transferToPaymentSourceId !== undefined) {
+    const raw = body.transferToPaymentSourceId;
+    data.transferToPaymentSourceId =
+      raw === null || raw === "" || raw === undefined ? null : String(raw);
+  }
+
+  // splits: omitted => unchanged, null / [] => removed, array => replaces every line.
+  // Lines must add up to the (possibly new) amount.
+  const totalCents: number = data.amountCents ?? existing.amountCents;
+  const parsedSplits = parseTransactionSplits(body?.splits, totalCents);
+  if (!parsedSplits.ok)
+    return json({ error: parsedSplits.error }, { status: 400 });
+  let splits = parsedSplits.value;
+
+  const nextType: TransactionType = data.type ?? existing.type;
+
+  if (nextType === "TRANSFER") {
+    const transferError = await validateTransferAccounts(
+      userId,
+      data.paymentSourceId !== undefined ? data.paymentSourceId : existing.paymentSourceId,
+      data.transferToPaymentSourceId !== undefined
+        ? data.transferToPaymentSourceId
+        : existing.transferToPaymentSourceId,
+      existing.transferToPaymentSourceId
+    );
+    if (transferError) return json({ error: transferError }, { status: 400 });
+    if (splits) return json({ error: "Transfers can't be split" }, { status: 400 });
+
+    data.categoryId = null;
+    if (existing.splits.length > 0) splits = null;
+  } else if (data.transferToPaymentSourceId) {
+    return json(
+      { error: "transferToPaymentSourceId is only allowed on transfers" },
+      { status: 400 }
+    );
+  } else if (existing.transferToPaymentSourceId) {
+    // no longer a transfer
+    data.transferToPaymentSourceId = null;
+  }
+
+  if (
+    splits === undefined &&
+    existing.splits.length > 0 &&
+    totalCents !== existing.amountCents
+  ) {
+    return json(
+      { error: "This transaction is split: send updated splits along with the new amount" },
+      { status: 400 }
+    );
+  }
+
+  if (splits) {
+    const splitError = await validateSplitCategories(
+      userId,
+      splits,
+      existing.splits.map((s) => s.categoryId)
+    );
+    if (splitError) return json({ error: splitError }, { status: 400 });
+    data.categoryId = null;
+  }
+
+  // payeeId / payeeName; editing the description alone never re-matches.
+  // Resolved last: a typed payeeName is created, so only once the body is valid
+  const resolvedPayee = await resolvePayeeFromBody(userId, body);
+  if (!resolvedPayee.ok) return json({ error: resolvedPayee.error }, { status: 400 });
+  if (resolvedPayee.value !== undefined) data.payeeId = resolvedPayee.value?.id ?? null;
+
+  if (Object.keys(data).length === 0 && splits === undefined && tagIds === undefined) {
     return json({ error: "No valid fields to update" }, { status: 400 });
   }
 
-  const updated = await prisma.transaction.update({
-    where: { id },
-    data,
-    include: { category: true, paymentSource: true },
+  const updated = await prisma.$transaction(async (tx) => {
+    const before = await loadTransactionSnapshot(tx, id);
+
+    if (splits !== undefined) {
+      await tx.transactionSplit.deleteMany({ where: { transactionId: id } });
+      if (splits) {
+        await tx.transactionSplit.createMany({
+          data: splitCreateData(splits).map((s) => ({ ...s, transactionId: id })),
+        });
+      }
+    }
+
+    if (tagIds !== undefined) {
+      await tx.transactionTag.deleteMany({ where: { transactionId: id } });
+      if (tagIds.length) {
+        await tx.transactionTag.createMany({
+          data: tagIds.map((tagId) => ({ transactionId: id, tagId })),
+        });
+      }
+    }
+
+    const row = await tx.transaction.update({
+      where: { id },
+      data,
+      include: TRANSACTION_INCLUDE,
+    });
+
+    const after = await loadTransactionSnapshot(tx, id);
+    if (before && after) {
+      await recordTransactionRevision(tx, { transactionId: id, actorUserId: userId, action: "UPDATE", before, after });
+    }
+
+    return row;
   });
 
   return json(updated);
 }
 
+/**
+ * DELETE /api/finance/transactions?id=TX_ID
+ * Moves the transaction to Trash (soft delete). Restore or delete it for good
+ * with /api/finance/trash; it's purged automatically after the retention period.
+ */
 export async function DELETE(req: Request) {
   const { userId } = await getUserIdOrNull();
   if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
@@ -534,13 +874,24 @@ export async function DELETE(req: Request) {
   if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
 
   const existing = await prisma.transaction.findFirst({
-    where: { id, userId },
-    select: { id: true },
+    where: { id, userId, deletedAt: null },
+    select: { id: true, status: true },
   });
 
   if (!existing) return json({ error: "Not found" }, { status: 404 });
 
-  await prisma.transaction.delete({ where: { id } });
+  if (existing.status === "RECONCILED" && !parseOverride(req)) {
+    return json({ error: RECONCILED_LOCKED_ERROR }, { status: 409 });
+  }
+
+  // Links, splits and attachments stay so a restore brings everything back
+  await prisma.$transaction(async (tx) => {
+    const before = await loadTransactionSnapshot(tx, id);
+    await tx.transaction.update({ where: { id }, data: { deletedAt: new Date() } });
+    if (before) {
+      await recordTransactionRevision(tx, { transactionId: id, actorUserId: userId, action: "DELETE", before });
+    }
+  });
 
   return json({ ok: true });
 }
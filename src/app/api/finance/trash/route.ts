@@ -0,0 +1,171 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { deleteTrashedForGood, purgeExpiredTrash, trashPurgeDate } from "@/lib/trash";
+import { loadTransactionSnapshot, recordTransactionRevision } from "@/lib/revisions";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserIdFromNextAuth(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function getUserIdFromAnonCookie(): Promise<string | null> {
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+  if (!raw) return null;
+
+  const tokenHash = hashToken(raw);
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess) return null;
+  if (sess.expiresAt && sess.expiresAt.getTime() < Date.now()) return null;
+
+  prisma.anonSession
+    .update({
+      where: { id: sess.id },
+      data: { lastSeenAt: new Date() },
+    })
+    .catch(() => {});
+
+  return sess.userId;
+}
+
+async function getUserIdOrNull(): Promise<{ userId: string | null }> {
+  const authed = await getUserIdFromNextAuth();
+  if (authed) return { userId: authed };
+
+  const anon = await getUserIdFromAnonCookie();
+  if (anon) return { userId: anon };
+
+  return { userId: null };
+}
+
+
+
+function parseIdFromUrl(req: Request) {
+  const url = new URL(req.url);
+  return url.searchParams.get("id")?.trim() || null;
+}
+
+/**
+ * GET /api/finance/trash
+ * Deleted transactions, most recently deleted first, each with the date it
+ * will be purged. Expired rows are purged before listing.
+ */
+export async function GET() {
+  const { userId } = await getUserIdOrNull();
+
+  // ✅ Smooth UX: no user context yet => empty trash
+  if (!userId) return json({ retentionDays: null, items: [] });
+
+  await purgeExpiredTrash(userId);
+
+  const [user, items] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { trashRetentionDays: true } }),
+    prisma.transaction.findMany({
+      where: { userId, deletedAt: { not: null } },
+      orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+      include: {
+        category: { select: { id: true, name: true } },
+        paymentSource: { select: { id: true, name: true } },
+        transferToPaymentSource: { select: { id: true, name: true } },
+        payee: { select: { id: true, name: true } },
+        _count: { select: { splits: true, attachments: true } },
+      },
+    }),
+  ]);
+
+  const retentionDays = user?.trashRetentionDays ?? null;
+
+  return json({
+    retentionDays,
+    items: items.map((t) => ({
+      ...t,
+      purgeAt: retentionDays && t.deletedAt ? trashPurgeDate(t.deletedAt, retentionDays) : null,
+    })),
+  });
+}
+
+/**
+ * POST /api/finance/trash?id=TX_ID
+ * Restores a deleted transaction with everything it had (splits, tags, attachments).
+ */
+export async function POST(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  if (!id) return json({ error: 'Missing "id" query param' }, { status: 400 });
+
+  const restored = await prisma.$transaction(async (tx) => {
+    const res = await tx.transaction.updateMany({
+      where: { id, userId, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    });
+    if (res.count === 0) return false;
+
+    const before = await loadTransactionSnapshot(tx, id);
+    if (before) {
+      await recordTransactionRevision(tx, { transactionId: id, actorUserId: userId, action: "RESTORE", before });
+    }
+    return true;
+  });
+  if (!restored) return json({ error: "Not found" }, { status: 404 });
+
+  return json({ ok: true });
+}
+
+/**
+ * DELETE /api/finance/trash?id=TX_ID   (one row, for good)
+ * DELETE /api/finance/trash            (empty the whole trash)
+ * Only rows already in Trash; attachment files are removed too.
+ */
+export async function DELETE(req: Request) {
+  const { userId } = await getUserIdOrNull();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = parseIdFromUrl(req);
+  const deleted = await deleteTrashedForGood(userId, id ? { ids: [id] } : {});
+  if (id && deleted === 0) return json({ error: "Not found" }, { status: 404 });
+
+  return json({ ok: true, deleted });
+}
@@ -0,0 +1,550 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseBackupArchive, type BackupTransaction } from "@/lib/backup";
+import { parseLocalDateOnly } from "@/lib/transactions";
+import { EVERY_MONTH_KEY } from "@/lib/budgets";
+import { MAX_RULES } from "@/lib/rules";
+import { MAX_SAVED_VIEWS, type SavedViewParams } from "@/lib/savedViews";
+import { deleteStoredFiles } from "@/lib/storage";
+import crypto from "crypto";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+async function getAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+
+/** ----------------------------
+ * Options
+ * ---------------------------- */
+
+// merge:   keep existing data and add the archive on top
+// replace: wipe transactions, recurring and categorization rules, saved views, categories,
+//          payment sources and tags first (budgets and reconciliations go with them)
+type RestoreMode = "merge" | "replace";
+
+// What to do when a category / payment source / tag name already exists
+// reuse:  map archive rows onto the existing one
+// rename: create a copy named "Name (2)", "Name (3)", ...
+type ConflictStrategy = "reuse" | "rename";
+
+function parseMode(v: unknown): RestoreMode | null {
+  if (v === undefined || v === null || v === "") return "merge";
+  return v === "merge" || v === "replace" ? v : null;
+}
+
+function parseConflictStrategy(v: unknown): ConflictStrategy | null {
+  if (v === undefined || v === null || v === "") return "reuse";
+  return v === "reuse" || v === "rename" ? v : null;
+}
+
+function nextFreeName(base: string, taken: Set<string>) {
+  if (!taken.has(base.toLowerCase())) return base;
+  for (let n = 2; ; n++) {
+    const candidate = `${base} (${n})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+const CREATE_BATCH_SIZE = 1000;
+
+/**
+ * POST /api/user/backup/restore
+ * Body: { backup: <archive from GET /api/user/backup>, mode?: "merge" | "replace", onConflict?: "reuse" | "rename" }
+ *
+ * Everything runs in one DB transaction: either the whole archive is restored or nothing is.
+ * Names are matched case-insensitively (same as the guest -> account merge).
+ */
+export async function POST(req: Request) {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = (await req.json()) as Record<string, unknown> | null;
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const mode = parseMode(body?.mode);
+  if (!mode) return json({ error: 'mode must be "merge" or "replace"' }, { status: 400 });
+
+  const onConflict = parseConflictStrategy(body?.onConflict);
+  if (!onConflict) {
+    return json({ error: 'onConflict must be "reuse" or "rename"' }, { status: 400 });
+  }
+
+  const parsed = parseBackupArchive(body?.backup);
+  if (!parsed.ok) return json({ error: parsed.error }, { status: 400 });
+  const archive = parsed.value;
+
+  // Files of attachments removed by "replace" (rows cascade with their transactions)
+  let removedStorageKeys: string[] = [];
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      if (mode === "replace") {
+        const attachments = await tx.attachment.findMany({
+          where: { transaction: { userId } },
+          select: { storageKey: true },
+        });
+        removedStorageKeys = attachments.map((a) => a.storageKey);
+
+        await tx.transaction.deleteMany({ where: { userId } });
+        await tx.recurringTransaction.deleteMany({ where: { userId } });
+        await tx.transactionRule.deleteMany({ where: { userId } });
+        await tx.savedView.deleteMany({ where: { userId } });
+        await tx.exchangeRate.deleteMany({ where: { userId } });
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            defaultTransactionsPaymentSourceId: null,
+            baseCurrency: archive.preferences.baseCurrency,
+          },
+        });
+        await tx.category.deleteMany({ where: { userId } });
+        await tx.paymentSource.deleteMany({ where: { userId } });
+        await tx.tag.deleteMany({ where: { userId } });
+        await tx.payee.deleteMany({ where: { userId } });
+      }
+
+      // Categories (archive id -> new/existing id)
+      const existingCategories = await tx.category.findMany({
+        where: { userId },
+        select: { id: true, name: true, sortOrder: true },
+      });
+      const categoryByName = new Map(existingCategories.map((c) => [c.name.toLowerCase(), c.id]));
+      const categoryNames = new Set(categoryByName.keys());
+      const sortOffset = existingCategories.length
+        ? Math.max(...existingCategories.map((c) => c.sortOrder)) + 1
+        : 0;
+
+      const categoryIdMap = new Map<string, string>();
+      const createdCategoryIds = new Set<string>();
+      let categoriesCreated = 0;
+
+      for (const c of archive.categories) {
+        const existingId = categoryByName.get(c.name.toLowerCase());
+        if (existingId && onConflict === "reuse") {
+          categoryIdMap.set(c.id, existingId);
+          continue;
+        }
+
+        const name = nextFreeName(c.name, categoryNames);
+        const created = await tx.category.create({
+          data: { userId, name, sortOrder: sortOffset + c.sortOrder, archivedAt: c.archived ? new Date() : null },
+          select: { id: true },
+        });
+        categoryNames.add(name.toLowerCase());
+        categoryIdMap.set(c.id, created.id);
+        createdCategoryIds.add(created.id);
+        categoriesCreated++;
+      }
+
+      // Nesting is restored among new categories; reused ones keep their place
+      for (const c of archive.categories) {
+        const id = categoryIdMap.get(c.id)!;
+        const parentId = c.parentId ? categoryIdMap.get(c.parentId) : undefined;
+        if (!parentId || !createdCategoryIds.has(id) || !createdCategoryIds.has(parentId)) continue;
+        await tx.category.update({ where: { id }, data: { parentId } });
+      }
+
+      // Payment sources (archive id -> new/existing id)
+      const existingSources = await tx.paymentSource.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      });
+      const sourceByName = new Map(existingSources.map((p) => [p.name.toLowerCase(), p.id]));
+      const sourceNames = new Set(sourceByName.keys());
+
+      const paymentSourceIdMap = new Map<string, string>();
+      let paymentSourcesCreated = 0;
+
+      for (const p of archive.paymentSources) {
+        const existingId = sourceByName.get(p.name.toLowerCase());
+        if (existingId && onConflict === "reuse") {
+          paymentSourceIdMap.set(p.id, existingId);
+          continue;
+        }
+
+        const name = nextFreeName(p.name, sourceNames);
+        const created = await tx.paymentSource.create({
+          data: { userId, name, type: p.type, currency: p.currency, archivedAt: p.archived ? new Date() : null },
+          select: { id: true },
+        });
+        sourceNames.add(name.toLowerCase());
+        paymentSourceIdMap.set(p.id, created.id);
+        paymentSourcesCreated++;
+      }
+
+      // Tags (archive id -> new/existing id)
+      const existingTags = await tx.tag.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      });
+      const tagByName = new Map(existingTags.map((t) => [t.name.toLowerCase(), t.id]));
+      const tagNames = new Set(tagByName.keys());
+
+      const tagIdMap = new Map<string, string>();
+      let tagsCreated = 0;
+
+      for (const t of archive.tags) {
+        const existingId = tagByName.get(t.name.toLowerCase());
+        if (existingId && onConflict === "reuse") {
+          tagIdMap.set(t.id, existingId);
+          continue;
+        }
+
+        const name = nextFreeName(t.name, tagNames);
+        const created = await tx.tag.create({
+          data: { userId, name, color: t.color },
+          select: { id: true },
+        });
+        tagNames.add(name.toLowerCase());
+        tagIdMap.set(t.id, created.id);
+        tagsCreated++;
+      }
+
+      // Payees (archive id -> new/existing id); an alias another payee already
+      // has is skipped rather than moved
+      const existingPayees = await tx.payee.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      });
+      const payeeByName = new Map(existingPayees.map((p) => [p.name.toLowerCase(), p.id]));
+      const payeeNames = new Set(payeeByName.keys());
+      const takenAliases = new Set(
+        (await tx.payeeAlias.findMany({ where: { userId }, select: { pattern: true } })).map((a) => a.pattern)
+      );
+
+      const payeeIdMap = new Map<string, string>();
+      let payeesCreated = 0;
+
+      for (const p of archive.payees) {
+        const existingId = payeeByName.get(p.name.toLowerCase());
+        const freeAliases = p.aliases.filter((pattern) => !takenAliases.has(pattern));
+        freeAliases.forEach((pattern) => takenAliases.add(pattern));
+
+        if (existingId && onConflict === "reuse") {
+          payeeIdMap.set(p.id, existingId);
+          if (freeAliases.length) {
+            await tx.payeeAlias.createMany({
+              data: freeAliases.map((pattern) => ({ userId, payeeId: existingId, pattern })),
+            });
+          }
+          continue;
+        }
+
+        const name = nextFreeName(p.name, payeeNames);
+        const created = await tx.payee.create({
+          data: {
+            userId,
+            name,
+            defaultCategoryId: p.defaultCategoryId ? categoryIdMap.get(p.defaultCategoryId) ?? null : null,
+            aliases: { create: freeAliases.map((pattern) => ({ userId, pattern })) },
+          },
+          select: { id: true },
+        });
+        payeeNames.add(name.toLowerCase());
+        payeeIdMap.set(p.id, created.id);
+        payeesCreated++;
+      }
+
+      // Exchange rates (a rate already entered for the same pair + day wins)
+      let exchangeRatesCreated = 0;
+      for (let i = 0; i < archive.exchangeRates.length; i += CREATE_BATCH_SIZE) {
+        const batch = archive.exchangeRates.slice(i, i + CREATE_BATCH_SIZE);
+        const res = await tx.exchangeRate.createMany({
+          data: batch.map((r) => ({
+            userId,
+            date: parseLocalDateOnly(r.date)!,
+            fromCurrency: r.fromCurrency,
+            toCurrency: r.toCurrency,
+            rate: r.rate,
+          })),
+          skipDuplicates: true,
+        });
+        exchangeRatesCreated += res.count;
+      }
+
+      // Transactions
+      let transactionsCreated = 0;
+
+      for (let i = 0; i < archive.transactions.length; i += CREATE_BATCH_SIZE) {
+        const batch = archive.transactions.slice(i, i + CREATE_BATCH_SIZE);
+
+        // Tagged and split rows get their id up front so tag links and split
+        // lines can be written after createMany
+        type Links = { transactionId: string; tagIds: string[]; splits: BackupTransaction["splits"] };
+        const links: Links[] = [];
+        const rows = batch.map((t) => {
+          const tagIds = t.tagIds.flatMap((id) => tagIdMap.get(id) ?? []);
+          const id = tagIds.length || t.splits.length ? crypto.randomUUID() : undefined;
+          if (id) links.push({ transactionId: id, tagIds, splits: t.splits });
+          return { id, t };
+        });
+
+        const res = await tx.transaction.createMany({
+          data: rows.map(({ id, t }) => ({
+            id,
+            userId,
+            date: parseLocalDateOnly(t.date)!,
+            description: t.description,
+            amountCents: t.amountCents,
+            currency: t.currency,
+            type: t.type,
+            notes: t.notes,
+            status: t.status,
+            categoryId: t.categoryId ? categoryIdMap.get(t.categoryId) ?? null : null,
+            payeeId: t.payeeId ? payeeIdMap.get(t.payeeId) ?? null : null,
+            paymentSourceId: t.paymentSourceId
+              ? paymentSourceIdMap.get(t.paymentSourceId) ?? null
+              : null,
+            transferToPaymentSourceId: t.transferToPaymentSourceId
+              ? paymentSourceIdMap.get(t.transferToPaymentSourceId) ?? null
+              : null,
+            externalId: t.externalId,
+            createdAt: new Date(t.createdAt),
+          })),
+          // Rows already imported from the same statement (externalId) are kept once
+          skipDuplicates: true,
+        });
+        transactionsCreated += res.count;
+
+        if (links.length) {
+          // Skipped duplicates were never inserted, so only link what exists
+          const inserted = new Set(
+            (
+              await tx.transaction.findMany({
+                where: { id: { in: links.map((l) => l.transactionId) } },
+                select: { id: true },
+              })
+            ).map((r) => r.id)
+          );
+          const insertedLinks = links.filter((l) => inserted.has(l.transactionId));
+          await tx.transactionTag.createMany({
+            data: insertedLinks.flatMap((l) => l.tagIds.map((tagId) => ({ transactionId: l.transactionId, tagId }))),
+            skipDuplicates: true,
+          });
+          await tx.transactionSplit.createMany({
+            data: insertedLinks.flatMap((l) =>
+              l.splits.map((s, sortOrder) => ({
+                transactionId: l.transactionId,
+                categoryId: s.categoryId ? categoryIdMap.get(s.categoryId) ?? null : null,
+                amountCents: s.amountCents,
+                note: s.note,
+                sortOrder,
+              }))
+            ),
+          });
+        }
+      }
+
+      // Recurring rules pick up where they were (nextDate), so nothing is posted twice
+      const recurringRes = await tx.recurringTransaction.createMany({
+        data: archive.recurringTransactions.map((r) => ({
+          userId,
+          description: r.description,
+          amountCents: r.amountCents,
+          type: r.type,
+          notes: r.notes,
+          categoryId: r.categoryId ? categoryIdMap.get(r.categoryId) ?? null : null,
+          paymentSourceId: r.paymentSourceId ? paymentSourceIdMap.get(r.paymentSourceId) ?? null : null,
+          frequency: r.frequency,
+          interval: r.interval,
+          dayOfMonth: r.dayOfMonth,
+          startDate: parseLocalDateOnly(r.startDate)!,
+          endDate: r.endDate ? parseLocalDateOnly(r.endDate) : null,
+          nextDate: r.nextDate ? parseLocalDateOnly(r.nextDate) : null,
+          isActive: r.isActive,
+        })),
+      });
+
+      // Budgets (a budget already set for the same category + month wins)
+      const existingBudgets = await tx.budget.findMany({
+        where: { userId },
+        select: { categoryId: true, month: true },
+      });
+      const budgetKeys = new Set(existingBudgets.map((b) => `${b.categoryId}:${b.month}`));
+      const budgetRows = archive.budgets.flatMap((b) => {
+        const categoryId = categoryIdMap.get(b.categoryId)!;
+        const month = b.month ?? EVERY_MONTH_KEY;
+        const key = `${categoryId}:${month}`;
+        if (budgetKeys.has(key)) return [];
+        budgetKeys.add(key);
+        return [{ userId, categoryId, month, amountCents: b.amountCents }];
+      });
+      const budgetsRes = await tx.budget.createMany({ data: budgetRows });
+
+      // Categorization rules run after the account's own, up to MAX_RULES
+      const existingRules = await tx.transactionRule.findMany({
+        where: { userId },
+        select: { name: true, priority: true },
+      });
+      const ruleNames = new Set(existingRules.map((r) => r.name.toLowerCase()));
+      const rulePriorityOffset = existingRules.length ? Math.max(...existingRules.map((r) => r.priority)) + 1 : 0;
+      let rulesCreated = 0;
+
+      for (const r of archive.rules) {
+        if (existingRules.length + rulesCreated >= MAX_RULES) break;
+        if (ruleNames.has(r.name.toLowerCase()) && onConflict === "reuse") continue;
+
+        const name = nextFreeName(r.name, ruleNames);
+        await tx.transactionRule.create({
+          data: {
+            userId,
+            name,
+            priority: rulePriorityOffset + r.priority,
+            enabled: r.enabled,
+            descriptionMatch: r.descriptionMatch,
+            descriptionPattern: r.descriptionPattern,
+            minAmountCents: r.minAmountCents,
+            maxAmountCents: r.maxAmountCents,
+            type: r.type,
+            paymentSourceId: r.paymentSourceId ? paymentSourceIdMap.get(r.paymentSourceId) ?? null : null,
+            setCategoryId: r.setCategoryId ? categoryIdMap.get(r.setCategoryId) ?? null : null,
+            setPaymentSourceId: r.setPaymentSourceId ? paymentSourceIdMap.get(r.setPaymentSourceId) ?? null : null,
+            renameTo: r.renameTo,
+            addTags: {
+              create: [...new Set(r.addTagIds.flatMap((id) => tagIdMap.get(id) ?? []))].map((tagId) => ({ tagId })),
+            },
+          },
+        });
+        ruleNames.add(name.toLowerCase());
+        rulesCreated++;
+      }
+
+      // Saved views (archive id -> new/existing id); their filters point at the restored rows
+      const existingViews = await tx.savedView.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      });
+      const viewByName = new Map(existingViews.map((v) => [v.name.toLowerCase(), v.id]));
+      const viewNames = new Set(viewByName.keys());
+      const idMaps = {
+        categoryId: categoryIdMap,
+        paymentSourceId: paymentSourceIdMap,
+        tagId: tagIdMap,
+        payeeId: payeeIdMap,
+      } as const;
+
+      const savedViewIdMap = new Map<string, string>();
+      let savedViewsCreated = 0;
+
+      for (const v of archive.savedViews) {
+        const existingId = viewByName.get(v.name.toLowerCase());
+        if (existingId && onConflict === "reuse") {
+          savedViewIdMap.set(v.id, existingId);
+          continue;
+        }
+        if (existingViews.length + savedViewsCreated >= MAX_SAVED_VIEWS) continue;
+
+        // Ids are remapped; special values ("uncategorized", "none") pass through
+        const params: SavedViewParams = { ...v.params };
+        for (const [key, map] of Object.entries(idMaps) as Array<[keyof typeof idMaps, Map<string, string>]>) {
+          const value = params[key];
+          if (value && map.has(value)) params[key] = map.get(value);
+        }
+
+        const name = nextFreeName(v.name, viewNames);
+        const created = await tx.savedView.create({
+          data: { userId, name, params },
+          select: { id: true },
+        });
+        viewNames.add(name.toLowerCase());
+        savedViewIdMap.set(v.id, created.id);
+        savedViewsCreated++;
+      }
+
+      // Reconciliation history (the same statement already on record is kept once)
+      const existingReconciliations = await tx.reconciliation.findMany({
+        where: { userId },
+        select: { paymentSourceId: true, statementDate: true, endingBalanceCents: true },
+      });
+      const reconciliationKey = (paymentSourceId: string, statementDate: Date, endingBalanceCents: number) =>
+        `${paymentSourceId}:${statementDate.getTime()}:${endingBalanceCents}`;
+      const reconciliationKeys = new Set(
+        existingReconciliations.map((r) => reconciliationKey(r.paymentSourceId, r.statementDate, r.endingBalanceCents))
+      );
+      const reconciliationRows = archive.reconciliations.flatMap((r) => {
+        const paymentSourceId = paymentSourceIdMap.get(r.paymentSourceId)!;
+        const statementDate = parseLocalDateOnly(r.statementDate)!;
+        const key = reconciliationKey(paymentSourceId, statementDate, r.endingBalanceCents);
+        if (reconciliationKeys.has(key)) return [];
+        reconciliationKeys.add(key);
+        return [
+          {
+            userId,
+            paymentSourceId,
+            statementDate,
+            endingBalanceCents: r.endingBalanceCents,
+            transactionCount: r.transactionCount,
+            createdAt: new Date(r.createdAt),
+          },
+        ];
+      });
+      const reconciliationsRes = await tx.reconciliation.createMany({ data: reconciliationRows });
+
+      // Preferences: only fill in the default when the account has none yet
+      const archiveDefault = archive.preferences.defaultTransactionsPaymentSourceId;
+      if (archiveDefault) {
+        await tx.user.updateMany({
+          where: { id: userId, defaultTransactionsPaymentSourceId: null },
+          data: { defaultTransactionsPaymentSourceId: paymentSourceIdMap.get(archiveDefault) ?? null },
+        });
+      }
+      const archiveDefaultView = archive.preferences.defaultReportViewId;
+      if (archiveDefaultView) {
+        await tx.user.updateMany({
+          where: { id: userId, defaultReportViewId: null },
+          data: { defaultReportViewId: savedViewIdMap.get(archiveDefaultView) ?? null },
+        });
+      }
+
+      return {
+        categoriesCreated,
+        paymentSourcesCreated,
+        tagsCreated,
+        payeesCreated,
+        exchangeRatesCreated,
+        transactionsCreated,
+        transactionsSkipped: archive.transactions.length - transactionsCreated,
+        recurringTransactionsCreated: recurringRes.count,
+        budgetsCreated: budgetsRes.count,
+        rulesCreated,
+        savedViewsCreated,
+        reconciliationsCreated: reconciliationsRes.count,
+      };
+    },
+    { timeout: 60_000 }
+  );
+
+  await deleteStoredFiles(removedStorageKeys);
+
+  return json({ ok: true, mode, ...result });
+}
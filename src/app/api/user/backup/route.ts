@@ -0,0 +1,218 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { BACKUP_FORMAT, BACKUP_VERSION, type BackupArchive } from "@/lib/backup";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { readBudgetMonth } from "@/lib/budgets";
+import { formatLocalDateOnly } from "@/lib/transactions";
+import { readSavedViewParams } from "@/lib/savedViews";
+
+export const runtime = "nodejs";
+
+function json(data: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+async function getAuthedUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+
+  const id = (session?.user as { id?: string } | undefined)?.id;
+  if (id) return id;
+
+  const email = session?.user?.email;
+  if (!email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+
+/**
+ * GET /api/user/backup
+ * Downloads everything the signed-in user owns as a versioned JSON archive.
+ * Restore with POST /api/user/backup/restore.
+ */
+export async function GET() {
+  const userId = await getAuthedUserId();
+  if (!userId) return json({ error: "Unauthorized" }, { status: 401 });
+
+  const [user, categories, paymentSources, tags, payees, exchangeRates, transactions, recurringTransactions] =
+    await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { defaultTransactionsPaymentSourceId: true, defaultReportViewId: true, baseCurrency: true },
+      }),
+      prisma.category.findMany({
+        where: { userId },
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        select: { id: true, name: true, sortOrder: true, parentId: true, archivedAt: true },
+      }),
+      prisma.paymentSource.findMany({
+        where: { userId },
+        orderBy: [{ name: "asc" }],
+        select: { id: true, name: true, type: true, currency: true, archivedAt: true },
+      }),
+      prisma.tag.findMany({
+        where: { userId },
+        orderBy: [{ name: "asc" }],
+        select: { id: true, name: true, color: true },
+      }),
+      prisma.payee.findMany({
+        where: { userId },
+        orderBy: [{ name: "asc" }],
+        select: {
+          id: true,
+          name: true,
+          defaultCategoryId: true,
+          aliases: { orderBy: { pattern: "asc" }, select: { pattern: true } },
+        },
+      }),
+      prisma.exchangeRate.findMany({
+        where: { userId },
+        orderBy: [{ date: "asc" }, { fromCurrency: "asc" }, { toCurrency: "asc" }],
+        select: { date: true, fromCurrency: true, toCurrency: true, rate: true },
+      }),
+      // Trash isn't part of the archive
+      prisma.transaction.findMany({
+        where: { userId, deletedAt: null },
+        orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+        select: {
+          date: true,
+          description: true,
+          amountCents: true,
+          currency: true,
+          type: true,
+          notes: true,
+          status: true,
+          tags: { select: { tagId: true } },
+          categoryId: true,
+          payeeId: true,
+          paymentSourceId: true,
+          transferToPaymentSourceId: true,
+          splits: {
+            orderBy: { sortOrder: "asc" },
+            select: { categoryId: true, amountCents: true, note: true },
+          },
+          externalId: true,
+          createdAt: true,
+        },
+      }),
+      prisma.recurringTransaction.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: "asc" }],
+        select: {
+          description: true,
+          amountCents: true,
+          type: true,
+          notes: true,
+          categoryId: true,
+          paymentSourceId: true,
+          frequency: true,
+          interval: true,
+          dayOfMonth: true,
+          startDate: true,
+          endDate: true,
+          nextDate: true,
+          isActive: true,
+        },
+      }),
+    ]);
+
+  const [budgets, rules, savedViews, reconciliations] = await Promise.all([
+    prisma.budget.findMany({
+      where: { userId },
+      orderBy: [{ month: "asc" }],
+      select: { categoryId: true, month: true, amountCents: true },
+    }),
+    prisma.transactionRule.findMany({
+      where: { userId },
+      orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+      select: {
+        name: true,
+        priority: true,
+        enabled: true,
+        descriptionMatch: true,
+        descriptionPattern: true,
+        minAmountCents: true,
+        maxAmountCents: true,
+        type: true,
+        paymentSourceId: true,
+        setCategoryId: true,
+        setPaymentSourceId: true,
+        renameTo: true,
+        addTags: { select: { tagId: true } },
+      },
+    }),
+    prisma.savedView.findMany({
+      where: { userId },
+      orderBy: [{ name: "asc" }],
+      select: { id: true, name: true, params: true },
+    }),
+    prisma.reconciliation.findMany({
+      where: { userId },
+      orderBy: [{ statementDate: "asc" }, { createdAt: "asc" }],
+      select: {
+        paymentSourceId: true,
+        statementDate: true,
+        endingBalanceCents: true,
+        transactionCount: true,
+        createdAt: true,
+      },
+    }),
+  ]);
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    preferences: {
+      defaultTransactionsPaymentSourceId: user?.defaultTransactionsPaymentSourceId ?? null,
+      defaultReportViewId: user?.defaultReportViewId ?? null,
+      baseCurrency: user?.baseCurrency ?? DEFAULT_CURRENCY,
+    },
+    categories: categories.map(({ archivedAt, ...c }) => ({ ...c, archived: archivedAt !== null })),
+    paymentSources: paymentSources.map(({ archivedAt, ...p }) => ({ ...p, archived: archivedAt !== null })),
+    tags,
+    payees: payees.map((p) => ({ ...p, aliases: p.aliases.map((a) => a.pattern) })),
+    exchangeRates: exchangeRates.map((r) => ({ ...r, date: formatLocalDateOnly(r.date) })),
+    transactions: transactions.map(({ tags: txTags, ...t }) => ({
+      ...t,
+      tagIds: txTags.map((tt) => tt.tagId),
+      date: formatLocalDateOnly(t.date),
+      createdAt: t.createdAt.toISOString(),
+    })),
+    recurringTransactions: recurringTransactions.map((r) => ({
+      ...r,
+      startDate: formatLocalDateOnly(r.startDate),
+      endDate: r.endDate ? formatLocalDateOnly(r.endDate) : null,
+      nextDate: r.nextDate ? formatLocalDateOnly(r.nextDate) : null,
+    })),
+    budgets: budgets.map((b) => ({ ...b, month: readBudgetMonth(b.month) })),
+    rules: rules.map(({ addTags, ...r }) => ({ ...r, addTagIds: addTags.map((t) => t.tagId) })),
+    savedViews: savedViews.map((v) => ({ ...v, params: readSavedViewParams(v.params) })),
+    reconciliations: reconciliations.map((r) => ({
+      ...r,
+      statementDate: formatLocalDateOnly(r.statementDate),
+      createdAt: r.createdAt.toISOString(),
+    })),
+  };
+
+  const stamp = archive.exportedAt.slice(0, 10);
+
+  return json(archive, {
+    headers: {
+      "Content-Disposition": `attachment; filename="zento-backup-${stamp}.json"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
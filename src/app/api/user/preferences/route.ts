@@ -1,6 +1,8 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { parseCurrencyCode } from "@/lib/currency";
+import { MAX_TRASH_RETENTION_DAYS, MIN_TRASH_RETENTION_DAYS, parseTrashRetentionDays } from "@/lib/trash";
 
 export const runtime = "nodejs";
 
@@ -61,31 +63,84 @@ export async function POST(req: Request) {
   const body = await readBody(req);
   if (!body) return json({ error: "Invalid body" }, { status: 400 });
 
-  // empty string => null => "All accounts"
-  const raw = body.defaultTransactionsPaymentSourceId;
-  const value =
-    raw === undefined || raw === null
-      ? null
-      : String(raw).trim() === ""
-      ? null
-      : String(raw).trim();
-
-  // Validate chosen payment source belongs to user (if not null)
-  if (value) {
-    const exists = await prisma.paymentSource.findFirst({
-      where: { id: value, userId },
-      select: { id: true },
-    });
-
-    if (!exists) {
-      return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+  const data: {
+    defaultTransactionsPaymentSourceId?: string | null;
+    defaultReportViewId?: string | null;
+    baseCurrency?: string;
+    trashRetentionDays?: number;
+  } = {};
+
+  if (body.defaultTransactionsPaymentSourceId !== undefined) {
+    // empty string => null => "All accounts"
+    const raw = body.defaultTransactionsPaymentSourceId;
+    const value = raw === null ? null : String(raw).trim() === "" ? null : String(raw).trim();
+
+    // Validate chosen payment source belongs to user (if not null)
+    if (value) {
+      const exists = await prisma.paymentSource.findFirst({
+        where: { id: value, userId },
+        select: { id: true },
+      });
+
+      if (!exists) {
+        return json({ error: "Invalid paymentSourceId" }, { status: 400 });
+      }
     }
+
+    data.defaultTransactionsPaymentSourceId = value;
+  }
+
+  if (body.defaultReportViewId !== undefined) {
+    // empty string => null => Reports opens on the current month
+    const raw = body.defaultReportViewId;
+    const value = raw === null ? null : String(raw).trim() === "" ? null : String(raw).trim();
+
+    if (value) {
+      const exists = await prisma.savedView.findFirst({
+        where: { id: value, userId },
+        select: { id: true },
+      });
+
+      if (!exists) {
+        return json({ error: "Invalid defaultReportViewId" }, { status: 400 });
+      }
+    }
+
+    data.defaultReportViewId = value;
+  }
+
+  if (body.baseCurrency !== undefined) {
+    const baseCurrency = parseCurrencyCode(body.baseCurrency);
+    if (!baseCurrency) return json({ error: "Invalid baseCurrency" }, { status: 400 });
+    data.baseCurrency = baseCurrency;
+  }
+
+  if (body.trashRetentionDays !== undefined) {
+    const days = parseTrashRetentionDays(body.trashRetentionDays);
+    if (days === null) {
+      return json(
+        {
+          error: `trashRetentionDays must be a whole number from ${MIN_TRASH_RETENTION_DAYS} to ${MAX_TRASH_RETENTION_DAYS}`,
+        },
+        { status: 400 }
+      );
+    }
+    data.trashRetentionDays = days;
   }
 
-  await prisma.user.update({
+  if (Object.keys(data).length === 0) {
+    return json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const updated = await prisma.user.update({
     where: { id: userId },
-    data: { defaultTransactionsPaymentSourceId: value },
-    select: { id: true },
+    data,
+    select: {
+      defaultTransactionsPaymentSourceId: true,
+      defaultReportViewId: true,
+      baseCurrency: true,
+      trashRetentionDays: true,
+    },
   });
 
   // ✅ If this came from a form submit, redirect back (better UX)
@@ -97,5 +152,5 @@ export async function POST(req: Request) {
   }
 
   // JSON callers get JSON back
-  return json({ ok: true, defaultTransactionsPaymentSourceId: value });
+  return json({ ok: true, ...updated });
 }
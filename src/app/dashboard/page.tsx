@@ -3,18 +3,16 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { DashboardCharts } from "@/components/dashboard/DashboardCharts";
+import { TagPill } from "@/components/TagPicker";
 import { Prisma } from "@prisma/client";
+import { materializeRecurringTransactions } from "@/lib/recurring";
+import { budgetForMonths, monthsBetween, readBudgetMonth } from "@/lib/budgets";
+import { categorySubtreeIds, flattenCategoryTree, rollUpCategoryTotals } from "@/lib/categories";
+import { DEFAULT_CURRENCY, buildRateTable, convertCents, formatMoneyCents } from "@/lib/currency";
 import { cookies } from "next/headers";
 import crypto from "crypto";
 
-type TxType = "EXPENSE" | "INCOME";
-
-function formatMoney(amountCents: number) {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(amountCents / 100);
-}
+type TxType = "EXPENSE" | "INCOME" | "TRANSFER";
 
 function formatMonthLabel(yyyyMm: string) {
   const [y, m] = yyyyMm.split("-").map(Number);
@@ -68,6 +66,7 @@ type PageProps = {
   searchParams?: Promise<{
     range?: string; // "this" | "last" | "all" | "month"
     month?: string; // YYYY-MM when range=month
+    category?: string; // parent category whose children the chart breaks down
   }>;
 };
 
@@ -157,6 +156,9 @@ export default async function DashboardPage({ searchParams }: PageProps) {
 
   const { userId, label, isAuthed } = await getUserContext();
 
+  // Totals should include recurring transactions that came due since the last visit
+  if (userId) await materializeRecurringTransactions(userId);
+
   // --- Range selection ---
   const range = (params?.range ?? "this").toLowerCase();
   const thisMonth = currentMonthYYYYMM();
@@ -177,6 +179,7 @@ export default async function DashboardPage({ searchParams }: PageProps) {
 
   const whereBase: any = {
     ...(userId ? { userId } : {}),
+    deletedAt: null, // Trash never counts
     ...(useAllTime
       ? {}
       : (() => {
@@ -189,14 +192,82 @@ export default async function DashboardPage({ searchParams }: PageProps) {
   let expenseCents = 0;
   let netCents = 0;
 
-  let categoryRows: Array<{ name: string; cents: number }> = [];
+  // Category drill-down links keep the selected range
+  const dashboardHref = (category: string | null) => {
+    const next = new URLSearchParams({ range });
+    if (range === "month") next.set("month", selectedMonth);
+    if (category) next.set("category", category);
+    return `/dashboard?${next}`;
+  };
+
+  let categoryRows: Array<{ id: string | null; name: string; cents: number; href: string | null }> = [];
+  let categoryDrill: { path: string; upHref: string } | null = null;
+  let budgetRows: Array<{
+    categoryId: string;
+    name: string;
+    spentCents: number;
+    budgetCents: number;
+    remainingCents: number;
+    percentUsed: number;
+  }> = [];
+  let tagRows: Array<{
+    id: string;
+    name: string;
+    color: string;
+    expenseCents: number;
+    incomeCents: number;
+    count: number;
+  }> = [];
   let dailySeries: Array<{ day: string; cents: number; incomeCents?: number }> = [];
 
+  // Everything below is shown in the user's base currency
+  let baseCurrency = DEFAULT_CURRENCY;
+  let unconvertedCount = 0;
+
   if (!emptyState) {
-    // --- KPI totals ---
+    const [user, rates] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId! }, select: { baseCurrency: true } }),
+      prisma.exchangeRate.findMany({
+        where: { userId: userId! },
+        select: { fromCurrency: true, toCurrency: true, date: true, rate: true },
+      }),
+    ]);
+    baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+    const rateTable = buildRateTable(rates);
+
+    // Base-currency rows are summed in the database; the rest are converted
+    // one by one with the rate in effect on their date.
+    const whereBaseCurrency = { ...whereBase, currency: baseCurrency };
+
+    const foreignTx = await prisma.transaction.findMany({
+      where: {
+        ...whereBase,
+        currency: { not: baseCurrency },
+        type: { in: ["EXPENSE", "INCOME"] },
+      },
+      select: {
+        date: true,
+        amountCents: true,
+        currency: true,
+        type: true,
+        categoryId: true,
+        splits: { select: { categoryId: true, amountCents: true } },
+      },
+    });
+
+    const convertedForeignTx = foreignTx.flatMap((t) => {
+      const cents = convertCents(rateTable, t.amountCents, t.currency, baseCurrency, t.date);
+      if (cents === null) {
+        unconvertedCount++;
+        return [];
+      }
+      return [{ ...t, convertedCents: cents }];
+    });
+
+    // --- KPI totals (transfers land in their own group and are left out) ---
     const totalsGrouped = (await prisma.transaction.groupBy({
       by: [Prisma.TransactionScalarFieldEnum.type],
-      where: whereBase,
+      where: whereBaseCurrency,
       _sum: { amountCents: true },
     })) as unknown as GroupedSum[];
 
@@ -204,48 +275,163 @@ export default async function DashboardPage({ searchParams }: PageProps) {
       totalsGrouped.find((g) => g.type === "INCOME")?._sum.amountCents ?? 0;
     expenseCents =
       totalsGrouped.find((g) => g.type === "EXPENSE")?._sum.amountCents ?? 0;
+    for (const t of convertedForeignTx) {
+      if (t.type === "INCOME") incomeCents += t.convertedCents;
+      if (t.type === "EXPENSE") expenseCents += t.convertedCents;
+    }
     netCents = incomeCents - expenseCents;
 
     // --- Category spend (expenses only) ---
     const categories = await prisma.category.findMany({
       where: { userId: userId! },
-      select: { id: true, name: true },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      select: { id: true, name: true, parentId: true },
     });
 
-    const catNameById = new Map(categories.map((c) => [c.id, c.name]));
+    const flatCategories = flattenCategoryTree(categories);
 
+    // Split transactions count by their lines, everything else by its own category
     const byCategory = (await prisma.transaction.groupBy({
       by: [Prisma.TransactionScalarFieldEnum.categoryId],
-      where: { ...whereBase, type: "EXPENSE" },
+      where: { ...whereBaseCurrency, type: "EXPENSE", splits: { none: {} } },
       _sum: { amountCents: true },
     })) as unknown as GroupedByCategory[];
 
-    categoryRows = byCategory
-      .map((g) => {
-        const cents = g._sum.amountCents ?? 0;
-        const name = g.categoryId
-          ? catNameById.get(g.categoryId) ?? "Unknown"
-          : "Uncategorized";
-        return { name, cents };
+    const bySplitCategory = (await prisma.transactionSplit.groupBy({
+      by: [Prisma.TransactionSplitScalarFieldEnum.categoryId],
+      where: { transaction: { ...whereBaseCurrency, type: "EXPENSE" } },
+      _sum: { amountCents: true },
+    })) as unknown as GroupedByCategory[];
+
+    const spentByCategory = new Map<string | null, number>();
+    for (const g of [...byCategory, ...bySplitCategory]) {
+      const prev = spentByCategory.get(g.categoryId) ?? 0;
+      spentByCategory.set(g.categoryId, prev + (g._sum.amountCents ?? 0));
+    }
+
+    for (const t of convertedForeignTx) {
+      if (t.type !== "EXPENSE") continue;
+      const lines = t.splits.length
+        ? t.splits.map((sp) => ({
+            categoryId: sp.categoryId,
+            cents: convertCents(rateTable, sp.amountCents, t.currency, baseCurrency, t.date) ?? 0,
+          }))
+        : [{ categoryId: t.categoryId, cents: t.convertedCents }];
+      for (const line of lines) {
+        spentByCategory.set(line.categoryId, (spentByCategory.get(line.categoryId) ?? 0) + line.cents);
+      }
+    }
+
+    // Subcategories roll up into their parent; a parent drills down to its children
+    const drill = flatCategories.find((c) => c.id === (params?.category ?? "").trim()) ?? null;
+    if (drill) categoryDrill = { path: drill.path, upHref: dashboardHref(drill.parentId) };
+
+    categoryRows = rollUpCategoryTotals(categories, spentByCategory, drill?.id ?? null).map((r) => ({
+      id: r.id,
+      name: r.name,
+      cents: r.cents,
+      href: r.hasChildren && r.id ? dashboardHref(r.id) : null,
+    }));
+
+    // --- Budget vs actual ---
+    const budgets = (
+      await prisma.budget.findMany({
+        where: { userId: userId! },
+        select: { categoryId: true, month: true, amountCents: true },
+      })
+    ).map((b) => ({ ...b, month: readBudgetMonth(b.month) }));
+
+    if (budgets.length) {
+      // All time = every month from the first transaction through this month
+      let budgetMonths = [selectedMonth];
+      if (useAllTime) {
+        const first = await prisma.transaction.aggregate({
+          where: { userId: userId!, deletedAt: null },
+          _min: { date: true },
+        });
+        const firstMonth = first._min.date ? dayKeyUTC(first._min.date).slice(0, 7) : thisMonth;
+        budgetMonths = monthsBetween(firstMonth < thisMonth ? firstMonth : thisMonth, thisMonth);
+      }
+
+      // A parent's budget covers its subcategories' spending too
+      budgetRows = flatCategories.flatMap((c) => {
+        const budgetCents = budgetForMonths(budgets, c.id, budgetMonths);
+        if (budgetCents === null) return [];
+        let spentCents = 0;
+        for (const id of categorySubtreeIds(categories, c.id)) spentCents += spentByCategory.get(id) ?? 0;
+        return [
+          {
+            categoryId: c.id,
+            name: c.path,
+            spentCents,
+            budgetCents,
+            remainingCents: budgetCents - spentCents,
+            percentUsed: budgetCents > 0 ? Math.round((spentCents / budgetCents) * 100) : 0,
+          },
+        ];
+      });
+    }
+
+    // --- Per-tag totals (a transaction with several tags counts under each) ---
+    const [tags, taggedTx] = await Promise.all([
+      prisma.tag.findMany({
+        where: { userId: userId! },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, color: true },
+      }),
+      prisma.transaction.findMany({
+        where: { ...whereBase, type: { in: ["EXPENSE", "INCOME"] }, tags: { some: {} } },
+        select: {
+          date: true,
+          amountCents: true,
+          currency: true,
+          type: true,
+          tags: { select: { tagId: true } },
+        },
+      }),
+    ]);
+
+    const totalsByTag = new Map<string, { expenseCents: number; incomeCents: number; count: number }>();
+    for (const t of taggedTx) {
+      // Unconverted rows are already counted in unconvertedCount above
+      const cents = convertCents(rateTable, t.amountCents, t.currency, baseCurrency, t.date);
+      if (cents === null) continue;
+
+      for (const { tagId } of t.tags) {
+        const cur = totalsByTag.get(tagId) ?? { expenseCents: 0, incomeCents: 0, count: 0 };
+        if (t.type === "EXPENSE") cur.expenseCents += cents;
+        if (t.type === "INCOME") cur.incomeCents += cents;
+        cur.count++;
+        totalsByTag.set(tagId, cur);
+      }
+    }
+
+    tagRows = tags
+      .flatMap((tag) => {
+        const totals = totalsByTag.get(tag.id);
+        return totals ? [{ ...tag, ...totals }] : [];
       })
-      .filter((r) => r.cents > 0)
-      .sort((a, b) => b.cents - a.cents);
+      .sort((a, b) => b.expenseCents - a.expenseCents || b.incomeCents - a.incomeCents);
 
     // --- Daily trend (month-only): expenses + income ---
     if (!useAllTime) {
       const dailyTx = await prisma.transaction.findMany({
         where: { ...whereBase, type: { in: ["EXPENSE", "INCOME"] } },
-        select: { date: true, amountCents: true, type: true },
+        select: { date: true, amountCents: true, currency: true, type: true },
         orderBy: { date: "asc" },
       });
 
       const dailyMap = new Map<string, { expense: number; income: number }>();
 
       for (const t of dailyTx) {
+        // Unconverted rows are already counted in unconvertedCount above
+        const cents = convertCents(rateTable, t.amountCents, t.currency, baseCurrency, t.date);
+        if (cents === null) continue;
+
         const k = dayKeyUTC(t.date);
         const cur = dailyMap.get(k) ?? { expense: 0, income: 0 };
-        if (t.type === "EXPENSE") cur.expense += t.amountCents;
-        if (t.type === "INCOME") cur.income += t.amountCents;
+        if (t.type === "EXPENSE") cur.expense += cents;
+        if (t.type === "INCOME") cur.income += cents;
         dailyMap.set(k, cur);
       }
 
@@ -341,25 +527,36 @@ export default async function DashboardPage({ searchParams }: PageProps) {
           <div className="dashKpiCard">
             <div className="subtle">Income</div>
             <div style={{ fontSize: 20, fontWeight: 750 }}>
-              {formatMoney(incomeCents)}
+              {formatMoneyCents(incomeCents, baseCurrency)}
             </div>
           </div>
 
           <div className="dashKpiCard">
             <div className="subtle">Expenses</div>
             <div style={{ fontSize: 20, fontWeight: 750 }}>
-              {formatMoney(expenseCents)}
+              {formatMoneyCents(expenseCents, baseCurrency)}
             </div>
           </div>
 
           <div className="dashKpiCard">
             <div className="subtle">Net</div>
             <div style={{ fontSize: 20, fontWeight: 750 }}>
-              {formatMoney(netCents)}
+              {formatMoneyCents(netCents, baseCurrency)}
             </div>
           </div>
         </div>
 
+        {unconvertedCount > 0 ? (
+          <div className="subtle" style={{ padding: "0 22px 22px", fontSize: 13 }}>
+            {unconvertedCount} foreign-currency transaction{unconvertedCount === 1 ? "" : "s"} left
+            out: no exchange rate to {baseCurrency} on or before the transaction date. Add rates in{" "}
+            <Link href="/profile" style={{ textDecoration: "underline" }}>
+              Profile
+            </Link>
+            .
+          </div>
+        ) : null}
+
         {emptyState ? (
           <div className="subtle" style={{ padding: "0 22px 22px" }}>
             Add your first transaction and your dashboard will populate.
@@ -367,10 +564,112 @@ export default async function DashboardPage({ searchParams }: PageProps) {
         ) : null}
       </section>
 
+      {/* Budget vs actual */}
+      {!emptyState ? (
+        <section className="card">
+          <div className="card-header">
+            <div>
+              <div className="h2">Budget vs actual</div>
+              <div className="subtle">
+                {useAllTime ? "Budgets added up across every month so far." : "Spending against this month’s budgets."}
+              </div>
+            </div>
+          </div>
+
+          <div className="card-body">
+            {budgetRows.length === 0 ? (
+              <div className="subtle">
+                No budgets yet. Set them per category in{" "}
+                <Link href="/profile" style={{ textDecoration: "underline" }}>
+                  Profile
+                </Link>
+                .
+              </div>
+            ) : (
+              <ul className="dashBudgetList">
+                {budgetRows.map((b) => {
+                  const over = b.spentCents > b.budgetCents;
+                  return (
+                    <li key={b.categoryId} className={`dashBudgetRow ${over ? "dashBudgetOver" : ""}`}>
+                      <div className="dashBudgetTop">
+                        <div style={{ fontWeight: 650 }}>{b.name}</div>
+                        <div className="subtle" style={{ fontSize: 13 }}>
+                          {formatMoneyCents(b.spentCents, baseCurrency)} of{" "}
+                          {formatMoneyCents(b.budgetCents, baseCurrency)}
+                          {" • "}
+                          {over
+                            ? `${formatMoneyCents(-b.remainingCents, baseCurrency)} over`
+                            : `${formatMoneyCents(b.remainingCents, baseCurrency)} left`}
+                          {` • ${b.percentUsed}%`}
+                        </div>
+                      </div>
+                      <div className="dashBudgetBar">
+                        <div
+                          className="dashBudgetFill"
+                          style={{ width: `${Math.min(100, b.percentUsed)}%` }}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </section>
+      ) : null}
+
+      {/* Per-tag totals */}
+      {!emptyState ? (
+        <section className="card">
+          <div className="card-header">
+            <div>
+              <div className="h2">Tags</div>
+              <div className="subtle">
+                Spending and income per tag. A transaction with several tags counts under each.
+              </div>
+            </div>
+          </div>
+
+          <div className="card-body">
+            {tagRows.length === 0 ? (
+              <div className="subtle">
+                No tagged transactions {useAllTime ? "yet" : "this month"}. Manage tags in{" "}
+                <Link href="/profile" style={{ textDecoration: "underline" }}>
+                  Profile
+                </Link>
+                .
+              </div>
+            ) : (
+              <ul className="dashBudgetList">
+                {tagRows.map((t) => (
+                  <li key={t.id} className="dashBudgetTop">
+                    <Link
+                      href={`/reports?${useAllTime ? "" : `month=${selectedMonth}&`}tagId=${encodeURIComponent(t.id)}`}
+                    >
+                      <TagPill tag={t} />
+                    </Link>
+                    <div className="subtle" style={{ fontSize: 13 }}>
+                      Spent {formatMoneyCents(t.expenseCents, baseCurrency)}
+                      {t.incomeCents ? ` • Income ${formatMoneyCents(t.incomeCents, baseCurrency)}` : ""}
+                      {` • ${t.count} transaction${t.count === 1 ? "" : "s"}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      ) : null}
+
       {/* Charts */}
       {useAllTime ? (
         <>
-          <DashboardCharts categoryRows={categoryRows} dailySeries={[]} />
+          <DashboardCharts
+            categoryRows={categoryRows}
+            categoryDrill={categoryDrill}
+            dailySeries={[]}
+            currency={baseCurrency}
+          />
           <section className="card">
             <div className="card-header">
               <div>
@@ -381,7 +680,12 @@ export default async function DashboardPage({ searchParams }: PageProps) {
           </section>
         </>
       ) : (
-        <DashboardCharts categoryRows={categoryRows} dailySeries={dailySeries as any} />
+        <DashboardCharts
+          categoryRows={categoryRows}
+          categoryDrill={categoryDrill}
+          dailySeries={dailySeries as any}
+          currency={baseCurrency}
+        />
       )}
     </main>
   );
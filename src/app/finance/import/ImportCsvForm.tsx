@@ -0,0 +1,556 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { AccountSelect } from "@/components/AccountSelect";
+import {
+  CSV_DATE_FORMATS,
+  CSV_DECIMAL_SEPARATORS,
+  guessColumnMapping,
+  parseCsv,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type CsvDecimalSeparator,
+} from "@/lib/csv";
+
+type Category = { id: string; name: string };
+type PaymentSource = { id: string; name: string };
+
+type TransactionType = "EXPENSE" | "INCOME";
+
+type PreviewRow = {
+  line: number;
+  date: string | null;
+  description: string;
+  amountCents: number | null;
+  type: TransactionType | null;
+  categoryName: string | null;
+  categoryId: string | null;
+  createCategory: boolean;
+  paymentSourceId: string | null;
+  error: string | null;
+};
+
+type Preview = {
+  rows: PreviewRow[];
+  validCount: number;
+  errorCount: number;
+  decimalSeparator: CsvDecimalSeparator;
+  unknownCategories: Array<{ name: string; suggestedCategoryId: string | null }>;
+};
+
+type MappingKey = keyof CsvColumnMapping;
+
+const DECIMAL_SEPARATOR_LABELS: Record<CsvDecimalSeparator, string> = {
+  ".": "1,234.56",
+  ",": "1.234,56",
+};
+
+const MAPPING_FIELDS: Array<{ key: MappingKey; label: string; required?: boolean }> = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount (signed)" },
+  { key: "debit", label: "Debit (money out)" },
+  { key: "credit", label: "Credit (money in)" },
+  { key: "category", label: "Category" },
+  { key: "account", label: "Account" },
+  { key: "notes", label: "Notes" },
+];
+
+// categoryMap values understood by the import route
+const CATEGORY_CREATE = "__create__";
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function formatSignedCents(cents: number) {
+  const formatted = new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+  }).format(Math.abs(cents) / 100);
+  return cents < 0 ? `-${formatted}` : formatted;
+}
+
+export function ImportCsvForm({
+  categories,
+  paymentSources,
+  defaultPaymentSourceId = null,
+}: {
+  categories: Category[];
+  paymentSources: PaymentSource[];
+  defaultPaymentSourceId?: string | null;
+}) {
+  const router = useRouter();
+
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [csvText, setCsvText] = React.useState("");
+  const [hasHeader, setHasHeader] = React.useState(true);
+  const [dateFormat, setDateFormat] = React.useState<CsvDateFormat>("YYYY-MM-DD");
+  // "" => let the server detect it from the amount column
+  const [decimalSeparator, setDecimalSeparator] = React.useState<CsvDecimalSeparator | "">("");
+  const [invertAmounts, setInvertAmounts] = React.useState(false);
+  const [mapping, setMapping] = React.useState<Partial<CsvColumnMapping>>({});
+  const [paymentSourceId, setPaymentSourceId] = React.useState<string>(
+    defaultPaymentSourceId ?? ""
+  );
+
+  // lowercased CSV category name -> categoryId | "__create__" | "" (Uncategorized)
+  const [categoryMap, setCategoryMap] = React.useState<Record<string, string>>({});
+
+  const [preview, setPreview] = React.useState<Preview | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const rows = React.useMemo(() => (csvText ? parseCsv(csvText) : []), [csvText]);
+  const columnCount = React.useMemo(
+    () => rows.reduce((max, r) => Math.max(max, r.length), 0),
+    [rows]
+  );
+  const columnLabels = React.useMemo(() => {
+    const header = hasHeader ? rows[0] ?? [] : [];
+    return Array.from({ length: columnCount }, (_, i) =>
+      header[i] ? `${i + 1}. ${header[i]}` : `Column ${i + 1}`
+    );
+  }, [rows, columnCount, hasHeader]);
+
+  const onFile = async (file: File | null) => {
+    setError(null);
+    setPreview(null);
+    setCategoryMap({});
+
+    if (!file) {
+      setFileName(null);
+      setCsvText("");
+      setMapping({});
+      return;
+    }
+
+    const text = await file.text();
+    setFileName(file.name);
+    setCsvText(text);
+
+    const parsed = parseCsv(text);
+    setMapping(hasHeader && parsed[0] ? guessColumnMapping(parsed[0]) : {});
+  };
+
+  const setMappingField = (key: MappingKey, raw: string) => {
+    setPreview(null);
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (raw === "") delete next[key];
+      else next[key] = Number(raw);
+      return next;
+    });
+  };
+
+  const submit = async (mode: "preview" | "commit") => {
+    setError(null);
+
+    if (!csvText) {
+      setError("Choose a CSV file first.");
+      return;
+    }
+    if (mapping.date === undefined || mapping.description === undefined) {
+      setError("Map at least the Date and Description columns.");
+      return;
+    }
+    if (
+      mapping.amount === undefined &&
+      mapping.debit === undefined &&
+      mapping.credit === undefined
+    ) {
+      setError("Map an Amount column, or Debit/Credit columns.");
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/import/csv", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode,
+          csv: csvText,
+          hasHeader,
+          dateFormat,
+          decimalSeparator: decimalSeparator || null,
+          mapping,
+          invertAmounts,
+          paymentSourceId: paymentSourceId || null,
+          categoryMap,
+        }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      if (mode === "preview") {
+        const data = (await res.json()) as Preview;
+        setPreview(data);
+
+        // Seed choices for unknown categories (suggested match, else create)
+        setCategoryMap((prev) => {
+          const next = { ...prev };
+          for (const u of data.unknownCategories) {
+            const key = u.name.toLowerCase();
+            if (next[key] === undefined) next[key] = u.suggestedCategoryId ?? CATEGORY_CREATE;
+          }
+          return next;
+        });
+        return;
+      }
+
+      router.push("/finance/transactions");
+      router.refresh();
+    } catch {
+      setError("Something went wrong. Try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Unknown names the user already resolved still need to show in the picker
+  const unresolvedCategoryNames = React.useMemo(() => {
+    const names = new Map<string, string>();
+    for (const u of preview?.unknownCategories ?? []) names.set(u.name.toLowerCase(), u.name);
+    for (const r of preview?.rows ?? []) {
+      if (r.categoryName && categoryMap[r.categoryName.toLowerCase()] !== undefined) {
+        names.set(r.categoryName.toLowerCase(), r.categoryName);
+      }
+    }
+    return Array.from(names.entries());
+  }, [preview, categoryMap]);
+
+  const categoryNameById = React.useMemo(
+    () => new Map(categories.map((c) => [c.id, c.name])),
+    [categories]
+  );
+
+  return (
+    <div style={{ display: "grid", gap: 16 }}>
+      {/* File */}
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">CSV file</label>
+        <input
+          className="input"
+          type="file"
+          accept=".csv,text/csv"
+          disabled={isBusy}
+          onChange={(e) => void onFile(e.target.files?.[0] ?? null)}
+        />
+        {fileName ? (
+          <div className="subtle" style={{ fontSize: 12 }}>
+            {fileName} • {rows.length} line{rows.length === 1 ? "" : "s"}
+          </div>
+        ) : null}
+      </div>
+
+      {csvText ? (
+        <>
+          {/* Options */}
+          <div style={{ display: "flex", gap: 16, flexWrap: "wrap", alignItems: "center" }}>
+            <label className="subtle" style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                disabled={isBusy}
+                onChange={(e) => {
+                  setHasHeader(e.target.checked);
+                  setPreview(null);
+                }}
+              />
+              First row is a header
+            </label>
+
+            <label className="subtle" style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={invertAmounts}
+                disabled={isBusy}
+                onChange={(e) => {
+                  setInvertAmounts(e.target.checked);
+                  setPreview(null);
+                }}
+              />
+              Charges are positive (flip signs)
+            </label>
+
+            <label className="subtle" style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              Date format
+              <select
+                className="select"
+                value={dateFormat}
+                disabled={isBusy}
+                onChange={(e) => {
+                  setDateFormat(e.target.value as CsvDateFormat);
+                  setPreview(null);
+                }}
+                style={{ width: "fit-content" }}
+              >
+                {CSV_DATE_FORMATS.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="subtle" style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              Amounts
+              <select
+                className="select"
+                value={decimalSeparator}
+                disabled={isBusy}
+                onChange={(e) => {
+                  setDecimalSeparator(e.target.value as CsvDecimalSeparator | "");
+                  setPreview(null);
+                }}
+                style={{ width: "fit-content" }}
+              >
+                <option value="">
+                  Auto-detect{preview && !decimalSeparator ? ` (${DECIMAL_SEPARATOR_LABELS[preview.decimalSeparator]})` : ""}
+                </option>
+                {CSV_DECIMAL_SEPARATORS.map((sep) => (
+                  <option key={sep} value={sep}>
+                    {DECIMAL_SEPARATOR_LABELS[sep]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Column mapping */}
+          <div style={{ display: "grid", gap: 8 }}>
+            <div style={{ fontWeight: 650 }}>Column mapping</div>
+            <div className="importMappingGrid">
+              {MAPPING_FIELDS.map((f) => (
+                <label key={f.key} style={{ display: "grid", gap: 6 }}>
+                  <span className="subtle">
+                    {f.label}
+                    {f.required ? " *" : ""}
+                  </span>
+                  <select
+                    className="select"
+                    value={mapping[f.key] ?? ""}
+                    disabled={isBusy}
+                    onChange={(e) => setMappingField(f.key, e.target.value)}
+                  >
+                    <option value="">—</option>
+                    {columnLabels.map((label, i) => (
+                      <option key={i} value={i}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Target account */}
+          <div style={{ display: "grid", gap: 6 }}>
+            <label className="subtle">Import into account</label>
+            <AccountSelect
+              value={paymentSourceId}
+              onChange={(v) => {
+                setPaymentSourceId(v);
+                setPreview(null);
+              }}
+              items={paymentSources}
+              disabled={isBusy}
+              maxWidth={360}
+            />
+            <div className="subtle" style={{ fontSize: 12 }}>
+              Used for rows without an Account column value.
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <button
+              className="btn btn-secondary"
+              type="button"
+              disabled={isBusy}
+              onClick={() => void submit("preview")}
+            >
+              {isBusy && !preview ? "Checking…" : "Preview"}
+            </button>
+
+            {preview ? (
+              <button
+                className="btn btn-primary"
+                type="button"
+                disabled={isBusy || preview.validCount === 0}
+                onClick={() => void submit("commit")}
+              >
+                {isBusy
+                  ? "Importing…"
+                  : `Import ${preview.validCount} transaction${preview.validCount === 1 ? "" : "s"}`}
+              </button>
+            ) : null}
+          </div>
+        </>
+      ) : null}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {/* Unknown categories */}
+      {preview && unresolvedCategoryNames.length ? (
+        <div
+          style={{
+            border: "1px solid rgb(var(--border))",
+            borderRadius: 16,
+            padding: 14,
+            background: "rgba(255,255,255,0.55)",
+            display: "grid",
+            gap: 10,
+          }}
+        >
+          <div style={{ display: "grid", gap: 4 }}>
+            <div style={{ fontWeight: 650 }}>New categories in this file</div>
+            <div className="subtle">Match each one to an existing category, or create it.</div>
+          </div>
+
+          {unresolvedCategoryNames.map(([key, name]) => (
+            <div
+              key={key}
+              style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}
+            >
+              <span style={{ minWidth: 160, fontWeight: 600 }}>{name}</span>
+              <select
+                className="select"
+                value={categoryMap[key] ?? CATEGORY_CREATE}
+                disabled={isBusy}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setCategoryMap((prev) => ({ ...prev, [key]: value }));
+                }}
+                style={{ maxWidth: 280 }}
+              >
+                <option value={CATEGORY_CREATE}>Create “{name}”</option>
+                <option value="">Uncategorized</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {/* Preview table */}
+      {preview ? (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div className="subtle">
+            {preview.validCount} ready • {preview.errorCount} with errors (skipped on import)
+          </div>
+
+          <div style={{ overflowX: "auto" }}>
+            <table className="importTable">
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th>Category</th>
+                  <th style={{ textAlign: "right" }}>Amount</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.slice(0, 500).map((r) => {
+                  const mapped = r.categoryName
+                    ? categoryMap[r.categoryName.toLowerCase()]
+                    : undefined;
+                  const categoryLabel =
+                    mapped === undefined
+                      ? r.categoryId
+                        ? categoryNameById.get(r.categoryId) ?? r.categoryName
+                        : r.categoryName
+                      : mapped === CATEGORY_CREATE
+                        ? `${r.categoryName} (new)`
+                        : mapped === ""
+                          ? "Uncategorized"
+                          : categoryNameById.get(mapped) ?? r.categoryName;
+
+                  return (
+                    <tr key={r.line} className={r.error ? "importRowError" : undefined}>
+                      <td className="subtle">{r.line}</td>
+                      <td>{r.date ?? "—"}</td>
+                      <td>{r.description || "—"}</td>
+                      <td>{categoryLabel ?? <span className="subtle">Uncategorized</span>}</td>
+                      <td
+                        className={`amount ${
+                          r.type === "INCOME" ? "amount-positive" : "amount-negative"
+                        }`}
+                        style={{ textAlign: "right", whiteSpace: "nowrap" }}
+                      >
+                        {r.amountCents !== null ? formatSignedCents(r.amountCents) : "—"}
+                      </td>
+                      <td style={{ fontSize: 12 }}>
+                        {r.error ? (
+                          <span style={{ color: "rgb(var(--danger))" }}>{r.error}</span>
+                        ) : (
+                          <span className="subtle">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.rows.length > 500 ? (
+            <div className="subtle" style={{ fontSize: 12 }}>
+              Showing the first 500 rows.
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .importMappingGrid {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+          gap: 10px;
+        }
+
+        .importTable {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 13px;
+        }
+
+        .importTable :global(th),
+        .importTable :global(td) {
+          padding: 8px 10px;
+          border-bottom: 1px solid rgb(var(--border));
+          text-align: left;
+          vertical-align: top;
+        }
+
+        .importTable :global(th) {
+          font-weight: 650;
+          color: rgb(var(--muted));
+        }
+
+        .importTable :global(.importRowError) {
+          background: rgba(var(--danger), 0.05);
+        }
+      `}</style>
+    </div>
+  );
+}
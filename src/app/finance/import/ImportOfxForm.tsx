@@ -0,0 +1,243 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { AccountSelect } from "@/components/AccountSelect";
+import { formatMoneyCents } from "@/lib/currency";
+
+type PaymentSource = { id: string; name: string };
+
+type TransactionType = "EXPENSE" | "INCOME";
+
+type PreviewRow = {
+  fitId: string;
+  date: string;
+  description: string;
+  amountCents: number;
+  type: TransactionType | null;
+  duplicate: boolean;
+  error: string | null;
+};
+
+// Statement entries that couldn't be read at all (index counts from 0)
+type InvalidEntry = { index: number; fitId: string | null; error: string };
+
+type Preview = {
+  account: { accountId: string | null; kind: "BANK" | "CARD" | null; currency: string | null };
+  currency: string; // what the rows will be saved in
+  rows: PreviewRow[];
+  invalid: InvalidEntry[];
+  newCount: number;
+  duplicateCount: number;
+  errorCount: number;
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function formatMoneyFromCents(centsAbs: number, type: TransactionType | null, currency: string) {
+  const formatted = formatMoneyCents(centsAbs, currency);
+  return type === "EXPENSE" ? `-${formatted}` : formatted;
+}
+
+function maskAccountId(id: string) {
+  return id.length > 4 ? `••••${id.slice(-4)}` : id;
+}
+
+export function ImportOfxForm({
+  paymentSources, // BANK + CARD only
+}: {
+  paymentSources: PaymentSource[];
+}) {
+  const router = useRouter();
+
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [ofxText, setOfxText] = React.useState("");
+  const [paymentSourceId, setPaymentSourceId] = React.useState("");
+
+  const [preview, setPreview] = React.useState<Preview | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const submit = async (mode: "preview" | "commit") => {
+    setError(null);
+
+    if (!ofxText) {
+      setError("Choose an OFX or QFX file first.");
+      return;
+    }
+    if (!paymentSourceId) {
+      setError("Choose the account this statement belongs to.");
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/import/ofx", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode, ofx: ofxText, paymentSourceId }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      if (mode === "preview") {
+        setPreview((await res.json()) as Preview);
+        return;
+      }
+
+      router.push("/finance/transactions");
+      router.refresh();
+    } catch {
+      setError("Something went wrong. Try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (paymentSources.length === 0) {
+    return (
+      <div className="subtle">
+        Add a bank or card in{" "}
+        <a href="/profile" style={{ textDecoration: "underline" }}>
+          Profile
+        </a>{" "}
+        to import statements into it.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 16 }}>
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Statement file</label>
+        <input
+          className="input"
+          type="file"
+          accept=".ofx,.qfx,application/x-ofx"
+          disabled={isBusy}
+          onChange={async (e) => {
+            const file = e.target.files?.[0] ?? null;
+            setPreview(null);
+            setError(null);
+            setFileName(file?.name ?? null);
+            setOfxText(file ? await file.text() : "");
+          }}
+        />
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Account</label>
+        <AccountSelect
+          value={paymentSourceId}
+          onChange={(v) => {
+            setPaymentSourceId(v);
+            setPreview(null);
+          }}
+          items={paymentSources}
+          disabled={isBusy}
+          maxWidth={360}
+        />
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Already-imported transactions are recognized and skipped.
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <button
+          className="btn btn-secondary"
+          type="button"
+          disabled={isBusy || !fileName}
+          onClick={() => void submit("preview")}
+        >
+          Preview
+        </button>
+
+        {preview ? (
+          <button
+            className="btn btn-primary"
+            type="button"
+            disabled={isBusy || preview.newCount === 0}
+            onClick={() => void submit("commit")}
+          >
+            {isBusy
+              ? "Importing…"
+              : `Import ${preview.newCount} new transaction${preview.newCount === 1 ? "" : "s"}`}
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {preview ? (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div className="subtle">
+            {preview.account.kind ? `${preview.account.kind === "CARD" ? "Card" : "Bank"} statement` : "Statement"}
+            {preview.account.accountId ? ` ${maskAccountId(preview.account.accountId)}` : ""}
+            {preview.account.currency ? ` • ${preview.account.currency}` : ""}
+            {` • ${preview.newCount} new • ${preview.duplicateCount} already imported`}
+            {preview.errorCount ? ` • ${preview.errorCount} with errors` : ""}
+          </div>
+
+          {preview.invalid.length ? (
+            <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>
+              {preview.invalid.slice(0, 20).map((e) => (
+                <div key={e.index}>
+                  Entry {e.index + 1}
+                  {e.fitId ? ` (${e.fitId})` : ""}: {e.error}, skipped
+                </div>
+              ))}
+              {preview.invalid.length > 20 ? <div>…and {preview.invalid.length - 20} more</div> : null}
+            </div>
+          ) : null}
+
+          <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
+            {preview.rows.slice(0, 500).map((r, i) => (
+              <li
+                key={`${r.fitId}-${i}`}
+                style={{
+                  border: "1px solid rgb(var(--border))",
+                  borderRadius: 14,
+                  padding: "10px 12px",
+                  display: "flex",
+                  justifyContent: "space-between",
+                  gap: 12,
+                  opacity: r.duplicate || r.error ? 0.6 : 1,
+                }}
+              >
+                <div style={{ display: "grid", gap: 2, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600 }}>{r.description || "—"}</div>
+                  <div className="subtle" style={{ fontSize: 12 }}>
+                    {r.date}
+                    {r.duplicate ? " • already imported" : ""}
+                    {r.error ? (
+                      <span style={{ color: "rgb(var(--danger))" }}> • {r.error}</span>
+                    ) : null}
+                  </div>
+                </div>
+                <div
+                  className={`amount ${r.type === "INCOME" ? "amount-positive" : "amount-negative"}`}
+                  style={{ whiteSpace: "nowrap", fontWeight: 700 }}
+                >
+                  {formatMoneyFromCents(Math.abs(r.amountCents), r.type, preview.currency)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import Link from "next/link";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ImportCsvForm } from "./ImportCsvForm";
+import { ImportOfxForm } from "./ImportOfxForm";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserContext(): Promise<{
+  userId: string | null;
+  label: string;
+  isAuthed: boolean;
+}> {
+  const session = await getServerSession(authOptions);
+
+  // Prefer session.user.id (we added it via callbacks.session)
+  const sessionUserId = (session?.user as { id?: string } | undefined)?.id;
+  if (sessionUserId) {
+    const email = session?.user?.email ?? "your account";
+    return { userId: sessionUserId, label: `Signed in as ${email}`, isAuthed: true };
+  }
+
+  // Fallback: if session has email but not id, resolve user id
+  const email = session?.user?.email;
+  if (email) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (user?.id) {
+      return { userId: user.id, label: `Signed in as ${email}`, isAuthed: true };
+    }
+  }
+
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+
+  if (!raw) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess || (sess.expiresAt && sess.expiresAt.getTime() < Date.now())) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  // Touch lastSeenAt (best-effort)
+  prisma.anonSession
+    .update({ where: { id: sess.id }, data: { lastSeenAt: new Date() } })
+    .catch(() => {});
+
+  return { userId: sess.userId, label: "Using Zento on this device", isAuthed: false };
+}
+
+export default async function ImportPage() {
+  const { userId, label, isAuthed } = await getUserContext();
+
+  const [categories, paymentSources, user] = userId
+    ? await Promise.all([
+        prisma.category.findMany({
+          where: { userId },
+          orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+          select: { id: true, name: true },
+        }),
+        prisma.paymentSource.findMany({
+          where: { userId },
+          orderBy: [{ name: "asc" }],
+          select: { id: true, name: true, type: true, archivedAt: true },
+        }),
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { defaultTransactionsPaymentSourceId: true },
+        }),
+      ])
+    : [[], [], null];
+
+  return (
+    <main className="z-page">
+      <section className="card card--raised shrink-0">
+        <div className="card-header z-txHeader">
+          <div style={{ display: "grid", gap: 6 }}>
+            <h1 className="h1" style={{ margin: 0 }}>
+              Import
+            </h1>
+            <div className="subtle">Bring in transactions from your bank.</div>
+          </div>
+
+          <div style={{ display: "grid", gap: 6, justifyItems: "end" }}>
+            <div className="subtle z-txSignedIn">{label}</div>
+            {!isAuthed ? (
+              <div className="subtle" style={{ fontSize: 12 }}>
+                Want to sync across devices?{" "}
+                <Link href="/api/auth/signin" className="subtle" style={{ textDecoration: "underline" }}>
+                  Sign in
+                </Link>
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">CSV file</div>
+            <div className="subtle">
+              Map your bank’s columns, check the preview, then import everything at once.
+            </div>
+          </div>
+        </div>
+        <div className="card-body">
+          <ImportCsvForm
+            categories={categories}
+            paymentSources={paymentSources
+              .filter((p) => !p.archivedAt)
+              .map((p) => ({ id: p.id, name: p.name }))}
+            defaultPaymentSourceId={user?.defaultTransactionsPaymentSourceId ?? null}
+          />
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">OFX / QFX statement</div>
+            <div className="subtle">
+              The format most banks and card issuers offer as “Quicken” or “Money” download.
+            </div>
+          </div>
+        </div>
+        <div className="card-body">
+          <ImportOfxForm
+            paymentSources={paymentSources
+              .filter((p) => p.type !== "CASH" && !p.archivedAt)
+              .map((p) => ({ id: p.id, name: p.name }))}
+          />
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import * as React from "react";
+import { formatMoneyCents } from "@/lib/currency";
+import { TransactionRow } from "../transactions/TransactionRow";
+
+type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
+type TransactionStatus = "PENDING" | "CLEARED" | "RECONCILED";
+
+// The parts of a GET /api/finance/transactions item the rows use
+type ApiTransaction = {
+  id: string;
+  description: string;
+  amountCents: number;
+  currency: string;
+  type: TransactionType;
+  date: string;
+  categoryId: string | null;
+  paymentSourceId: string | null;
+  transferToPaymentSourceId: string | null;
+  payeeId: string | null;
+  notes: string | null;
+  status: TransactionStatus;
+  category: { name: string } | null;
+  paymentSource: { name: string } | null;
+  transferToPaymentSource: { name: string } | null;
+  payee: { name: string } | null;
+  splits: Array<{
+    categoryId: string | null;
+    amountCents: number;
+    note: string | null;
+    category: { name: string } | null;
+  }>;
+  attachments: Array<{ id: string; fileName: string; contentType: string; sizeBytes: number }>;
+  tags: Array<{ tag: { id: string; name: string; color: string } }>;
+};
+
+type Totals = {
+  count: number;
+  currency: string;
+  incomeCents: number;
+  expenseCents: number;
+  unconvertedCount: number;
+};
+
+type Page = { items: ApiTransaction[]; nextCursor: string | null; totals?: Totals };
+
+const PAGE_SIZE = 50;
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function formatDate(iso: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(iso));
+}
+
+async function fetchPage(cursor: string | null, withTotals: boolean): Promise<Page> {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (cursor) params.set("cursor", cursor);
+  if (withTotals) params.set("totals", "1");
+
+  const res = await fetch(`/api/finance/transactions?${params}`, { cache: "no-store" });
+  if (!res.ok) throw new Error(await readApiError(res));
+  return (await res.json()) as Page;
+}
+
+/**
+ * Every transaction, newest first. Pages load as the end of the list scrolls
+ * into view (cursor pagination on /api/finance/transactions).
+ */
+export function LedgerList() {
+  const [items, setItems] = React.useState<ApiTransaction[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [totals, setTotals] = React.useState<Totals | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // The observer callback outlives renders; these keep it from double-loading
+  const loadingRef = React.useRef(false);
+  const cursorRef = React.useRef<string | null>(null);
+  const loadedCountRef = React.useRef(0);
+  const sentinelRef = React.useRef<HTMLDivElement | null>(null);
+
+  const apply = (page: Page, append: boolean) => {
+    setItems((prev) => {
+      const next = append ? [...prev, ...page.items] : page.items;
+      loadedCountRef.current = next.length;
+      return next;
+    });
+    setNextCursor(page.nextCursor);
+    cursorRef.current = page.nextCursor;
+    if (page.totals) setTotals(page.totals);
+  };
+
+  const loadMore = React.useCallback(async () => {
+    if (loadingRef.current || !cursorRef.current) return;
+    loadingRef.current = true;
+    setIsLoading(true);
+    setError(null);
+    try {
+      apply(await fetchPage(cursorRef.current, false), true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed.");
+    } finally {
+      loadingRef.current = false;
+      setIsLoading(false);
+    }
+  }, []);
+
+  // First page, and a fresh reload (as far down as was loaded) after an edit
+  const reload = React.useCallback(async () => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setIsLoading(true);
+    setError(null);
+
+    const wanted = Math.max(loadedCountRef.current, 1);
+    try {
+      const first = await fetchPage(null, true);
+      let page = first;
+      const all = [...first.items];
+      while (page.nextCursor && all.length < wanted) {
+        page = await fetchPage(page.nextCursor, false);
+        all.push(...page.items);
+      }
+      apply({ items: all, nextCursor: page.nextCursor, totals: first.totals }, false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed.");
+    } finally {
+      loadingRef.current = false;
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  React.useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) void loadMore();
+      },
+      { rootMargin: "400px 0px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      {totals ? (
+        <div className="subtle">
+          {totals.count} transaction{totals.count === 1 ? "" : "s"} • Income{" "}
+          {formatMoneyCents(totals.incomeCents, totals.currency)} • Expenses{" "}
+          {formatMoneyCents(totals.expenseCents, totals.currency)} • Net{" "}
+          {formatMoneyCents(totals.incomeCents - totals.expenseCents, totals.currency)}
+          {totals.unconvertedCount > 0 ? (
+            <div style={{ fontSize: 12, marginTop: 4 }}>
+              {totals.unconvertedCount} foreign-currency transaction{totals.unconvertedCount === 1 ? "" : "s"} left
+              out of the totals: no exchange rate to {totals.currency} on or before the transaction date.
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {!isLoading && !error && items.length === 0 ? <div className="subtle">No transactions yet.</div> : null}
+
+      <ul style={{ display: "grid", gap: 10, listStyle: "none", padding: 0, margin: 0 }}>
+        {items.map((t) => (
+          <li key={t.id} className="z-txCard">
+            <TransactionRow
+              id={t.id}
+              description={t.description}
+              amountCents={t.amountCents}
+              currency={t.currency}
+              type={t.type}
+              dateISO={t.date}
+              formattedDate={formatDate(t.date)}
+              categoryId={t.categoryId}
+              categoryName={t.category?.name ?? null}
+              payeeId={t.payeeId}
+              payeeName={t.payee?.name ?? null}
+              paymentSourceId={t.paymentSourceId}
+              paymentSourceName={t.paymentSource?.name ?? null}
+              transferToPaymentSourceId={t.transferToPaymentSourceId}
+              transferToPaymentSourceName={t.transferToPaymentSource?.name ?? null}
+              notes={t.notes ?? null}
+              tags={t.tags.map((tt) => tt.tag)}
+              status={t.status}
+              splits={t.splits.map((sp) => ({
+                categoryId: sp.categoryId,
+                categoryName: sp.category?.name ?? null,
+                amountCents: sp.amountCents,
+                note: sp.note,
+              }))}
+              attachments={t.attachments}
+              onChanged={() => void reload()}
+            />
+          </li>
+        ))}
+      </ul>
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {/* Scrolling this into view loads the next page */}
+      <div ref={sentinelRef} aria-hidden style={{ height: 1 }} />
+
+      {isLoading ? (
+        <div className="subtle">Loading…</div>
+      ) : nextCursor ? (
+        <button type="button" className="btn btn-ghost" onClick={() => void loadMore()} style={{ width: "fit-content" }}>
+          Load more
+        </button>
+      ) : items.length > 0 ? (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          That’s everything.
+        </div>
+      ) : null}
+    </div>
+  );
+}
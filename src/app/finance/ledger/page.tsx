@@ -0,0 +1,103 @@
+import Link from "next/link";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { LedgerList } from "./LedgerList";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserContext(): Promise<{
+  userId: string | null;
+  label: string;
+  isAuthed: boolean;
+}> {
+  const session = await getServerSession(authOptions);
+
+  // Prefer session.user.id (we added it via callbacks.session)
+  const sessionUserId = (session?.user as { id?: string } | undefined)?.id;
+  if (sessionUserId) {
+    const email = session?.user?.email ?? "your account";
+    return { userId: sessionUserId, label: `Signed in as ${email}`, isAuthed: true };
+  }
+
+  // Fallback: if session has email but not id, resolve user id
+  const email = session?.user?.email;
+  if (email) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (user?.id) {
+      return { userId: user.id, label: `Signed in as ${email}`, isAuthed: true };
+    }
+  }
+
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+
+  if (!raw) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess || (sess.expiresAt && sess.expiresAt.getTime() < Date.now())) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  // Touch lastSeenAt (best-effort)
+  prisma.anonSession
+    .update({ where: { id: sess.id }, data: { lastSeenAt: new Date() } })
+    .catch(() => {});
+
+  return { userId: sess.userId, label: "Using Zento on this device", isAuthed: false };
+}
+
+export default async function LedgerPage() {
+  const { userId, label } = await getUserContext();
+
+  return (
+    <main className="z-page">
+      <section className="card card--raised shrink-0">
+        <div className="card-header z-txHeader">
+          <div style={{ display: "grid", gap: 6 }}>
+            <h1 className="h1" style={{ margin: 0 }}>
+              Ledger
+            </h1>
+            <div className="subtle">Every transaction, newest first.</div>
+          </div>
+
+          <div style={{ display: "grid", gap: 6, justifyItems: "end" }}>
+            <div className="subtle z-txSignedIn">{label}</div>
+            <Link href="/finance/transactions" className="subtle" style={{ textDecoration: "underline" }}>
+              Back to transactions
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="card-body">
+          {userId ? (
+            <LedgerList />
+          ) : (
+            <div className="subtle">Add your first transaction and it’ll show up here.</div>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
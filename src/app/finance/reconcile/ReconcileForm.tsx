@@ -0,0 +1,347 @@
+"use client";
+
+import * as React from "react";
+import { AccountSelect } from "@/components/AccountSelect";
+import { formatMoneyCents } from "@/lib/currency";
+import {
+  clearedBalanceCents,
+  reconcileDifferenceCents,
+  type ReconcileItem,
+} from "@/lib/reconcile";
+
+type PaymentSource = { id: string; name: string };
+
+type AccountState = {
+  paymentSource: { id: string; name: string; currency: string };
+  reconciledBalanceCents: number;
+  unconvertedReconciledCount: number;
+  lastReconciliation: { statementDate: string; endingBalanceCents: number } | null;
+  items: ReconcileItem[];
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+// Signed: statement balances can be negative (credit cards, overdrafts)
+function parseBalanceToCents(input: string): number | null {
+  const cleaned = input.replace(/[$,\s]/g, "");
+  if (!cleaned) return null;
+  const num = Number(cleaned);
+  if (!Number.isFinite(num)) return null;
+  return Math.round(num * 100);
+}
+
+function todayDateOnly() {
+  const d = new Date();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+export function ReconcileForm({
+  paymentSources,
+  initialPaymentSourceId,
+}: {
+  paymentSources: PaymentSource[];
+  initialPaymentSourceId: string;
+}) {
+  const [paymentSourceId, setPaymentSourceId] = React.useState(initialPaymentSourceId);
+  const [state, setState] = React.useState<AccountState | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [done, setDone] = React.useState<string | null>(null);
+
+  const [statementDate, setStatementDate] = React.useState(todayDateOnly);
+  const [endingBalance, setEndingBalance] = React.useState("");
+
+  // Rows with a status PATCH in flight
+  const [savingIds, setSavingIds] = React.useState<Set<string>>(() => new Set());
+
+  const load = React.useCallback(async (id: string) => {
+    if (!id) {
+      setState(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/finance/reconcile?paymentSourceId=${encodeURIComponent(id)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        setState(null);
+        return;
+      }
+      setState((await res.json()) as AccountState);
+    } catch {
+      setError("Failed to load transactions.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void load(paymentSourceId);
+  }, [load, paymentSourceId]);
+
+  const setItemStatus = (id: string, status: ReconcileItem["status"]) =>
+    setState((s) =>
+      s ? { ...s, items: s.items.map((it) => (it.id === id ? { ...it, status } : it)) } : s
+    );
+
+  // Ticks are saved right away so an unfinished reconciliation can be resumed later
+  const onToggle = async (item: ReconcileItem) => {
+    const next = item.status === "CLEARED" ? "PENDING" : "CLEARED";
+
+    setError(null);
+    setDone(null);
+    setItemStatus(item.id, next);
+    setSavingIds((s) => new Set(s).add(item.id));
+    try {
+      const res = await fetch(`/api/finance/transactions?id=${encodeURIComponent(item.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next }),
+      });
+      if (!res.ok) {
+        setItemStatus(item.id, item.status);
+        setError(await readApiError(res));
+      }
+    } catch {
+      setItemStatus(item.id, item.status);
+      setError("Failed to save. Try again.");
+    } finally {
+      setSavingIds((s) => {
+        const copy = new Set(s);
+        copy.delete(item.id);
+        return copy;
+      });
+    }
+  };
+
+  const endingBalanceCents = parseBalanceToCents(endingBalance);
+  const currency = state?.paymentSource.currency;
+
+  const clearedCents = state
+    ? clearedBalanceCents({
+        reconciledBalanceCents: state.reconciledBalanceCents,
+        items: state.items,
+        statementDate,
+      })
+    : 0;
+
+  const differenceCents =
+    state && endingBalanceCents !== null && statementDate
+      ? reconcileDifferenceCents({
+          endingBalanceCents,
+          reconciledBalanceCents: state.reconciledBalanceCents,
+          items: state.items,
+          statementDate,
+        })
+      : null;
+
+  const onFinish = async () => {
+    if (!state || endingBalanceCents === null) return;
+
+    setError(null);
+    setDone(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/reconcile", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ paymentSourceId, statementDate, endingBalanceCents }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      const data = (await res.json()) as { transactionCount: number };
+      setDone(
+        `Reconciled ${data.transactionCount} transaction${data.transactionCount === 1 ? "" : "s"}. They’re now locked.`
+      );
+      setEndingBalance("");
+      await load(paymentSourceId);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 14 }}>
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Account</label>
+        <AccountSelect
+          value={paymentSourceId}
+          onChange={(v) => {
+            setPaymentSourceId(v);
+            setDone(null);
+          }}
+          items={paymentSources}
+          disabled={isBusy}
+          maxWidth={360}
+        />
+      </div>
+
+      {state ? (
+        <>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "end" }}>
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Statement end date</label>
+              <input
+                className="input"
+                type="date"
+                value={statementDate}
+                onChange={(e) => setStatementDate(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Ending balance ({state.paymentSource.currency})</label>
+              <input
+                className="input"
+                value={endingBalance}
+                onChange={(e) => setEndingBalance(e.target.value)}
+                inputMode="decimal"
+                placeholder="e.g. 1520.75"
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+
+          <div className="subtle" style={{ fontSize: 12 }}>
+            {state.lastReconciliation
+              ? `Last reconciled through ${state.lastReconciliation.statementDate} at ${formatMoneyCents(
+                  state.lastReconciliation.endingBalanceCents,
+                  state.paymentSource.currency
+                )}.`
+              : "Not reconciled yet. Include an opening balance transaction if the account didn’t start at zero."}
+          </div>
+
+          <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+            <div>
+              <div className="subtle" style={{ fontSize: 12 }}>
+                Cleared balance
+              </div>
+              <div style={{ fontWeight: 700 }}>{formatMoneyCents(clearedCents, currency)}</div>
+            </div>
+            <div>
+              <div className="subtle" style={{ fontSize: 12 }}>
+                Statement
+              </div>
+              <div style={{ fontWeight: 700 }}>
+                {endingBalanceCents === null ? "—" : formatMoneyCents(endingBalanceCents, currency)}
+              </div>
+            </div>
+            <div>
+              <div className="subtle" style={{ fontSize: 12 }}>
+                Difference
+              </div>
+              <div
+                className={differenceCents === 0 ? "amount-positive" : differenceCents ? "amount-negative" : ""}
+                style={{ fontWeight: 700 }}
+              >
+                {differenceCents === null ? "—" : formatMoneyCents(differenceCents, currency)}
+              </div>
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <button
+              className="btn btn-primary"
+              type="button"
+              onClick={() => void onFinish()}
+              disabled={isBusy || savingIds.size > 0 || differenceCents !== 0}
+            >
+              {isBusy ? "Reconciling…" : "Finish reconciliation"}
+            </button>
+            <span className="subtle" style={{ fontSize: 12 }}>
+              Tick every transaction that appears on the statement until the difference is 0.
+            </span>
+          </div>
+
+          {state.unconvertedReconciledCount ? (
+            <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>
+              {state.unconvertedReconciledCount} reconciled transaction
+              {state.unconvertedReconciledCount === 1 ? " has" : "s have"} no exchange rate to{" "}
+              {state.paymentSource.currency} and {state.unconvertedReconciledCount === 1 ? "is" : "are"} left
+              out of the balance.
+            </div>
+          ) : null}
+        </>
+      ) : null}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+      {done ? <div className="subtle">{done}</div> : null}
+
+      {isLoading ? (
+        <div className="subtle">Loading…</div>
+      ) : state && state.items.length === 0 ? (
+        <div className="subtle">Nothing left to reconcile on this account.</div>
+      ) : state ? (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
+          {state.items.map((it) => {
+            const afterStatement = it.date > statementDate;
+            const checked = it.status === "CLEARED";
+
+            return (
+              <li
+                key={it.id}
+                style={{
+                  border: "1px solid rgb(var(--border))",
+                  borderRadius: 14,
+                  padding: "10px 12px",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 12,
+                  opacity: afterStatement ? 0.6 : 1,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => void onToggle(it)}
+                  disabled={isBusy || savingIds.has(it.id)}
+                  aria-label={`Cleared: ${it.description}`}
+                />
+                <div style={{ display: "grid", gap: 2, minWidth: 0, flex: 1 }}>
+                  <div style={{ fontWeight: 600 }}>{it.description}</div>
+                  <div className="subtle" style={{ fontSize: 12 }}>
+                    {it.date}
+                    {it.type === "TRANSFER" ? " • transfer" : ""}
+                    {it.currency !== state.paymentSource.currency
+                      ? ` • ${formatMoneyCents(it.amountCents, it.currency)}`
+                      : ""}
+                    {afterStatement ? " • after statement date" : ""}
+                    {it.accountCents === null ? (
+                      <span style={{ color: "rgb(var(--danger))" }}> • no exchange rate</span>
+                    ) : null}
+                  </div>
+                </div>
+                <div
+                  className={`amount ${(it.accountCents ?? 0) < 0 ? "amount-negative" : "amount-positive"}`}
+                  style={{ whiteSpace: "nowrap", fontWeight: 700 }}
+                >
+                  {it.accountCents === null ? "—" : formatMoneyCents(it.accountCents, currency)}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
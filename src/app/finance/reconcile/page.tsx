@@ -0,0 +1,154 @@
+import Link from "next/link";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ReconcileForm } from "./ReconcileForm";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserContext(): Promise<{
+  userId: string | null;
+  label: string;
+  isAuthed: boolean;
+}> {
+  const session = await getServerSession(authOptions);
+
+  // Prefer session.user.id (we added it via callbacks.session)
+  const sessionUserId = (session?.user as { id?: string } | undefined)?.id;
+  if (sessionUserId) {
+    const email = session?.user?.email ?? "your account";
+    return { userId: sessionUserId, label: `Signed in as ${email}`, isAuthed: true };
+  }
+
+  // Fallback: if session has email but not id, resolve user id
+  const email = session?.user?.email;
+  if (email) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (user?.id) {
+      return { userId: user.id, label: `Signed in as ${email}`, isAuthed: true };
+    }
+  }
+
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+
+  if (!raw) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess || (sess.expiresAt && sess.expiresAt.getTime() < Date.now())) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  // Touch lastSeenAt (best-effort)
+  prisma.anonSession
+    .update({ where: { id: sess.id }, data: { lastSeenAt: new Date() } })
+    .catch(() => {});
+
+  return { userId: sess.userId, label: "Using Zento on this device", isAuthed: false };
+}
+
+type PageProps = {
+  searchParams?: Promise<{ paymentSourceId?: string }>;
+};
+
+export default async function ReconcilePage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const { userId, label, isAuthed } = await getUserContext();
+
+  // Payment sources are managed by signed-in users only, and so is reconciling them
+  const [paymentSources, user] =
+    userId && isAuthed
+      ? await Promise.all([
+          prisma.paymentSource.findMany({
+            where: { userId },
+            orderBy: [{ name: "asc" }],
+            select: { id: true, name: true },
+          }),
+          prisma.user.findUnique({
+            where: { id: userId },
+            select: { defaultTransactionsPaymentSourceId: true },
+          }),
+        ])
+      : [[], null];
+
+  const requested = params?.paymentSourceId ?? "";
+  const initialPaymentSourceId =
+    [requested, user?.defaultTransactionsPaymentSourceId ?? ""].find(
+      (id) => id && paymentSources.some((p) => p.id === id)
+    ) ??
+    paymentSources[0]?.id ??
+    "";
+
+  return (
+    <main className="z-page">
+      <section className="card card--raised shrink-0">
+        <div className="card-header z-txHeader">
+          <div style={{ display: "grid", gap: 6 }}>
+            <h1 className="h1" style={{ margin: 0 }}>
+              Reconcile
+            </h1>
+            <div className="subtle">Check an account against its bank statement.</div>
+          </div>
+
+          <div style={{ display: "grid", gap: 6, justifyItems: "end" }}>
+            <div className="subtle z-txSignedIn">{label}</div>
+          </div>
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">Statement</div>
+            <div className="subtle">
+              Enter the statement’s end date and ending balance, then tick off what cleared.
+              Reconciled transactions are locked against accidental edits.
+            </div>
+          </div>
+        </div>
+        <div className="card-body">
+          {!isAuthed ? (
+            <div className="subtle">
+              <Link href="/api/auth/signin" style={{ textDecoration: "underline" }}>
+                Sign in
+              </Link>{" "}
+              to reconcile your accounts.
+            </div>
+          ) : paymentSources.length === 0 ? (
+            <div className="subtle">
+              Add a payment method in{" "}
+              <Link href="/profile" style={{ textDecoration: "underline" }}>
+                Profile
+              </Link>{" "}
+              first.
+            </div>
+          ) : (
+            <ReconcileForm
+              paymentSources={paymentSources}
+              initialPaymentSourceId={initialPaymentSourceId}
+            />
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
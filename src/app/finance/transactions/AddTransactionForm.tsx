@@ -3,8 +3,21 @@
 import * as React from "react";
 import { useRouter } from "next/navigation";
 import { AccountSelect } from "@/components/AccountSelect";
-
-type TransactionType = "EXPENSE" | "INCOME";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { EMPTY_PAYEE, PayeePicker, type PayeeDraft } from "@/components/PayeePicker";
+import { TagPicker } from "@/components/TagPicker";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import type { CategorySuggestion } from "@/lib/suggestions";
+import type { TagSummary } from "@/lib/tags";
+import {
+  SplitEditor,
+  newSplitDraft,
+  splitDraftsToPayload,
+  type SplitDraft,
+  type SplitPayload,
+} from "./SplitEditor";
+
+type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
 
 function parseAmountToCentsWithSign(
   input: string
@@ -36,28 +49,21 @@ async function readApiError(res: Response) {
   return "Request failed.";
 }
 
-type Category = { id: string; name: string };
+type Category = { id: string; name: string; archivedAt: string | null };
+
+const SUGGEST_DEBOUNCE_MS = 300;
+const MIN_SUGGESTION_CONFIDENCE = 0.15;
 
 // Payment sources (accounts/cards/cash)
 type PaymentSourceType = "BANK" | "CARD" | "CASH";
-type PaymentSource = { id: string; name: string; type: PaymentSourceType };
-
-type TxFlag = "WORTH_IT" | "UNEXPECTED" | "REVIEW_LATER";
-
-const FLAG_LABELS: Record<TxFlag, string> = {
-  WORTH_IT: "Felt worth it",
-  UNEXPECTED: "Unexpected",
-  REVIEW_LATER: "Review later",
-};
-
-function toggleFlag(list: TxFlag[], flag: TxFlag) {
-  return list.includes(flag) ? list.filter((f) => f !== flag) : [...list, flag];
-}
+type PaymentSource = { id: string; name: string; type: PaymentSourceType; currency: string; archivedAt: string | null };
 
 export function AddTransactionForm({
   defaultPaymentSourceId = null,
+  baseCurrency = DEFAULT_CURRENCY,
 }: {
   defaultPaymentSourceId?: string | null;
+  baseCurrency?: string;
 }) {
   const router = useRouter();
 
@@ -67,6 +73,14 @@ export function AddTransactionForm({
   const [categories, setCategories] = React.useState<Category[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = React.useState(true);
   const [categoryId, setCategoryId] = React.useState<string>(""); // "" = Uncategorized
+  const userTouchedCategoryRef = React.useRef(false);
+
+  // Learned suggestions for the typed description (only while uncategorized)
+  const [descriptionText, setDescriptionText] = React.useState("");
+  const [suggestions, setSuggestions] = React.useState<CategorySuggestion[]>([]);
+
+  // Payee: picked, typed (new), or empty (server matches the description)
+  const [payee, setPayee] = React.useState<PayeeDraft>(EMPTY_PAYEE);
 
   // Payment sources
   const [paymentSources, setPaymentSources] = React.useState<PaymentSource[]>([]);
@@ -79,18 +93,31 @@ export function AddTransactionForm({
    */
   const [paymentSourceId, setPaymentSourceId] = React.useState<string>("");
 
+  // Transfer mode only: where the money goes (paymentSourceId is where it comes from)
+  const [transferToId, setTransferToId] = React.useState<string>("");
+
   // Track whether user has manually changed the account dropdown.
   // We only want to auto-apply the default if the user hasn't touched it.
   const userTouchedAccountRef = React.useRef(false);
 
+  // Follows the selected account's currency until the user picks one
+  const [currency, setCurrency] = React.useState<string>(baseCurrency);
+  const userTouchedCurrencyRef = React.useRef(false);
+
   // Amount + type (Expense/Income)
   const [txType, setTxType] = React.useState<TransactionType | null>(null);
   const [amountText, setAmountText] = React.useState("");
 
-  // Notes + flags
+  // Notes + tags
   const [showDetails, setShowDetails] = React.useState(false);
   const [notes, setNotes] = React.useState<string>("");
-  const [flags, setFlags] = React.useState<TxFlag[]>([]);
+  const [tags, setTags] = React.useState<TagSummary[]>([]);
+  const [isLoadingTags, setIsLoadingTags] = React.useState(true);
+  const [tagIds, setTagIds] = React.useState<string[]>([]);
+
+  // Split across categories (replaces the single category when on)
+  const [isSplit, setIsSplit] = React.useState(false);
+  const [splitLines, setSplitLines] = React.useState<SplitDraft[]>([]);
 
   // Create category UI
   const [showCreateCategory, setShowCreateCategory] = React.useState(false);
@@ -139,10 +166,29 @@ export function AddTransactionForm({
     }
   }, []);
 
+  const loadTags = React.useCallback(async () => {
+    setIsLoadingTags(true);
+    try {
+      const res = await fetch("/api/finance/tags", { cache: "no-store" });
+      if (!res.ok) {
+        setTags([]);
+        return;
+      }
+
+      const data = (await res.json()) as TagSummary[];
+      setTags(Array.isArray(data) ? data : []);
+    } catch {
+      setTags([]);
+    } finally {
+      setIsLoadingTags(false);
+    }
+  }, []);
+
   React.useEffect(() => {
     void loadCategories();
     void loadPaymentSources();
-  }, [loadCategories, loadPaymentSources]);
+    void loadTags();
+  }, [loadCategories, loadPaymentSources, loadTags]);
 
   /**
    * Auto-select the default payment source once payment sources are loaded.
@@ -160,13 +206,50 @@ export function AddTransactionForm({
       return;
     }
 
-    const exists = paymentSources.some((p) => p.id === defaultPaymentSourceId);
+    const exists = paymentSources.some((p) => p.id === defaultPaymentSourceId && !p.archivedAt);
     if (!exists) return;
 
     // Only set if currently empty
     setPaymentSourceId((prev) => (prev ? prev : defaultPaymentSourceId));
   }, [defaultPaymentSourceId, paymentSources, isLoadingPaymentSources]);
 
+  React.useEffect(() => {
+    if (userTouchedCurrencyRef.current) return;
+    const account = paymentSources.find((p) => p.id === paymentSourceId);
+    setCurrency(account?.currency ?? baseCurrency);
+  }, [paymentSourceId, paymentSources, baseCurrency]);
+
+  React.useEffect(() => {
+    const description = descriptionText.trim();
+    if (!description || categoryId || isSplit || txType === "TRANSFER") {
+      setSuggestions([]);
+      return;
+    }
+
+    // Wait for a pause in typing before asking
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const res = await fetch(
+          `/api/finance/categories/suggest?description=${encodeURIComponent(description)}`,
+          { cache: "no-store", signal: controller.signal }
+        );
+        if (!res.ok) return;
+        const data = (await res.json()) as CategorySuggestion[];
+        setSuggestions(
+          Array.isArray(data) ? data.filter((s) => s.confidence >= MIN_SUGGESTION_CONFIDENCE) : []
+        );
+      } catch {
+        // aborted or offline: no suggestions is fine
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [descriptionText, categoryId, isSplit, txType]);
+
   const disabledAny = isSaving || isCreatingCategory;
 
   const onCreateCategory = async () => {
@@ -219,6 +302,12 @@ export function AddTransactionForm({
     const trimmed = amountText.trim();
     const hasMinus = trimmed.startsWith("-");
 
+    // Transfers have no direction; the accounts say which way the money went
+    if (nextType === "TRANSFER") {
+      if (hasMinus) setAmountText(trimmed.replace(/^\s*-\s*/, ""));
+      return;
+    }
+
     if (nextType === "EXPENSE" && !hasMinus) {
       setAmountText(trimmed ? `-${trimmed}` : "-");
       return;
@@ -229,6 +318,18 @@ export function AddTransactionForm({
     }
   };
 
+  const toggleSplit = () => {
+    if (isSplit) {
+      setIsSplit(false);
+      return;
+    }
+    setSplitLines([newSplitDraft({ categoryId }), newSplitDraft()]);
+    setIsSplit(true);
+  };
+
+  const parsedTotal = parseAmountToCentsWithSign(amountText);
+  const splitTotalCents = parsedTotal && parsedTotal.centsAbs > 0 ? parsedTotal.centsAbs : null;
+
   const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (isSaving) return;
@@ -270,22 +371,54 @@ export function AddTransactionForm({
       }
 
       if (!txType) {
-        setError("Please choose Expense or Income.");
+        setError("Please choose Expense, Income or Transfer.");
         return;
       }
 
+      const isTransfer = txType === "TRANSFER";
+      if (isTransfer) {
+        if (!paymentSourceId || !transferToId) {
+          setError("Pick both the from and to account.");
+          return;
+        }
+        if (paymentSourceId === transferToId) {
+          setError("From and to must be different accounts.");
+          return;
+        }
+      }
+
+      let splits: SplitPayload[] | null = null;
+      if (isSplit && !isTransfer) {
+        const parsedSplits = splitDraftsToPayload(splitLines, parsed.centsAbs, currency);
+        if (!parsedSplits.ok) {
+          setError(parsedSplits.error);
+          return;
+        }
+        splits = parsedSplits.value;
+      }
+
       const res = await fetch("/api/finance/transactions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           description,
           amountCents: parsed.centsAbs,
+          currency,
           type: txType,
           date,
-          categoryId: categoryId || null,
+          categoryId: isSplit || isTransfer ? null : categoryId || null,
           paymentSourceId: paymentSourceId || null,
+          transferToPaymentSourceId: isTransfer ? transferToId : null,
           notes: notes.trim() ? notes.trim() : null,
-          flags,
+          tagIds,
+          splits,
+          ...(isTransfer
+            ? {}
+            : payee.payeeId
+            ? { payeeId: payee.payeeId }
+            : payee.name.trim()
+              ? { payeeName: payee.name.trim() }
+              : {}),
         }),
       });
 
@@ -299,16 +432,24 @@ export function AddTransactionForm({
       setTxType(null);
 
       setCategoryId("");
+      userTouchedCategoryRef.current = false;
+      setDescriptionText("");
+      setSuggestions([]);
+      setPayee(EMPTY_PAYEE);
+      setIsSplit(false);
+      setSplitLines([]);
       setShowCreateCategory(false);
       setCategoryError(null);
 
       // Reset account selection back to default (nice UX)
       userTouchedAccountRef.current = false;
       setPaymentSourceId(defaultPaymentSourceId ? defaultPaymentSourceId : "");
+      setTransferToId("");
+      userTouchedCurrencyRef.current = false;
 
       setShowDetails(false);
       setNotes("");
-      setFlags([]);
+      setTagIds([]);
 
       router.refresh();
     } catch {
@@ -331,6 +472,7 @@ export function AddTransactionForm({
               required
               disabled={disabledAny}
               placeholder="e.g. Grocery run"
+              onChange={(e) => setDescriptionText(e.target.value)}
             />
           </div>
 
@@ -371,59 +513,87 @@ export function AddTransactionForm({
                   >
                     Income
                   </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => setTypeAndNormalizeSign("TRANSFER")}
+                    disabled={disabledAny}
+                    style={{
+                      borderRadius: 0,
+                      padding: "8px 12px",
+                      fontWeight: 650,
+                      background:
+                        txType === "TRANSFER" ? "rgba(0,0,0,0.06)" : "transparent",
+                    }}
+                  >
+                    Transfer
+                  </button>
                 </div>
 
                 <button
                   type="button"
                   className="btn btn-ghost addTxFlip"
                   onClick={flipSign}
-                  disabled={disabledAny}
+                  disabled={disabledAny || txType === "TRANSFER"}
                   title="Flip sign"
                 >
                   ±
                 </button>
 
-                <span className="subtle addTxTip">Tip: use “-” for expenses</span>
+                <span className="subtle addTxTip">
+                  {txType === "TRANSFER"
+                    ? "Not counted as income or spending"
+                    : "Tip: use “-” for expenses"}
+                </span>
               </div>
 
-              <div className="addTxMoneyInput">
-                <span className="subtle" style={{ fontSize: 14 }}>
-                  $
-                </span>
+              <div style={{ display: "flex", gap: 8 }}>
+                <div className="addTxMoneyInput" style={{ flex: 1 }}>
+                  <input
+                    name="amount"
+                    required
+                    inputMode="decimal"
+                    placeholder="12.34"
+                    disabled={disabledAny}
+                    value={amountText}
+                    onChange={(e) => {
+                      const next = e.target.value;
+                      setAmountText(next);
+
+                      const trimmed = next.trim();
+
+                      if (txType === "TRANSFER") {
+                        // stays a transfer; the sign is ignored on save
+                      } else if (trimmed.startsWith("-")) {
+                        setTxType("EXPENSE");
+                      } else if (trimmed.startsWith("+")) {
+                        setTxType("INCOME");
+                      } else if (trimmed !== "") {
+                        setTxType("INCOME");
+                      } else {
+                        setTxType(null);
+                      }
+                    }}
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      border: "none",
+                      outline: "none",
+                      background: "transparent",
+                      padding: "11px 0",
+                      fontSize: 14,
+                      color: "rgb(var(--text))",
+                    }}
+                  />
+                </div>
 
-                <input
-                  name="amount"
-                  required
-                  inputMode="decimal"
-                  placeholder="12.34"
-                  disabled={disabledAny}
-                  value={amountText}
-                  onChange={(e) => {
-                    const next = e.target.value;
-                    setAmountText(next);
-
-                    const trimmed = next.trim();
-
-                    if (trimmed.startsWith("-")) {
-                      setTxType("EXPENSE");
-                    } else if (trimmed.startsWith("+")) {
-                      setTxType("INCOME");
-                    } else if (trimmed !== "") {
-                      setTxType("INCOME");
-                    } else {
-                      setTxType(null);
-                    }
-                  }}
-                  style={{
-                    flex: 1,
-                    minWidth: 0,
-                    border: "none",
-                    outline: "none",
-                    background: "transparent",
-                    padding: "11px 0",
-                    fontSize: 14,
-                    color: "rgb(var(--text))",
+                <CurrencySelect
+                  value={currency}
+                  onChange={(v) => {
+                    userTouchedCurrencyRef.current = true;
+                    setCurrency(v);
                   }}
+                  disabled={disabledAny}
                 />
               </div>
             </div>
@@ -437,7 +607,9 @@ export function AddTransactionForm({
 
           {/* Account / payment source (optional) */}
           <div style={{ display: "grid", gap: 6 }}>
-            <label className="subtle">Account (optional)</label>
+            <label className="subtle">
+              {txType === "TRANSFER" ? "From account" : "Account (optional)"}
+            </label>
 
             <AccountSelect
               value={paymentSourceId}
@@ -466,36 +638,123 @@ export function AddTransactionForm({
             ) : null}
           </div>
 
-          {/* Category */}
-          <div style={{ display: "grid", gap: 6 }}>
-            <label className="subtle">Category</label>
-            <select
-              className="select"
-              value={categoryId}
-              onChange={(e) => setCategoryId(e.target.value)}
-              disabled={disabledAny || isLoadingCategories}
-              style={{ maxWidth: 360 }}
-            >
-              <option value="">{isLoadingCategories ? "Loading…" : "Uncategorized"}</option>
-              {categories.map((c) => (
-                <option key={c.id} value={c.id}>
-                  {c.name}
-                </option>
-              ))}
-            </select>
+          {/* To account (transfers) */}
+          {txType === "TRANSFER" ? (
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">To account</label>
+              <AccountSelect
+                value={transferToId}
+                onChange={setTransferToId}
+                items={paymentSources.filter((p) => p.id !== paymentSourceId)}
+                disabled={disabledAny || isLoadingPaymentSources}
+                loading={isLoadingPaymentSources}
+                maxWidth={360}
+              />
+            </div>
+          ) : null}
 
-            <div className="addTxActionsRow">
-              <button
-                type="button"
-                className="btn btn-ghost"
-                onClick={() => {
-                  setCategoryError(null);
-                  setShowCreateCategory((v) => !v);
+          {/* Payee (optional) */}
+          {txType !== "TRANSFER" ? (
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Payee (optional)</label>
+              <PayeePicker
+                value={payee}
+                onChange={setPayee}
+                onPick={(p) => {
+                  // Use the payee's usual category unless one was chosen already
+                  if (p.defaultCategoryId && !userTouchedCategoryRef.current) {
+                    setCategoryId(p.defaultCategoryId);
+                  }
                 }}
                 disabled={disabledAny}
-              >
-                {showCreateCategory ? "Hide category creator" : "Create a new category"}
-              </button>
+                maxWidth={360}
+              />
+            </div>
+          ) : null}
+
+          {/* Category (transfers have none) */}
+          <div style={{ display: "grid", gap: 6 }}>
+            {txType !== "TRANSFER" ? (
+              <>
+                <label className="subtle">Category</label>
+                {isSplit ? (
+                  <SplitEditor
+                    lines={splitLines}
+                    onChange={setSplitLines}
+                    categories={categories}
+                    totalCents={splitTotalCents}
+                    currency={currency}
+                    disabled={disabledAny}
+                    loadingCategories={isLoadingCategories}
+                  />
+                ) : (
+                  <select
+                    className="select"
+                    value={categoryId}
+                    onChange={(e) => {
+                      userTouchedCategoryRef.current = true;
+                      setCategoryId(e.target.value);
+                    }}
+                    disabled={disabledAny || isLoadingCategories}
+                    style={{ maxWidth: 360 }}
+                  >
+                    <option value="">{isLoadingCategories ? "Loading…" : "Uncategorized"}</option>
+                    {categories
+                      .filter((c) => !c.archivedAt || c.id === categoryId)
+                      .map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                  </select>
+                )}
+
+                {!isSplit && !categoryId && suggestions.length > 0 ? (
+                  <div
+                    className="subtle"
+                    style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8, fontSize: 13 }}
+                  >
+                    <span>Suggested:</span>
+                    {suggestions.map((s) => (
+                      <button
+                        key={s.categoryId}
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => {
+                          userTouchedCategoryRef.current = true;
+                          setCategoryId(s.categoryId);
+                        }}
+                        disabled={disabledAny}
+                        title="Use this category"
+                      >
+                        {s.name} ({Math.round(s.confidence * 100)}%)
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+              </>
+            ) : null}
+
+            <div className="addTxActionsRow">
+              {txType !== "TRANSFER" ? (
+                <>
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => {
+                      setCategoryError(null);
+                      setShowCreateCategory((v) => !v);
+                    }}
+                    disabled={disabledAny}
+                  >
+                    {showCreateCategory ? "Hide category creator" : "Create a new category"}
+                  </button>
+
+                  <button type="button" className="btn btn-ghost" onClick={toggleSplit} disabled={disabledAny}>
+                    {isSplit ? "Don’t split" : "Split across categories"}
+                  </button>
+                </>
+              ) : null}
 
               <button
                 type="button"
@@ -503,12 +762,12 @@ export function AddTransactionForm({
                 onClick={() => setShowDetails((v) => !v)}
                 disabled={disabledAny}
               >
-                {showDetails ? "Hide notes & flags" : "Add notes & flags"}
+                {showDetails ? "Hide notes & tags" : "Add notes & tags"}
               </button>
             </div>
           </div>
 
-          {/* Notes + flags */}
+          {/* Notes + tags */}
           {showDetails ? (
             <div
               style={{
@@ -534,33 +793,20 @@ export function AddTransactionForm({
               </div>
 
               <div style={{ display: "grid", gap: 8 }}>
-                <div className="subtle">Gentle flags (optional)</div>
-                <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-                  {(Object.keys(FLAG_LABELS) as TxFlag[]).map((f) => {
-                    const active = flags.includes(f);
-                    return (
-                      <button
-                        key={f}
-                        type="button"
-                        className={`pill ${active ? "pill-accent" : ""}`}
-                        onClick={() => setFlags((prev) => toggleFlag(prev, f))}
-                        disabled={disabledAny}
-                        style={{
-                          cursor: disabledAny ? "not-allowed" : "pointer",
-                          opacity: disabledAny ? 0.6 : 1,
-                        }}
-                      >
-                        {FLAG_LABELS[f]}
-                      </button>
-                    );
-                  })}
-                </div>
+                <div className="subtle">Tags (optional)</div>
+                <TagPicker
+                  tags={tags}
+                  value={tagIds}
+                  onChange={setTagIds}
+                  disabled={disabledAny}
+                  loading={isLoadingTags}
+                />
               </div>
             </div>
           ) : null}
 
           {/* Create category */}
-          {showCreateCategory ? (
+          {showCreateCategory && txType !== "TRANSFER" ? (
             <div
               style={{
                 border: "1px solid rgb(var(--border))",
@@ -0,0 +1,218 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  formatFileSize,
+  isImageContentType,
+} from "@/lib/attachments";
+
+export type TxAttachment = {
+  id: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function attachmentUrl(id: string) {
+  return `/api/finance/attachments/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Small previews for view mode. Images load straight from the (auth-checked)
+ * file route, so they skip the Next image optimizer.
+ */
+export function AttachmentThumbs({ items }: { items: TxAttachment[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <>
+      <div className="attThumbs">
+        {items.map((a) => (
+          <a
+            key={a.id}
+            href={attachmentUrl(a.id)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="attThumb"
+            title={`${a.fileName} · ${formatFileSize(a.sizeBytes)}`}
+          >
+            {isImageContentType(a.contentType) ? (
+              <Image src={attachmentUrl(a.id)} alt={a.fileName} width={48} height={48} unoptimized />
+            ) : (
+              <span className="attDoc">{a.contentType === "application/pdf" ? "PDF" : "FILE"}</span>
+            )}
+          </a>
+        ))}
+      </div>
+
+      <style jsx>{`
+        .attThumbs {
+          display: flex;
+          gap: 6px;
+          flex-wrap: wrap;
+          margin-top: 8px;
+        }
+
+        .attThumb {
+          width: 48px;
+          height: 48px;
+          border-radius: 10px;
+          border: 1px solid rgb(var(--border));
+          overflow: hidden;
+          display: grid;
+          place-items: center;
+          background: rgba(255, 255, 255, 0.7);
+        }
+
+        .attThumb :global(img) {
+          width: 100%;
+          height: 100%;
+          object-fit: cover;
+        }
+
+        .attDoc {
+          font-size: 11px;
+          font-weight: 650;
+        }
+      `}</style>
+    </>
+  );
+}
+
+/**
+ * Edit-mode list: uploads and deletes go to the API right away (they are not
+ * part of the row's Save), then `onChange` reports the new list.
+ */
+export function AttachmentEditor({
+  transactionId,
+  items,
+  onChange,
+  disabled = false,
+}: {
+  transactionId: string;
+  items: TxAttachment[];
+  onChange: (next: TxAttachment[]) => void;
+  disabled?: boolean;
+}) {
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+
+  const atLimit = items.length >= MAX_ATTACHMENTS_PER_TRANSACTION;
+
+  const onUpload = async (file: File) => {
+    setError(null);
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      setError(`File is too large (max ${formatFileSize(MAX_ATTACHMENT_BYTES)}).`);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const form = new FormData();
+      form.append("transactionId", transactionId);
+      form.append("file", file);
+
+      const res = await fetch("/api/finance/attachments", { method: "POST", body: form });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      const created = (await res.json()) as TxAttachment;
+      onChange([...items, created]);
+    } catch {
+      setError("Upload failed. Try again.");
+    } finally {
+      setIsBusy(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const onDelete = async (id: string) => {
+    if (!confirm("Delete this attachment?")) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/attachments?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      onChange(items.filter((a) => a.id !== id));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      {items.length ? (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 6 }}>
+          {items.map((a) => (
+            <li key={a.id} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+              <a href={attachmentUrl(a.id)} target="_blank" rel="noopener noreferrer">
+                {a.fileName}
+              </a>
+              <span className="subtle" style={{ fontSize: 12 }}>
+                {formatFileSize(a.sizeBytes)}
+              </span>
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() => void onDelete(a.id)}
+                disabled={disabled || isBusy}
+                title="Delete attachment"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          ref={inputRef}
+          className="input"
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          disabled={disabled || isBusy || atLimit}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void onUpload(file);
+          }}
+        />
+        <span className="subtle" style={{ fontSize: 12 }}>
+          {isBusy
+            ? "Working…"
+            : atLimit
+              ? `Limit of ${MAX_ATTACHMENTS_PER_TRANSACTION} reached.`
+              : `Images or PDF, up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`}
+        </span>
+      </div>
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+    </div>
+  );
+}
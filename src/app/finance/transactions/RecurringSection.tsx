@@ -0,0 +1,477 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { AccountSelect } from "@/components/AccountSelect";
+import { formatMoneyCents } from "@/lib/currency";
+
+type TransactionType = "EXPENSE" | "INCOME";
+type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RecurringItem = {
+  id: string;
+  description: string;
+  amountCents: number; // stored positive
+  currency: string;
+  type: TransactionType;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfMonth: number | null;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null;
+  nextDate: string | null;
+  isActive: boolean;
+  categoryName: string | null;
+  paymentSourceName: string | null;
+};
+
+export type UpcomingOccurrence = {
+  recurringId: string;
+  date: string; // YYYY-MM-DD
+  formattedDate: string;
+  description: string;
+  amountCents: number;
+  currency: string;
+  type: TransactionType;
+};
+
+type Category = { id: string; name: string; archivedAt?: Date | null };
+type PaymentSource = { id: string; name: string; archivedAt?: Date | null };
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, [string, string]> = {
+  DAILY: ["day", "days"],
+  WEEKLY: ["week", "weeks"],
+  MONTHLY: ["month", "months"],
+  YEARLY: ["year", "years"],
+};
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+};
+
+function ordinal(n: number) {
+  const s = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return `${n}${s[(v - 20) % 10] ?? s[v] ?? s[0]}`;
+}
+
+function describeSchedule(r: RecurringItem) {
+  const every =
+    r.interval === 1 ? FREQUENCY_LABELS[r.frequency] : `Every ${r.interval} ${FREQUENCY_UNITS[r.frequency][1]}`;
+  if (r.frequency === "MONTHLY" && r.dayOfMonth) return `${every} on the ${ordinal(r.dayOfMonth)}`;
+  return every;
+}
+
+function formatMoneyFromCents(centsAbs: number, type: TransactionType, currency: string) {
+  const formatted = formatMoneyCents(centsAbs, currency);
+  return type === "EXPENSE" ? `-${formatted}` : formatted;
+}
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+export function RecurringSection({
+  items,
+  upcoming,
+  categories,
+  paymentSources,
+  defaultPaymentSourceId = null,
+}: {
+  items: RecurringItem[];
+  upcoming: UpcomingOccurrence[];
+  categories: Category[];
+  paymentSources: PaymentSource[];
+  defaultPaymentSourceId?: string | null;
+}) {
+  const router = useRouter();
+
+  const [showForm, setShowForm] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const [description, setDescription] = React.useState("");
+  const [amountText, setAmountText] = React.useState("");
+  const [type, setType] = React.useState<TransactionType>("EXPENSE");
+  const [frequency, setFrequency] = React.useState<RecurrenceFrequency>("MONTHLY");
+  const [intervalText, setIntervalText] = React.useState("1");
+  const [startDate, setStartDate] = React.useState("");
+  const [endDate, setEndDate] = React.useState("");
+  const [categoryId, setCategoryId] = React.useState("");
+  const [paymentSourceId, setPaymentSourceId] = React.useState(defaultPaymentSourceId ?? "");
+
+  const resetForm = () => {
+    setDescription("");
+    setAmountText("");
+    setType("EXPENSE");
+    setFrequency("MONTHLY");
+    setIntervalText("1");
+    setStartDate("");
+    setEndDate("");
+    setCategoryId("");
+    setPaymentSourceId(defaultPaymentSourceId ?? "");
+  };
+
+  const onCreate = async () => {
+    setError(null);
+
+    const amount = Number(amountText.replace(/[$,\s-]/g, ""));
+    if (!description.trim()) return setError("Description is required.");
+    if (!Number.isFinite(amount) || amount <= 0) return setError("Enter a valid amount (example: 12.34).");
+    if (!startDate) return setError("Start date is required.");
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/recurring", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description: description.trim(),
+          amountCents: Math.round(amount * 100),
+          type,
+          frequency,
+          interval: Number(intervalText) || 1,
+          startDate,
+          endDate: endDate || null,
+          categoryId: categoryId || null,
+          paymentSourceId: paymentSourceId || null,
+        }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      // Post anything already due (e.g. a start date in the past)
+      await fetch("/api/finance/recurring/materialize", { method: "POST" }).catch(() => null);
+
+      resetForm();
+      setShowForm(false);
+      router.refresh();
+    } catch {
+      setError("Something went wrong. Try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onToggleActive = async (item: RecurringItem) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/recurring/${encodeURIComponent(item.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !item.isActive }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      router.refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onDelete = async (item: RecurringItem) => {
+    if (!confirm(`Stop “${item.description}”? Transactions already posted are kept.`)) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/recurring/${encodeURIComponent(item.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      router.refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 16 }}>
+      {/* Upcoming */}
+      <div style={{ display: "grid", gap: 8 }}>
+        <div className="subtle">Next 30 days</div>
+        {upcoming.length === 0 ? (
+          <div className="subtle" style={{ fontSize: 13 }}>
+            Nothing scheduled.
+          </div>
+        ) : (
+          <ul className="recurringList">
+            {upcoming.map((o) => (
+              <li key={`${o.recurringId}-${o.date}`} className="recurringRow">
+                <div style={{ display: "grid", gap: 2, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600 }}>{o.description}</div>
+                  <div className="subtle" style={{ fontSize: 12 }}>
+                    {o.formattedDate}
+                  </div>
+                </div>
+                <div
+                  className={`amount ${o.type === "INCOME" ? "amount-positive" : "amount-negative"}`}
+                  style={{ whiteSpace: "nowrap", fontWeight: 700 }}
+                >
+                  {formatMoneyFromCents(o.amountCents, o.type, o.currency)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Rules */}
+      {items.length ? (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div className="subtle">Schedules</div>
+          <ul className="recurringList">
+            {items.map((r) => (
+              <li key={r.id} className="recurringRow" style={{ opacity: r.isActive ? 1 : 0.6 }}>
+                <div style={{ display: "grid", gap: 2, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600 }}>
+                    {r.description}{" "}
+                    <span className="subtle" style={{ fontWeight: 500 }}>
+                      {formatMoneyFromCents(r.amountCents, r.type, r.currency)}
+                    </span>
+                  </div>
+                  <div className="subtle" style={{ fontSize: 12 }}>
+                    {describeSchedule(r)}
+                    {r.categoryName ? ` • ${r.categoryName}` : ""}
+                    {r.paymentSourceName ? ` • ${r.paymentSourceName}` : ""}
+                    {!r.isActive ? " • paused" : r.nextDate ? "" : " • ended"}
+                  </div>
+                </div>
+                <div style={{ display: "flex", gap: 6 }}>
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    disabled={isBusy}
+                    onClick={() => void onToggleActive(r)}
+                  >
+                    {r.isActive ? "Pause" : "Resume"}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    disabled={isBusy}
+                    onClick={() => void onDelete(r)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {/* Create */}
+      {showForm ? (
+        <div className="recurringForm">
+          <div style={{ display: "grid", gap: 6 }}>
+            <label className="subtle">Description</label>
+            <input
+              className="input"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isBusy}
+              placeholder="e.g. Rent"
+            />
+          </div>
+
+          <div className="recurringTwoCol">
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Amount</label>
+              <div style={{ display: "flex", gap: 8 }}>
+                <select
+                  className="select"
+                  value={type}
+                  onChange={(e) => setType(e.target.value as TransactionType)}
+                  disabled={isBusy}
+                  style={{ maxWidth: 130 }}
+                >
+                  <option value="EXPENSE">Expense</option>
+                  <option value="INCOME">Income</option>
+                </select>
+                <input
+                  className="input"
+                  inputMode="decimal"
+                  placeholder="12.34"
+                  value={amountText}
+                  onChange={(e) => setAmountText(e.target.value)}
+                  disabled={isBusy}
+                />
+              </div>
+            </div>
+
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Repeats</label>
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <span className="subtle">every</span>
+                <input
+                  className="input"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={intervalText}
+                  onChange={(e) => setIntervalText(e.target.value)}
+                  disabled={isBusy}
+                  style={{ width: 72 }}
+                />
+                <select
+                  className="select"
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+                  disabled={isBusy}
+                >
+                  {(Object.keys(FREQUENCY_UNITS) as RecurrenceFrequency[]).map((f) => (
+                    <option key={f} value={f}>
+                      {FREQUENCY_UNITS[f][Number(intervalText) === 1 ? 0 : 1]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="recurringTwoCol">
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Starts</label>
+              <input
+                className="input"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Ends (optional)</label>
+              <input
+                className="input"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+
+          <div className="recurringTwoCol">
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Category</label>
+              <select
+                className="select"
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                disabled={isBusy}
+              >
+                <option value="">Uncategorized</option>
+                {categories
+                  .filter((c) => !c.archivedAt || c.id === categoryId)
+                  .map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Account (optional)</label>
+              <AccountSelect
+                value={paymentSourceId}
+                onChange={setPaymentSourceId}
+                items={paymentSources}
+                disabled={isBusy}
+                maxWidth={360}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <button className="btn btn-primary" type="button" disabled={isBusy} onClick={() => void onCreate()}>
+              {isBusy ? "Saving..." : "Save schedule"}
+            </button>
+            <button
+              className="btn btn-ghost"
+              type="button"
+              disabled={isBusy}
+              onClick={() => {
+                resetForm();
+                setShowForm(false);
+                setError(null);
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <button className="btn btn-secondary" type="button" onClick={() => setShowForm(true)}>
+            Add a recurring transaction
+          </button>
+        </div>
+      )}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      <style jsx>{`
+        .recurringList {
+          display: grid;
+          gap: 8px;
+          list-style: none;
+          padding: 0;
+          margin: 0;
+        }
+
+        .recurringRow {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          border: 1px solid rgb(var(--border));
+          border-radius: 14px;
+          padding: 10px 12px;
+        }
+
+        .recurringForm {
+          border: 1px solid rgb(var(--border));
+          border-radius: 16px;
+          padding: 14px;
+          background: rgba(255, 255, 255, 0.55);
+          display: grid;
+          gap: 12px;
+        }
+
+        .recurringTwoCol {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 10px;
+        }
+
+        @media (max-width: 768px) {
+          .recurringTwoCol {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
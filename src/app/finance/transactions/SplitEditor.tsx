@@ -0,0 +1,212 @@
+"use client";
+
+import * as React from "react";
+import { DEFAULT_CURRENCY, formatMoneyCents } from "@/lib/currency";
+
+type Category = { id: string; name: string; archivedAt?: string | Date | null };
+
+/**
+ * One editable split line. Amount is kept as typed text (absolute value);
+ * direction always comes from the parent transaction's type.
+ */
+export type SplitDraft = {
+  key: string;
+  categoryId: string; // "" = Uncategorized
+  amount: string;
+  note: string;
+};
+
+export type SplitPayload = {
+  categoryId: string | null;
+  amountCents: number;
+  note: string | null;
+};
+
+let draftSeq = 0;
+
+export function newSplitDraft(init?: Partial<Omit<SplitDraft, "key">>): SplitDraft {
+  draftSeq += 1;
+  return { key: `split-${draftSeq}`, categoryId: "", amount: "", note: "", ...init };
+}
+
+function parseAmountToCents(input: string): number | null {
+  const cleaned = input.replace(/[-$,\s]/g, "");
+  if (!cleaned) return null;
+  const num = Number(cleaned);
+  if (!Number.isFinite(num)) return null;
+  return Math.round(num * 100);
+}
+
+/**
+ * Client-side mirror of the API rules: at least 2 lines, each > 0,
+ * adding up exactly to the transaction amount.
+ */
+export function splitDraftsToPayload(
+  lines: SplitDraft[],
+  totalCents: number,
+  currency: string = DEFAULT_CURRENCY
+): { ok: true; value: SplitPayload[] } | { ok: false; error: string } {
+  if (lines.length < 2) return { ok: false, error: "A split needs at least 2 lines." };
+
+  const out: SplitPayload[] = [];
+  let sum = 0;
+
+  for (const [i, line] of lines.entries()) {
+    const cents = parseAmountToCents(line.amount);
+    if (cents === null || cents <= 0) {
+      return { ok: false, error: `Split line ${i + 1}: enter an amount greater than 0.00.` };
+    }
+    sum += cents;
+    out.push({
+      categoryId: line.categoryId || null,
+      amountCents: cents,
+      note: line.note.trim() ? line.note.trim() : null,
+    });
+  }
+
+  if (sum !== totalCents) {
+    return {
+      ok: false,
+      error: `Split lines add up to ${formatMoneyCents(sum, currency)}, but the transaction is ${formatMoneyCents(totalCents, currency)}.`,
+    };
+  }
+
+  return { ok: true, value: out };
+}
+
+export function SplitEditor({
+  lines,
+  onChange,
+  categories,
+  totalCents,
+  currency = DEFAULT_CURRENCY,
+  disabled = false,
+  loadingCategories = false,
+}: {
+  lines: SplitDraft[];
+  onChange: (next: SplitDraft[]) => void;
+  categories: Category[];
+  totalCents: number | null;
+  currency?: string;
+  disabled?: boolean;
+  loadingCategories?: boolean;
+}) {
+  const allocated = lines.reduce((sum, l) => sum + (parseAmountToCents(l.amount) ?? 0), 0);
+  const remaining = totalCents === null ? null : totalCents - allocated;
+
+  const update = (key: string, patch: Partial<SplitDraft>) =>
+    onChange(lines.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+
+  const remove = (key: string) => onChange(lines.filter((l) => l.key !== key));
+
+  const addLine = () =>
+    onChange([
+      ...lines,
+      newSplitDraft({ amount: remaining !== null && remaining > 0 ? (remaining / 100).toFixed(2) : "" }),
+    ]);
+
+  return (
+    <>
+      <div className="splitWrap">
+        {lines.map((line) => (
+          <div key={line.key} className="splitRow">
+            <select
+              className="select"
+              value={line.categoryId}
+              onChange={(e) => update(line.key, { categoryId: e.target.value })}
+              disabled={disabled || loadingCategories}
+              aria-label="Split category"
+            >
+              <option value="">{loadingCategories ? "Loading…" : "Uncategorized"}</option>
+              {categories
+                .filter((c) => !c.archivedAt || c.id === line.categoryId)
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+
+            <input
+              className="input"
+              value={line.amount}
+              onChange={(e) => update(line.key, { amount: e.target.value })}
+              inputMode="decimal"
+              placeholder="0.00"
+              disabled={disabled}
+              aria-label="Split amount"
+            />
+
+            <input
+              className="input"
+              value={line.note}
+              onChange={(e) => update(line.key, { note: e.target.value })}
+              placeholder="Note (optional)"
+              disabled={disabled}
+              aria-label="Split note"
+            />
+
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => remove(line.key)}
+              disabled={disabled || lines.length <= 2}
+              title="Remove line"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+
+        <div className="splitFooter">
+          <button type="button" className="btn btn-ghost" onClick={addLine} disabled={disabled}>
+            Add line
+          </button>
+
+          {remaining === null ? (
+            <span className="subtle" style={{ fontSize: 12 }}>
+              Enter the transaction amount first.
+            </span>
+          ) : remaining === 0 ? (
+            <span className="subtle" style={{ fontSize: 12 }}>
+              Adds up ✓
+            </span>
+          ) : (
+            <span style={{ fontSize: 12, color: "rgb(var(--danger))" }}>
+              {remaining > 0
+                ? `${formatMoneyCents(remaining, currency)} left to assign`
+                : `${formatMoneyCents(-remaining, currency)} over`}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <style jsx>{`
+        .splitWrap {
+          display: grid;
+          gap: 8px;
+        }
+
+        .splitRow {
+          display: grid;
+          grid-template-columns: minmax(0, 1.2fr) minmax(0, 0.8fr) minmax(0, 1.4fr) auto;
+          gap: 8px;
+          align-items: center;
+        }
+
+        .splitFooter {
+          display: flex;
+          gap: 10px;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+
+        @media (max-width: 768px) {
+          .splitRow {
+            grid-template-columns: 1fr 1fr;
+          }
+        }
+      `}</style>
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import * as React from "react";
+
+type RevisionAction = "UPDATE" | "DELETE" | "RESTORE" | "REVERT";
+
+type Revision = {
+  id: string;
+  action: RevisionAction;
+  createdAt: string;
+  actor: string;
+  changes: Array<{ field: string; label: string; before: string; after: string }>;
+  canRevert: boolean;
+};
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  UPDATE: "Edited",
+  DELETE: "Moved to Trash",
+  RESTORE: "Restored from Trash",
+  REVERT: "Reverted",
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Edit history panel for one transaction (loaded when opened).
+ * Reverting an entry puts back the state from right before it.
+ */
+export function TransactionHistory({
+  transactionId,
+  isReconciled,
+  onReverted,
+}: {
+  transactionId: string;
+  isReconciled: boolean;
+  onReverted: () => void;
+}) {
+  const [items, setItems] = React.useState<Revision[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch(`/api/finance/revisions?transactionId=${encodeURIComponent(transactionId)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      const data = (await res.json()) as Revision[];
+      setItems(Array.isArray(data) ? data : []);
+    } catch {
+      setError("Couldn’t load the history.");
+    }
+  }, [transactionId]);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  const onRevert = async (rev: Revision) => {
+    const question = isReconciled
+      ? "This transaction is reconciled. Reverting can throw off the account’s reconciled balance.\n\nRevert anyway?"
+      : `Put this transaction back the way it was before the change on ${formatWhen(rev.createdAt)}?`;
+    if (!confirm(question)) return;
+
+    setError(null);
+    setBusyId(rev.id);
+    try {
+      const res = await fetch(
+        `/api/finance/revisions?id=${encodeURIComponent(rev.id)}${isReconciled ? "&override=1" : ""}`,
+        { method: "POST" }
+      );
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      await load();
+      onReverted();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="txHistory">
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {items === null ? (
+        error ? null : <div className="subtle">Loading history…</div>
+      ) : items.length === 0 ? (
+        <div className="subtle">No changes since this transaction was added.</div>
+      ) : (
+        <ol className="txHistoryList">
+          {items.map((rev) => (
+            <li key={rev.id} className="txHistoryItem">
+              <div className="txHistoryHead">
+                <span style={{ fontWeight: 650 }}>{ACTION_LABELS[rev.action]}</span>
+                <span className="subtle">
+                  {formatWhen(rev.createdAt)} · {rev.actor}
+                </span>
+                {rev.canRevert ? (
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => void onRevert(rev)}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === rev.id ? "Reverting…" : "Revert"}
+                  </button>
+                ) : null}
+              </div>
+
+              {rev.changes.length ? (
+                <ul className="txHistoryChanges">
+                  {rev.changes.map((c) => (
+                    <li key={c.field}>
+                      <span className="subtle">{c.label}:</span> <s className="subtle">{c.before}</s> → {c.after}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <style jsx>{`
+        .txHistory {
+          display: grid;
+          gap: 8px;
+          padding: 10px 12px;
+          border: 1px solid rgb(var(--border));
+          border-radius: 12px;
+          font-size: 13px;
+        }
+
+        .txHistoryList {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: grid;
+          gap: 10px;
+        }
+
+        .txHistoryItem {
+          display: grid;
+          gap: 4px;
+        }
+
+        .txHistoryHead {
+          display: flex;
+          gap: 10px;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+
+        .txHistoryChanges {
+          margin: 0;
+          padding-left: 18px;
+          display: grid;
+          gap: 2px;
+          overflow-wrap: anywhere;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,26 +1,54 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { AccountSelect } from "@/components/AccountSelect";
-
-type Category = { id: string; name: string };
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { PayeePicker, type PayeeDraft } from "@/components/PayeePicker";
+import { TagPicker, TagPill } from "@/components/TagPicker";
+import { DEFAULT_CURRENCY, formatMoneyCents } from "@/lib/currency";
+import type { TagSummary } from "@/lib/tags";
+import {
+  SplitEditor,
+  newSplitDraft,
+  splitDraftsToPayload,
+  type SplitDraft,
+  type SplitPayload,
+} from "./SplitEditor";
+import { AttachmentEditor, AttachmentThumbs, type TxAttachment } from "./Attachments";
+import { TransactionHistory } from "./TransactionHistory";
+
+type Category = { id: string; name: string; archivedAt?: string | null };
 
 type PaymentSourceType = "BANK" | "CARD" | "CASH";
-type PaymentSource = { id: string; name: string; type: PaymentSourceType };
+type PaymentSource = { id: string; name: string; type: PaymentSourceType; archivedAt?: string | null };
+
+type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
 
-type TransactionType = "EXPENSE" | "INCOME";
+type TransactionStatus = "PENDING" | "CLEARED" | "RECONCILED";
 
-type TxFlag = "WORTH_IT" | "UNEXPECTED" | "REVIEW_LATER";
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  PENDING: "Pending",
+  CLEARED: "Cleared",
+  RECONCILED: "Reconciled",
+};
 
-const FLAG_LABELS: Record<TxFlag, string> = {
-  WORTH_IT: "Felt worth it",
-  UNEXPECTED: "Unexpected",
-  REVIEW_LATER: "Review later",
+export type TxSplit = {
+  categoryId: string | null;
+  categoryName: string | null;
+  amountCents: number; // absolute, like the parent
+  note: string | null;
 };
 
-function toggleFlag(list: TxFlag[], flag: TxFlag) {
-  return list.includes(flag) ? list.filter((f) => f !== flag) : [...list, flag];
+function splitsToDrafts(splits: TxSplit[] | null | undefined): SplitDraft[] {
+  return (splits ?? []).map((s) =>
+    newSplitDraft({
+      categoryId: s.categoryId ?? "",
+      amount: (s.amountCents / 100).toFixed(2),
+      note: s.note ?? "",
+    })
+  );
 }
 
 function parseAmountToCents(input: string): number | null {
@@ -42,14 +70,9 @@ function isoToDateInputValue(iso: string) {
   return `${yyyy}-${mm}-${dd}`;
 }
 
-function formatMoneyFromCents(centsAbs: number, type: TransactionType) {
-  const dollars = centsAbs / 100;
+function formatMoneyFromCents(centsAbs: number, type: TransactionType, currency: string) {
   const sign = type === "EXPENSE" ? "-" : "";
-  const formatted = new Intl.NumberFormat(undefined, {
-    style: "currency",
-    currency: "USD",
-  }).format(dollars);
-  return `${sign}${formatted}`;
+  return `${sign}${formatMoneyCents(centsAbs, currency)}`;
 }
 
 async function readErrorMessage(res: Response) {
@@ -71,6 +94,7 @@ export function TransactionRow(props: {
   // Canonical: amountCents is absolute (positive); direction comes from type.
   amountCents: number;
   type: TransactionType;
+  currency?: string | null;
 
   dateISO: string;
   formattedDate: string;
@@ -80,14 +104,38 @@ export function TransactionRow(props: {
   categoryId?: string | null;
   categoryName?: string | null;
 
+  payeeId?: string | null;
+  payeeName?: string | null;
+
   // ✅ NEW (optional)
   paymentSourceId?: string | null;
   paymentSourceName?: string | null;
 
+  // TRANSFER only: paymentSource* is the "from" side
+  transferToPaymentSourceId?: string | null;
+  transferToPaymentSourceName?: string | null;
+
   notes?: string | null;
-  flags?: TxFlag[] | null;
+  tags?: TagSummary[] | null;
+
+  // RECONCILED rows are locked: edits and deletes ask first and send ?override=1
+  status?: TransactionStatus | null;
+
+  // When present, these lines replace categoryId in category totals
+  splits?: TxSplit[] | null;
+
+  // Receipts / documents (uploaded and deleted immediately, not on Save)
+  attachments?: TxAttachment[] | null;
+
+  // Lists rendered from client-side state (the ledger) reload themselves here;
+  // server-rendered lists pick changes up from router.refresh()
+  onChanged?: () => void;
 }) {
   const router = useRouter();
+  const refresh = () => {
+    router.refresh();
+    props.onChanged?.();
+  };
 
   const [isEditing, setIsEditing] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
@@ -115,22 +163,40 @@ export function TransactionRow(props: {
   );
 
   const [txType, setTxType] = React.useState<TransactionType>(props.type);
+  const [currency, setCurrency] = React.useState<string>(props.currency ?? DEFAULT_CURRENCY);
   const [date, setDate] = React.useState(isoToDateInputValue(props.dateISO));
   const [categoryId, setCategoryId] = React.useState<string>(props.categoryId ?? "");
+  const [payee, setPayee] = React.useState<PayeeDraft>(() => ({
+    payeeId: props.payeeId ?? null,
+    name: props.payeeName ?? "",
+  }));
 
   // ✅ payment source local state
   const [paymentSourceId, setPaymentSourceId] = React.useState<string>(props.paymentSourceId ?? "");
+  const [transferToId, setTransferToId] = React.useState<string>(
+    props.transferToPaymentSourceId ?? ""
+  );
 
-  // Notes + flags local state
+  const [status, setStatus] = React.useState<TransactionStatus>(props.status ?? "PENDING");
+
+  // Notes + tags local state
   const [notes, setNotes] = React.useState<string>(props.notes ?? "");
-  const [flags, setFlags] = React.useState<TxFlag[]>(props.flags ?? []);
+  const [tagIds, setTagIds] = React.useState<string[]>(() => (props.tags ?? []).map((t) => t.id));
 
-  const [showDetails, setShowDetails] = React.useState<boolean>(
-    !!(props.notes || (props.flags?.length ?? 0) > 0)
-  );
+  // Tag options (loaded only when editing)
+  const [tagOptions, setTagOptions] = React.useState<TagSummary[]>([]);
+  const [isLoadingTags, setIsLoadingTags] = React.useState(false);
+
+  // Split lines local state
+  const [isSplit, setIsSplit] = React.useState<boolean>((props.splits?.length ?? 0) > 0);
+  const [splitLines, setSplitLines] = React.useState<SplitDraft[]>(() => splitsToDrafts(props.splits));
+
+  const [attachments, setAttachments] = React.useState<TxAttachment[]>(props.attachments ?? []);
+
+  const [showDetails, setShowDetails] = React.useState<boolean>(!!props.notes);
+  const [showHistory, setShowHistory] = React.useState(false);
 
   const descInputRef = React.useRef<HTMLInputElement | null>(null);
-  const prettyFlags = flags.filter(Boolean);
 
   async function loadCategoriesOnce() {
     if (categories.length > 0) return;
@@ -178,29 +244,59 @@ export function TransactionRow(props: {
     }
   }
 
+  async function loadTagsOnce() {
+    if (tagOptions.length > 0) return;
+
+    setIsLoadingTags(true);
+    try {
+      const res = await fetch("/api/finance/tags", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = (await res.json()) as TagSummary[];
+      setTagOptions(Array.isArray(data) ? data : []);
+    } catch {
+      // soft-fail: the picker shows "No tags yet"
+    } finally {
+      setIsLoadingTags(false);
+    }
+  }
+
   // Keep local fields in sync when not editing
   React.useEffect(() => {
     if (!isEditing) {
       setDesc(props.description);
       setAmount(String((Math.abs(props.amountCents) / 100).toFixed(2)));
       setTxType(props.type);
+      setCurrency(props.currency ?? DEFAULT_CURRENCY);
       setDate(isoToDateInputValue(props.dateISO));
       setCategoryId(props.categoryId ?? "");
+      setPayee({ payeeId: props.payeeId ?? null, name: props.payeeName ?? "" });
       setPaymentSourceId(props.paymentSourceId ?? "");
+      setTransferToId(props.transferToPaymentSourceId ?? "");
+      setStatus(props.status ?? "PENDING");
       setNotes(props.notes ?? "");
-      setFlags(props.flags ?? []);
-      setShowDetails(!!(props.notes || (props.flags?.length ?? 0) > 0));
+      setTagIds((props.tags ?? []).map((t) => t.id));
+      setIsSplit((props.splits?.length ?? 0) > 0);
+      setSplitLines(splitsToDrafts(props.splits));
+      setAttachments(props.attachments ?? []);
+      setShowDetails(!!props.notes);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     props.description,
     props.amountCents,
     props.type,
+    props.currency,
     props.dateISO,
     props.categoryId,
+    props.payeeId,
+    props.payeeName,
     props.paymentSourceId,
+    props.transferToPaymentSourceId,
+    props.status,
     props.notes,
-    props.flags,
+    props.tags,
+    props.splits,
+    props.attachments,
     isEditing,
   ]);
 
@@ -209,11 +305,21 @@ export function TransactionRow(props: {
     if (isEditing) {
       void loadCategoriesOnce();
       void loadPaymentSourcesOnce();
+      void loadTagsOnce();
       setTimeout(() => descInputRef.current?.focus(), 0);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isEditing]);
 
+  const isReconciled = props.status === "RECONCILED";
+  const overrideQuery = isReconciled ? "&override=1" : "";
+
+  const confirmReconciled = (action: string) =>
+    !isReconciled ||
+    confirm(
+      `This transaction is reconciled. Changing it can throw off the account’s reconciled balance.\n\n${action} anyway?`
+    );
+
   // Cleanup delete timer on unmount
   React.useEffect(() => {
     return () => {
@@ -221,43 +327,54 @@ export function TransactionRow(props: {
     };
   }, []);
 
-  const doDeleteNow = async () => {
+  // The server moves the row to Trash right away; Undo restores it. The list
+  // refreshes once the undo window closes (the row stays in Trash either way).
+  const onDelete = async () => {
+    if (!confirmReconciled("Delete")) return;
     setError(null);
     setIsSaving(true);
     try {
-      const res = await fetch(`/api/finance/transactions?id=${encodeURIComponent(props.id)}`, {
+      const res = await fetch(`/api/finance/transactions?id=${encodeURIComponent(props.id)}${overrideQuery}`, {
         method: "DELETE",
       });
 
       if (!res.ok) {
         setError(await readErrorMessage(res));
-        setPendingDelete(false);
         return;
       }
 
-      router.refresh();
+      setPendingDelete(true);
+      if (deleteTimerRef.current) window.clearTimeout(deleteTimerRef.current);
+      deleteTimerRef.current = window.setTimeout(() => {
+        deleteTimerRef.current = null;
+        refresh();
+      }, 5000);
     } finally {
       setIsSaving(false);
     }
   };
 
-  const onDelete = () => {
-    setError(null);
-    setPendingDelete(true);
-
-    if (deleteTimerRef.current) window.clearTimeout(deleteTimerRef.current);
-    deleteTimerRef.current = window.setTimeout(() => {
-      void doDeleteNow();
-    }, 5000);
-  };
-
-  const onUndoDelete = () => {
+  const onUndoDelete = async () => {
     setError(null);
-    setPendingDelete(false);
     if (deleteTimerRef.current) {
       window.clearTimeout(deleteTimerRef.current);
       deleteTimerRef.current = null;
     }
+
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/finance/trash?id=${encodeURIComponent(props.id)}`, { method: "POST" });
+
+      if (!res.ok) {
+        setError(await readErrorMessage(res));
+        refresh();
+        return;
+      }
+
+      setPendingDelete(false);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const onSave = async () => {
@@ -284,20 +401,51 @@ export function TransactionRow(props: {
       return;
     }
 
+    const isTransfer = txType === "TRANSFER";
+    if (isTransfer) {
+      if (!paymentSourceId || !transferToId) {
+        setError("Pick both the from and to account.");
+        return;
+      }
+      if (paymentSourceId === transferToId) {
+        setError("From and to must be different accounts.");
+        return;
+      }
+    }
+
+    let splits: SplitPayload[] | null = null;
+    if (isSplit && !isTransfer) {
+      const parsedSplits = splitDraftsToPayload(splitLines, amountCentsAbs, currency);
+      if (!parsedSplits.ok) {
+        setError(parsedSplits.error);
+        return;
+      }
+      splits = parsedSplits.value;
+    }
+
     setIsSaving(true);
     try {
-      const res = await fetch(`/api/finance/transactions?id=${encodeURIComponent(props.id)}`, {
+      const res = await fetch(`/api/finance/transactions?id=${encodeURIComponent(props.id)}${overrideQuery}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           description,
           amountCents: amountCentsAbs, // store abs
           type: txType,
+          currency,
           date,
-          categoryId: categoryId || null,
+          categoryId: isSplit || isTransfer ? null : categoryId || null,
+          ...(payee.payeeId
+            ? { payeeId: payee.payeeId }
+            : payee.name.trim()
+              ? { payeeName: payee.name.trim() }
+              : { payeeId: null }),
           paymentSourceId: paymentSourceId || null, // ✅ NEW
+          transferToPaymentSourceId: isTransfer ? transferToId : null,
+          status,
           notes: notes.trim() ? notes.trim() : null,
-          flags,
+          tagIds,
+          splits,
         }),
       });
 
@@ -307,7 +455,7 @@ export function TransactionRow(props: {
       }
 
       setIsEditing(false);
-      router.refresh();
+      refresh();
     } finally {
       setIsSaving(false);
     }
@@ -333,11 +481,18 @@ export function TransactionRow(props: {
 
   // ---------- VIEW MODE ----------
   if (!isEditing) {
-    const hasDetails = !!(props.notes || (props.flags?.length ?? 0) > 0);
-    const viewFlags = (props.flags ?? []) as TxFlag[];
-
-    const viewAmount = formatMoneyFromCents(Math.abs(props.amountCents), props.type);
-    const viewIsPositive = props.type === "INCOME";
+    const hasDetails = !!props.notes;
+    const viewTags = props.tags ?? [];
+
+    const viewCurrency = props.currency ?? DEFAULT_CURRENCY;
+    const viewAmount = formatMoneyFromCents(Math.abs(props.amountCents), props.type, viewCurrency);
+    const viewIsTransfer = props.type === "TRANSFER";
+    const viewAmountClass = viewIsTransfer
+      ? ""
+      : props.type === "INCOME"
+        ? "amount-positive"
+        : "amount-negative";
+    const viewSplits = props.splits ?? [];
 
     return (
       <>
@@ -349,36 +504,71 @@ export function TransactionRow(props: {
                   {props.description}
                 </div>
 
-                {props.categoryName ? (
+                {viewIsTransfer ? (
+                  <>
+                    <span className="pill pill-accent">Transfer</span>
+                    <span className="pill" title="From → to">
+                      {props.paymentSourceName ?? "Deleted account"} →{" "}
+                      {props.transferToPaymentSourceName ?? "Deleted account"}
+                    </span>
+                  </>
+                ) : viewSplits.length ? (
+                  <span className="pill pill-accent">Split · {viewSplits.length}</span>
+                ) : props.categoryName ? (
                   <span className="pill pill-accent">{props.categoryName}</span>
                 ) : null}
 
+                {props.payeeName ? (
+                  <span className="pill" title="Payee">
+                    {props.payeeName}
+                  </span>
+                ) : null}
+
                 {/* ✅ Payment method pill (only if present) */}
-                {props.paymentSourceName ? (
+                {!viewIsTransfer && props.paymentSourceName ? (
                   <span className="pill" title="Payment method">
                     {props.paymentSourceName}
                   </span>
                 ) : null}
+
+                {props.status && props.status !== "PENDING" ? (
+                  <span
+                    className="pill"
+                    title={isReconciled ? "Matched to a bank statement; locked" : "Seen on the bank’s side"}
+                  >
+                    {STATUS_LABELS[props.status]}
+                  </span>
+                ) : null}
               </div>
 
               <div className="subtle txDate">{props.formattedDate}</div>
 
               {/* Amount appears here on mobile via CSS duplication (desktop keeps right-side amount) */}
               <div
-                className={`amount txAmountInline ${
-                  viewIsPositive ? "amount-positive" : "amount-negative"
-                }`}
+                className={`amount txAmountInline ${viewAmountClass}`}
                 title={viewAmount}
               >
                 {viewAmount}
               </div>
 
-              {hasDetails && showDetails && viewFlags.length ? (
-                <div className="txFlags">
-                  {viewFlags.map((f) => (
-                    <span key={f} className="pill">
-                      {FLAG_LABELS[f] ?? f}
-                    </span>
+              {viewSplits.length ? (
+                <ul className="txSplits">
+                  {viewSplits.map((sp, i) => (
+                    <li key={i} className="subtle">
+                      <span>{sp.categoryName ?? "Uncategorized"}</span>
+                      <span>{formatMoneyFromCents(sp.amountCents, props.type, viewCurrency)}</span>
+                      {sp.note ? <span>· {sp.note}</span> : null}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+
+              <AttachmentThumbs items={props.attachments ?? []} />
+
+              {viewTags.length ? (
+                <div className="txTags">
+                  {viewTags.map((t) => (
+                    <TagPill key={t.id} tag={t} />
                   ))}
                 </div>
               ) : null}
@@ -392,9 +582,7 @@ export function TransactionRow(props: {
 
             {/* Desktop amount (stays exactly like your old layout) */}
             <div
-              className={`amount txAmountRight ${
-                viewIsPositive ? "amount-positive" : "amount-negative"
-              }`}
+              className={`amount txAmountRight ${viewAmountClass}`}
               title={viewAmount}
             >
               {viewAmount}
@@ -407,6 +595,7 @@ export function TransactionRow(props: {
               type="button"
               className="btn btn-ghost"
               onClick={() => {
+                if (!confirmReconciled("Edit")) return;
                 setError(null);
                 setPendingDelete(false);
                 if (deleteTimerRef.current) {
@@ -431,10 +620,20 @@ export function TransactionRow(props: {
               </button>
             ) : null}
 
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => setShowHistory((v) => !v)}
+              disabled={isSaving || pendingDelete}
+              aria-expanded={showHistory}
+            >
+              {showHistory ? "Hide history" : "History"}
+            </button>
+
             <button
               type="button"
               className="btn btn-danger"
-              onClick={onDelete}
+              onClick={() => void onDelete()}
               disabled={isSaving || pendingDelete}
             >
               Delete
@@ -443,12 +642,16 @@ export function TransactionRow(props: {
             {pendingDelete ? (
               <div className="txUndo">
                 <span className="subtle" style={{ color: "rgb(var(--danger))" }}>
-                  Deleted. Finalizing in 5s…
+                  Moved to{" "}
+                  <Link href="/finance/trash" style={{ textDecoration: "underline" }}>
+                    Trash
+                  </Link>
+                  .
                 </span>
                 <button
                   type="button"
                   className="btn btn-primary"
-                  onClick={onUndoDelete}
+                  onClick={() => void onUndoDelete()}
                   disabled={isSaving}
                 >
                   Undo
@@ -456,6 +659,14 @@ export function TransactionRow(props: {
               </div>
             ) : null}
           </div>
+
+          {showHistory && !pendingDelete ? (
+            <TransactionHistory
+              transactionId={props.id}
+              isReconciled={isReconciled}
+              onReverted={refresh}
+            />
+          ) : null}
         </div>
 
         <style jsx>{`
@@ -495,7 +706,22 @@ export function TransactionRow(props: {
             margin-top: 2px;
           }
 
-          .txFlags {
+          .txSplits {
+            list-style: none;
+            padding: 0;
+            margin: 8px 0 0;
+            display: grid;
+            gap: 2px;
+            font-size: 13px;
+          }
+
+          .txSplits li {
+            display: flex;
+            gap: 8px;
+            flex-wrap: wrap;
+          }
+
+          .txTags {
             display: flex;
             gap: 8px;
             flex-wrap: wrap;
@@ -591,6 +817,9 @@ export function TransactionRow(props: {
   }
 
   // ---------- EDIT MODE ----------
+  const editAmountCents = parseAmountToCents(amount);
+  const editTotalCents = editAmountCents !== null && editAmountCents > 0 ? editAmountCents : null;
+
   return (
     <>
       <div onKeyDown={onEditKeyDown} className="txEditWrap">
@@ -658,20 +887,42 @@ export function TransactionRow(props: {
                   >
                     Income
                   </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => setTxType("TRANSFER")}
+                    disabled={isSaving}
+                    style={{
+                      borderRadius: 0,
+                      padding: "8px 12px",
+                      fontWeight: 650,
+                      background:
+                        txType === "TRANSFER" ? "rgba(0,0,0,0.06)" : "transparent",
+                    }}
+                  >
+                    Transfer
+                  </button>
                 </div>
 
                 <span className="subtle" style={{ fontSize: 12 }}>
-                  {txType === "EXPENSE" ? "Will save as negative" : "Will save as positive"}
+                  {txType === "TRANSFER"
+                    ? "Not counted as income or spending"
+                    : txType === "EXPENSE"
+                      ? "Will save as negative"
+                      : "Will save as positive"}
                 </span>
               </div>
 
-              <input
-                className="input"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                inputMode="decimal"
-                disabled={isSaving}
-              />
+              <div style={{ display: "flex", gap: 8 }}>
+                <input
+                  className="input"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  inputMode="decimal"
+                  disabled={isSaving}
+                />
+                <CurrencySelect value={currency} onChange={setCurrency} disabled={isSaving} />
+              </div>
             </div>
 
             <div style={{ display: "grid", gap: 6 }}>
@@ -688,7 +939,7 @@ export function TransactionRow(props: {
 
           {/* ✅ Payment method */}
           <div style={{ display: "grid", gap: 6 }}>
-            <label className="subtle">Account (optional)</label>
+            <label className="subtle">{txType === "TRANSFER" ? "From account" : "Account (optional)"}</label>
 
             <AccountSelect
               value={paymentSourceId}
@@ -707,28 +958,103 @@ export function TransactionRow(props: {
           </div>
 
           <div style={{ display: "grid", gap: 6 }}>
-            <label className="subtle">Category</label>
+            <label className="subtle">Status</label>
             <select
               className="select"
-              value={categoryId}
-              onChange={(e) => setCategoryId(e.target.value)}
-              disabled={isSaving || isLoadingCategories}
+              value={status}
+              onChange={(e) => setStatus(e.target.value as TransactionStatus)}
+              disabled={isSaving}
               style={{ maxWidth: 360 }}
             >
-              <option value="">{isLoadingCategories ? "Loading…" : "Uncategorized"}</option>
-              {categories.map((c) => (
-                <option key={c.id} value={c.id}>
-                  {c.name}
-                </option>
-              ))}
+              <option value="PENDING">{STATUS_LABELS.PENDING}</option>
+              <option value="CLEARED">{STATUS_LABELS.CLEARED}</option>
+              {/* only a finished reconciliation sets it */}
+              {isReconciled ? <option value="RECONCILED">{STATUS_LABELS.RECONCILED}</option> : null}
             </select>
-            {categoriesError ? (
-              <span style={{ fontSize: 12, color: "rgb(var(--danger))" }}>
-                {categoriesError}
-              </span>
-            ) : null}
           </div>
 
+          {txType === "TRANSFER" ? (
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">To account</label>
+              <AccountSelect
+                value={transferToId}
+                onChange={setTransferToId}
+                items={paymentSources.filter((p) => p.id !== paymentSourceId)}
+                disabled={isSaving || isLoadingPaymentSources}
+                loading={isLoadingPaymentSources}
+                maxWidth={360}
+              />
+            </div>
+          ) : (
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Payee (optional)</label>
+              <PayeePicker
+                value={payee}
+                onChange={setPayee}
+                onPick={(p) => {
+                  if (p.defaultCategoryId && !categoryId && !isSplit) setCategoryId(p.defaultCategoryId);
+                }}
+                disabled={isSaving}
+                maxWidth={360}
+              />
+            </div>
+          )}
+
+          {txType === "TRANSFER" ? null : (
+            <div style={{ display: "grid", gap: 6 }}>
+              <label className="subtle">Category</label>
+              {isSplit ? (
+                <SplitEditor
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  categories={categories}
+                  totalCents={editTotalCents}
+                  currency={currency}
+                  disabled={isSaving}
+                  loadingCategories={isLoadingCategories}
+                />
+              ) : (
+                <select
+                  className="select"
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  disabled={isSaving || isLoadingCategories}
+                  style={{ maxWidth: 360 }}
+                >
+                  <option value="">{isLoadingCategories ? "Loading…" : "Uncategorized"}</option>
+                  {/* archived ones only while this transaction still uses them */}
+                  {categories
+                    .filter((c) => !c.archivedAt || c.id === categoryId)
+                    .map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                </select>
+              )}
+              <div>
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={() => {
+                    if (!isSplit && splitLines.length < 2) {
+                      setSplitLines([newSplitDraft({ categoryId }), newSplitDraft()]);
+                    }
+                    setIsSplit((v) => !v);
+                  }}
+                  disabled={isSaving}
+                >
+                  {isSplit ? "Don’t split" : "Split across categories"}
+                </button>
+              </div>
+              {categoriesError ? (
+                <span style={{ fontSize: 12, color: "rgb(var(--danger))" }}>
+                  {categoriesError}
+                </span>
+              ) : null}
+            </div>
+          )}
+
           <div
             style={{
               border: "1px solid rgb(var(--border))",
@@ -753,27 +1079,27 @@ export function TransactionRow(props: {
             </div>
 
             <div style={{ display: "grid", gap: 8 }}>
-              <div className="subtle">Gentle flags (optional)</div>
-              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-                {(Object.keys(FLAG_LABELS) as TxFlag[]).map((f) => {
-                  const active = prettyFlags.includes(f);
-                  return (
-                    <button
-                      key={f}
-                      type="button"
-                      className={`pill ${active ? "pill-accent" : ""}`}
-                      onClick={() => setFlags((prev) => toggleFlag(prev, f))}
-                      disabled={isSaving}
-                      style={{
-                        cursor: isSaving ? "not-allowed" : "pointer",
-                        opacity: isSaving ? 0.6 : 1,
-                      }}
-                    >
-                      {FLAG_LABELS[f]}
-                    </button>
-                  );
-                })}
-              </div>
+              <div className="subtle">Receipts &amp; documents</div>
+              <AttachmentEditor
+                transactionId={props.id}
+                items={attachments}
+                onChange={(next) => {
+                  setAttachments(next);
+                  refresh();
+                }}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div style={{ display: "grid", gap: 8 }}>
+              <div className="subtle">Tags (optional)</div>
+              <TagPicker
+                tags={tagOptions}
+                value={tagIds}
+                onChange={setTagIds}
+                disabled={isSaving}
+                loading={isLoadingTags}
+              />
             </div>
           </div>
 
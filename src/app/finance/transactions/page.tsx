@@ -4,10 +4,16 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { AddTransactionForm } from "./AddTransactionForm";
 import { TransactionRow } from "./TransactionRow";
+import { RecurringSection, type RecurringItem, type UpcomingOccurrence } from "./RecurringSection";
+import { addDays, materializeRecurringTransactions, occurrencesBetween, startOfToday } from "@/lib/recurring";
+import { purgeExpiredTrash } from "@/lib/trash";
+import { formatLocalDateOnly } from "@/lib/transactions";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
 import { cookies } from "next/headers";
 import crypto from "crypto";
 
-type TransactionType = "EXPENSE" | "INCOME";
+type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
+type TransactionStatus = "PENDING" | "CLEARED" | "RECONCILED";
 
 function formatDate(d: Date) {
   return new Intl.DateTimeFormat("en-US", {
@@ -94,17 +100,23 @@ async function getUserContext(): Promise<{
 export default async function TransactionsPage() {
   const { userId, label, isAuthed } = await getUserContext();
 
-  const totalCountEver = userId ? await prisma.transaction.count({ where: { userId } }) : 0;
+  // Post any recurring transactions that came due since the last visit
+  if (userId) await materializeRecurringTransactions(userId);
+
+  // Drop rows that have sat in Trash past the retention period
+  if (userId) await purgeExpiredTrash(userId);
+
+  const totalCountEver = userId ? await prisma.transaction.count({ where: { userId, deletedAt: null } }) : 0;
 
   // ✅ Option B: preselect AddTransactionForm account using user default
-  const defaultPaymentSourceId: string | null = userId
-    ? (
-        await prisma.user.findUnique({
-          where: { id: userId },
-          select: { defaultTransactionsPaymentSourceId: true },
-        })
-      )?.defaultTransactionsPaymentSourceId ?? null
+  const prefs = userId
+    ? await prisma.user.findUnique({
+        where: { id: userId },
+        select: { defaultTransactionsPaymentSourceId: true, baseCurrency: true },
+      })
     : null;
+  const defaultPaymentSourceId: string | null = prefs?.defaultTransactionsPaymentSourceId ?? null;
+  const baseCurrency = prefs?.baseCurrency ?? DEFAULT_CURRENCY;
 
   return (
     <main className="z-page">
@@ -144,7 +156,10 @@ export default async function TransactionsPage() {
         </div>
         <div className="card-body">
           {/* ✅ This is the entire preselect behavior */}
-          <AddTransactionForm defaultPaymentSourceId={defaultPaymentSourceId} />
+          <AddTransactionForm
+            defaultPaymentSourceId={defaultPaymentSourceId}
+            baseCurrency={baseCurrency}
+          />
 
           {/* Keep Profile as primary for managing defaults */}
           {isAuthed ? (
@@ -156,15 +171,67 @@ export default async function TransactionsPage() {
               .
             </div>
           ) : null}
+
+          <div className="subtle" style={{ fontSize: 12, marginTop: 6 }}>
+            Have a bank export?{" "}
+            <Link href="/finance/import" style={{ textDecoration: "underline" }}>
+              Import transactions
+            </Link>
+            .
+          </div>
+
+          {isAuthed ? (
+            <div className="subtle" style={{ fontSize: 12, marginTop: 6 }}>
+              Got a statement?{" "}
+              <Link href="/finance/reconcile" style={{ textDecoration: "underline" }}>
+                Reconcile an account
+              </Link>
+              .
+            </div>
+          ) : null}
+
+          {userId ? (
+            <div className="subtle" style={{ fontSize: 12, marginTop: 6 }}>
+              Deleted something by mistake?{" "}
+              <Link href="/finance/trash" style={{ textDecoration: "underline" }}>
+                Open Trash
+              </Link>
+              .
+            </div>
+          ) : null}
         </div>
       </section>
 
+      {/* Recurring */}
+      {userId ? (
+        <section className="card shrink-0">
+          <div className="card-header">
+            <div>
+              <div className="h2">Recurring</div>
+              <div className="subtle">Rent, salary, subscriptions: added for you when they’re due.</div>
+            </div>
+          </div>
+          <div className="card-body">
+            <RecurringCard
+              userId={userId}
+              defaultPaymentSourceId={defaultPaymentSourceId}
+              baseCurrency={baseCurrency}
+            />
+          </div>
+        </section>
+      ) : null}
+
       {/* Recent list */}
       <section className="card flex-1 min-h-0 flex flex-col">
         <div className="card-header shrink-0" style={{ display: "grid", gap: 10 }}>
           <div>
             <div className="h2">Recent transactions</div>
-            <div className="subtle">Showing your last 5 transactions (all accounts).</div>
+            <div className="subtle">
+              Showing your last 5 transactions (all accounts).{" "}
+              <Link href="/finance/ledger" style={{ textDecoration: "underline" }}>
+                See them all
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -183,18 +250,111 @@ export default async function TransactionsPage() {
   );
 }
 
+const UPCOMING_DAYS = 30;
+
+async function RecurringCard({
+  userId,
+  defaultPaymentSourceId,
+  baseCurrency,
+}: {
+  userId: string;
+  defaultPaymentSourceId: string | null;
+  baseCurrency: string;
+}) {
+  const [rules, categories, paymentSources] = await Promise.all([
+    prisma.recurringTransaction.findMany({
+      where: { userId },
+      orderBy: [{ nextDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+      include: {
+        category: { select: { name: true } },
+        paymentSource: { select: { name: true, currency: true } },
+      },
+    }),
+    prisma.category.findMany({
+      where: { userId },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      select: { id: true, name: true, archivedAt: true },
+    }),
+    prisma.paymentSource.findMany({
+      where: { userId },
+      orderBy: [{ name: "asc" }],
+      select: { id: true, name: true, archivedAt: true },
+    }),
+  ]);
+
+  // The recurring API only accepts EXPENSE / INCOME rules
+  const items: RecurringItem[] = rules.map((r) => ({
+    id: r.id,
+    description: r.description,
+    amountCents: r.amountCents,
+    // Posted in the account's currency (see materializeRecurringTransactions)
+    currency: r.paymentSource?.currency ?? baseCurrency,
+    type: r.type as RecurringItem["type"],
+    frequency: r.frequency,
+    interval: r.interval,
+    dayOfMonth: r.dayOfMonth,
+    startDate: formatLocalDateOnly(r.startDate),
+    endDate: r.endDate ? formatLocalDateOnly(r.endDate) : null,
+    nextDate: r.nextDate ? formatLocalDateOnly(r.nextDate) : null,
+    isActive: r.isActive,
+    categoryName: r.category?.name ?? null,
+    paymentSourceName: r.paymentSource?.name ?? null,
+  }));
+
+  const horizon = addDays(startOfToday(), UPCOMING_DAYS);
+
+  const upcoming: UpcomingOccurrence[] = rules
+    .filter((r) => r.isActive && r.nextDate)
+    .flatMap((r) =>
+      occurrencesBetween(r, r.nextDate!, horizon, 10).map((d) => ({
+        recurringId: r.id,
+        date: formatLocalDateOnly(d),
+        formattedDate: formatDate(d),
+        description: r.description,
+        amountCents: r.amountCents,
+        currency: r.paymentSource?.currency ?? baseCurrency,
+        type: r.type as UpcomingOccurrence["type"],
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, 10);
+
+  return (
+    <RecurringSection
+      items={items}
+      upcoming={upcoming}
+      categories={categories}
+      paymentSources={paymentSources}
+      defaultPaymentSourceId={defaultPaymentSourceId}
+    />
+  );
+}
+
 type TxItem = {
   id: string;
   description: string;
   amountCents: number;
+  currency: string;
   type: TransactionType;
   date: Date;
   categoryId: string | null;
   paymentSourceId: string | null;
   notes: string | null;
+  status: TransactionStatus;
+  payeeId: string | null;
   category: { name: string } | null;
+  payee: { name: string } | null;
   paymentSource: { name: string } | null;
-  flags?: unknown;
+  transferToPaymentSourceId: string | null;
+  transferToPaymentSource: { name: string } | null;
+  splits: Array<{
+    categoryId: string | null;
+    amountCents: number;
+    note: string | null;
+    category: { name: string } | null;
+  }>;
+  attachments: Array<{ id: string; fileName: string; contentType: string; sizeBytes: number }>;
+  tags: Array<{ tag: { id: string; name: string; color: string } }>;
 };
 
 async function TransactionsList({
@@ -215,21 +375,43 @@ async function TransactionsList({
 
   // ✅ Option B: always last 5, NO account filter
   const items: TxItem[] = await prisma.transaction.findMany({
-    where: { userId },
+    where: { userId, deletedAt: null },
     orderBy: [{ createdAt: "desc" }],
     take: 5,
     select: {
       id: true,
       description: true,
       amountCents: true,
+      currency: true,
       type: true,
       date: true,
       categoryId: true,
       paymentSourceId: true,
       notes: true,
-      flags: true,
+      status: true,
+      payeeId: true,
       category: { select: { name: true } },
+      payee: { select: { name: true } },
       paymentSource: { select: { name: true } },
+      transferToPaymentSourceId: true,
+      transferToPaymentSource: { select: { name: true } },
+      splits: {
+        orderBy: { sortOrder: "asc" },
+        select: {
+          categoryId: true,
+          amountCents: true,
+          note: true,
+          category: { select: { name: true } },
+        },
+      },
+      attachments: {
+        orderBy: { createdAt: "asc" },
+        select: { id: true, fileName: true, contentType: true, sizeBytes: true },
+      },
+      tags: {
+        orderBy: { tag: { name: "asc" } },
+        select: { tag: { select: { id: true, name: true, color: true } } },
+      },
     },
   });
 
@@ -259,15 +441,28 @@ async function TransactionsList({
               id={t.id}
               description={t.description}
               amountCents={t.amountCents}
+              currency={t.currency}
               type={t.type}
               dateISO={t.date.toISOString()}
               formattedDate={formatDate(t.date)}
               categoryId={t.categoryId}
               categoryName={t.category?.name ?? null}
+              payeeId={t.payeeId}
+              payeeName={t.payee?.name ?? null}
               paymentSourceId={t.paymentSourceId}
               paymentSourceName={t.paymentSource?.name ?? null}
+              transferToPaymentSourceId={t.transferToPaymentSourceId}
+              transferToPaymentSourceName={t.transferToPaymentSource?.name ?? null}
               notes={t.notes ?? null}
-              flags={(t as any).flags ?? []}
+              tags={t.tags.map((tt) => tt.tag)}
+              status={t.status}
+              splits={t.splits.map((sp) => ({
+                categoryId: sp.categoryId,
+                categoryName: sp.category?.name ?? null,
+                amountCents: sp.amountCents,
+                note: sp.note,
+              }))}
+              attachments={t.attachments}
             />
           </li>
         ))}
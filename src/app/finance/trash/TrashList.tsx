@@ -0,0 +1,223 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { formatMoneyCents } from "@/lib/currency";
+
+export type TrashItem = {
+  id: string;
+  description: string;
+  amountCents: number; // absolute; direction comes from type
+  currency: string;
+  type: "EXPENSE" | "INCOME" | "TRANSFER";
+  formattedDate: string;
+  categoryName: string | null;
+  paymentSourceName: string | null;
+  formattedDeletedAt: string;
+  formattedPurgeAt: string;
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+export function TrashList({
+  items,
+  isAuthed,
+  retentionDays,
+}: {
+  items: TrashItem[];
+  isAuthed: boolean;
+  retentionDays: number;
+}) {
+  const router = useRouter();
+  const [error, setError] = React.useState<string | null>(null);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+  const [isEmptying, setIsEmptying] = React.useState(false);
+
+  const [retentionText, setRetentionText] = React.useState(String(retentionDays));
+  const [isSavingRetention, setIsSavingRetention] = React.useState(false);
+
+  const disabledAny = busyId !== null || isEmptying || isSavingRetention;
+
+  const onRestore = async (item: TrashItem) => {
+    setError(null);
+    setBusyId(item.id);
+    try {
+      const res = await fetch(`/api/finance/trash?id=${encodeURIComponent(item.id)}`, { method: "POST" });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      router.refresh();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onDeleteForGood = async (item: TrashItem) => {
+    if (!confirm(`Delete “${item.description}” for good?\n\nThis can’t be undone.`)) return;
+
+    setError(null);
+    setBusyId(item.id);
+    try {
+      const res = await fetch(`/api/finance/trash?id=${encodeURIComponent(item.id)}`, { method: "DELETE" });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      router.refresh();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onEmpty = async () => {
+    const ok = confirm(
+      `Delete all ${items.length} transaction${items.length === 1 ? "" : "s"} in Trash for good?\n\nThis can’t be undone.`
+    );
+    if (!ok) return;
+
+    setError(null);
+    setIsEmptying(true);
+    try {
+      const res = await fetch("/api/finance/trash", { method: "DELETE" });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      router.refresh();
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  const onSaveRetention = async () => {
+    setError(null);
+    setIsSavingRetention(true);
+    try {
+      const res = await fetch("/api/user/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ trashRetentionDays: Number(retentionText.trim()) }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      router.refresh();
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 14 }}>
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {items.length === 0 ? (
+        <div className="subtle">Trash is empty.</div>
+      ) : (
+        <>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap" }}>
+            <div className="subtle">
+              {items.length} deleted transaction{items.length === 1 ? "" : "s"}
+            </div>
+            <button className="btn btn-danger" type="button" onClick={onEmpty} disabled={disabledAny}>
+              {isEmptying ? "Emptying…" : "Empty trash"}
+            </button>
+          </div>
+
+          <ul style={{ display: "grid", gap: 10, listStyle: "none", padding: 0, margin: 0 }}>
+            {items.map((t) => {
+              const sign = t.type === "EXPENSE" ? "-" : "";
+              const amountClass =
+                t.type === "TRANSFER" ? "" : t.type === "INCOME" ? "amount-positive" : "amount-negative";
+
+              return (
+                <li
+                  key={t.id}
+                  style={{
+                    border: "1px solid rgb(var(--border))",
+                    borderRadius: 16,
+                    padding: 14,
+                    display: "grid",
+                    gap: 10,
+                  }}
+                >
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 14, alignItems: "baseline" }}>
+                    <div style={{ minWidth: 0, display: "grid", gap: 4 }}>
+                      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                        <span style={{ fontWeight: 650 }}>{t.description}</span>
+                        {t.type === "TRANSFER" ? <span className="pill pill-accent">Transfer</span> : null}
+                        {t.categoryName ? <span className="pill pill-accent">{t.categoryName}</span> : null}
+                        {t.paymentSourceName ? <span className="pill">{t.paymentSourceName}</span> : null}
+                      </div>
+                      <div className="subtle" style={{ fontSize: 12 }}>
+                        {t.formattedDate} • deleted {t.formattedDeletedAt} • purged {t.formattedPurgeAt}
+                      </div>
+                    </div>
+
+                    <div className={`amount ${amountClass}`} style={{ fontWeight: 750, whiteSpace: "nowrap" }}>
+                      {sign}
+                      {formatMoneyCents(t.amountCents, t.currency)}
+                    </div>
+                  </div>
+
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      onClick={() => void onRestore(t)}
+                      disabled={disabledAny}
+                    >
+                      {busyId === t.id ? "Working…" : "Restore"}
+                    </button>
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      onClick={() => void onDeleteForGood(t)}
+                      disabled={disabledAny}
+                    >
+                      Delete for good
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {/* Retention (a user preference, so signed-in only) */}
+      {isAuthed ? (
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <label className="subtle" htmlFor="trash-retention">
+            Keep deleted transactions for
+          </label>
+          <input
+            id="trash-retention"
+            className="input"
+            inputMode="numeric"
+            value={retentionText}
+            onChange={(e) => setRetentionText(e.target.value)}
+            disabled={disabledAny}
+            style={{ width: 80 }}
+          />
+          <span className="subtle">days</span>
+          <button className="btn btn-ghost" type="button" onClick={onSaveRetention} disabled={disabledAny}>
+            {isSavingRetention ? "Saving…" : "Save"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
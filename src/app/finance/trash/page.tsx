@@ -0,0 +1,150 @@
+import Link from "next/link";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeExpiredTrash, trashPurgeDate } from "@/lib/trash";
+import { TrashList, type TrashItem } from "./TrashList";
+import { cookies } from "next/headers";
+import crypto from "crypto";
+
+/** ----------------------------
+ * Anonymous session support
+ * ---------------------------- */
+const ANON_COOKIE = "zento_anon";
+
+function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+async function getUserContext(): Promise<{
+  userId: string | null;
+  label: string;
+  isAuthed: boolean;
+}> {
+  const session = await getServerSession(authOptions);
+
+  // Prefer session.user.id (we added it via callbacks.session)
+  const sessionUserId = (session?.user as { id?: string } | undefined)?.id;
+  if (sessionUserId) {
+    const email = session?.user?.email ?? "your account";
+    return { userId: sessionUserId, label: `Signed in as ${email}`, isAuthed: true };
+  }
+
+  // Fallback: if session has email but not id, resolve user id
+  const email = session?.user?.email;
+  if (email) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (user?.id) {
+      return { userId: user.id, label: `Signed in as ${email}`, isAuthed: true };
+    }
+  }
+
+  const jar = await cookies();
+  const raw = jar.get(ANON_COOKIE)?.value;
+
+  if (!raw) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  const sess = await prisma.anonSession.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (!sess || (sess.expiresAt && sess.expiresAt.getTime() < Date.now())) {
+    return { userId: null, label: "Using Zento on this device", isAuthed: false };
+  }
+
+  // Touch lastSeenAt (best-effort)
+  prisma.anonSession
+    .update({ where: { id: sess.id }, data: { lastSeenAt: new Date() } })
+    .catch(() => {});
+
+  return { userId: sess.userId, label: "Using Zento on this device", isAuthed: false };
+}
+
+function formatDate(d: Date) {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(d);
+}
+
+export default async function TrashPage() {
+  const { userId, label, isAuthed } = await getUserContext();
+
+  if (userId) await purgeExpiredTrash(userId);
+
+  const [rows, user] = userId
+    ? await Promise.all([
+        prisma.transaction.findMany({
+          where: { userId, deletedAt: { not: null } },
+          orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+          select: {
+            id: true,
+            description: true,
+            amountCents: true,
+            currency: true,
+            type: true,
+            date: true,
+            deletedAt: true,
+            category: { select: { name: true } },
+            paymentSource: { select: { name: true } },
+            _count: { select: { splits: true } },
+          },
+        }),
+        prisma.user.findUnique({ where: { id: userId }, select: { trashRetentionDays: true } }),
+      ])
+    : [[], null];
+
+  const retentionDays = user?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  const items: TrashItem[] = rows.map((t) => ({
+    id: t.id,
+    description: t.description,
+    amountCents: t.amountCents,
+    currency: t.currency,
+    type: t.type,
+    formattedDate: formatDate(t.date),
+    categoryName: t._count.splits ? "Split" : t.category?.name ?? null,
+    paymentSourceName: t.paymentSource?.name ?? null,
+    formattedDeletedAt: formatDate(t.deletedAt!),
+    formattedPurgeAt: formatDate(trashPurgeDate(t.deletedAt!, retentionDays)),
+  }));
+
+  return (
+    <main className="z-page">
+      <section className="card card--raised shrink-0">
+        <div className="card-header z-txHeader">
+          <div style={{ display: "grid", gap: 6 }}>
+            <h1 className="h1" style={{ margin: 0 }}>
+              Trash
+            </h1>
+            <div className="subtle">
+              Deleted transactions stay here for {retentionDays} day{retentionDays === 1 ? "" : "s"}, then
+              they’re gone for good.
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gap: 6, justifyItems: "end" }}>
+            <div className="subtle z-txSignedIn">{label}</div>
+            <Link href="/finance/transactions" className="subtle" style={{ textDecoration: "underline" }}>
+              Back to transactions
+            </Link>
+          </div>
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="card-body">
+          <TrashList items={items} isAuthed={isAuthed} retentionDays={retentionDays} />
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+
+type RestoreMode = "merge" | "replace";
+type ConflictStrategy = "reuse" | "rename";
+
+type RestoreResult = {
+  categoriesCreated: number;
+  paymentSourcesCreated: number;
+  tagsCreated: number;
+  payeesCreated: number;
+  exchangeRatesCreated: number;
+  transactionsCreated: number;
+  transactionsSkipped: number;
+  recurringTransactionsCreated: number;
+  budgetsCreated: number;
+  rulesCreated: number;
+  savedViewsCreated: number;
+  reconciliationsCreated: number;
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+export default function BackupSection({ isAuthed }: { isAuthed: boolean }) {
+  const router = useRouter();
+
+  const [file, setFile] = React.useState<File | null>(null);
+  const [mode, setMode] = React.useState<RestoreMode>("merge");
+  const [onConflict, setOnConflict] = React.useState<ConflictStrategy>("reuse");
+
+  const [result, setResult] = React.useState<RestoreResult | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const onRestore = async () => {
+    if (!isAuthed || !file) return;
+    setError(null);
+    setResult(null);
+
+    let backup: unknown;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      setError("That file isn’t valid JSON.");
+      return;
+    }
+
+    if (
+      mode === "replace" &&
+      !confirm(
+        "Replace everything? Your current transactions, rules, saved views, categories and payment methods " +
+          "will be deleted first."
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/user/backup/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ backup, mode, onConflict }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      setResult((await res.json()) as RestoreResult);
+      router.refresh();
+    } catch {
+      setError("Something went wrong. Try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isAuthed) {
+    return <div className="subtle">Sign in to back up and restore your data.</div>;
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 16 }}>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <a className="btn btn-secondary" href="/api/user/backup" download>
+          Download backup
+        </a>
+        <span className="subtle" style={{ fontSize: 12 }}>
+          Categories, payment methods, transactions and preferences as one JSON file.
+        </span>
+      </div>
+
+      <div style={{ display: "grid", gap: 10 }}>
+        <div style={{ fontWeight: 650 }}>Restore</div>
+
+        <input
+          className="input"
+          type="file"
+          accept=".json,application/json"
+          disabled={isBusy}
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setResult(null);
+            setError(null);
+          }}
+        />
+
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          <select
+            className="select"
+            value={mode}
+            disabled={isBusy}
+            onChange={(e) => setMode(e.target.value as RestoreMode)}
+            style={{ maxWidth: 260 }}
+          >
+            <option value="merge">Add to my current data</option>
+            <option value="replace">Replace my current data</option>
+          </select>
+
+          <select
+            className="select"
+            value={onConflict}
+            disabled={isBusy || mode === "replace"}
+            onChange={(e) => setOnConflict(e.target.value as ConflictStrategy)}
+            style={{ maxWidth: 260 }}
+          >
+            <option value="reuse">Same name: use existing</option>
+            <option value="rename">Same name: keep both</option>
+          </select>
+        </div>
+
+        <div>
+          <button
+            className={`btn ${mode === "replace" ? "btn-danger" : "btn-primary"}`}
+            type="button"
+            disabled={isBusy || !file}
+            onClick={() => void onRestore()}
+          >
+            {isBusy ? "Restoring…" : "Restore backup"}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {result ? (
+        <div className="subtle">
+          Restored {result.transactionsCreated} transaction{result.transactionsCreated === 1 ? "" : "s"}
+          {result.transactionsSkipped ? ` (${result.transactionsSkipped} already present)` : ""}
+          {`, ${result.categoriesCreated} new categor${result.categoriesCreated === 1 ? "y" : "ies"}`}
+          {`, ${result.paymentSourcesCreated} new payment method${result.paymentSourcesCreated === 1 ? "" : "s"}`}
+          {result.tagsCreated ? `, ${result.tagsCreated} new tag${result.tagsCreated === 1 ? "" : "s"}` : ""}
+          {result.payeesCreated ? `, ${result.payeesCreated} new payee${result.payeesCreated === 1 ? "" : "s"}` : ""}
+          {result.recurringTransactionsCreated
+            ? `, ${result.recurringTransactionsCreated} recurring rule` +
+              (result.recurringTransactionsCreated === 1 ? "" : "s")
+            : ""}
+          {result.budgetsCreated ? `, ${result.budgetsCreated} budget${result.budgetsCreated === 1 ? "" : "s"}` : ""}
+          {result.rulesCreated ? `, ${result.rulesCreated} rule${result.rulesCreated === 1 ? "" : "s"}` : ""}
+          {result.savedViewsCreated
+            ? `, ${result.savedViewsCreated} saved view${result.savedViewsCreated === 1 ? "" : "s"}`
+            : ""}
+          {result.reconciliationsCreated
+            ? `, ${result.reconciliationsCreated} reconciliation${result.reconciliationsCreated === 1 ? "" : "s"}`
+            : ""}
+          {result.exchangeRatesCreated
+            ? `, ${result.exchangeRatesCreated} exchange rate${result.exchangeRatesCreated === 1 ? "" : "s"}.`
+            : "."}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,15 +1,38 @@
 "use client";
 
 import * as React from "react";
+import { DEFAULT_CURRENCY, formatMoneyCents } from "@/lib/currency";
+import { MAX_CATEGORY_DEPTH, MAX_CATEGORY_NAME_LENGTH, flattenCategoryTree, validateCategoryTree } from "@/lib/categories";
 
 type Category = {
   id: string;
   name: string;
   sortOrder: number;
+  parentId: string | null;
+  archivedAt: string | Date | null;
   createdAt: string | Date;
   updatedAt: string | Date;
 };
 
+type Budget = {
+  id: string;
+  categoryId: string;
+  month: string | null; // null = every month
+  amountCents: number;
+};
+
+function formatMonthLabel(yyyyMm: string) {
+  const [y, m] = yyyyMm.split("-").map(Number);
+  return new Intl.DateTimeFormat("en-US", { month: "short", year: "numeric", timeZone: "UTC" }).format(
+    new Date(Date.UTC(y, m - 1, 1))
+  );
+}
+
+function currentMonthYYYYMM() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
 async function readApiError(res: Response) {
   try {
     const data = await res.json();
@@ -25,22 +48,330 @@ async function readApiError(res: Response) {
 function validateCategoryName(name: string): string | null {
   const trimmed = name.trim();
   if (!trimmed) return "Name is required.";
-  if (trimmed.length > 40) return "Name is too long (max 40).";
+  if (trimmed.length > MAX_CATEGORY_NAME_LENGTH) return `Name is too long (max ${MAX_CATEGORY_NAME_LENGTH}).`;
   return null;
 }
 
+// Where a dragged category lands relative to the row under the pointer
+type DropPosition = "before" | "inside" | "after";
+
+function dropPositionFor(e: React.DragEvent<HTMLElement>): DropPosition {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const y = (e.clientY - rect.top) / rect.height;
+  if (y < 0.25) return "before";
+  if (y > 0.75) return "after";
+  return "inside";
+}
+
+function BudgetEditor({
+  categoryId,
+  budgets,
+  currency,
+  disabled,
+  onChanged,
+  onError,
+}: {
+  categoryId: string;
+  budgets: Budget[];
+  currency: string;
+  disabled: boolean;
+  onChanged: () => Promise<void>;
+  onError: (msg: string | null) => void;
+}) {
+  const [amountText, setAmountText] = React.useState("");
+  const [scope, setScope] = React.useState<"every" | "month">("every");
+  const [month, setMonth] = React.useState(currentMonthYYYYMM());
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const busy = disabled || isSaving;
+
+  const onSave = async () => {
+    onError(null);
+
+    const amount = Number(amountText.replace(/[$,\s]/g, ""));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      onError("Enter a budget amount (example: 250).");
+      return;
+    }
+    if (scope === "month" && !month) {
+      onError("Pick a month.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/finance/budgets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          categoryId,
+          month: scope === "month" ? month : null,
+          amountCents: Math.round(amount * 100),
+        }),
+      });
+
+      if (!res.ok) {
+        onError(await readApiError(res));
+        return;
+      }
+
+      setAmountText("");
+      await onChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onRemove = async (id: string) => {
+    onError(null);
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/finance/budgets?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) {
+        onError(await readApiError(res));
+        return;
+      }
+      await onChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        borderTop: "1px solid rgb(var(--border))",
+        paddingTop: 10,
+        display: "grid",
+        gap: 10,
+      }}
+    >
+      {budgets.length ? (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          {budgets.map((b) => (
+            <span key={b.id} className="pill" style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+              {b.month ? formatMonthLabel(b.month) : "Every month"}: {formatMoneyCents(b.amountCents, currency)}
+              <button
+                type="button"
+                className="btn btn-ghost"
+                disabled={busy}
+                onClick={() => void onRemove(b.id)}
+                title="Remove budget"
+                style={{ padding: "0 6px", minHeight: 0 }}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          No budget yet.
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input
+          className="input"
+          inputMode="decimal"
+          placeholder="Amount, e.g. 250"
+          value={amountText}
+          onChange={(e) => setAmountText(e.target.value)}
+          disabled={busy}
+          style={{ width: 160 }}
+        />
+        <select
+          className="select"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as "every" | "month")}
+          disabled={busy}
+          style={{ width: "fit-content" }}
+        >
+          <option value="every">Every month</option>
+          <option value="month">One month only</option>
+        </select>
+        {scope === "month" ? (
+          <input
+            className="input"
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            disabled={busy}
+            style={{ width: "fit-content" }}
+          />
+        ) : null}
+        <button className="btn btn-secondary" type="button" disabled={busy} onClick={() => void onSave()}>
+          {isSaving ? "Saving..." : "Set budget"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type MergeCounts = {
+  transactions: number;
+  budgets: number;
+  rules: number;
+  payees: number;
+  recurring: number;
+  subcategories: number;
+  savedViews: number;
+};
+
+function plural(n: number, word: string, many = `${word}s`) {
+  return `${n} ${n === 1 ? word : many}`;
+}
+
+// "12 transactions, 1 budget and 2 rules move over" (only what's non-zero)
+function describeMergeCounts(counts: MergeCounts) {
+  const parts = [
+    plural(counts.transactions, "transaction"),
+    counts.budgets ? plural(counts.budgets, "budget") : null,
+    counts.rules ? plural(counts.rules, "rule") : null,
+    counts.payees ? plural(counts.payees, "payee default") : null,
+    counts.recurring ? plural(counts.recurring, "recurring transaction") : null,
+    counts.subcategories ? plural(counts.subcategories, "subcategory", "subcategories") : null,
+    counts.savedViews ? plural(counts.savedViews, "saved view") : null,
+  ].filter((x): x is string => !!x);
+
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}` : parts[0];
+  return `${list} will move over.`;
+}
+
+function MergeEditor({
+  category,
+  items,
+  disabled,
+  onMerged,
+  onError,
+}: {
+  category: Category;
+  items: Category[];
+  disabled: boolean;
+  onMerged: (categories: Category[]) => Promise<void>;
+  onError: (msg: string | null) => void;
+}) {
+  const [targetId, setTargetId] = React.useState("");
+  const [counts, setCounts] = React.useState<MergeCounts | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const busy = disabled || isWorking;
+  const target = items.find((x) => x.id === targetId);
+
+  const send = async (nextTargetId: string, dryRun: boolean) => {
+    const res = await fetch("/api/finance/categories/merge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sourceId: category.id, targetId: nextTargetId, dryRun }),
+    });
+    if (!res.ok) {
+      onError(await readApiError(res));
+      return null;
+    }
+    return (await res.json()) as { counts: MergeCounts; categories?: Category[] };
+  };
+
+  const onPickTarget = async (nextTargetId: string) => {
+    setTargetId(nextTargetId);
+    setCounts(null);
+    onError(null);
+    if (!nextTargetId) return;
+
+    setIsWorking(true);
+    try {
+      const data = await send(nextTargetId, true);
+      if (data) setCounts(data.counts);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const onMerge = async () => {
+    if (!target || !counts) return;
+    const ok = confirm(
+      `Merge "${category.name}" into "${target.name}"?\n\n${describeMergeCounts(counts)} "${category.name}" is then deleted.`
+    );
+    if (!ok) return;
+
+    onError(null);
+    setIsWorking(true);
+    try {
+      const data = await send(target.id, false);
+      if (data?.categories) await onMerged(data.categories);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        borderTop: "1px solid rgb(var(--border))",
+        paddingTop: 10,
+        display: "grid",
+        gap: 10,
+      }}
+    >
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <select
+          className="select"
+          value={targetId}
+          onChange={(e) => void onPickTarget(e.target.value)}
+          disabled={busy}
+          aria-label="Merge into"
+          style={{ width: "fit-content" }}
+        >
+          <option value="">Merge into…</option>
+          {flattenCategoryTree(items)
+            .filter((c) => c.id !== category.id && !c.archivedAt)
+            .map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.path}
+              </option>
+            ))}
+        </select>
+        <button className="btn btn-secondary" type="button" disabled={busy || !counts} onClick={() => void onMerge()}>
+          {isWorking && counts ? "Merging..." : "Merge"}
+        </button>
+      </div>
+
+      <div className="subtle" style={{ fontSize: 12 }}>
+        {counts
+          ? describeMergeCounts(counts)
+          : isWorking
+            ? "Counting…"
+            : "Everything in this category moves to the one you pick, then this category is deleted."}
+      </div>
+    </div>
+  );
+}
+
 export default function CategoriesSection({
   isAuthed,
   initialItems,
+  initialBudgets = [],
+  baseCurrency = DEFAULT_CURRENCY,
 }: {
   isAuthed: boolean;
   initialItems: Category[];
+  initialBudgets?: Budget[];
+  // budgets are in the base currency, like dashboard totals
+  baseCurrency?: string;
 }) {
   const [items, setItems] = React.useState<Category[]>(initialItems);
+  const [budgets, setBudgets] = React.useState<Budget[]>(initialBudgets);
+  const [budgetOpenId, setBudgetOpenId] = React.useState<string | null>(null);
+  const [mergeOpenId, setMergeOpenId] = React.useState<string | null>(null);
+
+  const everyMonthBudgetLabel = (categoryId: string) => {
+    const b = budgets.find((x) => x.categoryId === categoryId && x.month === null);
+    return b ? ` • Budget ${formatMoneyCents(b.amountCents, baseCurrency)}/month` : "";
+  };
   const [error, setError] = React.useState<string | null>(null);
   const [isBusy, setIsBusy] = React.useState(false);
 
   const [newName, setNewName] = React.useState("");
+  const [newParentId, setNewParentId] = React.useState("");
 
   const refresh = React.useCallback(async () => {
     try {
@@ -51,6 +382,15 @@ export default function CategoriesSection({
     } catch {}
   }, []);
 
+  const refreshBudgets = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/finance/budgets", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = (await res.json()) as Budget[];
+      setBudgets(Array.isArray(data) ? data : []);
+    } catch {}
+  }, []);
+
   const onCreate = async () => {
     if (!isAuthed) return;
     setError(null);
@@ -66,7 +406,7 @@ export default function CategoriesSection({
       const res = await fetch("/api/finance/categories", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: newName.trim() }),
+        body: JSON.stringify({ name: newName.trim(), parentId: newParentId || null }),
       });
 
       if (!res.ok) {
@@ -110,13 +450,37 @@ export default function CategoriesSection({
     }
   };
 
+  // Archiving takes subcategories along; unarchiving brings back the parents
+  const onArchive = async (id: string, archived: boolean) => {
+    if (!isAuthed) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/categories?id=${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
   const onDelete = async (id: string) => {
     if (!isAuthed) return;
 
     // Keep it simple for now: delete → move transactions to Uncategorized
     // (You already support reassign in UI prompt; this keeps UX calm.)
     const ok = confirm(
-      "Delete this category?\n\nTransactions in this category will become Uncategorized."
+      "Delete this category?\n\nTransactions in this category will become Uncategorized. Archive it instead to keep them."
     );
     if (!ok) return;
 
@@ -134,24 +498,19 @@ export default function CategoriesSection({
         return;
       }
 
-      await refresh();
+      await Promise.all([refresh(), refreshBudgets()]);
     } finally {
       setIsBusy(false);
     }
   };
 
-  const move = async (id: string, dir: -1 | 1) => {
-    if (!isAuthed) return;
-
-    const idx = items.findIndex((x) => x.id === id);
-    if (idx < 0) return;
-    const nextIdx = idx + dir;
-    if (nextIdx < 0 || nextIdx >= items.length) return;
-
-    const next = [...items];
-    const tmp = next[idx];
-    next[idx] = next[nextIdx];
-    next[nextIdx] = tmp;
+  // Sends the new order (siblings keep their array order) with every parent
+  const saveOrder = async (next: Category[]) => {
+    const treeError = validateCategoryTree(next);
+    if (treeError) {
+      setError(treeError);
+      return;
+    }
 
     // Optimistic UI
     setItems(next);
@@ -159,7 +518,7 @@ export default function CategoriesSection({
     setError(null);
     setIsBusy(true);
     try {
-      const order = next.map((c) => c.id);
+      const order = flattenCategoryTree(next).map((c) => ({ id: c.id, parentId: c.parentId }));
       const res = await fetch("/api/finance/categories", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
@@ -178,12 +537,68 @@ export default function CategoriesSection({
     }
   };
 
+  // Swap with the previous / next category under the same parent
+  const move = async (id: string, dir: -1 | 1) => {
+    if (!isAuthed) return;
+
+    const idx = items.findIndex((x) => x.id === id);
+    if (idx < 0) return;
+    const siblings = items.filter((x) => x.parentId === items[idx].parentId);
+    const sibling = siblings[siblings.findIndex((x) => x.id === id) + dir];
+    if (!sibling) return;
+
+    const next = [...items];
+    const otherIdx = next.findIndex((x) => x.id === sibling.id);
+    next[idx] = sibling;
+    next[otherIdx] = items[idx];
+
+    await saveOrder(next);
+  };
+
+  // One level up: becomes a sibling of its current parent
+  const outdent = async (id: string) => {
+    if (!isAuthed) return;
+    const c = items.find((x) => x.id === id);
+    const parent = c?.parentId ? items.find((x) => x.id === c.parentId) : null;
+    if (!c || !parent) return;
+
+    await saveOrder(items.map((x) => (x.id === id ? { ...x, parentId: parent.parentId } : x)));
+  };
+
+  // Drag-to-nest: drop on the middle of a row to nest inside it, near its
+  // top / bottom edge to place before / after it
+  const [dragId, setDragId] = React.useState<string | null>(null);
+  const [dropTarget, setDropTarget] = React.useState<{ id: string; position: DropPosition } | null>(null);
+
+  const onDrop = async (targetId: string, position: DropPosition) => {
+    const draggedId = dragId;
+    setDragId(null);
+    setDropTarget(null);
+    if (!isAuthed || !draggedId || draggedId === targetId) return;
+
+    const dragged = items.find((x) => x.id === draggedId);
+    const target = items.find((x) => x.id === targetId);
+    if (!dragged || !target) return;
+
+    const moved = { ...dragged, parentId: position === "inside" ? target.id : target.parentId };
+    const rest = items.filter((x) => x.id !== draggedId);
+    const targetIdx = rest.findIndex((x) => x.id === targetId);
+    const insertAt = position === "before" ? targetIdx : position === "after" ? targetIdx + 1 : rest.length;
+
+    await saveOrder([...rest.slice(0, insertAt), moved, ...rest.slice(insertAt)]);
+  };
+
   return (
     <div style={{ display: "grid", gap: 12 }}>
       {!isAuthed ? (
         <div className="subtle" style={{ fontSize: 12 }}>
           Sign in to add, edit, delete, or reorder categories.
         </div>
+      ) : items.length > 1 ? (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Drag a category onto another to make it a subcategory, or near its edge to reorder. Archived
+          categories stay on their transactions and in reports, but can’t be picked for new ones.
+        </div>
       ) : null}
 
       {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
@@ -198,6 +613,22 @@ export default function CategoriesSection({
           disabled={!isAuthed || isBusy}
           style={{ minWidth: 260 }}
         />
+        <select
+          className="select"
+          value={newParentId}
+          onChange={(e) => setNewParentId(e.target.value)}
+          disabled={!isAuthed || isBusy}
+          aria-label="Parent category"
+        >
+          <option value="">Top level</option>
+          {flattenCategoryTree(items)
+            .filter((c) => c.depth < MAX_CATEGORY_DEPTH - 1 && !c.archivedAt)
+            .map((c) => (
+              <option key={c.id} value={c.id}>
+                Inside {c.path}
+              </option>
+            ))}
+        </select>
         <button
           className="btn btn-secondary"
           type="button"
@@ -213,70 +644,181 @@ export default function CategoriesSection({
         <div className="subtle">No categories yet.</div>
       ) : (
         <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 10 }}>
-          {items.map((c, i) => (
+          {flattenCategoryTree(items).map((c) => {
+            const siblings = items.filter((x) => x.parentId === c.parentId);
+            const siblingIdx = siblings.findIndex((x) => x.id === c.id);
+            const drop = dropTarget?.id === c.id ? dropTarget.position : null;
+
+            return (
             <li
               key={c.id}
+              draggable={isAuthed && !isBusy}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDragId(c.id);
+              }}
+              onDragEnd={() => {
+                setDragId(null);
+                setDropTarget(null);
+              }}
+              onDragOver={(e) => {
+                if (!dragId || dragId === c.id) return;
+                e.preventDefault();
+                const position = dropPositionFor(e);
+                if (drop !== position) setDropTarget({ id: c.id, position });
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                void onDrop(c.id, dropPositionFor(e));
+              }}
               style={{
                 border: "1px solid rgb(var(--border))",
                 borderRadius: 16,
                 padding: 12,
-                display: "flex",
+                display: "grid",
                 gap: 10,
-                justifyContent: "space-between",
-                alignItems: "center",
+                marginLeft: c.depth * 24,
+                opacity: dragId === c.id ? 0.5 : c.archivedAt ? 0.7 : 1,
+                cursor: isAuthed && !isBusy ? "grab" : undefined,
+                outline: drop === "inside" ? "2px solid rgb(var(--accent))" : undefined,
+                boxShadow:
+                  drop === "before"
+                    ? "0 -3px 0 rgb(var(--accent))"
+                    : drop === "after"
+                      ? "0 3px 0 rgb(var(--accent))"
+                      : undefined,
               }}
             >
-              <div style={{ display: "grid", gap: 2 }}>
-                <div style={{ fontWeight: 650 }}>{c.name}</div>
-                <div className="subtle" style={{ fontSize: 12 }}>
-                  Order: {i + 1}
+              <div
+                style={{
+                  display: "flex",
+                  gap: 10,
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                }}
+              >
+                <div style={{ display: "grid", gap: 2 }}>
+                  <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <div style={{ fontWeight: 650 }}>{c.name}</div>
+                    {c.archivedAt ? <span className="pill">Archived</span> : null}
+                  </div>
+                  <div className="subtle" style={{ fontSize: 12 }}>
+                    {c.depth > 0 ? c.path : `Order: ${siblingIdx + 1}`}
+                    {everyMonthBudgetLabel(c.id)}
+                  </div>
+                </div>
+
+                <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy || siblingIdx === 0}
+                    onClick={() => void move(c.id, -1)}
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy || siblingIdx === siblings.length - 1}
+                    onClick={() => void move(c.id, 1)}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  {c.parentId ? (
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => void outdent(c.id)}
+                      title="Move out of its parent"
+                    >
+                      ←
+                    </button>
+                  ) : null}
+
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => {
+                      const next = prompt("Rename category", c.name);
+                      if (next === null) return;
+                      void onRename(c.id, next);
+                    }}
+                  >
+                    Edit
+                  </button>
+
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => setBudgetOpenId((cur) => (cur === c.id ? null : c.id))}
+                  >
+                    Budget
+                  </button>
+
+                  {items.length > 1 ? (
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => setMergeOpenId((cur) => (cur === c.id ? null : c.id))}
+                    >
+                      Merge into…
+                    </button>
+                  ) : null}
+
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => void onArchive(c.id, !c.archivedAt)}
+                  >
+                    {c.archivedAt ? "Unarchive" : "Archive"}
+                  </button>
+
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => void onDelete(c.id)}
+                  >
+                    Delete
+                  </button>
                 </div>
               </div>
 
-              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                <button
-                  className="btn btn-ghost"
-                  type="button"
-                  disabled={!isAuthed || isBusy || i === 0}
-                  onClick={() => void move(c.id, -1)}
-                  title="Move up"
-                >
-                  ↑
-                </button>
-                <button
-                  className="btn btn-ghost"
-                  type="button"
-                  disabled={!isAuthed || isBusy || i === items.length - 1}
-                  onClick={() => void move(c.id, 1)}
-                  title="Move down"
-                >
-                  ↓
-                </button>
-
-                <button
-                  className="btn btn-ghost"
-                  type="button"
-                  disabled={!isAuthed || isBusy}
-                  onClick={() => {
-                    const next = prompt("Rename category", c.name);
-                    if (next === null) return;
-                    void onRename(c.id, next);
+              {isAuthed && budgetOpenId === c.id ? (
+                <BudgetEditor
+                  categoryId={c.id}
+                  budgets={budgets.filter((b) => b.categoryId === c.id)}
+                  currency={baseCurrency}
+                  disabled={isBusy}
+                  onChanged={refreshBudgets}
+                  onError={setError}
+                />
+              ) : null}
+
+              {isAuthed && mergeOpenId === c.id ? (
+                <MergeEditor
+                  category={c}
+                  items={items}
+                  disabled={isBusy}
+                  onMerged={async (next) => {
+                    setMergeOpenId(null);
+                    setItems(next);
+                    await refreshBudgets();
                   }}
-                >
-                  Edit
-                </button>
-
-                <button
-                  className="btn btn-ghost"
-                  type="button"
-                  disabled={!isAuthed || isBusy}
-                  onClick={() => void onDelete(c.id)}
-                >
-                  Delete
-                </button>
-              </div>
+                  onError={setError}
+                />
+              ) : null}
             </li>
-          ))}
+            );
+          })}
         </ul>
       )}
     </div>
@@ -0,0 +1,304 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { CurrencySelect } from "@/components/CurrencySelect";
+
+type ExchangeRate = {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  date: string; // ISO
+  rate: number;
+};
+
+type ImportResult = {
+  imported: number;
+  skipped: number;
+  errors: string[];
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function todayYYYYMMDD() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+export default function CurrencySection({
+  isAuthed,
+  initialBaseCurrency,
+  initialRates,
+}: {
+  isAuthed: boolean;
+  initialBaseCurrency: string;
+  initialRates: ExchangeRate[];
+}) {
+  const router = useRouter();
+
+  const [baseCurrency, setBaseCurrency] = React.useState(initialBaseCurrency);
+  const [rates, setRates] = React.useState<ExchangeRate[]>(initialRates);
+
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  // Manual entry
+  const [fromCurrency, setFromCurrency] = React.useState(initialBaseCurrency === "EUR" ? "USD" : "EUR");
+  const [date, setDate] = React.useState(todayYYYYMMDD());
+  const [rateText, setRateText] = React.useState("");
+
+  // CSV upload
+  const [file, setFile] = React.useState<File | null>(null);
+  const [importResult, setImportResult] = React.useState<ImportResult | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/finance/exchange-rates", { cache: "no-store" });
+      if (res.ok) {
+        const data = (await res.json()) as ExchangeRate[];
+        setRates(Array.isArray(data) ? data : []);
+      }
+    } catch {}
+    router.refresh();
+  }, [router]);
+
+  const onChangeBase = async (next: string) => {
+    if (!isAuthed) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/user/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ baseCurrency: next }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      setBaseCurrency(next);
+      router.refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onAddRate = async () => {
+    if (!isAuthed) return;
+    setError(null);
+
+    const rate = Number(rateText.trim());
+    if (!Number.isFinite(rate) || rate <= 0) {
+      setError("Enter a rate greater than 0 (example: 1.08).");
+      return;
+    }
+    if (fromCurrency === baseCurrency) {
+      setError(`Pick a currency other than ${baseCurrency}.`);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/exchange-rates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, fromCurrency, toCurrency: baseCurrency, rate }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      setRateText("");
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onDelete = async (id: string) => {
+    if (!isAuthed) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/exchange-rates?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onImport = async () => {
+    if (!isAuthed || !file) return;
+    setError(null);
+    setImportResult(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/exchange-rates/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: await file.text() }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      setImportResult((await res.json()) as ImportResult);
+      await refresh();
+    } catch {
+      setError("Something went wrong. Try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isAuthed) {
+    return <div className="subtle">Sign in to pick a base currency and manage exchange rates.</div>;
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 16 }}>
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {/* Base currency */}
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <div style={{ fontWeight: 650 }}>Base currency</div>
+        <CurrencySelect value={baseCurrency} onChange={(v) => void onChangeBase(v)} disabled={isBusy} />
+        <span className="subtle" style={{ fontSize: 12 }}>
+          Dashboard and Reports totals are shown in this currency.
+        </span>
+      </div>
+
+      {/* Manual entry */}
+      <div style={{ display: "grid", gap: 10 }}>
+        <div style={{ fontWeight: 650 }}>Add a rate</div>
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <span className="subtle">1</span>
+          <CurrencySelect value={fromCurrency} onChange={setFromCurrency} disabled={isBusy} />
+          <span className="subtle">=</span>
+          <input
+            className="input"
+            inputMode="decimal"
+            placeholder="1.08"
+            value={rateText}
+            onChange={(e) => setRateText(e.target.value)}
+            disabled={isBusy}
+            style={{ width: 120 }}
+          />
+          <span className="subtle">{baseCurrency} from</span>
+          <input
+            className="input"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            disabled={isBusy}
+            style={{ width: "fit-content" }}
+          />
+          <button className="btn btn-secondary" type="button" onClick={() => void onAddRate()} disabled={isBusy}>
+            Save rate
+          </button>
+        </div>
+      </div>
+
+      {/* CSV upload */}
+      <div style={{ display: "grid", gap: 10 }}>
+        <div style={{ fontWeight: 650 }}>Upload rates (CSV)</div>
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Columns: date (YYYY-MM-DD), from, to, rate. Leave out “to” to use {baseCurrency}. A rate
+          for the same pair and day replaces the existing one.
+        </div>
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <input
+            className="input"
+            type="file"
+            accept=".csv,text/csv"
+            disabled={isBusy}
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setImportResult(null);
+            }}
+          />
+          <button
+            className="btn btn-secondary"
+            type="button"
+            onClick={() => void onImport()}
+            disabled={isBusy || !file}
+          >
+            Upload
+          </button>
+        </div>
+
+        {importResult ? (
+          <div className="subtle" style={{ fontSize: 13 }}>
+            Saved {importResult.imported} rate{importResult.imported === 1 ? "" : "s"}
+            {importResult.skipped ? `, skipped ${importResult.skipped}` : ""}.
+            {importResult.errors.length ? (
+              <ul style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+                {importResult.errors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
+      {/* List */}
+      <div style={{ display: "grid", gap: 10 }}>
+        <div style={{ fontWeight: 650 }}>Rates</div>
+        {rates.length === 0 ? (
+          <div className="subtle">
+            No rates yet. Transactions in other currencies are left out of totals until they have one.
+          </div>
+        ) : (
+          <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
+            {rates.map((r) => (
+              <li
+                key={r.id}
+                style={{
+                  border: "1px solid rgb(var(--border))",
+                  borderRadius: 16,
+                  padding: "8px 12px",
+                  display: "flex",
+                  gap: 10,
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                }}
+              >
+                <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <span className="pill">{r.date.slice(0, 10)}</span>
+                  <span>
+                    1 {r.fromCurrency} = {r.rate} {r.toCurrency}
+                  </span>
+                </div>
+                <button
+                  className="btn btn-ghost"
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => void onDelete(r.id)}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import * as React from "react";
+
+type Payee = {
+  id: string;
+  name: string;
+  defaultCategoryId: string | null;
+  aliases: Array<{ id: string; pattern: string }>;
+  _count?: { transactions: number };
+};
+
+type CategoryItem = { id: string; name: string };
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+// Aliases are edited as one comma-separated line
+function parseAliasText(text: string): string[] {
+  return text
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export default function PayeesSection({
+  isAuthed,
+  initialItems,
+  categories,
+}: {
+  isAuthed: boolean;
+  initialItems: Payee[];
+  categories: CategoryItem[];
+}) {
+  const [items, setItems] = React.useState<Payee[]>(initialItems);
+  const [error, setError] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const [newName, setNewName] = React.useState("");
+  const [newAliases, setNewAliases] = React.useState("");
+
+  // Which payee has its alias editor open, and the draft text
+  const [aliasOpenId, setAliasOpenId] = React.useState<string | null>(null);
+  const [aliasDraft, setAliasDraft] = React.useState("");
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/finance/payees", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = (await res.json()) as Payee[];
+      setItems(Array.isArray(data) ? data : []);
+    } catch {}
+  }, []);
+
+  const onCreate = async () => {
+    if (!isAuthed) return;
+    setError(null);
+    setNotice(null);
+
+    if (!newName.trim()) {
+      setError("Name is required.");
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/payees", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName.trim(), aliases: parseAliasText(newAliases) }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      setNewName("");
+      setNewAliases("");
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onUpdate = async (
+    id: string,
+    patch: { name?: string; defaultCategoryId?: string | null; aliases?: string[] }
+  ) => {
+    if (!isAuthed) return false;
+    setError(null);
+    setNotice(null);
+
+    if (patch.name !== undefined && !patch.name.trim()) {
+      setError("Name is required.");
+      return false;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/payees?id=${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return false;
+      }
+
+      await refresh();
+      return true;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onDelete = async (payee: Payee) => {
+    if (!isAuthed) return;
+
+    const used = payee._count?.transactions ?? 0;
+    const ok = confirm(
+      used
+        ? `Delete “${payee.name}”?\n\n${used} transaction${used === 1 ? "" : "s"} will keep their description but lose the payee.`
+        : `Delete “${payee.name}”?`
+    );
+    if (!ok) return;
+
+    setError(null);
+    setNotice(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/payees?id=${encodeURIComponent(payee.id)}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onApplyRules = async () => {
+    if (!isAuthed) return;
+    setError(null);
+    setNotice(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/payees/apply", { method: "POST" });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      const data = (await res.json()) as { matched: number; categorized: number };
+      setNotice(
+        data.matched
+          ? `Linked ${data.matched} transaction${data.matched === 1 ? "" : "s"} to a payee` +
+              (data.categorized ? `, ${data.categorized} of them newly categorized.` : ".")
+          : "No transactions without a payee matched."
+      );
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      {!isAuthed ? (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Sign in to add, edit, or delete payees.
+        </div>
+      ) : null}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+      {notice ? (
+        <div className="subtle" style={{ fontSize: 13 }}>
+          {notice}
+        </div>
+      ) : null}
+
+      {/* Create */}
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <input
+          className="input"
+          placeholder="e.g. Starbucks"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          disabled={!isAuthed || isBusy}
+          style={{ minWidth: 200 }}
+        />
+        <input
+          className="input"
+          placeholder="Aliases, comma-separated (e.g. sq starbucks, sbux)"
+          value={newAliases}
+          onChange={(e) => setNewAliases(e.target.value)}
+          disabled={!isAuthed || isBusy}
+          style={{ minWidth: 280 }}
+        />
+        <button className="btn btn-secondary" type="button" onClick={onCreate} disabled={!isAuthed || isBusy}>
+          Add
+        </button>
+      </div>
+
+      {/* List */}
+      {items.length === 0 ? (
+        <div className="subtle">No payees yet. They are also created when you type one on a transaction.</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 10 }}>
+          {items.map((p) => {
+            const used = p._count?.transactions ?? 0;
+
+            return (
+              <li
+                key={p.id}
+                style={{
+                  border: "1px solid rgb(var(--border))",
+                  borderRadius: 16,
+                  padding: 12,
+                  display: "grid",
+                  gap: 10,
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    gap: 10,
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    flexWrap: "wrap",
+                  }}
+                >
+                  <div style={{ display: "grid", gap: 4 }}>
+                    <div style={{ fontWeight: 650 }}>{p.name}</div>
+                    <div className="subtle" style={{ fontSize: 12 }}>
+                      {used} transaction{used === 1 ? "" : "s"}
+                      {p.aliases.length ? ` • matches: ${p.aliases.map((a) => a.pattern).join(", ")}` : ""}
+                    </div>
+                  </div>
+
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                    <select
+                      className="select"
+                      value={p.defaultCategoryId ?? ""}
+                      onChange={(e) => void onUpdate(p.id, { defaultCategoryId: e.target.value || null })}
+                      disabled={!isAuthed || isBusy}
+                      aria-label="Default category"
+                      style={{ maxWidth: 220 }}
+                    >
+                      <option value="">No default category</option>
+                      {categories.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => {
+                        const next = prompt("Rename payee", p.name);
+                        if (next === null) return;
+                        void onUpdate(p.id, { name: next.trim() });
+                      }}
+                    >
+                      Edit
+                    </button>
+
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => {
+                        if (aliasOpenId === p.id) {
+                          setAliasOpenId(null);
+                          return;
+                        }
+                        setAliasOpenId(p.id);
+                        setAliasDraft(p.aliases.map((a) => a.pattern).join(", "));
+                      }}
+                    >
+                      Aliases
+                    </button>
+
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => void onDelete(p)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {isAuthed && aliasOpenId === p.id ? (
+                  <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <input
+                      className="input"
+                      value={aliasDraft}
+                      onChange={(e) => setAliasDraft(e.target.value)}
+                      placeholder="Comma-separated, e.g. sq starbucks, sbux"
+                      disabled={isBusy}
+                      style={{ minWidth: 320, flex: 1 }}
+                    />
+                    <button
+                      className="btn btn-secondary"
+                      type="button"
+                      disabled={isBusy}
+                      onClick={async () => {
+                        const saved = await onUpdate(p.id, { aliases: parseAliasText(aliasDraft) });
+                        if (saved) setAliasOpenId(null);
+                      }}
+                    >
+                      Save
+                    </button>
+                  </div>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {items.length > 0 ? (
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <button className="btn btn-ghost" type="button" onClick={onApplyRules} disabled={!isAuthed || isBusy}>
+            Apply rules to existing transactions
+          </button>
+          <span className="subtle" style={{ fontSize: 12 }}>
+            Links transactions without a payee by their description.
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
 
 type PaymentSourceType = "BANK" | "CARD" | "CASH";
 
@@ -8,6 +11,8 @@ type PaymentSource = {
   id: string;
   name: string;
   type: PaymentSourceType;
+  currency: string;
+  archivedAt: string | Date | null;
   createdAt: string | Date;
   updatedAt: string | Date;
 };
@@ -41,11 +46,13 @@ export default function PaymentSourcesSection({
   isAuthed,
   initialItems,
   initialDefaultId,
+  baseCurrency = DEFAULT_CURRENCY,
 }: {
   isAuthed: boolean;
   initialItems: PaymentSource[];
   // null means "All accounts" default
   initialDefaultId: string | null;
+  baseCurrency?: string;
 }) {
   const [items, setItems] = React.useState<PaymentSource[]>(initialItems);
   const [defaultId, setDefaultId] = React.useState<string | null>(initialDefaultId);
@@ -55,6 +62,7 @@ export default function PaymentSourcesSection({
 
   const [name, setName] = React.useState("");
   const [type, setType] = React.useState<PaymentSourceType>("CARD");
+  const [currency, setCurrency] = React.useState<string>(baseCurrency);
 
   const refresh = React.useCallback(async () => {
     try {
@@ -93,7 +101,7 @@ export default function PaymentSourcesSection({
       const res = await fetch("/api/finance/payment-sources", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: n, type }),
+        body: JSON.stringify({ name: n, type, currency }),
       });
 
       if (!res.ok) {
@@ -110,7 +118,7 @@ export default function PaymentSourcesSection({
 
   const onDelete = async (id: string) => {
     if (!isAuthed) return;
-    if (!confirm("Delete this payment method? Transactions will become unassigned.")) return;
+    if (!confirm("Delete this payment method? Transactions will become unassigned (archive it to keep them).")) return;
 
     setError(null);
     setIsBusy(true);
@@ -140,7 +148,7 @@ export default function PaymentSourcesSection({
     }
   };
 
-  const onRename = async (id: string, nextName: string) => {
+  const onUpdate = async (id: string, patch: { name?: string; currency?: string; archived?: boolean }) => {
     if (!isAuthed) return;
 
     setError(null);
@@ -149,7 +157,7 @@ export default function PaymentSourcesSection({
       const res = await fetch(`/api/finance/payment-sources/${encodeURIComponent(id)}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: nextName }),
+        body: JSON.stringify(patch),
       });
 
       if (!res.ok) {
@@ -157,6 +165,16 @@ export default function PaymentSourcesSection({
         return;
       }
 
+      // An archived account can't stay the default for new transactions
+      if (patch.archived && defaultId === id) {
+        try {
+          await setDefaultPaymentSource(null);
+          setDefaultId(null);
+        } catch {
+          // non-fatal; UI will still work
+        }
+      }
+
       await refresh();
     } finally {
       setIsBusy(false);
@@ -186,6 +204,10 @@ export default function PaymentSourcesSection({
         <div className="subtle" style={{ fontSize: 12 }}>
           Sign in to add, edit, delete, or set a default payment method.
         </div>
+      ) : items.some((p) => p.archivedAt) ? (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Archived payment methods stay on their transactions and in reports, but can’t be picked for new ones.
+        </div>
       ) : null}
 
       {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
@@ -212,6 +234,8 @@ export default function PaymentSourcesSection({
           <option value="CASH">Cash</option>
         </select>
 
+        <CurrencySelect value={currency} onChange={setCurrency} disabled={!isAuthed || isBusy} />
+
         <button className="btn btn-secondary" type="button" onClick={onCreate} disabled={!isAuthed || isBusy}>
           Add
         </button>
@@ -273,12 +297,14 @@ export default function PaymentSourcesSection({
                   gap: 10,
                   justifyContent: "space-between",
                   alignItems: "center",
+                  opacity: p.archivedAt ? 0.7 : 1,
                 }}
               >
                 <div style={{ display: "grid", gap: 2 }}>
                   <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
                     <div style={{ fontWeight: 650 }}>{p.name}</div>
                     {isDefault ? <span className="pill pill-accent">Default</span> : null}
+                    {p.archivedAt ? <span className="pill">Archived</span> : null}
                   </div>
                   <div className="subtle" style={{ fontSize: 12 }}>
                     {p.type}
@@ -286,6 +312,13 @@ export default function PaymentSourcesSection({
                 </div>
 
                 <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  {/* Existing transactions keep their currency; this is the default for new ones */}
+                  <CurrencySelect
+                    value={p.currency}
+                    onChange={(v) => void onUpdate(p.id, { currency: v })}
+                    disabled={!isAuthed || isBusy}
+                  />
+
                   <button
                     className="btn btn-ghost"
                     type="button"
@@ -295,13 +328,22 @@ export default function PaymentSourcesSection({
                       if (next === null) return;
                       const trimmed = next.trim();
                       if (!trimmed) return;
-                      void onRename(p.id, trimmed);
+                      void onUpdate(p.id, { name: trimmed });
                     }}
                   >
                     Edit
                   </button>
 
-                  {!isDefault ? (
+                  {isAuthed ? (
+                    <Link
+                      className="btn btn-ghost"
+                      href={`/finance/reconcile?paymentSourceId=${encodeURIComponent(p.id)}`}
+                    >
+                      Reconcile
+                    </Link>
+                  ) : null}
+
+                  {!isDefault && !p.archivedAt ? (
                     <button
                       className="btn btn-ghost"
                       type="button"
@@ -312,6 +354,15 @@ export default function PaymentSourcesSection({
                     </button>
                   ) : null}
 
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => void onUpdate(p.id, { archived: !p.archivedAt })}
+                  >
+                    {p.archivedAt ? "Unarchive" : "Archive"}
+                  </button>
+
                   <button
                     className="btn btn-ghost"
                     type="button"
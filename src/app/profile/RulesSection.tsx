@@ -0,0 +1,663 @@
+"use client";
+
+import * as React from "react";
+import { TagPicker } from "@/components/TagPicker";
+import { flattenCategoryTree } from "@/lib/categories";
+import type { TagSummary } from "@/lib/tags";
+
+type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
+type DescriptionMatch = "CONTAINS" | "STARTS_WITH" | "REGEX";
+
+type Rule = {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  descriptionMatch: DescriptionMatch | null;
+  descriptionPattern: string | null;
+  minAmountCents: number | null;
+  maxAmountCents: number | null;
+  type: TransactionType | null;
+  paymentSourceId: string | null;
+  setCategoryId: string | null;
+  setPaymentSourceId: string | null;
+  renameTo: string | null;
+  addTags: Array<{ tagId: string }>;
+};
+
+type CategoryItem = { id: string; name: string; parentId: string | null };
+type PaymentSourceItem = { id: string; name: string };
+
+// A POST /api/finance/rules/apply result
+type RunResult = {
+  scanned: number;
+  changed: number;
+  rows: Array<{
+    transactionId: string;
+    date: string;
+    description: string;
+    amount: string;
+    rules: string[];
+    changes: Array<{ field: "description" | "category" | "paymentSource" | "tags"; before: string | null; after: string }>;
+  }>;
+};
+
+const MATCH_LABELS: Record<DescriptionMatch, string> = {
+  CONTAINS: "contains",
+  STARTS_WITH: "starts with",
+  REGEX: "matches regex",
+};
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  EXPENSE: "Expense",
+  INCOME: "Income",
+  TRANSFER: "Transfer",
+};
+
+const CHANGE_LABELS: Record<RunResult["rows"][number]["changes"][number]["field"], string> = {
+  description: "Description",
+  category: "Category",
+  paymentSource: "Account",
+  tags: "Tags",
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+// "12.50" -> 1250; "" -> null; undefined when it isn't an amount
+function parseAmountText(text: string): number | null | undefined {
+  const v = text.trim();
+  if (!v) return null;
+  if (!/^\d+(\.\d{1,2})?$/.test(v)) return undefined;
+  return Math.round(Number(v) * 100);
+}
+
+function amountText(cents: number | null) {
+  return cents === null ? "" : (cents / 100).toFixed(2);
+}
+
+// The editable form of a rule (amounts as typed)
+type Draft = {
+  name: string;
+  descriptionMatch: DescriptionMatch;
+  descriptionPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  type: TransactionType | "";
+  paymentSourceId: string;
+  setCategoryId: string;
+  setPaymentSourceId: string;
+  addTagIds: string[];
+  renameTo: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  descriptionMatch: "CONTAINS",
+  descriptionPattern: "",
+  minAmount: "",
+  maxAmount: "",
+  type: "",
+  paymentSourceId: "",
+  setCategoryId: "",
+  setPaymentSourceId: "",
+  addTagIds: [],
+  renameTo: "",
+};
+
+function toDraft(r: Rule): Draft {
+  return {
+    name: r.name,
+    descriptionMatch: r.descriptionMatch ?? "CONTAINS",
+    descriptionPattern: r.descriptionPattern ?? "",
+    minAmount: amountText(r.minAmountCents),
+    maxAmount: amountText(r.maxAmountCents),
+    type: r.type ?? "",
+    paymentSourceId: r.paymentSourceId ?? "",
+    setCategoryId: r.setCategoryId ?? "",
+    setPaymentSourceId: r.setPaymentSourceId ?? "",
+    addTagIds: r.addTags.map((t) => t.tagId),
+    renameTo: r.renameTo ?? "",
+  };
+}
+
+function RuleForm({
+  initial,
+  categories,
+  paymentSources,
+  tags,
+  submitLabel,
+  disabled,
+  onSubmit,
+  onCancel,
+}: {
+  initial: Draft;
+  categories: CategoryItem[];
+  paymentSources: PaymentSourceItem[];
+  tags: TagSummary[];
+  submitLabel: string;
+  disabled: boolean;
+  onSubmit: (body: Record<string, unknown>) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [draft, setDraft] = React.useState<Draft>(initial);
+  const [formError, setFormError] = React.useState<string | null>(null);
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const submit = async () => {
+    setFormError(null);
+    if (!draft.name.trim()) {
+      setFormError("Name is required.");
+      return;
+    }
+
+    const minAmountCents = parseAmountText(draft.minAmount);
+    const maxAmountCents = parseAmountText(draft.maxAmount);
+    if (minAmountCents === undefined || maxAmountCents === undefined) {
+      setFormError("Amounts look like 12.50.");
+      return;
+    }
+
+    const saved = await onSubmit({
+      name: draft.name.trim(),
+      descriptionMatch: draft.descriptionMatch,
+      descriptionPattern: draft.descriptionPattern.trim() || null,
+      minAmountCents,
+      maxAmountCents,
+      type: draft.type || null,
+      paymentSourceId: draft.paymentSourceId || null,
+      setCategoryId: draft.setCategoryId || null,
+      setPaymentSourceId: draft.setPaymentSourceId || null,
+      addTagIds: draft.addTagIds,
+      renameTo: draft.renameTo.trim() || null,
+    });
+    if (saved && !onCancel) setDraft(EMPTY_DRAFT);
+  };
+
+  const row = { display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" } as const;
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={row}>
+        <input
+          className="input"
+          placeholder="Rule name, e.g. Amazon"
+          value={draft.name}
+          onChange={(e) => set("name", e.target.value)}
+          disabled={disabled}
+          style={{ minWidth: 220 }}
+        />
+      </div>
+
+      <div className="subtle" style={{ fontSize: 12 }}>
+        When (every condition you fill in must match)
+      </div>
+      <div style={row}>
+        <span className="subtle">Description</span>
+        <select
+          className="select"
+          value={draft.descriptionMatch}
+          onChange={(e) => set("descriptionMatch", e.target.value as DescriptionMatch)}
+          disabled={disabled}
+          aria-label="Description match"
+        >
+          {(Object.keys(MATCH_LABELS) as DescriptionMatch[]).map((m) => (
+            <option key={m} value={m}>
+              {MATCH_LABELS[m]}
+            </option>
+          ))}
+        </select>
+        <input
+          className="input"
+          placeholder={draft.descriptionMatch === "REGEX" ? "e.g. ^amzn|amazon" : "e.g. amzn mktp"}
+          value={draft.descriptionPattern}
+          onChange={(e) => set("descriptionPattern", e.target.value)}
+          disabled={disabled}
+          style={{ minWidth: 220 }}
+        />
+      </div>
+      <div style={row}>
+        <input
+          className="input"
+          inputMode="decimal"
+          placeholder="Min amount"
+          value={draft.minAmount}
+          onChange={(e) => set("minAmount", e.target.value)}
+          disabled={disabled}
+          style={{ width: 130 }}
+        />
+        <input
+          className="input"
+          inputMode="decimal"
+          placeholder="Max amount"
+          value={draft.maxAmount}
+          onChange={(e) => set("maxAmount", e.target.value)}
+          disabled={disabled}
+          style={{ width: 130 }}
+        />
+        <select
+          className="select"
+          value={draft.type}
+          onChange={(e) => set("type", e.target.value as Draft["type"])}
+          disabled={disabled}
+          aria-label="Type"
+        >
+          <option value="">Any type</option>
+          {(Object.keys(TYPE_LABELS) as TransactionType[]).map((t) => (
+            <option key={t} value={t}>
+              {TYPE_LABELS[t]}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select"
+          value={draft.paymentSourceId}
+          onChange={(e) => set("paymentSourceId", e.target.value)}
+          disabled={disabled}
+          aria-label="Account"
+        >
+          <option value="">Any account</option>
+          {paymentSources.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="subtle" style={{ fontSize: 12 }}>
+        Then (only fills in what the transaction doesn’t have yet; tags are added)
+      </div>
+      <div style={row}>
+        <select
+          className="select"
+          value={draft.setCategoryId}
+          onChange={(e) => set("setCategoryId", e.target.value)}
+          disabled={disabled}
+          aria-label="Set category"
+        >
+          <option value="">Don’t set a category</option>
+          {flattenCategoryTree(categories).map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.path}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select"
+          value={draft.setPaymentSourceId}
+          onChange={(e) => set("setPaymentSourceId", e.target.value)}
+          disabled={disabled}
+          aria-label="Set account"
+        >
+          <option value="">Don’t set an account</option>
+          {paymentSources.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          className="input"
+          placeholder="Rename to (optional)"
+          value={draft.renameTo}
+          onChange={(e) => set("renameTo", e.target.value)}
+          disabled={disabled}
+          style={{ minWidth: 200 }}
+        />
+      </div>
+      {tags.length ? (
+        <TagPicker tags={tags} value={draft.addTagIds} onChange={(next) => set("addTagIds", next)} disabled={disabled} />
+      ) : null}
+
+      {formError ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{formError}</div> : null}
+
+      <div style={row}>
+        <button className="btn btn-secondary" type="button" onClick={() => void submit()} disabled={disabled}>
+          {submitLabel}
+        </button>
+        {onCancel ? (
+          <button className="btn btn-ghost" type="button" onClick={onCancel} disabled={disabled}>
+            Cancel
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export default function RulesSection({
+  isAuthed,
+  initialItems,
+  categories,
+  paymentSources,
+  tags,
+}: {
+  isAuthed: boolean;
+  initialItems: Rule[];
+  categories: CategoryItem[];
+  paymentSources: PaymentSourceItem[];
+  tags: TagSummary[];
+}) {
+  const [items, setItems] = React.useState<Rule[]>(initialItems);
+  const [error, setError] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const [editId, setEditId] = React.useState<string | null>(null);
+  const [preview, setPreview] = React.useState<RunResult | null>(null);
+
+  const categoryName = (id: string) => categories.find((c) => c.id === id)?.name ?? "Unknown";
+  const sourceName = (id: string) => paymentSources.find((p) => p.id === id)?.name ?? "Unknown";
+  const tagName = (id: string) => tags.find((t) => t.id === id)?.name ?? "Unknown";
+
+  const describe = (r: Rule) => {
+    const when = [
+      r.descriptionPattern ? `description ${MATCH_LABELS[r.descriptionMatch ?? "CONTAINS"]} “${r.descriptionPattern}”` : "",
+      r.minAmountCents !== null || r.maxAmountCents !== null
+        ? `amount ${amountText(r.minAmountCents) || "0"}–${amountText(r.maxAmountCents) || "any"}`
+        : "",
+      r.type ? TYPE_LABELS[r.type].toLowerCase() : "",
+      r.paymentSourceId ? `on ${sourceName(r.paymentSourceId)}` : "",
+    ].filter(Boolean);
+    const then = [
+      r.setCategoryId ? `category ${categoryName(r.setCategoryId)}` : "",
+      r.setPaymentSourceId ? `account ${sourceName(r.setPaymentSourceId)}` : "",
+      r.addTags.length ? `tag ${r.addTags.map((t) => tagName(t.tagId)).join(", ")}` : "",
+      r.renameTo ? `rename to “${r.renameTo}”` : "",
+    ].filter(Boolean);
+    return `When ${when.join(", ")} → ${then.join(", ")}`;
+  };
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/finance/rules", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = (await res.json()) as Rule[];
+      setItems(Array.isArray(data) ? data : []);
+    } catch {}
+  }, []);
+
+  // Sends a request, refreshes the list; false when it failed
+  const send = async (input: string, init: RequestInit) => {
+    if (!isAuthed) return false;
+    setError(null);
+    setNotice(null);
+    setPreview(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(input, init);
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return false;
+      }
+      await refresh();
+      return true;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onCreate = (body: Record<string, unknown>) =>
+    send("/api/finance/rules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const onUpdate = (id: string, body: Record<string, unknown>) =>
+    send(`/api/finance/rules?id=${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const onDelete = (rule: Rule) => {
+    if (!confirm(`Delete the rule “${rule.name}”?\n\nTransactions it already changed stay as they are.`)) return;
+    void send(`/api/finance/rules?id=${encodeURIComponent(rule.id)}`, { method: "DELETE" });
+  };
+
+  const move = (id: string, dir: -1 | 1) => {
+    const idx = items.findIndex((x) => x.id === id);
+    const swapIdx = idx + dir;
+    if (idx < 0 || swapIdx < 0 || swapIdx >= items.length) return;
+
+    const next = [...items];
+    [next[idx], next[swapIdx]] = [next[swapIdx], next[idx]];
+    setItems(next); // optimistic
+
+    void send("/api/finance/rules", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ order: next.map((x) => x.id) }),
+    });
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!isAuthed) return;
+    setError(null);
+    setNotice(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/rules/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun }),
+      });
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      const data = (await res.json()) as RunResult;
+      if (dryRun) {
+        setPreview(data);
+        if (data.changed === 0) setNotice("No uncategorized transactions would change.");
+      } else {
+        setPreview(null);
+        setNotice(
+          data.changed
+            ? `Updated ${data.changed} transaction${data.changed === 1 ? "" : "s"}.`
+            : "No uncategorized transactions matched."
+        );
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      {!isAuthed ? (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Sign in to add, edit, or delete rules.
+        </div>
+      ) : null}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+      {notice ? (
+        <div className="subtle" style={{ fontSize: 13 }}>
+          {notice}
+        </div>
+      ) : null}
+
+      {/* Create */}
+      <RuleForm
+        initial={EMPTY_DRAFT}
+        categories={categories}
+        paymentSources={paymentSources}
+        tags={tags}
+        submitLabel="Add rule"
+        disabled={!isAuthed || isBusy}
+        onSubmit={onCreate}
+      />
+
+      {/* List, in the order they run */}
+      {items.length === 0 ? (
+        <div className="subtle">No rules yet.</div>
+      ) : (
+        <ol style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 10 }}>
+          {items.map((r, i) => (
+            <li
+              key={r.id}
+              style={{
+                border: "1px solid rgb(var(--border))",
+                borderRadius: 16,
+                padding: 12,
+                display: "grid",
+                gap: 10,
+                opacity: r.enabled ? 1 : 0.6,
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  gap: 10,
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  flexWrap: "wrap",
+                }}
+              >
+                <div style={{ display: "grid", gap: 4 }}>
+                  <div style={{ fontWeight: 650 }}>
+                    {i + 1}. {r.name}
+                    {r.enabled ? "" : " (off)"}
+                  </div>
+                  <div className="subtle" style={{ fontSize: 12 }}>
+                    {describe(r)}
+                  </div>
+                </div>
+
+                <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                  <label className="subtle" style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                    <input
+                      type="checkbox"
+                      checked={r.enabled}
+                      disabled={!isAuthed || isBusy}
+                      onChange={(e) => void onUpdate(r.id, { enabled: e.target.checked })}
+                    />
+                    On
+                  </label>
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy || i === 0}
+                    onClick={() => move(r.id, -1)}
+                    title="Run earlier"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy || i === items.length - 1}
+                    onClick={() => move(r.id, 1)}
+                    title="Run later"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => setEditId(editId === r.id ? null : r.id)}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    className="btn btn-ghost"
+                    type="button"
+                    disabled={!isAuthed || isBusy}
+                    onClick={() => onDelete(r)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {isAuthed && editId === r.id ? (
+                <RuleForm
+                  initial={toDraft(r)}
+                  categories={categories}
+                  paymentSources={paymentSources}
+                  tags={tags}
+                  submitLabel="Save"
+                  disabled={isBusy}
+                  onSubmit={async (body) => {
+                    const saved = await onUpdate(r.id, body);
+                    if (saved) setEditId(null);
+                    return saved;
+                  }}
+                  onCancel={() => setEditId(null)}
+                />
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {items.length > 0 ? (
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <button className="btn btn-ghost" type="button" onClick={() => void run(true)} disabled={!isAuthed || isBusy}>
+            Preview on uncategorized transactions
+          </button>
+          {preview && preview.changed > 0 ? (
+            <button
+              className="btn btn-secondary"
+              type="button"
+              onClick={() => void run(false)}
+              disabled={!isAuthed || isBusy}
+            >
+              Apply to {preview.changed} transaction{preview.changed === 1 ? "" : "s"}
+            </button>
+          ) : null}
+          <span className="subtle" style={{ fontSize: 12 }}>
+            Runs the rules on existing transactions without a category. Reconciled ones are left alone.
+          </span>
+        </div>
+      ) : null}
+
+      {/* Dry run: what applying would change */}
+      {preview && preview.changed > 0 ? (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div className="subtle" style={{ fontSize: 12 }}>
+            {preview.changed} of {preview.scanned} uncategorized transaction{preview.scanned === 1 ? "" : "s"} would
+            change
+            {preview.rows.length < preview.changed ? ` (first ${preview.rows.length} shown)` : ""}.
+          </div>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 6 }}>
+            {preview.rows.map((row) => (
+              <li
+                key={row.transactionId}
+                style={{ borderTop: "1px solid rgb(var(--border))", paddingTop: 6, display: "grid", gap: 2 }}
+              >
+                <div style={{ display: "flex", gap: 10, justifyContent: "space-between", flexWrap: "wrap" }}>
+                  <span style={{ fontWeight: 650 }}>{row.description}</span>
+                  <span className="subtle" style={{ fontSize: 12 }}>
+                    {row.date} • {row.amount}
+                  </span>
+                </div>
+                <div className="subtle" style={{ fontSize: 12 }}>
+                  {row.changes
+                    .map((c) => `${CHANGE_LABELS[c.field]}: ${c.before ? `${c.before} → ` : ""}${c.after}`)
+                    .join(" • ")}
+                  {` (${row.rules.join(", ")})`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
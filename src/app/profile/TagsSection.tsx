@@ -0,0 +1,293 @@
+"use client";
+
+import * as React from "react";
+import { TagPill } from "@/components/TagPicker";
+import { DEFAULT_TAG_COLOR, MAX_TAG_NAME_LENGTH, TAG_COLORS } from "@/lib/tags";
+
+type Tag = {
+  id: string;
+  name: string;
+  color: string;
+  _count?: { transactions: number };
+};
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+function validateTagName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return "Name is required.";
+  if (trimmed.length > MAX_TAG_NAME_LENGTH) return `Name is too long (max ${MAX_TAG_NAME_LENGTH}).`;
+  return null;
+}
+
+function ColorSwatches({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+      {TAG_COLORS.map((c) => (
+        <button
+          key={c}
+          type="button"
+          onClick={() => onChange(c)}
+          disabled={disabled}
+          aria-label={`Color ${c}`}
+          aria-pressed={value === c}
+          style={{
+            width: 20,
+            height: 20,
+            borderRadius: 999,
+            background: c,
+            border: value === c ? "2px solid rgb(var(--text))" : "2px solid transparent",
+            cursor: disabled ? "not-allowed" : "pointer",
+            padding: 0,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function TagsSection({
+  isAuthed,
+  initialItems,
+}: {
+  isAuthed: boolean;
+  initialItems: Tag[];
+}) {
+  const [items, setItems] = React.useState<Tag[]>(initialItems);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const [newName, setNewName] = React.useState("");
+  const [newColor, setNewColor] = React.useState(DEFAULT_TAG_COLOR);
+
+  // Which tag has its color picker open
+  const [colorOpenId, setColorOpenId] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/finance/tags", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = (await res.json()) as Tag[];
+      setItems(Array.isArray(data) ? data : []);
+    } catch {}
+  }, []);
+
+  const onCreate = async () => {
+    if (!isAuthed) return;
+    setError(null);
+
+    const msg = validateTagName(newName);
+    if (msg) {
+      setError(msg);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch("/api/finance/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName.trim(), color: newColor }),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      setNewName("");
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onUpdate = async (id: string, patch: { name?: string; color?: string }) => {
+    if (!isAuthed) return;
+    setError(null);
+
+    if (patch.name !== undefined) {
+      const msg = validateTagName(patch.name);
+      if (msg) {
+        setError(msg);
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/tags?id=${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onDelete = async (tag: Tag) => {
+    if (!isAuthed) return;
+
+    const used = tag._count?.transactions ?? 0;
+    const ok = confirm(
+      used
+        ? `Delete “${tag.name}”?\n\nIt will be removed from ${used} transaction${used === 1 ? "" : "s"}.`
+        : `Delete “${tag.name}”?`
+    );
+    if (!ok) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/finance/tags?id=${encodeURIComponent(tag.id)}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      {!isAuthed ? (
+        <div className="subtle" style={{ fontSize: 12 }}>
+          Sign in to add, edit, or delete tags.
+        </div>
+      ) : null}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+
+      {/* Create */}
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <input
+          className="input"
+          placeholder="e.g. Vacation"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          disabled={!isAuthed || isBusy}
+          style={{ minWidth: 260 }}
+        />
+        <ColorSwatches value={newColor} onChange={setNewColor} disabled={!isAuthed || isBusy} />
+        <button className="btn btn-secondary" type="button" onClick={onCreate} disabled={!isAuthed || isBusy}>
+          Add
+        </button>
+      </div>
+
+      {/* List */}
+      {items.length === 0 ? (
+        <div className="subtle">No tags yet.</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 10 }}>
+          {items.map((t) => {
+            const used = t._count?.transactions ?? 0;
+
+            return (
+              <li
+                key={t.id}
+                style={{
+                  border: "1px solid rgb(var(--border))",
+                  borderRadius: 16,
+                  padding: 12,
+                  display: "grid",
+                  gap: 10,
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    gap: 10,
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                  }}
+                >
+                  <div style={{ display: "grid", gap: 4 }}>
+                    <div>
+                      <TagPill tag={t} />
+                    </div>
+                    <div className="subtle" style={{ fontSize: 12 }}>
+                      {used} transaction{used === 1 ? "" : "s"}
+                    </div>
+                  </div>
+
+                  <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => {
+                        const next = prompt("Rename tag", t.name);
+                        if (next === null) return;
+                        void onUpdate(t.id, { name: next.trim() });
+                      }}
+                    >
+                      Edit
+                    </button>
+
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => setColorOpenId((cur) => (cur === t.id ? null : t.id))}
+                    >
+                      Color
+                    </button>
+
+                    <button
+                      className="btn btn-ghost"
+                      type="button"
+                      disabled={!isAuthed || isBusy}
+                      onClick={() => void onDelete(t)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {isAuthed && colorOpenId === t.id ? (
+                  <ColorSwatches
+                    value={t.color}
+                    onChange={(c) => void onUpdate(t.id, { color: c })}
+                    disabled={isBusy}
+                  />
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,13 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import PaymentSourcesSection from "./PaymentSourcesSection";
 import CategoriesSection from "./CategoriesSection";
+import TagsSection from "./TagsSection";
+import PayeesSection from "./PayeesSection";
+import RulesSection from "./RulesSection";
+import BackupSection from "./BackupSection";
+import CurrencySection from "./CurrencySection";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { readBudgetMonth } from "@/lib/budgets";
 
 export default async function ProfilePage() {
   const session = await getServerSession(authOptions);
@@ -14,34 +21,97 @@ export default async function ProfilePage() {
   const isAuthed = Boolean(userId);
 
   // Fetch data for authed users only
-  const [{ paymentSources, categories, defaultPaymentSourceId } = {
+  const [{ paymentSources, categories, budgets, tags, payees, rules, defaultPaymentSourceId, baseCurrency, exchangeRates } = {
     paymentSources: [],
     categories: [],
+    budgets: [],
+    tags: [],
+    payees: [],
+    rules: [],
     defaultPaymentSourceId: null as string | null,
+    baseCurrency: DEFAULT_CURRENCY,
+    exchangeRates: [],
   }] = isAuthed
     ? await Promise.all([
         (async () => {
-          const [paymentSources, categories, user] = await Promise.all([
+          const [paymentSources, categories, budgets, tags, payees, rules, user, exchangeRates] = await Promise.all([
             prisma.paymentSource.findMany({
               where: { userId: userId! },
               orderBy: [{ name: "asc" }],
-              select: { id: true, name: true, type: true, createdAt: true, updatedAt: true },
+              select: { id: true, name: true, type: true, currency: true, archivedAt: true, createdAt: true, updatedAt: true },
             }),
             prisma.category.findMany({
               where: { userId: userId! },
               orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
-              select: { id: true, name: true, sortOrder: true, createdAt: true, updatedAt: true },
+              select: { id: true, name: true, sortOrder: true, parentId: true, archivedAt: true, createdAt: true, updatedAt: true },
+            }),
+            prisma.budget.findMany({
+              where: { userId: userId! },
+              orderBy: [{ month: "asc" }],
+              select: { id: true, categoryId: true, month: true, amountCents: true },
+            }),
+            prisma.tag.findMany({
+              where: { userId: userId! },
+              orderBy: [{ name: "asc" }],
+              select: {
+                id: true,
+                name: true,
+                color: true,
+                _count: { select: { transactions: { where: { transaction: { deletedAt: null } } } } },
+              },
+            }),
+            prisma.payee.findMany({
+              where: { userId: userId! },
+              orderBy: [{ name: "asc" }],
+              select: {
+                id: true,
+                name: true,
+                defaultCategoryId: true,
+                aliases: { orderBy: { pattern: "asc" }, select: { id: true, pattern: true } },
+                _count: { select: { transactions: { where: { deletedAt: null } } } },
+              },
+            }),
+            prisma.transactionRule.findMany({
+              where: { userId: userId! },
+              orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+              select: {
+                id: true,
+                name: true,
+                priority: true,
+                enabled: true,
+                descriptionMatch: true,
+                descriptionPattern: true,
+                minAmountCents: true,
+                maxAmountCents: true,
+                type: true,
+                paymentSourceId: true,
+                setCategoryId: true,
+                setPaymentSourceId: true,
+                renameTo: true,
+                addTags: { select: { tagId: true } },
+              },
             }),
             prisma.user.findUnique({
               where: { id: userId! },
-              select: { defaultTransactionsPaymentSourceId: true },
+              select: { defaultTransactionsPaymentSourceId: true, baseCurrency: true },
+            }),
+            prisma.exchangeRate.findMany({
+              where: { userId: userId! },
+              orderBy: [{ date: "desc" }, { fromCurrency: "asc" }, { toCurrency: "asc" }],
+              select: { id: true, fromCurrency: true, toCurrency: true, date: true, rate: true },
             }),
           ]);
 
           return {
             paymentSources,
             categories,
+            budgets: budgets.map((b) => ({ ...b, month: readBudgetMonth(b.month) })),
+            tags,
+            payees,
+            rules,
             defaultPaymentSourceId: user?.defaultTransactionsPaymentSourceId ?? null,
+            baseCurrency: user?.baseCurrency ?? DEFAULT_CURRENCY,
+            exchangeRates: exchangeRates.map((r) => ({ ...r, date: r.date.toISOString() })),
           };
         })(),
       ])
@@ -119,6 +189,7 @@ export default async function ProfilePage() {
             isAuthed={isAuthed}
             initialItems={paymentSources}
             initialDefaultId={defaultPaymentSourceId}
+            baseCurrency={baseCurrency}
           />
         </div>
       </section>
@@ -128,11 +199,99 @@ export default async function ProfilePage() {
         <div className="card-header">
           <div>
             <div className="h2">Categories</div>
-            <div className="subtle">Rename, delete, and reorder your categories.</div>
+            <div className="subtle">Rename, delete, reorder, and set monthly budgets.</div>
+          </div>
+        </div>
+        <div className="card-body">
+          <CategoriesSection
+            isAuthed={isAuthed}
+            initialItems={categories}
+            initialBudgets={budgets}
+            baseCurrency={baseCurrency}
+          />
+        </div>
+      </section>
+
+      {/* Tags */}
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">Tags</div>
+            <div className="subtle">Your own labels for transactions, each with a color.</div>
+          </div>
+        </div>
+        <div className="card-body">
+          <TagsSection isAuthed={isAuthed} initialItems={tags} />
+        </div>
+      </section>
+
+      {/* Payees */}
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">Payees</div>
+            <div className="subtle">
+              Who you pay. Aliases match messy bank descriptions, and a default category fills itself in.
+            </div>
+          </div>
+        </div>
+        <div className="card-body">
+          <PayeesSection
+            isAuthed={isAuthed}
+            initialItems={payees}
+            categories={categories.map((c) => ({ id: c.id, name: c.name }))}
+          />
+        </div>
+      </section>
+
+      {/* Rules */}
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">Rules</div>
+            <div className="subtle">
+              Categorize, tag, or rename new and imported transactions automatically. Rules run top to bottom.
+            </div>
+          </div>
+        </div>
+        <div className="card-body">
+          <RulesSection
+            isAuthed={isAuthed}
+            initialItems={rules}
+            categories={categories.map((c) => ({ id: c.id, name: c.name, parentId: c.parentId }))}
+            paymentSources={paymentSources.map((p) => ({ id: p.id, name: p.name }))}
+            tags={tags.map((t) => ({ id: t.id, name: t.name, color: t.color }))}
+          />
+        </div>
+      </section>
+
+      {/* Currencies */}
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">Currencies</div>
+            <div className="subtle">Base currency and the exchange rates used to convert totals.</div>
+          </div>
+        </div>
+        <div className="card-body">
+          <CurrencySection
+            isAuthed={isAuthed}
+            initialBaseCurrency={baseCurrency}
+            initialRates={exchangeRates}
+          />
+        </div>
+      </section>
+
+      {/* Backup */}
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <div className="h2">Backup & restore</div>
+            <div className="subtle">Download all your data, or bring it back from a backup file.</div>
           </div>
         </div>
         <div className="card-body">
-          <CategoriesSection isAuthed={isAuthed} initialItems={categories} />
+          <BackupSection isAuthed={isAuthed} />
         </div>
       </section>
     </main>
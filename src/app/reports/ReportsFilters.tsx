@@ -4,9 +4,13 @@ import * as React from "react";
 import Link from "next/link";
 import { AccountSelect } from "@/components/AccountSelect";
 import * as Select from "@radix-ui/react-select";
+import { DATE_PRESETS, type DatePreset } from "@/lib/search";
+import { flattenCategoryTree } from "@/lib/categories";
 
-type CategoryItem = { id: string; name: string };
-type PaymentSourceItem = { id: string; name: string };
+type CategoryItem = { id: string; name: string; parentId: string | null; archivedAt?: string | Date | null };
+type PaymentSourceItem = { id: string; name: string; archivedAt?: string | Date | null };
+type TagItem = { id: string; name: string; color: string };
+type PayeeItem = { id: string; name: string };
 
 const CAT_ALL = "__all__";
 const CAT_UNCATEGORIZED = "__uncategorized__";
@@ -28,6 +32,9 @@ function CategorySelect({
 }) {
   const radixValue = value === "" ? CAT_ALL : value === "uncategorized" ? CAT_UNCATEGORIZED : value;
 
+  // Archived categories are hidden unless already selected
+  const visibleItems = items.filter((c) => !c.archivedAt || c.id === value);
+
   const handleValueChange = (v: string) => {
     if (v === CAT_ALL) return onChange("");
     if (v === CAT_UNCATEGORIZED) return onChange("uncategorized");
@@ -66,10 +73,16 @@ function CategorySelect({
                 <Select.ItemText>Uncategorized</Select.ItemText>
               </Select.Item>
 
-              {items.length ? <div className="accSelectLabel">Categories</div> : null}
+              {visibleItems.length ? <div className="accSelectLabel">Categories</div> : null}
 
-              {items.map((c) => (
-                <Select.Item key={c.id} value={c.id} className="accSelectItem">
+              {/* Subcategories sit indented under their parent */}
+              {flattenCategoryTree(visibleItems).map((c) => (
+                <Select.Item
+                  key={c.id}
+                  value={c.id}
+                  className="accSelectItem"
+                  style={c.depth ? { paddingLeft: 10 + c.depth * 16 } : undefined}
+                >
                   <Select.ItemText>{c.name}</Select.ItemText>
                 </Select.Item>
               ))}
@@ -81,29 +94,221 @@ function CategorySelect({
   );
 }
 
+const TAG_ALL = "__all__";
+const TAG_UNTAGGED = "__untagged__";
+
+function TagSelect({
+  name,
+  value, // "" | "untagged" | real id
+  onChange,
+  items,
+  disabled,
+  maxWidth = 360,
+}: {
+  name: string;
+  value: string;
+  onChange: (v: string) => void;
+  items: TagItem[];
+  disabled?: boolean;
+  maxWidth?: number;
+}) {
+  const radixValue = value === "" ? TAG_ALL : value === "untagged" ? TAG_UNTAGGED : value;
+
+  const handleValueChange = (v: string) => {
+    if (v === TAG_ALL) return onChange("");
+    if (v === TAG_UNTAGGED) return onChange("untagged");
+    return onChange(v);
+  };
+
+  return (
+    <div style={{ maxWidth }}>
+      {/* ensures GET form submits the real value */}
+      <input type="hidden" name={name} value={value} />
+
+      <Select.Root value={radixValue} onValueChange={handleValueChange} disabled={disabled}>
+        <Select.Trigger className="accSelectTrigger">
+          <Select.Value placeholder="All tags" />
+          <Select.Icon className="accSelectIcon" aria-hidden>
+            <svg viewBox="0 0 24 24" fill="none">
+              <path
+                d="M6 9l6 6 6-6"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          </Select.Icon>
+        </Select.Trigger>
+
+        <Select.Portal>
+          <Select.Content className="accSelectContent" position="popper" sideOffset={6}>
+            <Select.Viewport className="accSelectViewport">
+              <Select.Item value={TAG_ALL} className="accSelectItem">
+                <Select.ItemText>All tags</Select.ItemText>
+              </Select.Item>
+
+              <Select.Item value={TAG_UNTAGGED} className="accSelectItem">
+                <Select.ItemText>Untagged</Select.ItemText>
+              </Select.Item>
+
+              {items.length ? <div className="accSelectLabel">Tags</div> : null}
+
+              {items.map((t) => (
+                <Select.Item key={t.id} value={t.id} className="accSelectItem">
+                  <Select.ItemText>
+                    <span
+                      aria-hidden
+                      style={{
+                        display: "inline-block",
+                        width: 8,
+                        height: 8,
+                        borderRadius: 999,
+                        background: t.color,
+                        marginRight: 8,
+                      }}
+                    />
+                    {t.name}
+                  </Select.ItemText>
+                </Select.Item>
+              ))}
+            </Select.Viewport>
+          </Select.Content>
+        </Select.Portal>
+      </Select.Root>
+    </div>
+  );
+}
+
+const PAYEE_ALL = "__all__";
+const PAYEE_NONE = "__none__";
+
+function PayeeSelect({
+  name,
+  value, // "" | "none" | real id
+  onChange,
+  items,
+  disabled,
+  maxWidth = 360,
+}: {
+  name: string;
+  value: string;
+  onChange: (v: string) => void;
+  items: PayeeItem[];
+  disabled?: boolean;
+  maxWidth?: number;
+}) {
+  const radixValue = value === "" ? PAYEE_ALL : value === "none" ? PAYEE_NONE : value;
+
+  const handleValueChange = (v: string) => {
+    if (v === PAYEE_ALL) return onChange("");
+    if (v === PAYEE_NONE) return onChange("none");
+    return onChange(v);
+  };
+
+  return (
+    <div style={{ maxWidth }}>
+      {/* ensures GET form submits the real value */}
+      <input type="hidden" name={name} value={value} />
+
+      <Select.Root value={radixValue} onValueChange={handleValueChange} disabled={disabled}>
+        <Select.Trigger className="accSelectTrigger">
+          <Select.Value placeholder="All payees" />
+          <Select.Icon className="accSelectIcon" aria-hidden>
+            <svg viewBox="0 0 24 24" fill="none">
+              <path
+                d="M6 9l6 6 6-6"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          </Select.Icon>
+        </Select.Trigger>
+
+        <Select.Portal>
+          <Select.Content className="accSelectContent" position="popper" sideOffset={6}>
+            <Select.Viewport className="accSelectViewport">
+              <Select.Item value={PAYEE_ALL} className="accSelectItem">
+                <Select.ItemText>All payees</Select.ItemText>
+              </Select.Item>
+
+              <Select.Item value={PAYEE_NONE} className="accSelectItem">
+                <Select.ItemText>No payee</Select.ItemText>
+              </Select.Item>
+
+              {items.length ? <div className="accSelectLabel">Payees</div> : null}
+
+              {items.map((p) => (
+                <Select.Item key={p.id} value={p.id} className="accSelectItem">
+                  <Select.ItemText>{p.name}</Select.ItemText>
+                </Select.Item>
+              ))}
+            </Select.Viewport>
+          </Select.Content>
+        </Select.Portal>
+      </Select.Root>
+    </div>
+  );
+}
+
 export function ReportsFilters({
   month,
+  range = "", // "" | date preset (wins over from / to and month)
+  from = "", // YYYY-MM-DD (wins over month)
+  to = "",
+  minAmount = "",
+  maxAmount = "",
+  type = "", // "" | EXPENSE | INCOME | TRANSFER
+  filterError = null,
   q,
+  qError = null,
   categoryId,
   paymentSourceId, // "" | "unassigned" | real id
+  tagId = "", // "" | "untagged" | real id
+  payeeId = "", // "" | "none" | real id
 
   categories,
   paymentSources,
+  tags = [],
+  payees = [],
 
   emptyState,
 }: {
   month: string;
+  range?: string;
+  from?: string;
+  to?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  type?: string;
+  filterError?: string | null;
   q: string;
+  qError?: string | null;
   categoryId: string;
   paymentSourceId: string;
+  tagId?: string;
+  payeeId?: string;
 
   categories: CategoryItem[];
   paymentSources: PaymentSourceItem[];
+  tags?: TagItem[];
+  payees?: PayeeItem[];
 
   emptyState: boolean;
 }) {
   const [accountValue, setAccountValue] = React.useState(paymentSourceId);
   const [categoryValue, setCategoryValue] = React.useState(categoryId);
+  const [tagValue, setTagValue] = React.useState(tagId);
+  const [payeeValue, setPayeeValue] = React.useState(payeeId);
+  const [rangeValue, setRangeValue] = React.useState(range);
+  const [fromValue, setFromValue] = React.useState(from);
+  const [toValue, setToValue] = React.useState(to);
+
+  // A preset or from / to replaces the month; disabled fields aren't submitted
+  const usesPreset = rangeValue !== "";
+  const usesRange = usesPreset || fromValue !== "" || toValue !== "";
 
   return (
     <form method="GET" style={{ display: "grid", gap: 14 }}>
@@ -115,19 +320,116 @@ export function ReportsFilters({
           name="month"
           defaultValue={month}
           style={{ width: "fit-content" }}
-          disabled={emptyState}
+          disabled={emptyState || usesRange}
         />
       </div>
 
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Or a date range</label>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <select
+            className="select"
+            name="range"
+            value={rangeValue}
+            onChange={(e) => setRangeValue(e.target.value)}
+            disabled={emptyState}
+            aria-label="Date preset"
+            style={{ width: "fit-content" }}
+          >
+            <option value="">Custom…</option>
+            {(Object.keys(DATE_PRESETS) as DatePreset[]).map((p) => (
+              <option key={p} value={p}>
+                {DATE_PRESETS[p]}
+              </option>
+            ))}
+          </select>
+          <input
+            className="input"
+            type="date"
+            name="from"
+            value={fromValue}
+            onChange={(e) => setFromValue(e.target.value)}
+            disabled={emptyState || usesPreset}
+            aria-label="From"
+            style={{ width: "fit-content" }}
+          />
+          <span className="subtle">to</span>
+          <input
+            className="input"
+            type="date"
+            name="to"
+            value={toValue}
+            onChange={(e) => setToValue(e.target.value)}
+            disabled={emptyState || usesPreset}
+            aria-label="To"
+            style={{ width: "fit-content" }}
+          />
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Amount</label>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <input
+            className="input"
+            name="minAmount"
+            inputMode="decimal"
+            defaultValue={minAmount}
+            placeholder="Min"
+            disabled={emptyState}
+            aria-label="Minimum amount"
+            style={{ width: 120 }}
+          />
+          <span className="subtle">to</span>
+          <input
+            className="input"
+            name="maxAmount"
+            inputMode="decimal"
+            defaultValue={maxAmount}
+            placeholder="Max"
+            disabled={emptyState}
+            aria-label="Maximum amount"
+            style={{ width: 120 }}
+          />
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Type</label>
+        <select
+          className="select"
+          name="type"
+          defaultValue={type}
+          disabled={emptyState}
+          style={{ width: "fit-content" }}
+        >
+          <option value="">All types</option>
+          <option value="EXPENSE">Expenses</option>
+          <option value="INCOME">Income</option>
+          <option value="TRANSFER">Transfers</option>
+        </select>
+      </div>
+
+      {filterError ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{filterError}</div> : null}
+
       <div style={{ display: "grid", gap: 6 }}>
         <label className="subtle">Search</label>
         <input
           className="input"
           name="q"
           defaultValue={q}
-          placeholder="Search description or notes…"
+          placeholder="coffee amount:>5 category:Food -tag:work"
+          aria-invalid={qError ? true : undefined}
           disabled={emptyState}
         />
+        {qError ? (
+          <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{qError}</div>
+        ) : (
+          <div className="subtle" style={{ fontSize: 12 }}>
+            Words match description or notes. Filters: amount:, category:, account:, tag:, payee:, type:, status:,
+            currency:, before:, after:, on:. Quote phrases, and put “-” in front to exclude.
+          </div>
+        )}
       </div>
 
       <div style={{ display: "grid", gap: 6 }}>
@@ -165,6 +467,32 @@ export function ReportsFilters({
         />
       </div>
 
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Tag</label>
+
+        <TagSelect
+          name="tagId"
+          value={tagValue}
+          onChange={(v) => setTagValue(v)}
+          items={tags}
+          disabled={emptyState}
+          maxWidth={360}
+        />
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <label className="subtle">Payee</label>
+
+        <PayeeSelect
+          name="payeeId"
+          value={payeeValue}
+          onChange={(v) => setPayeeValue(v)}
+          items={payees}
+          disabled={emptyState}
+          maxWidth={360}
+        />
+      </div>
+
       <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
         <button className="btn btn-primary" type="submit" disabled={emptyState}>
           Apply
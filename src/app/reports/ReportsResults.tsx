@@ -0,0 +1,284 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { TransactionRow } from "@/app/finance/transactions/TransactionRow";
+
+type RowProps = React.ComponentProps<typeof TransactionRow>;
+
+type Option = { id: string; name: string };
+
+type BulkAction = "setCategory" | "setPaymentSource" | "addTags" | "removeTags" | "setDate" | "delete";
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  setCategory: "Set category",
+  setPaymentSource: "Set payment source",
+  addTags: "Add tag",
+  removeTags: "Remove tag",
+  setDate: "Change date",
+  delete: "Delete",
+};
+
+// Sentinel for "clear it" in the category / payment source pickers
+const NONE = "__none__";
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+/**
+ * Reports results with checkbox multi-select. The bulk bar applies one action
+ * to every selected row through /api/finance/transactions/bulk.
+ */
+export function ReportsResults({
+  rows,
+  categories,
+  paymentSources,
+  tags,
+}: {
+  rows: RowProps[];
+  categories: Option[];
+  paymentSources: Option[];
+  tags: Option[];
+}) {
+  const router = useRouter();
+
+  const [selected, setSelected] = React.useState<Set<string>>(() => new Set());
+  const [action, setAction] = React.useState<BulkAction>("setCategory");
+  const [value, setValue] = React.useState("");
+  const [isApplying, setIsApplying] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+
+  // Rows can leave the list (filters, refresh); only count the ones still shown
+  const selectedRows = rows.filter((r) => selected.has(r.id));
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+
+  const selectAllRef = React.useRef<HTMLInputElement | null>(null);
+  React.useEffect(() => {
+    if (selectAllRef.current) {
+      selectAllRef.current.indeterminate = selectedRows.length > 0 && !allSelected;
+    }
+  }, [selectedRows.length, allSelected]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const onChangeAction = (next: BulkAction) => {
+    setAction(next);
+    setValue("");
+    setError(null);
+  };
+
+  const onApply = async () => {
+    setError(null);
+    setNotice(null);
+
+    const ids = selectedRows.map((r) => r.id);
+    if (ids.length === 0) return;
+
+    const payload: Record<string, unknown> = { ids, action };
+    if (action === "setCategory") {
+      if (!value) return setError("Pick a category.");
+      payload.categoryId = value === NONE ? null : value;
+    } else if (action === "setPaymentSource") {
+      if (!value) return setError("Pick a payment source.");
+      payload.paymentSourceId = value === NONE ? null : value;
+    } else if (action === "addTags" || action === "removeTags") {
+      if (!value) return setError("Pick a tag.");
+      payload.tagIds = [value];
+    } else if (action === "setDate") {
+      if (!value) return setError("Pick a date.");
+      payload.date = value;
+    }
+
+    const count = `${ids.length} transaction${ids.length === 1 ? "" : "s"}`;
+    if (action === "delete" && !confirm(`Move ${count} to Trash?`)) return;
+
+    const reconciled = selectedRows.filter((r) => r.status === "RECONCILED").length;
+    if (
+      reconciled > 0 &&
+      !confirm(
+        `${reconciled} of the selected transactions ${reconciled === 1 ? "is" : "are"} reconciled. Changing them can throw off the account’s reconciled balance.\n\nContinue anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      const res = await fetch(`/api/finance/transactions/bulk${reconciled > 0 ? "?override=1" : ""}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+
+      const data = (await res.json()) as { updated: number; skipped: number };
+      setNotice(
+        `${action === "delete" ? "Moved to Trash" : "Updated"}: ${data.updated}` +
+          (data.skipped ? ` • skipped ${data.skipped} (transfers or split transactions)` : "")
+      );
+      setSelected(new Set());
+      setValue("");
+      router.refresh();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const valuePicker =
+    action === "setCategory" || action === "setPaymentSource" || action === "addTags" || action === "removeTags" ? (
+      <select
+        className="select"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        disabled={isApplying}
+        aria-label="Value"
+        style={{ maxWidth: 240 }}
+      >
+        <option value="">
+          {action === "setCategory" ? "Category…" : action === "setPaymentSource" ? "Payment source…" : "Tag…"}
+        </option>
+        {action === "setCategory" ? <option value={NONE}>Uncategorized</option> : null}
+        {action === "setPaymentSource" ? <option value={NONE}>Unassigned</option> : null}
+        {(action === "setCategory" ? categories : action === "setPaymentSource" ? paymentSources : tags).map(
+          (o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+            </option>
+          )
+        )}
+      </select>
+    ) : action === "setDate" ? (
+      <input
+        className="input"
+        type="date"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        disabled={isApplying}
+        aria-label="New date"
+        style={{ width: "fit-content" }}
+      />
+    ) : null;
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      {/* Selection + bulk actions */}
+      <div
+        style={{
+          display: "flex",
+          gap: 10,
+          alignItems: "center",
+          flexWrap: "wrap",
+          position: "sticky",
+          top: 8,
+          zIndex: 5,
+          padding: selectedRows.length ? "10px 12px" : 0,
+          borderRadius: 14,
+          background: selectedRows.length ? "rgb(var(--surface))" : "transparent",
+          border: selectedRows.length ? "1px solid rgb(var(--border))" : "none",
+        }}
+      >
+        <label className="subtle" style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            ref={selectAllRef}
+            type="checkbox"
+            checked={allSelected}
+            disabled={isApplying}
+            onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map((r) => r.id)))}
+          />
+          {selectedRows.length ? `${selectedRows.length} selected` : "Select all"}
+        </label>
+
+        {selectedRows.length ? (
+          <>
+            <select
+              className="select"
+              value={action}
+              onChange={(e) => onChangeAction(e.target.value as BulkAction)}
+              disabled={isApplying}
+              aria-label="Bulk action"
+              style={{ width: "fit-content" }}
+            >
+              {(Object.keys(ACTION_LABELS) as BulkAction[]).map((a) => (
+                <option key={a} value={a}>
+                  {ACTION_LABELS[a]}
+                </option>
+              ))}
+            </select>
+
+            {valuePicker}
+
+            <button
+              type="button"
+              className={action === "delete" ? "btn btn-danger" : "btn btn-primary"}
+              onClick={() => void onApply()}
+              disabled={isApplying}
+            >
+              {isApplying ? "Applying…" : "Apply"}
+            </button>
+
+            <button type="button" className="btn btn-ghost" onClick={() => setSelected(new Set())} disabled={isApplying}>
+              Clear
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+      {notice ? (
+        <div className="subtle" style={{ fontSize: 13 }}>
+          {notice}
+        </div>
+      ) : null}
+
+      <ul style={{ display: "grid", gap: 10, listStyle: "none", padding: 0, margin: 0 }}>
+        {rows.map((t) => (
+          <li
+            key={t.id}
+            style={{
+              border: "1px solid rgb(var(--border))",
+              borderRadius: 16,
+              padding: 14,
+              background: selected.has(t.id) ? "rgba(0,0,0,0.03)" : "rgba(255,255,255,0.6)",
+              display: "flex",
+              gap: 12,
+              alignItems: "flex-start",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(t.id)}
+              onChange={() => toggle(t.id)}
+              disabled={isApplying}
+              aria-label={`Select ${t.description}`}
+              style={{ marginTop: 4 }}
+            />
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <TransactionRow {...t} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { savedViewHref, savedViewMatches, type SavedViewParams, type SavedViewSummary } from "@/lib/savedViews";
+
+async function readApiError(res: Response) {
+  try {
+    const data = await res.json();
+    if (data?.error) return String(data.error);
+  } catch {}
+  try {
+    const text = await res.text();
+    if (text) return text;
+  } catch {}
+  return "Request failed.";
+}
+
+/**
+ * Saved views as quick picks above the Reports filters. "Save view" stores
+ * the filters on screen; the active view can be renamed, deleted or made the
+ * view Reports opens on.
+ */
+export function SavedViewsBar({
+  views,
+  currentParams, // the filters as they are in the URL
+  saveParams, // the filters to store for "Save view"
+}: {
+  views: SavedViewSummary[];
+  currentParams: SavedViewParams;
+  saveParams: SavedViewParams;
+}) {
+  const router = useRouter();
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const active = views.find((v) => savedViewMatches(v.params, currentParams)) ?? null;
+
+  const run = async (input: RequestInfo, init: RequestInit, then?: (res: Response) => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const res = await fetch(input, init);
+      if (!res.ok) {
+        setError(await readApiError(res));
+        return;
+      }
+      await then?.(res);
+      router.refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onSave = () => {
+    const name = prompt("Name this view", "")?.trim();
+    if (!name) return;
+    void run(
+      "/api/finance/saved-views",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, params: saveParams }),
+      },
+      async (res) => {
+        // Land on the view's own URL so it shows as the active one
+        const created = (await res.json()) as SavedViewSummary;
+        router.push(savedViewHref(created.params));
+      }
+    );
+  };
+
+  const onRename = (view: SavedViewSummary) => {
+    const next = prompt("Rename view", view.name);
+    if (next === null || !next.trim()) return;
+    void run(`/api/finance/saved-views?id=${encodeURIComponent(view.id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: next.trim() }),
+    });
+  };
+
+  const onDelete = (view: SavedViewSummary) => {
+    if (!confirm(`Delete the view “${view.name}”?`)) return;
+    void run(`/api/finance/saved-views?id=${encodeURIComponent(view.id)}`, { method: "DELETE" });
+  };
+
+  const onToggleDefault = (view: SavedViewSummary) => {
+    void run("/api/user/preferences", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ defaultReportViewId: view.isDefault ? null : view.id }),
+    });
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <span className="subtle" style={{ fontSize: 12 }}>
+          Views
+        </span>
+
+        {views.map((v) => (
+          <Link
+            key={v.id}
+            href={savedViewHref(v.params)}
+            className={`pill ${active?.id === v.id ? "pill-accent" : ""}`}
+            title={v.isDefault ? "Reports opens on this view" : undefined}
+          >
+            {v.isDefault ? "★ " : ""}
+            {v.name}
+          </Link>
+        ))}
+
+        {views.length === 0 ? (
+          <span className="subtle" style={{ fontSize: 12 }}>
+            Save filters you use often to get back to them in one click.
+          </span>
+        ) : null}
+
+        <button className="btn btn-ghost" type="button" disabled={isBusy} onClick={onSave}>
+          Save view
+        </button>
+      </div>
+
+      {active ? (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <span className="subtle" style={{ fontSize: 12 }}>
+            “{active.name}”
+          </span>
+          <button className="btn btn-ghost" type="button" disabled={isBusy} onClick={() => onToggleDefault(active)}>
+            {active.isDefault ? "Stop opening Reports here" : "Open Reports here"}
+          </button>
+          <button className="btn btn-ghost" type="button" disabled={isBusy} onClick={() => onRename(active)}>
+            Rename
+          </button>
+          <button className="btn btn-ghost" type="button" disabled={isBusy} onClick={() => onDelete(active)}>
+            Delete
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <div style={{ color: "rgb(var(--danger))", fontSize: 13 }}>{error}</div> : null}
+    </div>
+  );
+}
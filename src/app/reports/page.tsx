@@ -2,15 +2,38 @@ import Link from "next/link";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-
-// NOTE: This import path assumes TransactionRow lives here (based on your project structure)
-import { TransactionRow } from "@/app/finance/transactions/TransactionRow";
+import {
+  transactionCategoryWhere,
+  transactionPayeeWhere,
+  transactionPaymentSourceWhere,
+  transactionTagWhere,
+} from "@/lib/transactions";
+import {
+  DATE_PRESETS,
+  parseAmountFilter,
+  parseDateFilter,
+  parseDatePreset,
+  parseTransactionSearch,
+  parseTypeFilter,
+} from "@/lib/search";
+import {
+  readSavedViewParams,
+  savedViewHref,
+  type SavedViewParams,
+  type SavedViewSummary,
+} from "@/lib/savedViews";
+import { flattenCategoryTree, rollUpCategoryTotals } from "@/lib/categories";
+import { DEFAULT_CURRENCY, buildRateTable, convertCents, formatMoneyCents } from "@/lib/currency";
 
 import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
 import crypto from "crypto";
 import { ReportsFilters } from "./ReportsFilters";
+import { ReportsResults } from "./ReportsResults";
+import { SavedViewsBar } from "./SavedViewsBar";
 
-type TransactionType = "EXPENSE" | "INCOME";
+type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
+type TransactionStatus = "PENDING" | "CLEARED" | "RECONCILED";
 
 function formatDate(d: Date) {
   return new Intl.DateTimeFormat("en-US", {
@@ -36,17 +59,6 @@ function parseMonthParam(month?: string) {
   return month;
 }
 
-function buildSearchWhere(q: string) {
-  const query = q.trim();
-  if (!query) return {};
-  return {
-    OR: [
-      { description: { contains: query, mode: "insensitive" as const } },
-      { notes: { contains: query, mode: "insensitive" as const } },
-    ],
-  };
-}
-
 /** ----------------------------
  * Payment source (account) filter helpers
  * ---------------------------- */
@@ -57,7 +69,8 @@ type PaymentSourceFilter =
 
 function parsePaymentSourceFilter(raw?: string): PaymentSourceFilter {
   const v = (raw ?? "").trim();
-  if (!v) return { kind: "all" };
+  // "all" (saved views) overrides the default account, same as picking All
+  if (!v || v === "all") return { kind: "all" };
   if (v === "unassigned") return { kind: "unassigned" };
   return { kind: "id", id: v };
 }
@@ -68,12 +81,22 @@ function filterToValue(f: PaymentSourceFilter): string {
   return f.id;
 }
 
+const TOP_PAYEES_LIMIT = 10;
+
 type PageProps = {
   searchParams?: Promise<{
     month?: string;
+    range?: string; // date preset, wins over from / to and month
+    from?: string; // YYYY-MM-DD, wins over month
+    to?: string;
+    minAmount?: string;
+    maxAmount?: string;
+    type?: string; // "" | EXPENSE | INCOME | TRANSFER
     q?: string;
     categoryId?: string; // "" | "uncategorized" | real id
     paymentSourceId?: string; // "" | "unassigned" | real id
+    tagId?: string; // "" | "untagged" | real id
+    payeeId?: string; // "" | "none" | real id
   }>;
 };
 
@@ -81,6 +104,7 @@ type TxItem = {
   id: string;
   description: string;
   amountCents: number; // stored positive
+  currency: string;
   type: TransactionType;
   date: Date;
   categoryId: string | null;
@@ -88,10 +112,24 @@ type TxItem = {
   paymentSourceId: string | null;
 
   notes: string | null;
-  flags?: unknown;
+  status: TransactionStatus;
+  payeeId: string | null;
   category: { name: string } | null;
+  payee: { name: string } | null;
 
   paymentSource: { name: string } | null;
+
+  transferToPaymentSourceId: string | null;
+  transferToPaymentSource: { name: string } | null;
+
+  splits: Array<{
+    categoryId: string | null;
+    amountCents: number;
+    note: string | null;
+    category: { name: string } | null;
+  }>;
+  attachments: Array<{ id: string; fileName: string; contentType: string; sizeBytes: number }>;
+  tags: Array<{ tag: { id: string; name: string; color: string } }>;
 };
 
 /** ----------------------------
@@ -161,33 +199,84 @@ export default async function ReportsPage({ searchParams }: PageProps) {
 
   const { userId, label, isAuthed } = await getUserContext();
 
+  // Saved views are for signed-in users; a bare /reports opens the default one
+  const [savedViews, viewPrefs] = isAuthed
+    ? await Promise.all([
+        prisma.savedView.findMany({
+          where: { userId: userId! },
+          orderBy: { name: "asc" },
+          select: { id: true, name: true, params: true },
+        }),
+        prisma.user.findUnique({ where: { id: userId! }, select: { defaultReportViewId: true } }),
+      ])
+    : [[], null];
+  const views: SavedViewSummary[] = savedViews.map((v) => ({
+    id: v.id,
+    name: v.name,
+    params: readSavedViewParams(v.params),
+    isDefault: v.id === viewPrefs?.defaultReportViewId,
+  }));
+
+  const currentParams = readSavedViewParams(params ?? {});
+  const defaultView = views.find((v) => v.isDefault);
+  if (defaultView && Object.keys(currentParams).length === 0) {
+    const href = savedViewHref(defaultView.params);
+    if (href !== "/reports") redirect(href);
+  }
+
   const q = (params?.q ?? "").trim();
   const month = parseMonthParam(params?.month) || currentMonthYYYYMM();
   const categoryId = (params?.categoryId ?? "").trim();
+  const tagId = (params?.tagId ?? "").trim();
+  const payeeId = (params?.payeeId ?? "").trim();
 
   // account filter from query param
   const paymentSourceFilterFromParam = parsePaymentSourceFilter(params?.paymentSourceId);
 
-  // Month range (UTC)
-  const [y, m] = month.split("-").map(Number);
-  const start = new Date(Date.UTC(y, m - 1, 1));
-  const end = new Date(Date.UTC(y, m, 1));
+  // Dates: a preset or from / to replace the month (UTC) when given
+  const rangePreset = parseDatePreset((params?.range ?? "").trim());
+  const dateFilter = parseDateFilter({ month, from: params?.from, to: params?.to, range: params?.range });
+  const amountFilter = parseAmountFilter({ minAmount: params?.minAmount, maxAmount: params?.maxAmount });
+  const typeFilter = parseTypeFilter(params?.type);
+  const minAmount = (params?.minAmount ?? "").trim();
+  const maxAmount = (params?.maxAmount ?? "").trim();
+
+  // Bad date / amount / type params list nothing; the error shows in the form
+  const filterError = !dateFilter.ok
+    ? dateFilter.error
+    : !amountFilter.ok
+      ? amountFilter.error
+      : !typeFilter.ok
+        ? typeFilter.error
+        : null;
+  const { from, to } = dateFilter.ok ? dateFilter.value : { from: "", to: "" };
+  const type = typeFilter.ok ? typeFilter.type : null;
 
   const emptyState = !userId;
 
   // Fetch categories + payment sources (if we have a user)
-  const [categories, paymentSources, userDefault] = emptyState
-    ? [[], [], null as { defaultTransactionsPaymentSourceId: string | null } | null]
+  const [categories, paymentSources, tags, payees, userDefault] = emptyState
+    ? [[], [], [], [], null as { defaultTransactionsPaymentSourceId: string | null } | null]
     : await Promise.all([
         prisma.category.findMany({
           where: { userId: userId! },
-          orderBy: { name: "asc" },
-          select: { id: true, name: true },
+          orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+          select: { id: true, name: true, parentId: true, archivedAt: true },
         }),
         prisma.paymentSource.findMany({
           where: { userId: userId! },
           orderBy: [{ name: "asc" }],
-          select: { id: true, name: true, type: true },
+          select: { id: true, name: true, type: true, archivedAt: true },
+        }),
+        prisma.tag.findMany({
+          where: { userId: userId! },
+          orderBy: { name: "asc" },
+          select: { id: true, name: true, color: true },
+        }),
+        prisma.payee.findMany({
+          where: { userId: userId! },
+          orderBy: { name: "asc" },
+          select: { id: true, name: true },
         }),
         isAuthed
           ? prisma.user.findUnique({
@@ -216,40 +305,170 @@ export default async function ReportsPage({ searchParams }: PageProps) {
       ? { kind: "all" }
       : effectivePaymentSourceFilter;
 
-  const searchWhere = buildSearchWhere(q);
-
-  const categoryWhere =
-    categoryId && categoryId !== ""
-      ? categoryId === "uncategorized"
-        ? { categoryId: null as any }
-        : { categoryId }
-      : {};
-
-  // Account filter -> Prisma where
-  const paymentSourceWhere =
-    safePaymentSourceFilter.kind === "unassigned"
-      ? { paymentSourceId: null as any }
-      : safePaymentSourceFilter.kind === "id"
-        ? { paymentSourceId: safePaymentSourceFilter.id }
-        : {};
+  // A query that doesn't parse lists nothing; the error shows under the box
+  const search = parseTransactionSearch(q);
+  const qError = search.ok ? null : search.error;
+  const skipQuery = emptyState || qError !== null || filterError !== null;
+
+  const filterWhere = {
+    AND: [
+      ...(search.ok && search.where ? [search.where] : []),
+      ...(amountFilter.ok && amountFilter.where ? [{ amountCents: amountFilter.where }] : []),
+      ...(type ? [{ type }] : []),
+      // Split transactions match on their lines' categories
+      ...(categoryId ? [transactionCategoryWhere(categoryId)] : []),
+      // Account filter (transfers match their from and to account)
+      ...(safePaymentSourceFilter.kind === "all"
+        ? []
+        : [transactionPaymentSourceWhere(filterToValue(safePaymentSourceFilter))]),
+      ...(tagId ? [transactionTagWhere(tagId)] : []),
+      ...(payeeId ? [transactionPayeeWhere(payeeId)] : []),
+    ],
+  };
 
-  const items: TxItem[] = emptyState
+  const items: TxItem[] = skipQuery
     ? []
     : await prisma.transaction.findMany({
         where: {
           userId: userId!,
-          date: { gte: start, lt: end },
-          ...searchWhere,
-          ...categoryWhere,
-          ...paymentSourceWhere,
+          deletedAt: null,
+          date: (dateFilter.ok && dateFilter.value.where) || {},
+          ...filterWhere,
         },
         orderBy: [{ date: "desc" }, { createdAt: "desc" }],
         include: {
           category: { select: { name: true } },
+          payee: { select: { name: true } },
           paymentSource: { select: { name: true } },
+          transferToPaymentSource: { select: { name: true } },
+          splits: {
+            orderBy: { sortOrder: "asc" },
+            select: {
+              categoryId: true,
+              amountCents: true,
+              note: true,
+              category: { select: { name: true } },
+            },
+          },
+          attachments: {
+            orderBy: { createdAt: "asc" },
+            select: { id: true, fileName: true, contentType: true, sizeBytes: true },
+          },
+          tags: {
+            orderBy: { tag: { name: "asc" } },
+            select: { tag: { select: { id: true, name: true, color: true } } },
+          },
         },
       });
 
+  // Totals in the base currency, each row converted at the rate on its date
+  const [currencyPrefs, rates] = emptyState
+    ? [null, []]
+    : await Promise.all([
+        prisma.user.findUnique({ where: { id: userId! }, select: { baseCurrency: true } }),
+        prisma.exchangeRate.findMany({
+          where: { userId: userId! },
+          select: { fromCurrency: true, toCurrency: true, date: true, rate: true },
+        }),
+      ]);
+  const baseCurrency = currencyPrefs?.baseCurrency ?? DEFAULT_CURRENCY;
+  const rateTable = buildRateTable(rates);
+
+  let incomeCents = 0;
+  let expenseCents = 0;
+  let unconvertedCount = 0;
+  // Spending per payee and per category (split lines count separately),
+  // same conversion as the totals
+  const spendByPayee = new Map<string, { name: string; cents: number; count: number }>();
+  const spendByCategory = new Map<string | null, number>();
+  for (const t of items) {
+    if (t.type === "TRANSFER") continue;
+    const cents = convertCents(rateTable, t.amountCents, t.currency, baseCurrency, t.date);
+    if (cents === null) {
+      unconvertedCount++;
+      continue;
+    }
+    if (t.type === "INCOME") incomeCents += cents;
+    else expenseCents += cents;
+
+    if (t.type === "EXPENSE" && t.payeeId && t.payee) {
+      const cur = spendByPayee.get(t.payeeId) ?? { name: t.payee.name, cents: 0, count: 0 };
+      cur.cents += cents;
+      cur.count += 1;
+      spendByPayee.set(t.payeeId, cur);
+    }
+
+    if (t.type === "EXPENSE") {
+      const lines = t.splits.length ? t.splits : [{ categoryId: t.categoryId, amountCents: t.amountCents }];
+      for (const line of lines) {
+        const lineCents = convertCents(rateTable, line.amountCents, t.currency, baseCurrency, t.date) ?? 0;
+        spendByCategory.set(line.categoryId, (spendByCategory.get(line.categoryId) ?? 0) + lineCents);
+      }
+    }
+  }
+
+  const topPayees = [...spendByPayee.entries()]
+    .map(([id, v]) => ({ id, ...v }))
+    .sort((a, b) => b.cents - a.cents)
+    .slice(0, TOP_PAYEES_LIMIT);
+
+  // Spending by category: the top level, or the children of the filtered
+  // category (its subtree is what the filter matched)
+  const categoryPaths = new Map(flattenCategoryTree(categories).map((c) => [c.id, c.path]));
+  const categoryLevelId = categoryPaths.has(categoryId) ? categoryId : null;
+  const categoryTotals =
+    categoryId && !categoryLevelId ? [] : rollUpCategoryTotals(categories, spendByCategory, categoryLevelId);
+  const categoryLevelParentId = categoryLevelId
+    ? categories.find((c) => c.id === categoryLevelId)?.parentId ?? null
+    : null;
+
+  // Export links reuse exactly the filters applied above
+  const exportParams = new URLSearchParams({ month });
+  if (rangePreset) exportParams.set("range", rangePreset);
+  if (!rangePreset && from) exportParams.set("from", from);
+  if (!rangePreset && to) exportParams.set("to", to);
+  if (minAmount) exportParams.set("minAmount", minAmount);
+  if (maxAmount) exportParams.set("maxAmount", maxAmount);
+  if (type) exportParams.set("type", type);
+  if (q) exportParams.set("q", q);
+  if (categoryId) exportParams.set("categoryId", categoryId);
+  if (tagId) exportParams.set("tagId", tagId);
+  if (payeeId) exportParams.set("payeeId", payeeId);
+  const effectivePaymentSourceValue = filterToValue(safePaymentSourceFilter);
+  if (effectivePaymentSourceValue) exportParams.set("paymentSourceId", effectivePaymentSourceValue);
+
+  // "Save view": these filters, with the current month left relative
+  const saveParams: SavedViewParams = {
+    ...(month !== currentMonthYYYYMM() && !rangePreset && !from && !to ? { month } : {}),
+    ...(rangePreset ? { range: rangePreset } : { from, to }),
+    minAmount,
+    maxAmount,
+    type: type ?? "",
+    q,
+    categoryId,
+    paymentSourceId: effectivePaymentSourceValue || "all",
+    tagId,
+    payeeId,
+  };
+
+  const exportHref = (format: "csv" | "json") =>
+    `/api/finance/export?${new URLSearchParams([...exportParams, ["format", format]])}`;
+
+  // Top payees link back here narrowed to that payee
+  const payeeHref = (id: string) => {
+    const next = new URLSearchParams(exportParams);
+    next.set("payeeId", id);
+    return `/reports?${next}`;
+  };
+
+  // Category rows drill down to that category (its children next)
+  const categoryHref = (id: string | null) => {
+    const next = new URLSearchParams(exportParams);
+    if (id) next.set("categoryId", id);
+    else next.delete("categoryId");
+    return `/reports?${next}`;
+  };
+
   const paymentSourceLabel =
     safePaymentSourceFilter.kind === "all"
       ? "All accounts"
@@ -257,6 +476,12 @@ export default async function ReportsPage({ searchParams }: PageProps) {
         ? "Unassigned"
         : paymentSources.find((p) => p.id === safePaymentSourceFilter.id)?.name ?? "Selected account";
 
+  const periodLabel = rangePreset
+    ? DATE_PRESETS[rangePreset]
+    : from || to
+      ? `${from || "…"} – ${to || "…"}`
+      : month;
+
   return (
     <main style={{ display: "grid", gap: 20 }}>
       <section className="card card--raised">
@@ -291,39 +516,177 @@ export default async function ReportsPage({ searchParams }: PageProps) {
         <div className="card-header">
           <div style={{ display: "grid", gap: 6 }}>
             <div className="h2">Filters</div>
-            <div className="subtle">Pick a month, search, category, or account.</div>
+            <div className="subtle">Pick a month or date range, amount, type, search, category, account, tag, or payee.</div>
           </div>
         </div>
 
         <div className="card-body">
+          {isAuthed ? (
+            <div style={{ marginBottom: 14 }}>
+              <SavedViewsBar views={views} currentParams={currentParams} saveParams={saveParams} />
+            </div>
+          ) : null}
+
           <ReportsFilters
             month={month}
+            range={rangePreset ?? ""}
+            from={from}
+            to={to}
+            minAmount={minAmount}
+            maxAmount={maxAmount}
+            type={type ?? ""}
+            filterError={filterError}
             q={q}
+            qError={qError}
             categoryId={categoryId}
-            paymentSourceId={filterToValue(safePaymentSourceFilter)}
+            paymentSourceId={effectivePaymentSourceValue}
+            tagId={tagId}
+            payeeId={payeeId}
             categories={categories}
+            tags={tags}
+            payees={payees}
             paymentSources={paymentSources.map((p) => ({ id: p.id, name: p.name }))}
             emptyState={emptyState}
           />
 
           <div className="subtle" style={{ marginTop: 12 }}>
             Showing {items.length} result{items.length === 1 ? "" : "s"}
+            {items.length > 0
+              ? ` • Income ${formatMoneyCents(incomeCents, baseCurrency)} • Expenses ${formatMoneyCents(
+                  expenseCents,
+                  baseCurrency
+                )} • Net ${formatMoneyCents(incomeCents - expenseCents, baseCurrency)}`
+              : ""}
           </div>
+
+          {unconvertedCount > 0 ? (
+            <div className="subtle" style={{ marginTop: 4, fontSize: 12 }}>
+              {unconvertedCount} foreign-currency transaction{unconvertedCount === 1 ? "" : "s"} left out of
+              the totals: no exchange rate to {baseCurrency} on or before the transaction date.
+            </div>
+          ) : null}
         </div>
       </section>
 
+      {/* Top payees */}
+      {topPayees.length > 0 ? (
+        <section className="card">
+          <div className="card-header">
+            <div style={{ display: "grid", gap: 6 }}>
+              <div className="h2">Top payees</div>
+              <div className="subtle">Where the money in these results went ({baseCurrency}).</div>
+            </div>
+          </div>
+
+          <div className="card-body">
+            <ul style={{ display: "grid", gap: 8, listStyle: "none", padding: 0, margin: 0 }}>
+              {topPayees.map((p) => (
+                <li
+                  key={p.id}
+                  style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "baseline" }}
+                >
+                  <Link
+                    href={payeeHref(p.id)}
+                    style={{ fontWeight: 650 }}
+                  >
+                    {p.name}
+                  </Link>
+                  <span className="subtle" style={{ marginLeft: "auto", fontSize: 12 }}>
+                    {p.count} transaction{p.count === 1 ? "" : "s"}
+                  </span>
+                  <span className="amount amount-negative" style={{ fontWeight: 700 }}>
+                    {formatMoneyCents(p.cents, baseCurrency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      ) : null}
+
+      {/* Spending by category */}
+      {categoryTotals.length > 0 ? (
+        <section className="card">
+          <div className="card-header">
+            <div style={{ display: "grid", gap: 6 }}>
+              <div className="h2">By category</div>
+              <div className="subtle">
+                {categoryLevelId ? (
+                  <>
+                    Inside {categoryPaths.get(categoryLevelId)} •{" "}
+                    <Link href={categoryHref(categoryLevelParentId)} style={{ textDecoration: "underline" }}>
+                      Up a level
+                    </Link>
+                  </>
+                ) : (
+                  <>Expenses with subcategories rolled up into their parent ({baseCurrency}).</>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="card-body">
+            <ul style={{ display: "grid", gap: 8, listStyle: "none", padding: 0, margin: 0 }}>
+              {categoryTotals.map((c) => (
+                <li
+                  key={`${c.direct ? "direct:" : ""}${c.id ?? "uncategorized"}`}
+                  style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "baseline" }}
+                >
+                  {c.direct || (c.id !== null && !categoryPaths.has(c.id)) ? (
+                    <span style={{ fontWeight: 650 }}>{c.name}</span>
+                  ) : (
+                    <Link href={categoryHref(c.id ?? "uncategorized")} style={{ fontWeight: 650 }}>
+                      {c.name}
+                    </Link>
+                  )}
+                  {c.hasChildren ? (
+                    <span className="subtle" style={{ marginLeft: "auto", fontSize: 12 }}>
+                      Has subcategories
+                    </span>
+                  ) : null}
+                  <span
+                    className="amount amount-negative"
+                    style={{ fontWeight: 700, marginLeft: c.hasChildren ? undefined : "auto" }}
+                  >
+                    {formatMoneyCents(c.cents, baseCurrency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      ) : null}
+
       {/* Results */}
       <section className="card">
-        <div className="card-header">
+        <div
+          className="card-header"
+          style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: 16 }}
+        >
           <div style={{ display: "grid", gap: 6 }}>
             <div className="h2">Results</div>
             <div className="subtle">
-              {month}
+              {periodLabel}
+              {type ? ` • ${type === "EXPENSE" ? "Expenses" : type === "INCOME" ? "Income" : "Transfers"}` : ""}
+              {minAmount || maxAmount ? ` • amount ${minAmount || "0"}–${maxAmount || "any"}` : ""}
               {q ? ` • search: “${q}”` : ""}
-              {categoryId ? ` • ${categoryId === "uncategorized" ? "Uncategorized" : "Category filter"}` : ""}
+              {categoryId
+                ? ` • ${categoryId === "uncategorized" ? "Uncategorized" : categoryPaths.get(categoryId) ?? "Category filter"}`
+                : ""}
               {` • ${paymentSourceLabel}`}
             </div>
           </div>
+
+          {!emptyState && items.length > 0 ? (
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", justifyContent: "flex-end" }}>
+              <a className="btn btn-secondary" href={exportHref("csv")} download>
+                Download CSV
+              </a>
+              <a className="btn btn-ghost" href={exportHref("json")} download>
+                JSON
+              </a>
+            </div>
+          ) : null}
         </div>
 
         <div className="card-body">
@@ -338,34 +701,38 @@ export default async function ReportsPage({ searchParams }: PageProps) {
           ) : items.length === 0 ? (
             <div className="subtle">No matches. Try adjusting filters.</div>
           ) : (
-            <ul style={{ display: "grid", gap: 10, listStyle: "none", padding: 0, margin: 0 }}>
-              {items.map((t) => (
-                <li
-                  key={t.id}
-                  style={{
-                    border: "1px solid rgb(var(--border))",
-                    borderRadius: 16,
-                    padding: 14,
-                    background: "rgba(255,255,255,0.6)",
-                  }}
-                >
-                  <TransactionRow
-                    id={t.id}
-                    description={t.description}
-                    amountCents={t.amountCents}
-                    type={t.type}
-                    dateISO={t.date.toISOString()}
-                    formattedDate={formatDate(t.date)}
-                    categoryId={t.categoryId}
-                    categoryName={t.category?.name ?? null}
-                    paymentSourceId={t.paymentSourceId}
-                    paymentSourceName={t.paymentSource?.name ?? null}
-                    notes={t.notes ?? null}
-                    flags={(t as any).flags ?? []}
-                  />
-                </li>
-              ))}
-            </ul>
+            <ReportsResults
+              rows={items.map((t) => ({
+                id: t.id,
+                description: t.description,
+                amountCents: t.amountCents,
+                currency: t.currency,
+                type: t.type,
+                dateISO: t.date.toISOString(),
+                formattedDate: formatDate(t.date),
+                categoryId: t.categoryId,
+                categoryName: t.category?.name ?? null,
+                payeeId: t.payeeId,
+                payeeName: t.payee?.name ?? null,
+                paymentSourceId: t.paymentSourceId,
+                paymentSourceName: t.paymentSource?.name ?? null,
+                transferToPaymentSourceId: t.transferToPaymentSourceId,
+                transferToPaymentSourceName: t.transferToPaymentSource?.name ?? null,
+                notes: t.notes ?? null,
+                tags: t.tags.map((tt) => tt.tag),
+                status: t.status,
+                splits: t.splits.map((sp) => ({
+                  categoryId: sp.categoryId,
+                  categoryName: sp.category?.name ?? null,
+                  amountCents: sp.amountCents,
+                  note: sp.note,
+                })),
+                attachments: t.attachments,
+              }))}
+              categories={categories}
+              paymentSources={paymentSources.map((p) => ({ id: p.id, name: p.name }))}
+              tags={tags.map((t) => ({ id: t.id, name: t.name }))}
+            />
           )}
         </div>
       </section>
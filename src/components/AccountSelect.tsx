@@ -3,7 +3,7 @@
 import * as React from "react";
 import * as Select from "@radix-ui/react-select";
 
-type Item = { id: string; name: string };
+type Item = { id: string; name: string; archivedAt?: string | Date | null };
 
 const NONE_VALUE = "__none__"; // transaction mode: maps to ""
 const ALL_VALUE = "__all__"; // filter mode: maps to ""
@@ -57,6 +57,9 @@ export function AccountSelect({
         ? "Loading…"
         : "No account";
 
+  // Archived accounts are hidden unless already selected
+  const visibleItems = items.filter((p) => !p.archivedAt || p.id === value);
+
   // radix internal -> external
   const handleValueChange = (v: string) => {
     if (mode === "filter") {
@@ -109,9 +112,9 @@ export function AccountSelect({
                 </Select.Item>
               )}
 
-              {items.length ? <div className="accSelectLabel">Accounts</div> : null}
+              {visibleItems.length ? <div className="accSelectLabel">Accounts</div> : null}
 
-              {items.map((p) => (
+              {visibleItems.map((p) => (
                 <Select.Item key={p.id} value={p.id} className="accSelectItem">
                   <Select.ItemText>{p.name}</Select.ItemText>
                 </Select.Item>
@@ -2,8 +2,9 @@
 
 import * as React from "react";
 import * as Select from "@radix-ui/react-select";
+import { flattenCategoryTree } from "@/lib/categories";
 
-type Item = { id: string; name: string };
+type Item = { id: string; name: string; parentId: string | null; archivedAt?: string | Date | null };
 
 const ALL_VALUE = "__all__";
 const UNCATEGORIZED_VALUE = "__uncategorized__";
@@ -26,6 +27,9 @@ export function CategorySelect({
   const radixValue =
     value === "" ? ALL_VALUE : value === "uncategorized" ? UNCATEGORIZED_VALUE : value;
 
+  // Archived categories are hidden unless already selected
+  const visibleItems = items.filter((c) => !c.archivedAt || c.id === value);
+
   return (
     <Select.Root
       value={radixValue}
@@ -62,10 +66,16 @@ export function CategorySelect({
               <Select.ItemText>Uncategorized</Select.ItemText>
             </Select.Item>
 
-            {items.length ? <div className="accSelectLabel">Categories</div> : null}
+            {visibleItems.length ? <div className="accSelectLabel">Categories</div> : null}
 
-            {items.map((c) => (
-              <Select.Item key={c.id} value={c.id} className="accSelectItem">
+            {/* Subcategories sit indented under their parent */}
+            {flattenCategoryTree(visibleItems).map((c) => (
+              <Select.Item
+                key={c.id}
+                value={c.id}
+                className="accSelectItem"
+                style={c.depth ? { paddingLeft: 10 + c.depth * 16 } : undefined}
+              >
                 <Select.ItemText>{c.name}</Select.ItemText>
               </Select.Item>
             ))}
@@ -0,0 +1,47 @@
+"use client";
+
+import * as React from "react";
+import { COMMON_CURRENCIES } from "@/lib/currency";
+
+export function CurrencySelect({
+  /** If provided, the select is submitted under this name */
+  name,
+
+  value,
+  onChange,
+
+  disabled,
+  width = 96,
+}: {
+  name?: string;
+
+  value: string;
+  onChange: (v: string) => void;
+
+  disabled?: boolean;
+  width?: number;
+}) {
+  // Keep a code that isn't in the common list (e.g. from an OFX import) selectable
+  const options = React.useMemo(
+    () => (value && !COMMON_CURRENCIES.includes(value) ? [value, ...COMMON_CURRENCIES] : COMMON_CURRENCIES),
+    [value]
+  );
+
+  return (
+    <select
+      name={name}
+      className="select"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label="Currency"
+      style={{ width }}
+    >
+      {options.map((c) => (
+        <option key={c} value={c}>
+          {c}
+        </option>
+      ))}
+    </select>
+  );
+}
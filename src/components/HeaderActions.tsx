@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import * as React from "react";
 import { useSession, signOut } from "next-auth/react";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
 
 const HOME_HREF = "/finance/transactions";
 const DASHBOARD_HREF = "/dashboard";
@@ -184,6 +185,18 @@ export function HeaderActions() {
       active: isActivePath(pathname, REPORTS_HREF),
       kind: "link" as const,
     },
+    // Saved report views are a signed-in feature
+    ...(isAuthed
+      ? [
+          {
+            href: "#views",
+            label: "Saved views",
+            icon: null,
+            active: false,
+            kind: "views" as const,
+          },
+        ]
+      : []),
     {
       href: PROFILE_HREF,
       label: "Profile",
@@ -219,6 +232,10 @@ export function HeaderActions() {
           ? { boxShadow: "0 0 0 3px rgba(0,0,0,0.06)" }
           : {};
 
+        if (it.kind === "views") {
+          return <SavedViewsMenu key={it.label} buttonStyle={commonStyle} />;
+        }
+
         if (it.kind === "logout") {
           return (
             <button
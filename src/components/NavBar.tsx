@@ -4,12 +4,13 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import * as React from "react";
 import { signOut, useSession } from "next-auth/react";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
 
 type NavItem = {
   href: string;
   label: string;
   icon: React.ReactNode;
-  kind?: "link" | "logout";
+  kind?: "link" | "logout" | "views";
 };
 
 function isActivePath(pathname: string, href: string) {
@@ -177,6 +178,8 @@ export function NavBar({
       icon: <IconFilter active={isActivePath(pathname, reportsHref)} />,
       kind: "link",
     },
+    // Saved report views are a signed-in feature (desktop; mobile uses the Reports page)
+    ...(isAuthed ? [{ href: "#views", label: "Saved views", icon: null, kind: "views" as const }] : []),
     {
       href: profileHref,
       label: "Profile",
@@ -209,6 +212,24 @@ export function NavBar({
         {items.map((it) => {
           const active = it.kind !== "logout" && isActivePath(pathname, it.href);
 
+          if (it.kind === "views") {
+            return (
+              <SavedViewsMenu
+                key={it.label}
+                buttonStyle={{
+                  display: "inline-flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  width: 40,
+                  height: 40,
+                  borderRadius: 12,
+                  border: "1px solid rgb(var(--border))",
+                  background: "rgb(var(--surface))",
+                }}
+              />
+            );
+          }
+
           if (it.kind === "logout") {
             return (
               <button
@@ -261,6 +282,8 @@ export function NavBar({
       {/* Mobile bottom nav */}
       <nav className="navMobile">
         {items.map((it) => {
+          if (it.kind === "views") return null;
+
           const active = it.kind !== "logout" && isActivePath(pathname, it.href);
 
           if (it.kind === "logout") {
@@ -0,0 +1,175 @@
+"use client";
+
+import * as React from "react";
+
+export type PayeeOption = {
+  id: string;
+  name: string;
+  defaultCategoryId: string | null;
+};
+
+/**
+ * What the picker holds:
+ * - payeeId set   => an existing payee was picked
+ * - payeeId null  => `name` is free text (a new payee, or "" for none)
+ */
+export type PayeeDraft = {
+  payeeId: string | null;
+  name: string;
+};
+
+export const EMPTY_PAYEE: PayeeDraft = { payeeId: null, name: "" };
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Payee autocomplete. Suggestions come from /api/finance/payees?q= (name or
+ * alias); anything typed that isn't picked is sent as a new payee name.
+ */
+export function PayeePicker({
+  value,
+  onChange,
+  onPick,
+  disabled = false,
+  placeholder = "e.g. Starbucks",
+  maxWidth,
+}: {
+  value: PayeeDraft;
+  onChange: (next: PayeeDraft) => void;
+  /** Called when an existing payee is chosen from the list. */
+  onPick?: (payee: PayeeOption) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  maxWidth?: number;
+}) {
+  const [options, setOptions] = React.useState<PayeeOption[]>([]);
+  const [open, setOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(-1);
+  const listId = React.useId();
+
+  const query = value.payeeId ? "" : value.name.trim();
+
+  React.useEffect(() => {
+    if (!open || !query) {
+      setOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const t = window.setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/finance/payees?q=${encodeURIComponent(query)}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) return;
+        const data = (await res.json()) as PayeeOption[];
+        if (!cancelled) {
+          setOptions(Array.isArray(data) ? data : []);
+          setActiveIndex(-1);
+        }
+      } catch {}
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [open, query]);
+
+  const pick = (p: PayeeOption) => {
+    onChange({ payeeId: p.id, name: p.name });
+    onPick?.(p);
+    setOpen(false);
+  };
+
+  const showList = open && options.length > 0;
+
+  return (
+    <div style={{ position: "relative", maxWidth }}>
+      <input
+        className="input"
+        value={value.name}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        onChange={(e) => {
+          onChange({ payeeId: null, name: e.target.value });
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on an option lands before the list unmounts
+        onBlur={() => window.setTimeout(() => setOpen(false), 120)}
+        onKeyDown={(e) => {
+          if (!showList) return;
+          // Keys that drive the list stay here (edit rows save on Enter)
+          if (e.key === "Enter" || e.key === "Escape") e.stopPropagation();
+          if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActiveIndex((i) => Math.min(i + 1, options.length - 1));
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActiveIndex((i) => Math.max(i - 1, 0));
+          } else if (e.key === "Enter" && activeIndex >= 0) {
+            e.preventDefault();
+            pick(options[activeIndex]);
+          } else if (e.key === "Escape") {
+            setOpen(false);
+          }
+        }}
+        style={{ width: "100%" }}
+      />
+
+      {value.payeeId ? null : value.name.trim() && !showList ? (
+        <div className="subtle" style={{ fontSize: 12, marginTop: 4 }}>
+          New payee
+        </div>
+      ) : null}
+
+      {showList ? (
+        <ul
+          id={listId}
+          role="listbox"
+          style={{
+            position: "absolute",
+            zIndex: 20,
+            top: "calc(100% + 4px)",
+            left: 0,
+            right: 0,
+            listStyle: "none",
+            margin: 0,
+            padding: 6,
+            background: "rgb(var(--surface))",
+            border: "1px solid rgb(var(--border))",
+            borderRadius: 12,
+            boxShadow: "0 8px 24px rgba(0,0,0,0.08)",
+          }}
+        >
+          {options.map((p, i) => (
+            <li
+              key={p.id}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(p);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 8,
+                cursor: "pointer",
+                background: i === activeIndex ? "rgba(0,0,0,0.06)" : "transparent",
+              }}
+            >
+              {p.name}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
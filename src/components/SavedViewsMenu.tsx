@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import * as React from "react";
+import { savedViewHref, type SavedViewSummary } from "@/lib/savedViews";
+
+function IconBookmark() {
+  return (
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" aria-hidden="true" style={{ opacity: 0.8 }}>
+      <path
+        d="M6 4h12a1 1 0 0 1 1 1v16l-7-4.5L5 21V5a1 1 0 0 1 1-1z"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Header quick pick for saved report views. The list loads when it's opened,
+ * so views saved on Reports show up without a reload.
+ */
+export function SavedViewsMenu({ buttonStyle }: { buttonStyle?: React.CSSProperties }) {
+  const [open, setOpen] = React.useState(false);
+  const [views, setViews] = React.useState<SavedViewSummary[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const rootRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setError(null);
+    fetch("/api/finance/saved-views", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Couldn’t load views.");
+        const data = (await res.json()) as SavedViewSummary[];
+        if (!cancelled) setViews(data);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Couldn’t load views.");
+      });
+
+    // Close on a click anywhere else
+    const onPointerDown = (e: PointerEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener("pointerdown", onPointerDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={rootRef} style={{ position: "relative" }}>
+      <button
+        type="button"
+        aria-label="Saved views"
+        title="Saved views"
+        aria-expanded={open}
+        className="btn btn-ghost"
+        style={{ ...buttonStyle, cursor: "pointer" }}
+        onClick={() => setOpen((v) => !v)}
+      >
+        <IconBookmark />
+      </button>
+
+      {open ? (
+        <div
+          role="menu"
+          style={{
+            position: "absolute",
+            right: 0,
+            top: "calc(100% + 8px)",
+            zIndex: 60,
+            minWidth: 220,
+            maxHeight: 360,
+            overflowY: "auto",
+            display: "grid",
+            gap: 2,
+            padding: 8,
+            borderRadius: 14,
+            border: "1px solid rgb(var(--border))",
+            background: "rgb(var(--surface))",
+            boxShadow: "0 18px 45px rgba(0, 0, 0, 0.12)",
+          }}
+        >
+          {error ? (
+            <div style={{ color: "rgb(var(--danger))", fontSize: 13, padding: 8 }}>{error}</div>
+          ) : views === null ? (
+            <div className="subtle" style={{ padding: 8 }}>
+              Loading…
+            </div>
+          ) : views.length === 0 ? (
+            <div className="subtle" style={{ fontSize: 13, padding: 8 }}>
+              No saved views yet. Save one from Reports.
+            </div>
+          ) : (
+            views.map((v) => (
+              <Link
+                key={v.id}
+                role="menuitem"
+                href={savedViewHref(v.params)}
+                onClick={() => setOpen(false)}
+                style={{ padding: "8px 10px", borderRadius: 10, textDecoration: "none", color: "inherit" }}
+              >
+                {v.isDefault ? "★ " : ""}
+                {v.name}
+              </Link>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import * as React from "react";
+import type { TagSummary } from "@/lib/tags";
+
+/** Read-only tag chip with the tag's color as a dot. */
+export function TagPill({ tag }: { tag: TagSummary }) {
+  return (
+    <span className="pill" style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+      <span
+        aria-hidden
+        style={{ width: 8, height: 8, borderRadius: 999, background: tag.color, flexShrink: 0 }}
+      />
+      {tag.name}
+    </span>
+  );
+}
+
+/**
+ * Toggle list of the user's tags. `value` is the selected tag ids.
+ */
+export function TagPicker({
+  tags,
+  value,
+  onChange,
+  disabled = false,
+  loading = false,
+}: {
+  tags: TagSummary[];
+  value: string[];
+  onChange: (next: string[]) => void;
+  disabled?: boolean;
+  loading?: boolean;
+}) {
+  if (loading) {
+    return (
+      <div className="subtle" style={{ fontSize: 12 }}>
+        Loading tags…
+      </div>
+    );
+  }
+
+  if (tags.length === 0) {
+    return (
+      <div className="subtle" style={{ fontSize: 12 }}>
+        No tags yet. Create some in Profile.
+      </div>
+    );
+  }
+
+  const toggle = (id: string) =>
+    onChange(value.includes(id) ? value.filter((v) => v !== id) : [...value, id]);
+
+  return (
+    <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+      {tags.map((t) => {
+        const active = value.includes(t.id);
+        return (
+          <button
+            key={t.id}
+            type="button"
+            className={`pill ${active ? "pill-accent" : ""}`}
+            onClick={() => toggle(t.id)}
+            disabled={disabled}
+            aria-pressed={active}
+            style={{
+              display: "inline-flex",
+              gap: 6,
+              alignItems: "center",
+              cursor: disabled ? "not-allowed" : "pointer",
+              opacity: disabled ? 0.6 : 1,
+            }}
+          >
+            <span
+              aria-hidden
+              style={{ width: 8, height: 8, borderRadius: 999, background: t.color, flexShrink: 0 }}
+            />
+            {t.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import {
   ResponsiveContainer,
   BarChart,
@@ -13,17 +15,25 @@ import {
   CartesianGrid,
   Legend,
 } from "recharts";
+import { DEFAULT_CURRENCY, formatMoneyCents } from "@/lib/currency";
 
-type CategoryRow = { name: string; cents: number };
+// href = drill into the category's children (parents only)
+type CategoryRow = { id: string | null; name: string; cents: number; href: string | null };
 
 // cents = expense cents; incomeCents = income cents
 type DailyRow = { day: string; cents: number; incomeCents?: number };
 
-function formatMoney(cents: number) {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(cents / 100);
+// Axis ticks: whole units only
+function formatAxisMoney(cents: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(Math.round(cents / 100));
+  } catch {
+    return String(Math.round(cents / 100));
+  }
 }
 
 // Keep labels compact: "2026-01-09" -> "Jan 9"
@@ -36,7 +46,7 @@ function formatDayLabel(yyyyMmDd: string) {
   }).format(dt);
 }
 
-function TooltipMoneyMulti({ active, payload, label }: any) {
+function TooltipMoneyMulti({ active, payload, label, currency = DEFAULT_CURRENCY }: any) {
   if (!active || !payload?.length) return null;
 
   // payload contains one entry per Line in the chart
@@ -65,12 +75,12 @@ function TooltipMoneyMulti({ active, payload, label }: any) {
       <div style={{ display: "grid", gap: 4 }}>
         <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
           <span className="subtle">Expenses</span>
-          <span style={{ fontWeight: 700 }}>{formatMoney(expense)}</span>
+          <span style={{ fontWeight: 700 }}>{formatMoneyCents(expense, currency)}</span>
         </div>
 
         <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
           <span className="subtle">Income</span>
-          <span style={{ fontWeight: 700 }}>{formatMoney(income)}</span>
+          <span style={{ fontWeight: 700 }}>{formatMoneyCents(income, currency)}</span>
         </div>
 
         <div
@@ -83,7 +93,7 @@ function TooltipMoneyMulti({ active, payload, label }: any) {
 
         <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
           <span className="subtle">Net</span>
-          <span style={{ fontWeight: 800 }}>{formatMoney(income - expense)}</span>
+          <span style={{ fontWeight: 800 }}>{formatMoneyCents(income - expense, currency)}</span>
         </div>
       </div>
     </div>
@@ -92,11 +102,17 @@ function TooltipMoneyMulti({ active, payload, label }: any) {
 
 export function DashboardCharts({
   categoryRows,
+  categoryDrill = null,
   dailySeries,
+  currency = DEFAULT_CURRENCY,
 }: {
   categoryRows: CategoryRow[];
+  categoryDrill?: { path: string; upHref: string } | null; // set while inside a parent
   dailySeries: DailyRow[];
+  currency?: string;
 }) {
+  const router = useRouter();
+
   // Bar chart wants short labels; we’ll show top 10 for clarity
   const barData = React.useMemo(() => categoryRows.slice(0, 10), [categoryRows]);
 
@@ -124,7 +140,19 @@ export function DashboardCharts({
         <div className="card-header">
           <div>
             <div className="h2">Spending by category</div>
-            <div className="subtle">Top categories (expenses only).</div>
+            {categoryDrill ? (
+              <div className="subtle">
+                Inside {categoryDrill.path} •{" "}
+                <Link href={categoryDrill.upHref} style={{ textDecoration: "underline" }}>
+                  Up a level
+                </Link>
+              </div>
+            ) : (
+              <div className="subtle">
+                Top categories (expenses only).
+                {categoryRows.some((r) => r.href) ? " Click a parent category to see its subcategories." : ""}
+              </div>
+            )}
           </div>
         </div>
 
@@ -155,7 +183,7 @@ export function DashboardCharts({
                   tickLine={false}
                   axisLine={false}
                   tick={{ fontSize: 12 }}
-                  tickFormatter={(v) => `$${Math.round(v / 100)}`}
+                  tickFormatter={(v) => formatAxisMoney(v, currency)}
                 />
 
                 <Tooltip
@@ -174,13 +202,22 @@ export function DashboardCharts({
                         }}
                       >
                         <div style={{ fontWeight: 700, marginBottom: 4 }}>{label}</div>
-                        <div className="subtle">{formatMoney(cents)}</div>
+                        <div className="subtle">{formatMoneyCents(cents, currency)}</div>
                       </div>
                     );
                   }}
                 />
 
-                <Bar dataKey="cents" fill="rgb(var(--accent))" radius={[10, 10, 0, 0]} />
+                <Bar
+                  dataKey="cents"
+                  fill="rgb(var(--accent))"
+                  radius={[10, 10, 0, 0]}
+                  cursor="pointer"
+                  onClick={(data) => {
+                    const href = (data?.payload as CategoryRow | undefined)?.href;
+                    if (href) router.push(href);
+                  }}
+                />
               </BarChart>
             </ResponsiveContainer>
           )}
@@ -223,10 +260,10 @@ export function DashboardCharts({
                   tickLine={false}
                   axisLine={false}
                   tick={{ fontSize: 12 }}
-                  tickFormatter={(v) => `$${Math.round(v / 100)}`}
+                  tickFormatter={(v) => formatAxisMoney(v, currency)}
                 />
 
-                <Tooltip content={<TooltipMoneyMulti />} labelFormatter={(l: string) => formatDayLabel(l)} />
+                <Tooltip content={<TooltipMoneyMulti currency={currency} />} labelFormatter={(l: string) => formatDayLabel(l)} />
 
                 <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: 12 }} />
 
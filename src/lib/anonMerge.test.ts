@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import { planAnonCategoryMerge } from "@/lib/anonMerge";
+
+// Planning never touches the database (vi.mock is hoisted above the imports)
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+const cat = (id: string, name: string, parentId: string | null = null) => ({ id, name, parentId });
+const authed = (id: string, name: string, parentId: string | null = null, archived = false) => ({
+  ...cat(id, name, parentId),
+  archivedAt: archived ? new Date(2026, 0, 1) : null,
+});
+
+describe("planAnonCategoryMerge", () => {
+  it("folds guest categories into same-named ones and keeps their subcategories under them", () => {
+    const plan = planAnonCategoryMerge(
+      [cat("g-food", "food"), cat("g-coffee", "Coffee", "g-food"), cat("g-rent", "Rent")],
+      [authed("a-food", "Food")]
+    );
+    expect([...plan.mergedInto]).toEqual([["g-food", "a-food"]]);
+    expect(Object.fromEntries(plan.parentOf)).toEqual({ "g-coffee": "a-food", "g-rent": null });
+  });
+
+  it("moves subcategories to the top level rather than too deep or under an archived category", () => {
+    const tooDeep = planAnonCategoryMerge(
+      [cat("g-food", "Food"), cat("g-coffee", "Coffee", "g-food"), cat("g-beans", "Beans", "g-coffee")],
+      [authed("a-home", "Home"), authed("a-food", "Food", "a-home")]
+    );
+    expect(Object.fromEntries(tooDeep.parentOf)).toEqual({ "g-coffee": null, "g-beans": "g-coffee" });
+
+    const archived = planAnonCategoryMerge(
+      [cat("g-food", "Food"), cat("g-coffee", "Coffee", "g-food")],
+      [authed("a-food", "Food", null, true)]
+    );
+    expect(Object.fromEntries(archived.parentOf)).toEqual({ "g-coffee": null });
+  });
+});
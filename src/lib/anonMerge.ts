@@ -0,0 +1,261 @@
+/** ----------------------------
+ * Guest data merge
+ *
+ * When someone who used the app as a guest signs in (or imports their guest
+ * data later), everything the anonymous user owns moves to their account:
+ * categories, tags and payees merge by name, transactions, history and
+ * recurring rules move over, and the anonymous user is deleted.
+ * ---------------------------- */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { validateCategoryTree } from "@/lib/categories";
+import { deleteStoredFiles } from "@/lib/storage";
+
+type Db = Prisma.TransactionClient;
+
+type AnonCategory = { id: string; name: string; parentId: string | null };
+type AuthedCategory = AnonCategory & { archivedAt: Date | null };
+
+/**
+ * Categories merge by name: a guest category the account already has is
+ * folded into it (its subcategories move under the account's one), the rest
+ * move over as they are. A subcategory that would end up too deep, or under
+ * an archived category, moves to the top level instead.
+ *
+ * Returns the guest categories folded into the account's (guest id -> id)
+ * and each moved one's parent after the merge.
+ */
+export function planAnonCategoryMerge(anonCategories: AnonCategory[], authedCategories: AuthedCategory[]) {
+  const authedByName = new Map(authedCategories.map((c) => [c.name.toLowerCase(), c.id]));
+  const mergedInto = new Map<string, string>();
+  for (const c of anonCategories) {
+    const key = c.name.toLowerCase();
+    const existingId = authedByName.get(key);
+    if (existingId) mergedInto.set(c.id, existingId);
+    else authedByName.set(key, c.id);
+  }
+
+  const moved = anonCategories.filter((c) => !mergedInto.has(c.id));
+  const parentOf = new Map<string, string | null>(
+    moved.map((c) => [c.id, c.parentId ? (mergedInto.get(c.parentId) ?? c.parentId) : null])
+  );
+
+  const archivedIds = new Set(authedCategories.filter((c) => c.archivedAt).map((c) => c.id));
+  const treeError = validateCategoryTree([
+    ...authedCategories.map((c) => ({ id: c.id, parentId: c.parentId })),
+    ...moved.map((c) => ({ id: c.id, parentId: parentOf.get(c.id) ?? null })),
+  ]);
+  for (const c of moved) {
+    const parentId = parentOf.get(c.id) ?? null;
+    const repointed = parentId !== null && parentId !== c.parentId;
+    if (repointed && (treeError || archivedIds.has(parentId))) parentOf.set(c.id, null);
+  }
+
+  return { mergedInto, parentOf };
+}
+
+async function mergeAnonCategories(tx: Db, anonUserId: string, authedUserId: string) {
+  const [anonCategories, authedCategories] = await Promise.all([
+    tx.category.findMany({
+      where: { userId: anonUserId },
+      select: { id: true, name: true, parentId: true },
+    }),
+    tx.category.findMany({
+      where: { userId: authedUserId },
+      select: { id: true, name: true, parentId: true, archivedAt: true },
+    }),
+  ]);
+  const { mergedInto, parentOf } = planAnonCategoryMerge(anonCategories, authedCategories);
+
+  // Moved first, so no subcategory still points at a guest category being deleted
+  for (const [id, parentId] of parentOf) {
+    await tx.category.update({
+      where: { id },
+      data: { userId: authedUserId, parentId },
+    });
+  }
+
+  for (const [anonId, existingId] of mergedInto) {
+    await tx.transaction.updateMany({
+      where: { userId: anonUserId, categoryId: anonId },
+      data: { categoryId: existingId },
+    });
+    await tx.transactionSplit.updateMany({
+      where: { categoryId: anonId, transaction: { userId: anonUserId } },
+      data: { categoryId: existingId },
+    });
+    await tx.recurringTransaction.updateMany({
+      where: { userId: anonUserId, categoryId: anonId },
+      data: { categoryId: existingId },
+    });
+    await tx.payee.updateMany({
+      where: { userId: anonUserId, defaultCategoryId: anonId },
+      data: { defaultCategoryId: existingId },
+    });
+    await tx.category.delete({ where: { id: anonId } });
+  }
+}
+
+/**
+ * Moves everything the anonymous user owns to the signed-in user, in one
+ * database transaction, then removes files left on the anonymous user's
+ * deleted rows. The signed-in user is looked up by id, then by email (the
+ * adapter may not have written the id yet); throws if neither finds them.
+ */
+export async function mergeAnonUser(params: {
+  anonUserId: string;
+  authedUserId: string;
+  authedEmail?: string | null;
+}) {
+  const { anonUserId, authedEmail } = params;
+  let orphanedStorageKeys: string[] = [];
+
+  await prisma.$transaction(async (tx) => {
+    // Ensure the authed user row exists in DB before re-pointing FKs
+    let authedUser = await tx.user.findUnique({
+      where: { id: params.authedUserId },
+      select: { id: true },
+    });
+    if (!authedUser && authedEmail) {
+      authedUser = await tx.user.findUnique({
+        where: { email: authedEmail },
+        select: { id: true },
+      });
+    }
+    if (!authedUser) {
+      throw new Error(`Authed user not found in DB (id=${params.authedUserId}, email=${authedEmail ?? "n/a"})`);
+    }
+
+    const authedUserId = authedUser.id;
+
+    await mergeAnonCategories(tx, anonUserId, authedUserId);
+
+    // Merge tags the same way (a transaction keeps one link per tag)
+    const [anonTags, authedTags] = await Promise.all([
+      tx.tag.findMany({
+        where: { userId: anonUserId },
+        select: { id: true, name: true },
+      }),
+      tx.tag.findMany({
+        where: { userId: authedUserId },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const authedTagByName = new Map(authedTags.map((t) => [t.name.toLowerCase(), t.id]));
+
+    for (const anonTag of anonTags) {
+      const key = anonTag.name.toLowerCase();
+      const existingId = authedTagByName.get(key);
+
+      if (existingId) {
+        const links = await tx.transactionTag.findMany({
+          where: { tagId: anonTag.id },
+          select: { transactionId: true },
+        });
+        await tx.transactionTag.createMany({
+          data: links.map((l) => ({ transactionId: l.transactionId, tagId: existingId })),
+          skipDuplicates: true,
+        });
+
+        // Deleting the anon tag drops its old links
+        await tx.tag.delete({ where: { id: anonTag.id } });
+      } else {
+        await tx.tag.update({
+          where: { id: anonTag.id },
+          data: { userId: authedUserId },
+        });
+        authedTagByName.set(key, anonTag.id);
+      }
+    }
+
+    // Merge payees by name; an alias the signed-in user already has stays theirs
+    const [anonPayees, authedPayees, authedAliases] = await Promise.all([
+      tx.payee.findMany({
+        where: { userId: anonUserId },
+        select: { id: true, name: true, aliases: { select: { id: true, pattern: true } } },
+      }),
+      tx.payee.findMany({
+        where: { userId: authedUserId },
+        select: { id: true, name: true },
+      }),
+      tx.payeeAlias.findMany({
+        where: { userId: authedUserId },
+        select: { pattern: true },
+      }),
+    ]);
+
+    const authedPayeeByName = new Map(authedPayees.map((p) => [p.name.toLowerCase(), p.id]));
+    const authedPatterns = new Set(authedAliases.map((a) => a.pattern));
+
+    for (const anonPayee of anonPayees) {
+      const key = anonPayee.name.toLowerCase();
+      const existingId = authedPayeeByName.get(key);
+      const targetId = existingId ?? anonPayee.id;
+
+      for (const alias of anonPayee.aliases) {
+        if (authedPatterns.has(alias.pattern)) {
+          await tx.payeeAlias.delete({ where: { id: alias.id } });
+        } else {
+          await tx.payeeAlias.update({
+            where: { id: alias.id },
+            data: { userId: authedUserId, payeeId: targetId },
+          });
+          authedPatterns.add(alias.pattern);
+        }
+      }
+
+      if (existingId) {
+        await tx.transaction.updateMany({
+          where: { userId: anonUserId, payeeId: anonPayee.id },
+          data: { payeeId: existingId },
+        });
+        await tx.payee.delete({ where: { id: anonPayee.id } });
+      } else {
+        await tx.payee.update({
+          where: { id: anonPayee.id },
+          data: { userId: authedUserId },
+        });
+        authedPayeeByName.set(key, anonPayee.id);
+      }
+    }
+
+    // Their edit history was made by the same person
+    await tx.transactionRevision.updateMany({
+      where: { actorUserId: anonUserId },
+      data: { actorUserId: authedUserId },
+    });
+
+    // Move all anon transactions to the authed user
+    await tx.transaction.updateMany({
+      where: { userId: anonUserId },
+      data: { userId: authedUserId },
+    });
+
+    // Recurring rules come along with the transactions they already posted.
+    // Categories were remapped above; guests can't add payment sources, so
+    // their rules have none to remap
+    await tx.recurringTransaction.updateMany({
+      where: { userId: anonUserId },
+      data: { userId: authedUserId },
+    });
+
+    // Remove anon sessions for the anon user (invalidates cookie->db mapping)
+    await tx.anonSession.deleteMany({ where: { userId: anonUserId } });
+
+    // Anything still attached to the anon user goes with it; its files are removed after commit
+    const leftover = await tx.attachment.findMany({
+      where: { transaction: { userId: anonUserId } },
+      select: { storageKey: true },
+    });
+    orphanedStorageKeys = leftover.map((a) => a.storageKey);
+
+    // Delete the anon user record if it truly was anonymous
+    await tx.user.deleteMany({
+      where: { id: anonUserId, isAnonymous: true },
+    });
+  });
+
+  await deleteStoredFiles(orphanedStorageKeys);
+}
@@ -0,0 +1,37 @@
+/** ----------------------------
+ * Transaction attachments (receipts, documents)
+ *
+ * Pure helpers: safe to import from client components.
+ * ---------------------------- */
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10 MB
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+export const ATTACHMENT_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/heic",
+  "application/pdf",
+];
+
+// For <input type="file" accept>
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(",");
+
+export function isImageContentType(contentType: string) {
+  return contentType.startsWith("image/");
+}
+
+/** Strips path parts and control characters; keeps the name short enough to display. */
+export function sanitizeFileName(input: string) {
+  const base = input.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+  return (cleaned || "attachment").slice(0, 120);
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackupArchive } from "@/lib/backup";
+import { formatLocalDateOnly, parseLocalDateOnly } from "@/lib/transactions";
+
+// Parsing never touches the database (vi.mock is hoisted above the imports)
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+const base = {
+  format: BACKUP_FORMAT,
+  categories: [
+    { id: "c1", name: "Food", sortOrder: 0 },
+    { id: "c2", name: "Rent", sortOrder: 1 },
+  ],
+  paymentSources: [{ id: "p1", name: "Checking", type: "BANK" }],
+  tags: [{ id: "t1", name: "Work" }],
+};
+
+const transaction = {
+  date: "2026-03-01",
+  description: "Groceries and rent",
+  amountCents: 5000,
+  type: "EXPENSE",
+  categoryId: null,
+};
+
+describe("parseBackupArchive", () => {
+  it("reads version 1 archives, which have no splits or settings", () => {
+    const res = parseBackupArchive({ ...base, version: 1, transactions: [transaction] });
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value.version).toBe(BACKUP_VERSION);
+    expect(res.value.transactions[0].splits).toEqual([]);
+    expect(res.value.recurringTransactions).toEqual([]);
+    expect(res.value.budgets).toEqual([]);
+    expect(res.value.rules).toEqual([]);
+    expect(res.value.savedViews).toEqual([]);
+    expect(res.value.reconciliations).toEqual([]);
+  });
+
+  it("reads split lines, recurring rules and settings", () => {
+    const res = parseBackupArchive({
+      ...base,
+      version: BACKUP_VERSION,
+      preferences: { defaultReportViewId: "v1" },
+      transactions: [
+        {
+          ...transaction,
+          categoryId: "c1",
+          splits: [
+            { categoryId: "c1", amountCents: 2000, note: "food" },
+            { categoryId: "c2", amountCents: 3000 },
+          ],
+        },
+      ],
+      recurringTransactions: [
+        {
+          description: "Rent",
+          amountCents: 120000,
+          type: "EXPENSE",
+          categoryId: "c2",
+          paymentSourceId: "p1",
+          frequency: "MONTHLY",
+          startDate: "2026-01-01",
+          nextDate: "2026-04-01",
+        },
+      ],
+      budgets: [{ categoryId: "c1", month: null, amountCents: 40000 }],
+      rules: [{ name: "Office", descriptionPattern: "staples", setCategoryId: "c1", addTagIds: ["t1"] }],
+      savedViews: [{ id: "v1", name: "Food only", params: { categoryId: "c1", range: "ytd" } }],
+      reconciliations: [
+        { paymentSourceId: "p1", statementDate: "2026-02-28", endingBalanceCents: -1500, transactionCount: 12 },
+      ],
+    });
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+
+    const [t] = res.value.transactions;
+    expect(t.categoryId).toBeNull(); // a split's category lives on its lines
+    expect(t.splits.map((s) => s.categoryId)).toEqual(["c1", "c2"]);
+    expect(res.value.recurringTransactions[0]).toMatchObject({ frequency: "MONTHLY", dayOfMonth: 1, isActive: true });
+    expect(res.value.rules[0]).toMatchObject({ descriptionMatch: "CONTAINS", enabled: true, addTagIds: ["t1"] });
+    expect(res.value.preferences.defaultReportViewId).toBe("v1");
+  });
+
+  it("rejects split lines that don't add up", () => {
+    const res = parseBackupArchive({
+      ...base,
+      version: BACKUP_VERSION,
+      transactions: [
+        {
+          ...transaction,
+          splits: [
+            { categoryId: "c1", amountCents: 2000 },
+            { categoryId: "c2", amountCents: 2000 },
+          ],
+        },
+      ],
+    });
+    expect(res).toMatchObject({ ok: false, error: expect.stringMatching(/add up/) });
+  });
+
+  it("rejects settings that point outside the archive", () => {
+    const rule = { name: "Office", descriptionPattern: "staples", setCategoryId: "c1" };
+    expect(
+      parseBackupArchive({ ...base, version: BACKUP_VERSION, rules: [{ ...rule, addTagIds: ["nope"] }] })
+    ).toMatchObject({ ok: false });
+    expect(
+      parseBackupArchive({ ...base, version: BACKUP_VERSION, budgets: [{ categoryId: "nope", amountCents: 100 }] })
+    ).toMatchObject({ ok: false });
+    expect(
+      parseBackupArchive({
+        ...base,
+        version: BACKUP_VERSION,
+        reconciliations: [{ paymentSourceId: "nope", statementDate: "2026-02-28", endingBalanceCents: 0 }],
+      })
+    ).toMatchObject({ ok: false });
+  });
+
+  describe("dates", () => {
+    const tz = process.env.TZ;
+    afterEach(() => {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    });
+
+    it("round-trips local dates on servers east of UTC", () => {
+      process.env.TZ = "Europe/Berlin";
+      const day = new Date(2026, 2, 15); // stored as local midnight, 23:00 UTC the day before
+
+      const res = parseBackupArchive({
+        ...base,
+        version: BACKUP_VERSION,
+        exchangeRates: [{ date: formatLocalDateOnly(day), fromCurrency: "EUR", toCurrency: "USD", rate: "1.1" }],
+        transactions: [{ ...transaction, date: formatLocalDateOnly(day) }],
+      });
+      expect(res.ok).toBe(true);
+      if (!res.ok) return;
+
+      expect(res.value.transactions[0].date).toBe("2026-03-15");
+      expect(parseLocalDateOnly(res.value.transactions[0].date)?.getTime()).toBe(day.getTime());
+      expect(parseLocalDateOnly(res.value.exchangeRates[0].date)?.getTime()).toBe(day.getTime());
+    });
+  });
+});
@@ -0,0 +1,784 @@
+/** ----------------------------
+ * Account backup archive (GET /api/user/backup, POST /api/user/backup/restore)
+ *
+ * Versioned JSON. Ids inside an archive are only used to link rows to each
+ * other (transaction -> category / payment source / payee); restore always creates
+ * fresh ids and remaps every reference.
+ * ---------------------------- */
+
+import {
+  MAX_AMOUNT_CENTS,
+  parseLocalDateOnly,
+  parseTransactionSplits,
+  parseTransactionStatus,
+  parseTransactionType,
+  type TransactionSplitInput,
+  type TransactionStatus,
+  type TransactionType,
+} from "@/lib/transactions";
+import { DEFAULT_CURRENCY, parseCurrencyCode, parseRate } from "@/lib/currency";
+import { DEFAULT_TAG_COLOR, LEGACY_FLAG_TAGS, parseTagColor, validateTagName } from "@/lib/tags";
+import { parsePayeeAliases, validatePayeeName } from "@/lib/payees";
+import { validateCategoryTree } from "@/lib/categories";
+import { parseRecurrenceSchedule, type RecurrenceFrequency } from "@/lib/recurring";
+import { parseBudgetMonth } from "@/lib/budgets";
+import {
+  MAX_RULES,
+  hasRuleAction,
+  hasRuleCondition,
+  parseRuleAmountCents,
+  parseRuleDescriptionCondition,
+  validateRuleName,
+  type RuleDescriptionMatch,
+} from "@/lib/rules";
+import {
+  MAX_SAVED_VIEWS,
+  parseSavedViewParams,
+  validateSavedViewName,
+  type SavedViewParams,
+} from "@/lib/savedViews";
+
+export const BACKUP_FORMAT = "zento-backup";
+export const BACKUP_VERSION = 2;
+
+export const MAX_BACKUP_TRANSACTIONS = 100_000;
+
+export type PaymentSourceType = "BANK" | "CARD" | "CASH";
+
+export type BackupCategory = {
+  id: string;
+  name: string;
+  sortOrder: number;
+  parentId: string | null; // archive id; missing in archives from before nesting
+  archived: boolean; // missing in archives from before archiving
+};
+
+export type BackupPaymentSource = {
+  id: string;
+  name: string;
+  type: PaymentSourceType;
+  currency: string;
+  archived: boolean;
+};
+
+export type BackupTag = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type BackupPayee = {
+  id: string;
+  name: string;
+  defaultCategoryId: string | null; // archive id
+  aliases: string[]; // normalized patterns
+};
+
+export type BackupExchangeRate = {
+  date: string; // YYYY-MM-DD
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+};
+
+export type BackupTransaction = {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amountCents: number; // always positive; direction comes from type
+  currency: string;
+  type: TransactionType;
+  status: TransactionStatus;
+  notes: string | null;
+  tagIds: string[]; // archive ids
+  categoryId: string | null; // archive id
+  payeeId: string | null; // archive id
+  paymentSourceId: string | null; // archive id
+  transferToPaymentSourceId: string | null; // archive id, TRANSFER only
+  splits: TransactionSplitInput[]; // categoryId is an archive id; empty unless split
+  externalId: string | null;
+  createdAt: string; // ISO timestamp
+};
+
+export type BackupRecurringTransaction = {
+  description: string;
+  amountCents: number; // always positive; direction comes from type
+  type: TransactionType;
+  notes: string | null;
+  categoryId: string | null; // archive id
+  paymentSourceId: string | null; // archive id
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfMonth: number | null;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD
+  nextDate: string | null; // YYYY-MM-DD, null once the rule has ended
+  isActive: boolean;
+};
+
+export type BackupBudget = {
+  categoryId: string; // archive id
+  month: string | null; // YYYY-MM, null = every month
+  amountCents: number;
+};
+
+export type BackupTransactionRule = {
+  name: string;
+  priority: number;
+  enabled: boolean;
+  descriptionMatch: RuleDescriptionMatch | null;
+  descriptionPattern: string | null;
+  minAmountCents: number | null;
+  maxAmountCents: number | null;
+  type: TransactionType | null;
+  paymentSourceId: string | null; // archive id
+  setCategoryId: string | null; // archive id
+  setPaymentSourceId: string | null; // archive id
+  renameTo: string | null;
+  addTagIds: string[]; // archive ids
+};
+
+export type BackupSavedView = {
+  id: string;
+  name: string;
+  params: SavedViewParams; // categoryId / paymentSourceId / tagId / payeeId are archive ids
+};
+
+export type BackupReconciliation = {
+  paymentSourceId: string; // archive id
+  statementDate: string; // YYYY-MM-DD
+  endingBalanceCents: number;
+  transactionCount: number;
+  createdAt: string; // ISO timestamp
+};
+
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  preferences: {
+    defaultTransactionsPaymentSourceId: string | null; // archive id
+    defaultReportViewId: string | null; // archive id
+    baseCurrency: string;
+  };
+  categories: BackupCategory[];
+  paymentSources: BackupPaymentSource[];
+  tags: BackupTag[];
+  payees: BackupPayee[];
+  exchangeRates: BackupExchangeRate[];
+  transactions: BackupTransaction[];
+  recurringTransactions: BackupRecurringTransaction[];
+  budgets: BackupBudget[];
+  rules: BackupTransactionRule[];
+  savedViews: BackupSavedView[];
+  reconciliations: BackupReconciliation[];
+};
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const PAYMENT_SOURCE_TYPES = new Set<PaymentSourceType>(["BANK", "CARD", "CASH"]);
+// Archive ids for tags made from the `flags` of archives written before tags existed
+const LEGACY_FLAG_ID_PREFIX = "legacy-flag:";
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function optionalString(v: unknown): string | null {
+  if (v === undefined || v === null) return null;
+  const s = String(v).trim();
+  return s ? s : null;
+}
+
+function parseCategories(input: unknown): ParseResult<BackupCategory[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "categories must be an array" };
+
+  const out: BackupCategory[] = [];
+  const ids = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    if (!isRecord(raw)) return { ok: false, error: `categories[${i}] must be an object` };
+
+    const id = optionalString(raw.id);
+    const name = optionalString(raw.name);
+    if (!id || !name) return { ok: false, error: `categories[${i}] needs an id and a name` };
+    if (ids.has(id)) return { ok: false, error: `categories[${i}] has a duplicate id` };
+
+    const sortOrder = Number(raw.sortOrder ?? i);
+    ids.add(id);
+    out.push({
+      id,
+      name,
+      sortOrder: Number.isInteger(sortOrder) ? sortOrder : i,
+      parentId: optionalString(raw.parentId),
+      archived: raw.archived === true,
+    });
+  }
+
+  const treeError = validateCategoryTree(out);
+  if (treeError) return { ok: false, error: `categories: ${treeError}` };
+
+  return { ok: true, value: out };
+}
+
+function parsePaymentSources(input: unknown): ParseResult<BackupPaymentSource[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "paymentSources must be an array" };
+
+  const out: BackupPaymentSource[] = [];
+  const ids = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    if (!isRecord(raw)) return { ok: false, error: `paymentSources[${i}] must be an object` };
+
+    const id = optionalString(raw.id);
+    const name = optionalString(raw.name);
+    if (!id || !name) return { ok: false, error: `paymentSources[${i}] needs an id and a name` };
+    if (ids.has(id)) return { ok: false, error: `paymentSources[${i}] has a duplicate id` };
+
+    const type = String(raw.type ?? "").toUpperCase() as PaymentSourceType;
+    if (!PAYMENT_SOURCE_TYPES.has(type)) {
+      return { ok: false, error: `paymentSources[${i}] has an invalid type` };
+    }
+
+    // Optional: archives written before currencies existed are all USD
+    const currency = raw.currency === undefined ? DEFAULT_CURRENCY : parseCurrencyCode(raw.currency);
+    if (!currency) return { ok: false, error: `paymentSources[${i}] has an invalid currency` };
+
+    ids.add(id);
+    out.push({ id, name, type, currency, archived: raw.archived === true });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseTags(input: unknown): ParseResult<BackupTag[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "tags must be an array" };
+
+  const out: BackupTag[] = [];
+  const ids = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    if (!isRecord(raw)) return { ok: false, error: `tags[${i}] must be an object` };
+
+    const id = optionalString(raw.id);
+    const name = validateTagName(raw.name);
+    if (!id || !name.ok) return { ok: false, error: `tags[${i}] needs an id and a valid name` };
+    if (ids.has(id)) return { ok: false, error: `tags[${i}] has a duplicate id` };
+
+    ids.add(id);
+    out.push({ id, name: name.value, color: parseTagColor(raw.color) ?? DEFAULT_TAG_COLOR });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parsePayees(input: unknown, categoryIds: Set<string>): ParseResult<BackupPayee[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "payees must be an array" };
+
+  const out: BackupPayee[] = [];
+  const ids = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    const where = `payees[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const id = optionalString(raw.id);
+    const name = validatePayeeName(raw.name);
+    if (!id || !name.ok) return { ok: false, error: `${where} needs an id and a valid name` };
+    if (ids.has(id)) return { ok: false, error: `${where} has a duplicate id` };
+
+    const defaultCategoryId = optionalString(raw.defaultCategoryId);
+    if (defaultCategoryId && !categoryIds.has(defaultCategoryId)) {
+      return { ok: false, error: `${where}.defaultCategoryId does not match any category` };
+    }
+
+    const aliases = parsePayeeAliases(raw.aliases ?? []);
+    if (!aliases.ok) return { ok: false, error: `${where}: ${aliases.error}` };
+
+    ids.add(id);
+    out.push({ id, name: name.value, defaultCategoryId, aliases: aliases.value ?? [] });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseExchangeRates(input: unknown): ParseResult<BackupExchangeRate[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "exchangeRates must be an array" };
+
+  const out: BackupExchangeRate[] = [];
+
+  for (const [i, raw] of input.entries()) {
+    const where = `exchangeRates[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const date = typeof raw.date === "string" ? raw.date : "";
+    if (!parseLocalDateOnly(date)) return { ok: false, error: `${where}.date must be YYYY-MM-DD` };
+
+    const fromCurrency = parseCurrencyCode(raw.fromCurrency);
+    const toCurrency = parseCurrencyCode(raw.toCurrency);
+    if (!fromCurrency || !toCurrency || fromCurrency === toCurrency) {
+      return { ok: false, error: `${where} has an invalid currency pair` };
+    }
+
+    const rate = parseRate(raw.rate);
+    if (rate === null) return { ok: false, error: `${where}.rate must be a positive number` };
+
+    out.push({ date, fromCurrency, toCurrency, rate });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseTransactions(
+  input: unknown,
+  categoryIds: Set<string>,
+  paymentSourceIds: Set<string>,
+  tagIds: Set<string>,
+  payeeIds: Set<string>
+): ParseResult<BackupTransaction[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "transactions must be an array" };
+  if (input.length > MAX_BACKUP_TRANSACTIONS) {
+    return { ok: false, error: `Too many transactions (max ${MAX_BACKUP_TRANSACTIONS})` };
+  }
+
+  const out: BackupTransaction[] = [];
+
+  for (const [i, raw] of input.entries()) {
+    const where = `transactions[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const date = typeof raw.date === "string" ? raw.date : "";
+    if (!parseLocalDateOnly(date)) return { ok: false, error: `${where}.date must be YYYY-MM-DD` };
+
+    const description = optionalString(raw.description);
+    if (!description) return { ok: false, error: `${where}.description is required` };
+
+    const amountCents = Number(raw.amountCents);
+    if (!Number.isInteger(amountCents) || amountCents <= 0 || amountCents > MAX_AMOUNT_CENTS) {
+      return { ok: false, error: `${where}.amountCents is out of bounds` };
+    }
+
+    const type = parseTransactionType(raw.type);
+    if (!type) return { ok: false, error: `${where}.type must be EXPENSE, INCOME or TRANSFER` };
+
+    // Optional: archives written before reconciliation existed don't have it
+    const status = raw.status === undefined ? "PENDING" : parseTransactionStatus(raw.status);
+    if (!status) return { ok: false, error: `${where}.status must be PENDING, CLEARED or RECONCILED` };
+
+    const currency = raw.currency === undefined ? DEFAULT_CURRENCY : parseCurrencyCode(raw.currency);
+    if (!currency) return { ok: false, error: `${where}.currency is not a currency code` };
+
+    const tagIdsRaw = raw.tagIds ?? [];
+    if (!Array.isArray(tagIdsRaw) || tagIdsRaw.some((id) => !tagIds.has(String(id)))) {
+      return { ok: false, error: `${where}.tagIds does not match any tag` };
+    }
+
+    // Optional: archives written before tags existed carry the old fixed flags instead
+    const flagsRaw = raw.flags ?? [];
+    if (!Array.isArray(flagsRaw) || flagsRaw.some((f) => !(String(f) in LEGACY_FLAG_TAGS))) {
+      return { ok: false, error: `${where}.flags contains an unknown flag` };
+    }
+
+    const categoryId = optionalString(raw.categoryId);
+    if (categoryId && !categoryIds.has(categoryId)) {
+      return { ok: false, error: `${where}.categoryId does not match any category` };
+    }
+
+    // Optional: archives written before payees existed don't have it
+    const payeeId = optionalString(raw.payeeId);
+    if (payeeId && !payeeIds.has(payeeId)) {
+      return { ok: false, error: `${where}.payeeId does not match any payee` };
+    }
+
+    const paymentSourceId = optionalString(raw.paymentSourceId);
+    if (paymentSourceId && !paymentSourceIds.has(paymentSourceId)) {
+      return { ok: false, error: `${where}.paymentSourceId does not match any payment source` };
+    }
+
+    // Optional: archives written before transfers existed don't have it
+    const transferToPaymentSourceId = type === "TRANSFER" ? optionalString(raw.transferToPaymentSourceId) : null;
+    if (transferToPaymentSourceId && !paymentSourceIds.has(transferToPaymentSourceId)) {
+      return { ok: false, error: `${where}.transferToPaymentSourceId does not match any payment source` };
+    }
+
+    // Optional: archives before version 2 don't have split lines
+    const splits = parseTransactionSplits(raw.splits ?? [], amountCents);
+    if (!splits.ok) return { ok: false, error: `${where}: ${splits.error}` };
+    const splitLines = splits.value ?? [];
+    if (splitLines.length && type === "TRANSFER") {
+      return { ok: false, error: `${where}: transfers can't be split` };
+    }
+    if (splitLines.some((s) => s.categoryId && !categoryIds.has(s.categoryId))) {
+      return { ok: false, error: `${where}.splits has a categoryId that does not match any category` };
+    }
+
+    const createdAt = typeof raw.createdAt === "string" ? raw.createdAt : "";
+
+    out.push({
+      date,
+      description,
+      amountCents,
+      currency,
+      type,
+      status,
+      notes: optionalString(raw.notes),
+      tagIds: [
+        ...new Set([
+          ...tagIdsRaw.map(String),
+          ...flagsRaw.map((f) => `${LEGACY_FLAG_ID_PREFIX}${String(f)}`),
+        ]),
+      ],
+      // A split transaction's category lives on its lines
+      categoryId: splitLines.length ? null : categoryId,
+      payeeId,
+      paymentSourceId,
+      transferToPaymentSourceId,
+      splits: splitLines,
+      externalId: optionalString(raw.externalId),
+      createdAt: Number.isNaN(Date.parse(createdAt)) ? new Date().toISOString() : createdAt,
+    });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseRecurringTransactions(
+  input: unknown,
+  categoryIds: Set<string>,
+  paymentSourceIds: Set<string>
+): ParseResult<BackupRecurringTransaction[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "recurringTransactions must be an array" };
+
+  const out: BackupRecurringTransaction[] = [];
+
+  for (const [i, raw] of input.entries()) {
+    const where = `recurringTransactions[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const description = optionalString(raw.description);
+    if (!description) return { ok: false, error: `${where}.description is required` };
+
+    const amountCents = Number(raw.amountCents);
+    if (!Number.isInteger(amountCents) || amountCents <= 0 || amountCents > MAX_AMOUNT_CENTS) {
+      return { ok: false, error: `${where}.amountCents is out of bounds` };
+    }
+
+    const type = parseTransactionType(raw.type);
+    if (!type || type === "TRANSFER") return { ok: false, error: `${where}.type must be EXPENSE or INCOME` };
+
+    const schedule = parseRecurrenceSchedule(raw);
+    if (!schedule.ok) return { ok: false, error: `${where}: ${schedule.error}` };
+
+    const nextDate = optionalString(raw.nextDate);
+    if (nextDate && !parseLocalDateOnly(nextDate)) {
+      return { ok: false, error: `${where}.nextDate must be YYYY-MM-DD` };
+    }
+
+    const categoryId = optionalString(raw.categoryId);
+    if (categoryId && !categoryIds.has(categoryId)) {
+      return { ok: false, error: `${where}.categoryId does not match any category` };
+    }
+
+    const paymentSourceId = optionalString(raw.paymentSourceId);
+    if (paymentSourceId && !paymentSourceIds.has(paymentSourceId)) {
+      return { ok: false, error: `${where}.paymentSourceId does not match any payment source` };
+    }
+
+    out.push({
+      description,
+      amountCents,
+      type,
+      notes: optionalString(raw.notes),
+      categoryId,
+      paymentSourceId,
+      frequency: schedule.value.frequency,
+      interval: schedule.value.interval,
+      dayOfMonth: schedule.value.dayOfMonth,
+      startDate: String(raw.startDate),
+      endDate: optionalString(raw.endDate),
+      nextDate,
+      isActive: raw.isActive !== false,
+    });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseBudgets(input: unknown, categoryIds: Set<string>): ParseResult<BackupBudget[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "budgets must be an array" };
+
+  const out: BackupBudget[] = [];
+
+  for (const [i, raw] of input.entries()) {
+    const where = `budgets[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const categoryId = optionalString(raw.categoryId);
+    if (!categoryId || !categoryIds.has(categoryId)) {
+      return { ok: false, error: `${where}.categoryId does not match any category` };
+    }
+
+    const month = parseBudgetMonth(raw.month);
+    if (!month.ok) return { ok: false, error: `${where}: ${month.error}` };
+
+    const amountCents = Number(raw.amountCents);
+    if (!Number.isInteger(amountCents) || amountCents <= 0 || amountCents > MAX_AMOUNT_CENTS) {
+      return { ok: false, error: `${where}.amountCents is out of bounds` };
+    }
+
+    out.push({ categoryId, month: month.value, amountCents });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseRules(
+  input: unknown,
+  categoryIds: Set<string>,
+  paymentSourceIds: Set<string>,
+  tagIds: Set<string>
+): ParseResult<BackupTransactionRule[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "rules must be an array" };
+  if (input.length > MAX_RULES) return { ok: false, error: `Too many rules (max ${MAX_RULES})` };
+
+  const out: BackupTransactionRule[] = [];
+  const names = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    const where = `rules[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const name = validateRuleName(raw.name);
+    if (!name.ok) return { ok: false, error: `${where}: ${name.error}` };
+    if (names.has(name.value.toLowerCase())) return { ok: false, error: `${where} has a duplicate name` };
+
+    const description = parseRuleDescriptionCondition(raw.descriptionMatch, raw.descriptionPattern);
+    if (!description.ok) return { ok: false, error: `${where}: ${description.error}` };
+
+    const minAmountCents = parseRuleAmountCents(raw.minAmountCents, "minAmountCents");
+    if (!minAmountCents.ok) return { ok: false, error: `${where}: ${minAmountCents.error}` };
+    const maxAmountCents = parseRuleAmountCents(raw.maxAmountCents, "maxAmountCents");
+    if (!maxAmountCents.ok) return { ok: false, error: `${where}: ${maxAmountCents.error}` };
+
+    const type = raw.type === undefined || raw.type === null ? null : parseTransactionType(raw.type);
+    if (raw.type !== undefined && raw.type !== null && !type) {
+      return { ok: false, error: `${where}.type must be EXPENSE, INCOME or TRANSFER` };
+    }
+
+    const paymentSourceId = optionalString(raw.paymentSourceId);
+    const setPaymentSourceId = optionalString(raw.setPaymentSourceId);
+    if ([paymentSourceId, setPaymentSourceId].some((id) => id && !paymentSourceIds.has(id))) {
+      return { ok: false, error: `${where} has a paymentSourceId that does not match any payment source` };
+    }
+
+    const setCategoryId = optionalString(raw.setCategoryId);
+    if (setCategoryId && !categoryIds.has(setCategoryId)) {
+      return { ok: false, error: `${where}.setCategoryId does not match any category` };
+    }
+
+    const addTagIdsRaw = raw.addTagIds ?? [];
+    if (!Array.isArray(addTagIdsRaw) || addTagIdsRaw.some((id) => !tagIds.has(String(id)))) {
+      return { ok: false, error: `${where}.addTagIds does not match any tag` };
+    }
+
+    const rule: BackupTransactionRule = {
+      name: name.value,
+      priority: Number.isInteger(raw.priority) ? (raw.priority as number) : i,
+      enabled: raw.enabled !== false,
+      descriptionMatch: description.value?.match ?? null,
+      descriptionPattern: description.value?.pattern ?? null,
+      minAmountCents: minAmountCents.value,
+      maxAmountCents: maxAmountCents.value,
+      type,
+      paymentSourceId,
+      setCategoryId,
+      setPaymentSourceId,
+      renameTo: optionalString(raw.renameTo),
+      addTagIds: [...new Set(addTagIdsRaw.map(String))],
+    };
+    if (!hasRuleCondition(rule) || !hasRuleAction(rule)) {
+      return { ok: false, error: `${where} needs at least one condition and one action` };
+    }
+
+    names.add(rule.name.toLowerCase());
+    out.push(rule);
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseSavedViews(input: unknown): ParseResult<BackupSavedView[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "savedViews must be an array" };
+  if (input.length > MAX_SAVED_VIEWS) return { ok: false, error: `Too many saved views (max ${MAX_SAVED_VIEWS})` };
+
+  const out: BackupSavedView[] = [];
+  const ids = new Set<string>();
+  const names = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    const where = `savedViews[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const id = optionalString(raw.id);
+    const name = validateSavedViewName(raw.name);
+    if (!id || !name.ok) return { ok: false, error: `${where} needs an id and a valid name` };
+    if (ids.has(id) || names.has(name.value.toLowerCase())) {
+      return { ok: false, error: `${where} has a duplicate id or name` };
+    }
+
+    const params = parseSavedViewParams(raw.params ?? {});
+    if (!params.ok) return { ok: false, error: `${where}: ${params.error}` };
+
+    ids.add(id);
+    names.add(name.value.toLowerCase());
+    out.push({ id, name: name.value, params: params.value });
+  }
+
+  return { ok: true, value: out };
+}
+
+function parseReconciliations(input: unknown, paymentSourceIds: Set<string>): ParseResult<BackupReconciliation[]> {
+  if (!Array.isArray(input)) return { ok: false, error: "reconciliations must be an array" };
+
+  const out: BackupReconciliation[] = [];
+
+  for (const [i, raw] of input.entries()) {
+    const where = `reconciliations[${i}]`;
+    if (!isRecord(raw)) return { ok: false, error: `${where} must be an object` };
+
+    const paymentSourceId = optionalString(raw.paymentSourceId);
+    if (!paymentSourceId || !paymentSourceIds.has(paymentSourceId)) {
+      return { ok: false, error: `${where}.paymentSourceId does not match any payment source` };
+    }
+
+    const statementDate = typeof raw.statementDate === "string" ? raw.statementDate : "";
+    if (!parseLocalDateOnly(statementDate)) {
+      return { ok: false, error: `${where}.statementDate must be YYYY-MM-DD` };
+    }
+
+    const endingBalanceCents = Number(raw.endingBalanceCents);
+    if (!Number.isInteger(endingBalanceCents) || Math.abs(endingBalanceCents) > MAX_AMOUNT_CENTS) {
+      return { ok: false, error: `${where}.endingBalanceCents is out of bounds` };
+    }
+
+    const transactionCount = Number(raw.transactionCount ?? 0);
+    const createdAt = typeof raw.createdAt === "string" ? raw.createdAt : "";
+
+    out.push({
+      paymentSourceId,
+      statementDate,
+      endingBalanceCents,
+      transactionCount: Number.isInteger(transactionCount) && transactionCount >= 0 ? transactionCount : 0,
+      createdAt: Number.isNaN(Date.parse(createdAt)) ? new Date().toISOString() : createdAt,
+    });
+  }
+
+  return { ok: true, value: out };
+}
+
+/**
+ * Validates an uploaded archive. Rejects unknown formats and newer versions
+ * instead of guessing; every cross-reference must resolve inside the archive.
+ */
+export function parseBackupArchive(input: unknown): ParseResult<BackupArchive> {
+  if (!isRecord(input) || input.format !== BACKUP_FORMAT) {
+    return { ok: false, error: "Not a Zento backup file" };
+  }
+
+  const version = Number(input.version);
+  if (!Number.isInteger(version) || version < 1) {
+    return { ok: false, error: "Backup is missing a valid version" };
+  }
+  if (version > BACKUP_VERSION) {
+    return { ok: false, error: `Backup version ${version} is newer than this app supports` };
+  }
+
+  const categories = parseCategories(input.categories ?? []);
+  if (!categories.ok) return categories;
+
+  const paymentSources = parsePaymentSources(input.paymentSources ?? []);
+  if (!paymentSources.ok) return paymentSources;
+
+  const tags = parseTags(input.tags ?? []);
+  if (!tags.ok) return tags;
+
+  const categoryIds = new Set(categories.value.map((c) => c.id));
+
+  const payees = parsePayees(input.payees ?? [], categoryIds);
+  if (!payees.ok) return payees;
+
+  const exchangeRates = parseExchangeRates(input.exchangeRates ?? []);
+  if (!exchangeRates.ok) return exchangeRates;
+
+  const legacyFlagTags: BackupTag[] = Object.entries(LEGACY_FLAG_TAGS).map(([flag, t]) => ({
+    id: `${LEGACY_FLAG_ID_PREFIX}${flag}`,
+    ...t,
+  }));
+
+  const paymentSourceIds = new Set(paymentSources.value.map((p) => p.id));
+
+  const transactions = parseTransactions(
+    input.transactions ?? [],
+    categoryIds,
+    paymentSourceIds,
+    new Set(tags.value.map((t) => t.id)),
+    new Set(payees.value.map((p) => p.id))
+  );
+  if (!transactions.ok) return transactions;
+
+  // Optional: archives before version 2 don't have recurring rules
+  const recurringTransactions = parseRecurringTransactions(
+    input.recurringTransactions ?? [],
+    categoryIds,
+    paymentSourceIds
+  );
+  if (!recurringTransactions.ok) return recurringTransactions;
+
+  // Optional: archives before version 2 have none of these
+  const budgets = parseBudgets(input.budgets ?? [], categoryIds);
+  if (!budgets.ok) return budgets;
+
+  const rules = parseRules(input.rules ?? [], categoryIds, paymentSourceIds, new Set(tags.value.map((t) => t.id)));
+  if (!rules.ok) return rules;
+
+  const savedViews = parseSavedViews(input.savedViews ?? []);
+  if (!savedViews.ok) return savedViews;
+
+  const reconciliations = parseReconciliations(input.reconciliations ?? [], paymentSourceIds);
+  if (!reconciliations.ok) return reconciliations;
+
+  // Only bring in the legacy flag tags an old archive actually used
+  const usedTagIds = new Set(transactions.value.flatMap((t) => t.tagIds));
+  const allTags = [...tags.value, ...legacyFlagTags.filter((t) => usedTagIds.has(t.id))];
+
+  const prefs = isRecord(input.preferences) ? input.preferences : {};
+  const defaultId = optionalString(prefs.defaultTransactionsPaymentSourceId);
+  const defaultViewId = optionalString(prefs.defaultReportViewId);
+  const baseCurrency = parseCurrencyCode(prefs.baseCurrency) ?? DEFAULT_CURRENCY;
+
+  return {
+    ok: true,
+    value: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: typeof input.exportedAt === "string" ? input.exportedAt : "",
+      preferences: {
+        defaultTransactionsPaymentSourceId:
+          defaultId && paymentSources.value.some((p) => p.id === defaultId) ? defaultId : null,
+        defaultReportViewId:
+          defaultViewId && savedViews.value.some((v) => v.id === defaultViewId) ? defaultViewId : null,
+        baseCurrency,
+      },
+      categories: categories.value,
+      paymentSources: paymentSources.value,
+      tags: allTags,
+      payees: payees.value,
+      exchangeRates: exchangeRates.value,
+      transactions: transactions.value,
+      recurringTransactions: recurringTransactions.value,
+      budgets: budgets.value,
+      rules: rules.value,
+      savedViews: savedViews.value,
+      reconciliations: reconciliations.value,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/** ----------------------------
+ * Category budgets
+ *
+ * A budget with month = null applies to every month; a "YYYY-MM" budget
+ * overrides it for that month only.
+ * ---------------------------- */
+
+// month is part of the (user, category, month) key, so "every month" is
+// stored as "" rather than null
+export const EVERY_MONTH_KEY = "";
+
+/** A stored month as the app sees it (null = every month). */
+export function readBudgetMonth(month: string): string | null {
+  return month === EVERY_MONTH_KEY ? null : month;
+}
+
+export type BudgetRow = {
+  categoryId: string;
+  month: string | null;
+  amountCents: number;
+};
+
+export function parseBudgetMonth(
+  input: unknown
+): { ok: true; value: string | null } | { ok: false; error: string } {
+  if (input === undefined || input === null || input === "") return { ok: true, value: null };
+  const v = String(input).trim();
+  if (!/^\d{4}-\d{2}$/.test(v)) return { ok: false, error: 'month must be "YYYY-MM" or null' };
+  const m = Number(v.slice(5));
+  if (m < 1 || m > 12) return { ok: false, error: 'month must be "YYYY-MM" or null' };
+  return { ok: true, value: v };
+}
+
+/** Budget in effect for one category in one month (null = no budget). */
+export function effectiveBudgetCents(budgets: BudgetRow[], categoryId: string, month: string): number | null {
+  let everyMonth: number | null = null;
+  for (const b of budgets) {
+    if (b.categoryId !== categoryId) continue;
+    if (b.month === month) return b.amountCents;
+    if (b.month === null) everyMonth = b.amountCents;
+  }
+  return everyMonth;
+}
+
+/** Sum of the budgets in effect across `months` (null if none of them has one). */
+export function budgetForMonths(budgets: BudgetRow[], categoryId: string, months: string[]): number | null {
+  let total: number | null = null;
+  for (const month of months) {
+    const cents = effectiveBudgetCents(budgets, categoryId, month);
+    if (cents !== null) total = (total ?? 0) + cents;
+  }
+  return total;
+}
+
+/** Inclusive list of "YYYY-MM" keys from `from` to `to`. */
+export function monthsBetween(from: string, to: string): string[] {
+  const out: string[] = [];
+  let [y, m] = from.split("-").map(Number);
+  const [ty, tm] = to.split("-").map(Number);
+
+  while (y < ty || (y === ty && m <= tm)) {
+    out.push(`${y}-${String(m).padStart(2, "0")}`);
+    m++;
+    if (m > 12) {
+      m = 1;
+      y++;
+    }
+  }
+
+  return out;
+}
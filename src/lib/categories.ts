@@ -0,0 +1,169 @@
+/** ----------------------------
+ * Category tree
+ *
+ * Categories nest through parentId ("Food > Groceries"), at most
+ * MAX_CATEGORY_DEPTH levels. Siblings keep the global sortOrder.
+ * Pure helpers: safe to import from client components.
+ * ---------------------------- */
+
+export const MAX_CATEGORY_NAME_LENGTH = 40;
+export const MAX_CATEGORY_DEPTH = 3;
+
+export const CATEGORY_PATH_SEPARATOR = " > ";
+
+export type CategoryNode = {
+  id: string;
+  name: string;
+  parentId: string | null;
+};
+
+export type FlatCategory<T extends CategoryNode = CategoryNode> = T & {
+  depth: number; // 0 = top level
+  path: string; // "Food > Groceries"
+};
+
+// A parent that isn't in the list (or a loop) is treated as top level
+function effectiveParentId(byId: Map<string, { parentId: string | null }>, id: string): string | null {
+  const parentId = byId.get(id)?.parentId ?? null;
+  if (!parentId || !byId.has(parentId)) return null;
+
+  // Walk up; a loop makes the whole chain top level
+  const seen = new Set([id]);
+  let cur: string | null = parentId;
+  while (cur && byId.has(cur)) {
+    if (seen.has(cur)) return null;
+    seen.add(cur);
+    cur = byId.get(cur)!.parentId;
+  }
+  return parentId;
+}
+
+/**
+ * Parents first, each followed by its subcategories, keeping the input order
+ * among siblings (callers pass them sorted by sortOrder, name).
+ */
+export function flattenCategoryTree<T extends CategoryNode>(items: T[]): FlatCategory<T>[] {
+  const byId = new Map(items.map((c) => [c.id, c]));
+  const children = new Map<string | null, T[]>();
+  for (const c of items) {
+    const parentId = effectiveParentId(byId, c.id);
+    children.set(parentId, [...(children.get(parentId) ?? []), c]);
+  }
+
+  const out: FlatCategory<T>[] = [];
+  const visit = (parentId: string | null, depth: number, prefix: string) => {
+    for (const c of children.get(parentId) ?? []) {
+      const path = prefix ? `${prefix}${CATEGORY_PATH_SEPARATOR}${c.name}` : c.name;
+      out.push({ ...c, depth, path });
+      visit(c.id, depth + 1, path);
+    }
+  };
+  visit(null, 0, "");
+  return out;
+}
+
+/** The category and everything nested under it. */
+export function categorySubtreeIds(items: CategoryNode[], id: string): Set<string> {
+  const out = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const c of items) {
+      if (c.parentId && out.has(c.parentId) && !out.has(c.id)) {
+        out.add(c.id);
+        added = true;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Checks a whole tree: every parent exists, no loops, and no branch deeper
+ * than MAX_CATEGORY_DEPTH. Returns an error message or null.
+ */
+export function validateCategoryTree(items: Array<{ id: string; parentId: string | null }>): string | null {
+  const byId = new Map(items.map((c) => [c.id, c]));
+
+  for (const c of items) {
+    let depth = 1;
+    const seen = new Set([c.id]);
+    let cur = c.parentId;
+    while (cur) {
+      if (!byId.has(cur)) return "Parent category not found";
+      if (seen.has(cur)) return "A category can't be nested inside itself";
+      seen.add(cur);
+      depth++;
+      if (depth > MAX_CATEGORY_DEPTH) {
+        return `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`;
+      }
+      cur = byId.get(cur)!.parentId;
+    }
+  }
+
+  return null;
+}
+
+export type CategoryTotalRow = {
+  id: string | null; // null = Uncategorized
+  name: string;
+  cents: number;
+  hasChildren: boolean; // can drill down
+  direct: boolean; // the parent's own spending, shown next to its children
+};
+
+/**
+ * One level of the tree with every total rolled up into it: the top level
+ * (plus Uncategorized and unknown ids) for parentId null, else the parent's
+ * children plus a "direct" row for money booked on the parent itself.
+ * Rows with nothing spent are left out; biggest first.
+ */
+export function rollUpCategoryTotals(
+  items: CategoryNode[],
+  totals: Map<string | null, number>,
+  parentId: string | null
+): CategoryTotalRow[] {
+  const byId = new Map(items.map((c) => [c.id, c]));
+  const rootOf = (id: string) => {
+    // The ancestor that sits directly under parentId (null if outside it)
+    let cur: string | null = id;
+    const seen = new Set<string>();
+    while (cur && !seen.has(cur)) {
+      seen.add(cur);
+      const parent = effectiveParentId(byId, cur);
+      if (parent === parentId) return cur;
+      cur = parent;
+    }
+    return null;
+  };
+
+  const rows = new Map<string | null, CategoryTotalRow>();
+  const add = (key: string | null, row: Omit<CategoryTotalRow, "cents">, cents: number) => {
+    const cur = rows.get(key) ?? { ...row, cents: 0 };
+    cur.cents += cents;
+    rows.set(key, cur);
+  };
+
+  const hasChildren = (id: string) => items.some((c) => c.parentId === id);
+
+  for (const [categoryId, cents] of totals) {
+    if (categoryId === null || !byId.has(categoryId)) {
+      if (parentId !== null) continue;
+      const name = categoryId ? "Unknown" : "Uncategorized";
+      add(categoryId, { id: categoryId, name, hasChildren: false, direct: false }, cents);
+      continue;
+    }
+
+    if (categoryId === parentId) {
+      const name = `${byId.get(parentId)!.name} (itself)`;
+      add(`direct:${parentId}`, { id: parentId, name, hasChildren: false, direct: true }, cents);
+      continue;
+    }
+
+    const top = rootOf(categoryId);
+    if (!top) continue;
+    add(top, { id: top, name: byId.get(top)!.name, hasChildren: hasChildren(top), direct: false }, cents);
+  }
+
+  return [...rows.values()].filter((r) => r.cents > 0).sort((a, b) => b.cents - a.cents);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { detectCsvDecimalSeparator, parseCsvAmountToCents, toCsvLine } from "@/lib/csv";
+
+describe("parseCsvAmountToCents", () => {
+  it("reads dot-decimal amounts with comma grouping", () => {
+    expect(parseCsvAmountToCents("$1,234.56")).toBe(123456);
+    expect(parseCsvAmountToCents("-12.30")).toBe(-1230);
+    expect(parseCsvAmountToCents("(12.30)")).toBe(-1230);
+    expect(parseCsvAmountToCents("1,234")).toBe(123400);
+  });
+
+  it("reads comma-decimal amounts with dot or space grouping", () => {
+    expect(parseCsvAmountToCents("12,50", ",")).toBe(1250);
+    expect(parseCsvAmountToCents("1.234,56", ",")).toBe(123456);
+    expect(parseCsvAmountToCents("-1.234.567,8", ",")).toBe(-123456780);
+    expect(parseCsvAmountToCents("1 234,56 €", ",")).toBe(123456);
+    expect(parseCsvAmountToCents("0,05", ",")).toBe(5);
+  });
+
+  it("rejects cells that aren't one number", () => {
+    expect(parseCsvAmountToCents("")).toBeNull();
+    expect(parseCsvAmountToCents("n/a")).toBeNull();
+    expect(parseCsvAmountToCents("1,2,3", ",")).toBeNull();
+  });
+});
+
+describe("detectCsvDecimalSeparator", () => {
+  it("detects a comma decimal from European amounts", () => {
+    expect(detectCsvDecimalSeparator(["12,50", "-3,99", "1.234,56"])).toBe(",");
+    expect(detectCsvDecimalSeparator(["1.234.567", "7,5"])).toBe(",");
+  });
+
+  it("detects a dot decimal from US amounts", () => {
+    expect(detectCsvDecimalSeparator(["12.50", "-3.99", "1,234.56"])).toBe(".");
+    expect(detectCsvDecimalSeparator(["1,234,567", "7.5"])).toBe(".");
+  });
+
+  it("falls back to a dot when every cell is ambiguous", () => {
+    expect(detectCsvDecimalSeparator(["1,234", "5", "", null])).toBe(".");
+    expect(detectCsvDecimalSeparator(["1.234", "42"])).toBe(".");
+  });
+});
+
+describe("toCsvLine", () => {
+  it("quotes fields with commas, quotes or newlines", () => {
+    expect(toCsvLine(["a,b", 'say "hi"', null, 3])).toBe('"a,b","say ""hi""",,3\r\n');
+  });
+
+  it("keeps formula-like text from running in a spreadsheet", () => {
+    expect(toCsvLine(["=HYPERLINK(\"x\")", "+1 (555)", "-rent", "@SUM(A1)"])).toBe(
+      `"'=HYPERLINK(""x"")",'+1 (555),'-rent,'@SUM(A1)\r\n`
+    );
+  });
+
+  it("leaves signed numbers alone", () => {
+    expect(toCsvLine(["-12.30", "+5", 7, "2026-01-31"])).toBe("-12.30,+5,7,2026-01-31\r\n");
+  });
+});
@@ -0,0 +1,258 @@
+/** ----------------------------
+ * CSV helpers (bank statement import + Reports export)
+ *
+ * Pure functions only: safe to import from both route handlers and
+ * client components (the import page uses them to build the mapping UI).
+ * ---------------------------- */
+
+export type CsvDateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"];
+
+// "." for 1,234.56 (US/UK), "," for 1.234,56 (most of Europe)
+export type CsvDecimalSeparator = "." | ",";
+
+export const CSV_DECIMAL_SEPARATORS: CsvDecimalSeparator[] = [".", ","];
+
+/**
+ * Column indexes (0-based) into each CSV row.
+ * Either `amount` (signed) or `debit`/`credit` must be provided.
+ */
+export type CsvColumnMapping = {
+  date: number;
+  description: number;
+  amount?: number | null;
+  debit?: number | null;
+  credit?: number | null;
+  category?: number | null;
+  account?: number | null;
+  notes?: number | null;
+};
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = [",", ";", "\t"];
+  let best = ",";
+  let bestCount = 0;
+  for (const c of candidates) {
+    const count = firstLine.split(c).length - 1;
+    if (count > bestCount) {
+      best = c;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180-ish parser: quoted fields, escaped quotes ("") and CRLF.
+ * Delimiter is auto-detected from the first line (comma, semicolon, tab).
+ * Fully empty lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = detectDelimiter(firstLine);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map((r) => r.map((c) => c.trim()))
+    .filter((r) => r.some((c) => c !== ""));
+}
+
+/**
+ * "$1,234.56" -> 123456, "-12.30" -> -1230, "(12.30)" -> -1230.
+ * With decimalSeparator ",": "1.234,56" -> 123456, "12,50" -> 1250.
+ * The other separator (and spaces / apostrophes) only group thousands and are ignored.
+ * Returns null when the cell is empty or not a number.
+ */
+export function parseCsvAmountToCents(
+  input: string | undefined | null,
+  decimalSeparator: CsvDecimalSeparator = "."
+): number | null {
+  const raw = (input ?? "").trim();
+  if (!raw) return null;
+
+  const negative = /^\(.*\)$/.test(raw) || raw.includes("-");
+  const grouping = decimalSeparator === "." ? "," : ".";
+  const cleaned = raw
+    .replace(/[()$€£\s'+-]/g, "")
+    .split(grouping)
+    .join("")
+    .replace(decimalSeparator, ".");
+  if (!cleaned) return null;
+
+  const num = Number(cleaned);
+  if (!Number.isFinite(num)) return null;
+
+  const cents = Math.round(Math.abs(num) * 100);
+  return negative ? -cents : cents;
+}
+
+// The decimal separator one amount cell implies, or null when it could be either
+function decimalSeparatorOf(input: string): CsvDecimalSeparator | null {
+  const marks = input.replace(/[^\d.,]/g, "");
+  const lastDot = marks.lastIndexOf(".");
+  const lastComma = marks.lastIndexOf(",");
+
+  // "1,234.56" / "1.234,56": whichever comes last is the decimal point
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+
+  const sep: CsvDecimalSeparator | null = lastDot >= 0 ? "." : lastComma >= 0 ? "," : null;
+  if (!sep) return null;
+
+  // "1.234.567": only a grouping separator repeats
+  if (marks.indexOf(sep) !== marks.lastIndexOf(sep)) return sep === "." ? "," : ".";
+
+  // "1,234" / "1.234" reads both ways
+  return marks.length - marks.indexOf(sep) - 1 === 3 ? null : sep;
+}
+
+/**
+ * Guesses the decimal separator from a column's amount cells (majority vote over
+ * the cells that aren't ambiguous). Falls back to "." when nothing tells.
+ */
+export function detectCsvDecimalSeparator(cells: Array<string | undefined | null>): CsvDecimalSeparator {
+  let dot = 0;
+  let comma = 0;
+  for (const c of cells) {
+    const sep = decimalSeparatorOf(c ?? "");
+    if (sep === ".") dot++;
+    else if (sep === ",") comma++;
+  }
+  return comma > dot ? "," : ".";
+}
+
+/**
+ * Converts a bank date cell into "YYYY-MM-DD" (the format parseLocalDateOnly accepts).
+ * Returns null if the cell doesn't match the chosen format.
+ */
+export function normalizeCsvDate(input: string | undefined | null, format: CsvDateFormat): string | null {
+  const raw = (input ?? "").trim();
+  if (!raw) return null;
+
+  let y: number;
+  let m: number;
+  let d: number;
+
+  if (format === "YYYY-MM-DD") {
+    const match = raw.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (!match) return null;
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const match = raw.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+    if (!match) return null;
+    const a = Number(match[1]);
+    const b = Number(match[2]);
+    y = Number(match[3]);
+    if (y < 100) y += 2000;
+    [m, d] = format === "MM/DD/YYYY" ? [a, b] : [b, a];
+  }
+
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+
+  // Reject impossible days like 02/31
+  const check = new Date(Date.UTC(y, m - 1, d));
+  if (check.getUTCMonth() !== m - 1) return null;
+
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+const HEADER_HINTS: Array<[keyof CsvColumnMapping, RegExp]> = [
+  ["date", /^(transaction |posted |posting )?date$|^date/i],
+  ["description", /description|payee|merchant|memo|details|name/i],
+  ["debit", /debit|withdrawal|money out/i],
+  ["credit", /credit|deposit|money in/i],
+  ["amount", /amount|value/i],
+  ["category", /category/i],
+  ["account", /account|card/i],
+  ["notes", /note/i],
+];
+
+/**
+ * Best-effort mapping from a header row (e.g. "Date,Description,Amount").
+ * Each column is used at most once.
+ */
+export function guessColumnMapping(header: string[]): Partial<CsvColumnMapping> {
+  const out: Partial<CsvColumnMapping> = {};
+  const used = new Set<number>();
+
+  for (const [key, re] of HEADER_HINTS) {
+    const idx = header.findIndex((h, i) => !used.has(i) && re.test(h.trim()));
+    if (idx >= 0) {
+      out[key] = idx;
+      used.add(idx);
+    }
+  }
+
+  // A dedicated debit/credit pair wins over a generic "amount" column
+  if (out.debit !== undefined && out.credit !== undefined) delete out.amount;
+
+  return out;
+}
+
+/**
+ * Spreadsheets run a cell starting with =, +, -, @ (or a tab / CR before one) as a
+ * formula, so text like a description "=HYPERLINK(...)" gets a leading ' to stay text.
+ * Plain numbers ("-12.30") are left alone.
+ */
+function escapeCsvFormula(v: string): string {
+  if (!/^[=+\-@\t\r]/.test(v) || /^[+-]?\d+(\.\d+)?$/.test(v)) return v;
+  return `'${v}`;
+}
+
+/**
+ * Serializes one row, quoting fields that contain the delimiter, quotes or newlines.
+ * null/undefined become empty cells. Returns the line with a trailing CRLF.
+ */
+export function toCsvLine(fields: Array<string | number | null | undefined>): string {
+  return (
+    fields
+      .map((f) => {
+        const v = f === null || f === undefined ? "" : escapeCsvFormula(String(f));
+        return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+      })
+      .join(",") + "\r\n"
+  );
+}
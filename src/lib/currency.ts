@@ -0,0 +1,186 @@
+/** ----------------------------
+ * Currencies + exchange rates
+ *
+ * Amounts are stored in hundredths of their own currency (`amountCents`)
+ * whatever the currency, so conversion is a plain multiply.
+ *
+ * Rates are entered by the user (no live feed): 1 fromCurrency = rate
+ * toCurrency, effective from `date`. Converting a transaction uses the
+ * latest rate on or before its date; the inverse pair is used when only
+ * that one exists.
+ *
+ * Pure helpers: safe to import from client components.
+ * ---------------------------- */
+
+import { parseCsv } from "@/lib/csv";
+import { parseLocalDateOnly } from "@/lib/transactions";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Offered in pickers; any other ISO 4217 code is still accepted by the API
+export const COMMON_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "JPY",
+  "SEK",
+  "NOK",
+  "DKK",
+  "MXN",
+  "INR",
+];
+
+export const MAX_RATE_IMPORT_ROWS = 5000;
+
+export function parseCurrencyCode(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const v = input.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(v) ? v : null;
+}
+
+export function formatMoneyCents(cents: number, currency: string = DEFAULT_CURRENCY) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+  } catch {
+    // unknown code for this runtime's Intl data
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+}
+
+export function parseRate(input: unknown): number | null {
+  const n = typeof input === "string" ? Number(input.trim()) : input;
+  if (typeof n !== "number" || !Number.isFinite(n) || n <= 0 || n > 1_000_000) return null;
+  return n;
+}
+
+export type ExchangeRateRow = {
+  fromCurrency: string;
+  toCurrency: string;
+  date: Date;
+  rate: number;
+};
+
+type RateSeries = { times: number[]; rates: number[] };
+
+export type RateTable = Map<string, RateSeries>;
+
+function pairKey(from: string, to: string) {
+  return `${from}>${to}`;
+}
+
+export function buildRateTable(rows: ExchangeRateRow[]): RateTable {
+  const sorted = [...rows].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const table: RateTable = new Map();
+
+  for (const r of sorted) {
+    const key = pairKey(r.fromCurrency, r.toCurrency);
+    const series = table.get(key) ?? { times: [], rates: [] };
+    series.times.push(r.date.getTime());
+    series.rates.push(r.rate);
+    table.set(key, series);
+  }
+
+  return table;
+}
+
+/** Latest rate on or before `date` (binary search), null if none yet. */
+function rateOnOrBefore(series: RateSeries | undefined, date: Date): number | null {
+  if (!series) return null;
+  const t = date.getTime();
+
+  let lo = 0;
+  let hi = series.times.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series.times[mid] <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found === -1 ? null : series.rates[found];
+}
+
+/**
+ * Converts `cents` of `from` into `to` using the rate in effect on `date`.
+ * Returns null when no rate covers that day (callers report those as unconverted).
+ */
+export function convertCents(
+  table: RateTable,
+  cents: number,
+  from: string,
+  to: string,
+  date: Date
+): number | null {
+  if (from === to) return cents;
+
+  const direct = rateOnOrBefore(table.get(pairKey(from, to)), date);
+  if (direct !== null) return Math.round(cents * direct);
+
+  const inverse = rateOnOrBefore(table.get(pairKey(to, from)), date);
+  if (inverse !== null) return Math.round(cents / inverse);
+
+  return null;
+}
+
+export type ParsedRateRow = {
+  row: number; // 1-based data row (header excluded)
+  date: string; // YYYY-MM-DD
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+};
+
+/**
+ * Reads a rates CSV with a header row: date, from, to, rate.
+ * `to` may be omitted (column or value), meaning the base currency.
+ */
+export function parseExchangeRatesCsv(
+  text: string,
+  baseCurrency: string
+): { ok: true; rows: ParsedRateRow[]; errors: string[] } | { ok: false; error: string } {
+  const grid = parseCsv(text);
+  if (grid.length < 2) return { ok: false, error: "CSV needs a header row and at least one rate" };
+  if (grid.length - 1 > MAX_RATE_IMPORT_ROWS) {
+    return { ok: false, error: `Too many rows (max ${MAX_RATE_IMPORT_ROWS})` };
+  }
+
+  const header = grid[0].map((h) => h.trim().toLowerCase());
+  const col = {
+    date: header.indexOf("date"),
+    from: header.findIndex((h) => h === "from" || h === "currency"),
+    to: header.indexOf("to"),
+    rate: header.indexOf("rate"),
+  };
+  if (col.date === -1 || col.from === -1 || col.rate === -1) {
+    return { ok: false, error: 'Header must include "date", "from" and "rate" (and optionally "to")' };
+  }
+
+  const rows: ParsedRateRow[] = [];
+  const errors: string[] = [];
+
+  for (let i = 1; i < grid.length; i++) {
+    const cells = grid[i];
+
+    const date = (cells[col.date] ?? "").trim();
+    const fromCurrency = parseCurrencyCode(cells[col.from]);
+    const toRaw = col.to === -1 ? "" : (cells[col.to] ?? "").trim();
+    const toCurrency = toRaw ? parseCurrencyCode(toRaw) : baseCurrency;
+    const rate = parseRate(cells[col.rate]);
+
+    if (!parseLocalDateOnly(date)) errors.push(`Row ${i}: date must be YYYY-MM-DD`);
+    else if (!fromCurrency || !toCurrency) errors.push(`Row ${i}: invalid currency code`);
+    else if (fromCurrency === toCurrency) errors.push(`Row ${i}: from and to are the same currency`);
+    else if (rate === null) errors.push(`Row ${i}: rate must be a positive number`);
+    else rows.push({ row: i, date, fromCurrency, toCurrency, rate });
+  }
+
+  return { ok: true, rows, errors };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { parseOfx } from "@/lib/ofx";
+
+const statement = (...amounts: Array<string | null>) =>
+  `<OFX><BANKTRANLIST>${amounts
+    .map(
+      (amount, i) =>
+        `<STMTTRN><TRNTYPE>POS<DTPOSTED>20260115<FITID>F${i}${amount === null ? "" : `<TRNAMT>${amount}`}` +
+        `<NAME>Shop ${i}</STMTTRN>`
+    )
+    .join("")}</BANKTRANLIST></OFX>`;
+
+describe("parseOfx", () => {
+  it("reads amounts with thousands separators", () => {
+    const { transactions, invalid } = parseOfx(statement("-1,234.56", "12.30", "1,000,000.00"));
+    expect(transactions.map((t) => t.amountCents)).toEqual([-123456, 1230, 100000000]);
+    expect(invalid).toEqual([]);
+  });
+
+  it("reads decimal-comma amounts", () => {
+    const { transactions } = parseOfx(statement("-1.234,56", "4,50"));
+    expect(transactions.map((t) => t.amountCents)).toEqual([-123456, 450]);
+  });
+
+  it("reports entries it can't read instead of dropping them", () => {
+    const { transactions, invalid } = parseOfx(statement("5.00", null, "n/a"));
+    expect(transactions.map((t) => t.fitId)).toEqual(["F0"]);
+    expect(invalid).toEqual([
+      { index: 1, fitId: "F1", error: "Invalid TRNAMT" },
+      { index: 2, fitId: "F2", error: "Invalid TRNAMT" },
+    ]);
+  });
+});
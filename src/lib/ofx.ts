@@ -0,0 +1,113 @@
+/** ----------------------------
+ * OFX / QFX statement parser
+ *
+ * Handles both flavours banks export:
+ * - OFX 1.x (SGML): leaf elements have no closing tags, e.g. <TRNAMT>-4.50
+ * - OFX 2.x (XML):  <TRNAMT>-4.50</TRNAMT>
+ *
+ * Aggregates such as <STMTTRN> are closed in both versions, so we split on
+ * those and read leaf values with a tolerant regex.
+ * ---------------------------- */
+
+import { detectCsvDecimalSeparator, parseCsvAmountToCents } from "@/lib/csv";
+
+export type OfxTransaction = {
+  fitId: string;
+  trnType: string; // DEBIT, CREDIT, POS, ATM, FEE, ...
+  date: string; // YYYY-MM-DD (from DTPOSTED)
+  amountCents: number; // signed, as reported by the bank
+  name: string;
+  memo: string | null;
+};
+
+// A <STMTTRN> that couldn't be read (index counts every <STMTTRN>, from 0)
+export type OfxInvalidTransaction = {
+  index: number;
+  fitId: string | null;
+  error: string;
+};
+
+export type OfxStatement = {
+  accountId: string | null;
+  accountKind: "BANK" | "CARD" | null;
+  currency: string | null;
+  transactions: OfxTransaction[];
+  invalid: OfxInvalidTransaction[];
+};
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function readLeaf(block: string, tag: string): string | null {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  if (!m) return null;
+  const v = decodeEntities(m[1]).trim();
+  return v ? v : null;
+}
+
+// 20260115, 20260115120000, 20260115120000.000[-5:EST]
+function parseOfxDate(raw: string | null): string | null {
+  if (!raw) return null;
+  const m = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!m) return null;
+  return `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+export function parseOfx(text: string): OfxStatement {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error("Not an OFX/QFX file (missing <OFX> element)");
+  }
+
+  const bankAccount = text.match(/<BANKACCTFROM>([\s\S]*?)<\/BANKACCTFROM>/i);
+  const cardAccount = text.match(/<CCACCTFROM>([\s\S]*?)<\/CCACCTFROM>/i);
+
+  const accountKind = cardAccount ? "CARD" : bankAccount ? "BANK" : null;
+  const accountBlock = cardAccount?.[1] ?? bankAccount?.[1] ?? "";
+
+  const transactions: OfxTransaction[] = [];
+  const invalid: OfxInvalidTransaction[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  // Some European banks use a decimal comma, and some group thousands: the
+  // statement's amounts decide which, like a CSV amount column
+  const decimalSeparator = detectCsvDecimalSeparator(blocks.map((b) => readLeaf(b, "TRNAMT")));
+
+  for (const [index, block] of blocks.entries()) {
+    const fitId = readLeaf(block, "FITID");
+    const date = parseOfxDate(readLeaf(block, "DTPOSTED"));
+    const amountCents = parseCsvAmountToCents(readLeaf(block, "TRNAMT"), decimalSeparator);
+
+    // Without these we can't build (or de-duplicate) a transaction
+    if (!fitId || !date || amountCents === null) {
+      const error = !fitId ? "Missing FITID" : !date ? "Invalid DTPOSTED" : "Invalid TRNAMT";
+      invalid.push({ index, fitId, error });
+      continue;
+    }
+
+    const name = readLeaf(block, "NAME");
+    const memo = readLeaf(block, "MEMO");
+
+    transactions.push({
+      fitId,
+      trnType: (readLeaf(block, "TRNTYPE") ?? "OTHER").toUpperCase(),
+      date,
+      amountCents,
+      name: name ?? memo ?? "",
+      memo: memo && memo !== name ? memo : null,
+    });
+  }
+
+  return {
+    accountId: readLeaf(accountBlock, "ACCTID"),
+    accountKind,
+    currency: readLeaf(text, "CURDEF"),
+    transactions,
+    invalid,
+  };
+}
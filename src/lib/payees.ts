@@ -0,0 +1,160 @@
+/** ----------------------------
+ * Payees (canonical merchants)
+ *
+ * Bank descriptions are noisy ("STARBUCKS #1234", "SQ *Starbucks 0042"), so
+ * both descriptions and alias patterns are compared in normalized form:
+ * lowercase, store / reference numbers dropped, punctuation collapsed.
+ * A payee matches when its name or one of its aliases appears as whole words
+ * in the description; the longest match wins.
+ * ---------------------------- */
+
+import { prisma } from "@/lib/prisma";
+
+export const MAX_PAYEE_NAME_LENGTH = 60;
+export const MAX_PAYEE_ALIASES = 20;
+
+export function normalizePayeeText(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[#*]\s*\d+/g, " ") // store numbers: "#1234", "*0042"
+    .replace(/\d{3,}/g, " ") // card / reference numbers
+    .replace(/[^\p{L}\p{N}&']+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function validatePayeeName(input: unknown): { ok: true; value: string } | { ok: false; error: string } {
+  const name = String(input ?? "").trim();
+  if (!name) return { ok: false, error: "name is required" };
+  if (name.length > MAX_PAYEE_NAME_LENGTH) {
+    return { ok: false, error: `name is too long (max ${MAX_PAYEE_NAME_LENGTH})` };
+  }
+  return { ok: true, value: name };
+}
+
+/**
+ * Validates `aliases` from a create/update body.
+ * - undefined => leave aliases alone
+ * - null / [] => remove every alias
+ * - otherwise a de-duplicated list of normalized patterns
+ */
+export function parsePayeeAliases(
+  input: unknown
+): { ok: true; value: string[] | undefined } | { ok: false; error: string } {
+  if (input === undefined) return { ok: true, value: undefined };
+  if (input === null) return { ok: true, value: [] };
+  if (!Array.isArray(input)) return { ok: false, error: "aliases must be an array of strings" };
+
+  const out: string[] = [];
+  for (const raw of input) {
+    if (typeof raw !== "string") return { ok: false, error: "aliases must be an array of strings" };
+    const pattern = normalizePayeeText(raw);
+    if (pattern && !out.includes(pattern)) out.push(pattern);
+  }
+
+  if (out.length > MAX_PAYEE_ALIASES) {
+    return { ok: false, error: `A payee can have at most ${MAX_PAYEE_ALIASES} aliases` };
+  }
+
+  return { ok: true, value: out };
+}
+
+export type PayeeMatcher = Array<{
+  pattern: string; // normalized
+  payeeId: string;
+  defaultCategoryId: string | null;
+}>;
+
+/** Longest pattern first, so "starbucks reserve" beats "starbucks". */
+export function buildPayeeMatcher(
+  payees: Array<{ id: string; name: string; defaultCategoryId: string | null; aliases: Array<{ pattern: string }> }>
+): PayeeMatcher {
+  const out: PayeeMatcher = [];
+  for (const p of payees) {
+    const patterns = new Set([normalizePayeeText(p.name), ...p.aliases.map((a) => a.pattern)]);
+    for (const pattern of patterns) {
+      if (pattern) out.push({ pattern, payeeId: p.id, defaultCategoryId: p.defaultCategoryId });
+    }
+  }
+  return out.sort((a, b) => b.pattern.length - a.pattern.length);
+}
+
+export function matchPayee(matcher: PayeeMatcher, description: string) {
+  const text = ` ${normalizePayeeText(description)} `;
+  return matcher.find((m) => text.includes(` ${m.pattern} `)) ?? null;
+}
+
+// A default category that has since been archived is ignored
+export async function loadPayeeMatcher(userId: string): Promise<PayeeMatcher> {
+  const payees = await prisma.payee.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      name: true,
+      defaultCategoryId: true,
+      defaultCategory: { select: { archivedAt: true } },
+      aliases: { select: { pattern: true } },
+    },
+  });
+  return buildPayeeMatcher(
+    payees.map(({ defaultCategory, ...p }) => ({
+      ...p,
+      defaultCategoryId: defaultCategory?.archivedAt ? null : p.defaultCategoryId,
+    }))
+  );
+}
+
+/**
+ * Links existing transactions that have no payee yet to the payee their
+ * description matches, and gives uncategorized ones the payee's default
+ * category (splits and transfers keep theirs). Returns how many were touched.
+ */
+export async function applyPayeeRules(userId: string): Promise<{ matched: number; categorized: number }> {
+  const matcher = await loadPayeeMatcher(userId);
+  if (matcher.length === 0) return { matched: 0, categorized: 0 };
+
+  const rows = await prisma.transaction.findMany({
+    where: { userId, payeeId: null, deletedAt: null },
+    select: { id: true, description: true },
+  });
+
+  const idsByPayee = new Map<string, string[]>();
+  const defaults = new Map<string, string | null>();
+  for (const r of rows) {
+    const m = matchPayee(matcher, r.description);
+    if (!m) continue;
+    const ids = idsByPayee.get(m.payeeId);
+    if (ids) ids.push(r.id);
+    else idsByPayee.set(m.payeeId, [r.id]);
+    defaults.set(m.payeeId, m.defaultCategoryId);
+  }
+
+  let matched = 0;
+  let categorized = 0;
+
+  await prisma.$transaction(async (tx) => {
+    for (const [payeeId, ids] of idsByPayee) {
+      const res = await tx.transaction.updateMany({
+        where: { id: { in: ids }, payeeId: null },
+        data: { payeeId },
+      });
+      matched += res.count;
+
+      const defaultCategoryId = defaults.get(payeeId);
+      if (defaultCategoryId) {
+        const cat = await tx.transaction.updateMany({
+          where: {
+            id: { in: ids },
+            categoryId: null,
+            type: { not: "TRANSFER" },
+            splits: { none: {} },
+          },
+          data: { categoryId: defaultCategoryId },
+        });
+        categorized += cat.count;
+      }
+    }
+  });
+
+  return { matched, categorized };
+}
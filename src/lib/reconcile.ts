@@ -0,0 +1,63 @@
+/** ----------------------------
+ * Statement reconciliation
+ *
+ * Pure helpers: safe to import from client components.
+ * ---------------------------- */
+
+// Row as returned by GET /api/finance/reconcile
+export type ReconcileItem = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  type: "EXPENSE" | "INCOME" | "TRANSFER";
+  amountCents: number; // absolute, in `currency`
+  currency: string;
+  status: "PENDING" | "CLEARED";
+  // signed effect on the account, in the account's currency; null = no exchange rate
+  accountCents: number | null;
+};
+
+/**
+ * Signed effect of a transaction on one account's balance (in the
+ * transaction's currency): income and transfers in add, expenses and
+ * transfers out subtract.
+ */
+export function accountSignedCents(
+  t: {
+    type: "EXPENSE" | "INCOME" | "TRANSFER";
+    amountCents: number;
+    transferToPaymentSourceId: string | null;
+  },
+  paymentSourceId: string
+): number {
+  if (t.type === "INCOME") return t.amountCents;
+  if (t.type === "TRANSFER" && t.transferToPaymentSourceId === paymentSourceId) return t.amountCents;
+  return -t.amountCents;
+}
+
+/**
+ * What Zento says the account held on the statement date: the reconciled
+ * balance plus every CLEARED row dated on or before the statement.
+ */
+export function clearedBalanceCents(params: {
+  reconciledBalanceCents: number;
+  items: ReconcileItem[];
+  statementDate: string; // YYYY-MM-DD
+}): number {
+  let cleared = params.reconciledBalanceCents;
+  for (const it of params.items) {
+    if (it.status !== "CLEARED" || it.date > params.statementDate) continue;
+    cleared += it.accountCents ?? 0;
+  }
+  return cleared;
+}
+
+/** Statement ending balance minus the cleared balance: 0 means ready to reconcile. */
+export function reconcileDifferenceCents(params: {
+  endingBalanceCents: number;
+  reconciledBalanceCents: number;
+  items: ReconcileItem[];
+  statementDate: string; // YYYY-MM-DD
+}): number {
+  return params.endingBalanceCents - clearedBalanceCents(params);
+}
@@ -0,0 +1,232 @@
+/** ----------------------------
+ * Recurring transactions
+ *
+ * Schedules are computed from startDate (occurrence k = start + k * interval)
+ * instead of stepping from the previous date, so "monthly on the 31st" goes
+ * Jan 31 -> Feb 28 -> Mar 31 rather than drifting to the 28th forever.
+ *
+ * All dates are local date-only values, same as parseLocalDateOnly().
+ * ---------------------------- */
+
+import { prisma } from "@/lib/prisma";
+import { parseLocalDateOnly } from "@/lib/transactions";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfMonth: number | null;
+  startDate: Date;
+  endDate: Date | null;
+};
+
+// Catch-up cap per rule per run (a daily rule left alone for a year still finishes in one run)
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+export function parseRecurrenceFrequency(input: unknown): RecurrenceFrequency | null {
+  const v = String(input ?? "").trim().toUpperCase();
+  return (RECURRENCE_FREQUENCIES as string[]).includes(v) ? (v as RecurrenceFrequency) : null;
+}
+
+/**
+ * Validates the schedule part of a create/update body:
+ * { frequency, interval?, dayOfMonth?, startDate: "YYYY-MM-DD", endDate?: "YYYY-MM-DD" | null }
+ */
+export function parseRecurrenceSchedule(
+  body: Record<string, unknown>
+): { ok: true; value: RecurrenceRule } | { ok: false; error: string } {
+  const frequency = parseRecurrenceFrequency(body.frequency);
+  if (!frequency) {
+    return { ok: false, error: 'frequency must be "DAILY", "WEEKLY", "MONTHLY" or "YEARLY"' };
+  }
+
+  const interval = body.interval === undefined || body.interval === null ? 1 : Number(body.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) {
+    return { ok: false, error: `interval must be an integer between 1 and ${MAX_RECURRENCE_INTERVAL}` };
+  }
+
+  const startDate = parseLocalDateOnly(body.startDate);
+  if (!startDate) return { ok: false, error: "Invalid startDate" };
+
+  let endDate: Date | null = null;
+  if (body.endDate !== undefined && body.endDate !== null && body.endDate !== "") {
+    endDate = parseLocalDateOnly(body.endDate);
+    if (!endDate) return { ok: false, error: "Invalid endDate" };
+    if (endDate.getTime() < startDate.getTime()) {
+      return { ok: false, error: "endDate cannot be before startDate" };
+    }
+  }
+
+  let dayOfMonth: number | null = null;
+  if (frequency === "MONTHLY") {
+    dayOfMonth =
+      body.dayOfMonth === undefined || body.dayOfMonth === null || body.dayOfMonth === ""
+        ? startDate.getDate()
+        : Number(body.dayOfMonth);
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+      return { ok: false, error: "dayOfMonth must be between 1 and 31" };
+    }
+  }
+
+  return { ok: true, value: { frequency, interval, dayOfMonth, startDate, endDate } };
+}
+
+export function startOfToday() {
+  const d = new Date();
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+export function addDays(d: Date, days: number) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+function daysInMonth(year: number, monthIndex: number) {
+  return new Date(year, monthIndex + 1, 0).getDate();
+}
+
+function dateInMonth(year: number, monthIndex: number, day: number) {
+  // normalizes monthIndex overflow (e.g. 13 -> Feb next year) before clamping the day
+  const first = new Date(year, monthIndex, 1);
+  const y = first.getFullYear();
+  const m = first.getMonth();
+  return new Date(y, m, Math.min(day, daysInMonth(y, m)));
+}
+
+/** The k-th scheduled date (k = 0 is the first period of startDate). */
+export function occurrenceAt(rule: RecurrenceRule, k: number): Date {
+  const start = rule.startDate;
+  const step = k * rule.interval;
+
+  switch (rule.frequency) {
+    case "DAILY":
+      return addDays(start, step);
+    case "WEEKLY":
+      return addDays(start, step * 7);
+    case "MONTHLY":
+      return dateInMonth(
+        start.getFullYear(),
+        start.getMonth() + step,
+        rule.dayOfMonth ?? start.getDate()
+      );
+    case "YEARLY":
+      return dateInMonth(start.getFullYear() + step, start.getMonth(), start.getDate());
+  }
+}
+
+function approxPeriodDays(rule: RecurrenceRule) {
+  const base = { DAILY: 1, WEEKLY: 7, MONTHLY: 28, YEARLY: 365 }[rule.frequency];
+  return base * rule.interval;
+}
+
+/**
+ * First scheduled date >= `date` (and >= startDate).
+ * Returns null when the rule has ended before then.
+ */
+export function firstOccurrenceOnOrAfter(rule: RecurrenceRule, date: Date): Date | null {
+  const from = date.getTime() < rule.startDate.getTime() ? rule.startDate : date;
+
+  // Jump close to the answer, then walk (month lengths make the estimate inexact)
+  const diffDays = Math.floor((from.getTime() - rule.startDate.getTime()) / 86_400_000);
+  let k = Math.max(0, Math.floor(diffDays / approxPeriodDays(rule)) - 1);
+  while (k > 0 && occurrenceAt(rule, k - 1).getTime() >= from.getTime()) k--;
+
+  let d = occurrenceAt(rule, k);
+  while (d.getTime() < from.getTime()) {
+    k++;
+    d = occurrenceAt(rule, k);
+  }
+
+  if (rule.endDate && d.getTime() > rule.endDate.getTime()) return null;
+  return d;
+}
+
+/** Scheduled dates in [from, to] (inclusive), at most `limit`. */
+export function occurrencesBetween(rule: RecurrenceRule, from: Date, to: Date, limit: number): Date[] {
+  const out: Date[] = [];
+  let d = firstOccurrenceOnOrAfter(rule, from);
+
+  while (d && d.getTime() <= to.getTime() && out.length < limit) {
+    out.push(d);
+    d = firstOccurrenceOnOrAfter(rule, addDays(d, 1));
+  }
+
+  return out;
+}
+
+/**
+ * Posts every due occurrence (nextDate <= today) as a Transaction.
+ *
+ * Safe to run any number of times, concurrently too:
+ * - each rule is claimed by moving nextDate forward with a compare-and-set
+ *   (updateMany where nextDate is still the value we read)
+ * - @@unique([recurringTransactionId, recurringDate]) + skipDuplicates backs that up
+ *
+ * Pass a userId to limit the run to one user (page loads); omit it for a job run.
+ * Returns the number of transactions created.
+ */
+export async function materializeRecurringTransactions(
+  userId: string | null,
+  today: Date = startOfToday()
+): Promise<number> {
+  const due = await prisma.recurringTransaction.findMany({
+    where: {
+      ...(userId ? { userId } : {}),
+      isActive: true,
+      nextDate: { lte: today },
+    },
+    include: {
+      category: { select: { archivedAt: true } },
+      paymentSource: { select: { currency: true, archivedAt: true } },
+      user: { select: { baseCurrency: true } },
+    },
+  });
+
+  let created = 0;
+
+  for (const rule of due) {
+    if (!rule.nextDate) continue;
+
+    const until = rule.endDate && rule.endDate.getTime() < today.getTime() ? rule.endDate : today;
+    const dates = occurrencesBetween(rule, rule.nextDate, until, MAX_OCCURRENCES_PER_RUN);
+    const last = dates[dates.length - 1] ?? null;
+    const nextDate = firstOccurrenceOnOrAfter(rule, last ? addDays(last, 1) : addDays(until, 1));
+
+    // Archived since the rule was set up: post without them rather than into them
+    const categoryId = rule.category?.archivedAt ? null : rule.categoryId;
+    const paymentSource = rule.paymentSource?.archivedAt ? null : rule.paymentSource;
+
+    created += await prisma.$transaction(async (tx) => {
+      const claimed = await tx.recurringTransaction.updateMany({
+        where: { id: rule.id, nextDate: rule.nextDate },
+        data: { nextDate },
+      });
+      // Another run got here first
+      if (claimed.count === 0 || dates.length === 0) return 0;
+
+      const res = await tx.transaction.createMany({
+        data: dates.map((date) => ({
+          userId: rule.userId,
+          date,
+          description: rule.description,
+          amountCents: rule.amountCents,
+          currency: paymentSource?.currency ?? rule.user.baseCurrency,
+          type: rule.type,
+          notes: rule.notes,
+          categoryId,
+          paymentSourceId: paymentSource ? rule.paymentSourceId : null,
+          recurringTransactionId: rule.id,
+          recurringDate: date,
+        })),
+        skipDuplicates: true,
+      });
+      return res.count;
+    });
+  }
+
+  return created;
+}
@@ -0,0 +1,401 @@
+/** ----------------------------
+ * Transaction edit history
+ *
+ * Every PATCH / DELETE on a transaction (and every restore from Trash) adds a
+ * TransactionRevision. A revision keeps the full revertible state from right
+ * before the change (`before`) plus the field-level diff (`changes`), so the
+ * history reads as "what changed" while a revert can put back the whole state.
+ * Attachments aren't part of the state: they have their own add / remove flow.
+ * ---------------------------- */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatMoneyCents } from "@/lib/currency";
+import {
+  formatLocalDateOnly,
+  parseLocalDateOnly,
+  type TransactionSplitInput,
+  type TransactionStatus,
+  type TransactionType,
+} from "@/lib/transactions";
+
+export type RevisionAction = "UPDATE" | "DELETE" | "RESTORE" | "REVERT";
+
+export type TransactionSnapshot = {
+  description: string;
+  amountCents: number;
+  type: TransactionType;
+  currency: string;
+  date: string; // "YYYY-MM-DD"
+  status: TransactionStatus;
+  notes: string | null;
+  categoryId: string | null;
+  paymentSourceId: string | null;
+  transferToPaymentSourceId: string | null;
+  payeeId: string | null;
+  tagIds: string[]; // sorted
+  splits: TransactionSplitInput[]; // in display order; [] = not split
+};
+
+export type SnapshotField = keyof TransactionSnapshot;
+
+export type RevisionChange = {
+  field: SnapshotField;
+  before: unknown;
+  after: unknown;
+};
+
+// Order the history lists changed fields in
+const SNAPSHOT_FIELDS: SnapshotField[] = [
+  "description",
+  "amountCents",
+  "type",
+  "currency",
+  "date",
+  "status",
+  "categoryId",
+  "splits",
+  "paymentSourceId",
+  "transferToPaymentSourceId",
+  "payeeId",
+  "tagIds",
+  "notes",
+];
+
+export const REVISION_FIELD_LABELS: Record<SnapshotField, string> = {
+  description: "Description",
+  amountCents: "Amount",
+  type: "Type",
+  currency: "Currency",
+  date: "Date",
+  status: "Status",
+  notes: "Notes",
+  categoryId: "Category",
+  paymentSourceId: "Payment source",
+  transferToPaymentSourceId: "Transfer to",
+  payeeId: "Payee",
+  tagIds: "Tags",
+  splits: "Splits",
+};
+
+const SNAPSHOT_SELECT = {
+  description: true,
+  amountCents: true,
+  type: true,
+  currency: true,
+  date: true,
+  status: true,
+  notes: true,
+  categoryId: true,
+  paymentSourceId: true,
+  transferToPaymentSourceId: true,
+  payeeId: true,
+  tags: { select: { tagId: true } },
+  splits: {
+    orderBy: { sortOrder: "asc" },
+    select: { categoryId: true, amountCents: true, note: true },
+  },
+} satisfies Prisma.TransactionSelect;
+
+type Db = Prisma.TransactionClient;
+
+/** The current revertible state of transactions (trashed or not), by id. */
+export async function loadTransactionSnapshots(
+  db: Db,
+  transactionIds: string[]
+): Promise<Map<string, TransactionSnapshot>> {
+  const rows = await db.transaction.findMany({
+    where: { id: { in: transactionIds } },
+    select: { id: true, ...SNAPSHOT_SELECT },
+  });
+
+  return new Map(rows.map((t) => [t.id, toSnapshot(t)]));
+}
+
+export async function loadTransactionSnapshot(db: Db, transactionId: string): Promise<TransactionSnapshot | null> {
+  const snapshots = await loadTransactionSnapshots(db, [transactionId]);
+  return snapshots.get(transactionId) ?? null;
+}
+
+function toSnapshot(t: Prisma.TransactionGetPayload<{ select: typeof SNAPSHOT_SELECT }>): TransactionSnapshot {
+  return {
+    description: t.description,
+    amountCents: t.amountCents,
+    type: t.type,
+    currency: t.currency,
+    date: formatLocalDateOnly(t.date),
+    status: t.status,
+    notes: t.notes,
+    categoryId: t.categoryId,
+    paymentSourceId: t.paymentSourceId,
+    transferToPaymentSourceId: t.transferToPaymentSourceId,
+    payeeId: t.payeeId,
+    tagIds: t.tags.map((x) => x.tagId).sort(),
+    splits: t.splits.map((s) => ({ categoryId: s.categoryId, amountCents: s.amountCents, note: s.note })),
+  };
+}
+
+export function diffSnapshots(before: TransactionSnapshot, after: TransactionSnapshot): RevisionChange[] {
+  const out: RevisionChange[] = [];
+  for (const field of SNAPSHOT_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      out.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  return out;
+}
+
+type RevisionEntry = {
+  transactionId: string;
+  before: TransactionSnapshot;
+  after?: TransactionSnapshot;
+};
+
+/**
+ * Adds history entries. For UPDATE / REVERT pass the state after the change;
+ * an edit that changed nothing isn't recorded. DELETE / RESTORE have no diff.
+ * Returns how many were recorded.
+ */
+export async function recordTransactionRevisions(
+  db: Db,
+  actorUserId: string,
+  action: RevisionAction,
+  entries: RevisionEntry[]
+): Promise<number> {
+  const data = entries.flatMap((e) => {
+    const changes = e.after ? diffSnapshots(e.before, e.after) : [];
+    if (e.after && changes.length === 0) return [];
+
+    return [
+      {
+        transactionId: e.transactionId,
+        actorUserId,
+        action,
+        changes: changes as unknown as Prisma.InputJsonValue,
+        before: e.before as unknown as Prisma.InputJsonValue,
+      },
+    ];
+  });
+  if (data.length === 0) return 0;
+
+  const res = await db.transactionRevision.createMany({ data });
+  return res.count;
+}
+
+export async function recordTransactionRevision(
+  db: Db,
+  input: RevisionEntry & { actorUserId: string; action: RevisionAction }
+): Promise<boolean> {
+  const { actorUserId, action, ...entry } = input;
+  return (await recordTransactionRevisions(db, actorUserId, action, [entry])) > 0;
+}
+
+/** Reads a stored `before` back; null if it isn't a snapshot (e.g. hand-edited rows). */
+export function parseStoredSnapshot(input: Prisma.JsonValue): TransactionSnapshot | null {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) return null;
+  const s = input as Record<string, unknown>;
+
+  if (
+    typeof s.description !== "string" ||
+    typeof s.amountCents !== "number" ||
+    typeof s.currency !== "string" ||
+    typeof s.date !== "string" ||
+    !parseLocalDateOnly(s.date) ||
+    !Array.isArray(s.tagIds) ||
+    !Array.isArray(s.splits)
+  ) {
+    return null;
+  }
+
+  return input as unknown as TransactionSnapshot;
+}
+
+/** Reads stored `changes` back, dropping anything that isn't a known field. */
+export function parseStoredChanges(input: Prisma.JsonValue): RevisionChange[] {
+  if (!Array.isArray(input)) return [];
+  return input.filter(
+    (c): c is Prisma.JsonObject =>
+      typeof c === "object" &&
+      c !== null &&
+      !Array.isArray(c) &&
+      SNAPSHOT_FIELDS.includes(c.field as SnapshotField)
+  ) as unknown as RevisionChange[];
+}
+
+/**
+ * Reverting restores a snapshot into the current world: categories, payees,
+ * tags or payment sources deleted since then are dropped (the same as their
+ * own delete does to live rows). A transfer needs both accounts, so it can't
+ * come back without them. Reconciled status is never put back or taken away
+ * by a revert; that's what reconciliations are for.
+ */
+export async function prepareSnapshotForRevert(
+  userId: string,
+  snapshot: TransactionSnapshot,
+  currentStatus: TransactionStatus
+): Promise<{ ok: true; value: TransactionSnapshot } | { ok: false; error: string }> {
+  const categoryIds = [snapshot.categoryId, ...snapshot.splits.map((s) => s.categoryId)].filter(
+    (x): x is string => !!x
+  );
+  const sourceIds = [snapshot.paymentSourceId, snapshot.transferToPaymentSourceId].filter((x): x is string => !!x);
+
+  const [categories, sources, payee, tags] = await Promise.all([
+    prisma.category.findMany({ where: { userId, id: { in: categoryIds } }, select: { id: true } }),
+    prisma.paymentSource.findMany({ where: { userId, id: { in: sourceIds } }, select: { id: true } }),
+    snapshot.payeeId
+      ? prisma.payee.findFirst({ where: { userId, id: snapshot.payeeId }, select: { id: true } })
+      : null,
+    prisma.tag.findMany({ where: { userId, id: { in: snapshot.tagIds } }, select: { id: true } }),
+  ]);
+
+  const knownCategories = new Set(categories.map((c) => c.id));
+  const knownSources = new Set(sources.map((s) => s.id));
+  const keep = (id: string | null, known: Set<string>) => (id && known.has(id) ? id : null);
+
+  const paymentSourceId = keep(snapshot.paymentSourceId, knownSources);
+  const transferToPaymentSourceId = keep(snapshot.transferToPaymentSourceId, knownSources);
+
+  if (snapshot.type === "TRANSFER" && (!paymentSourceId || !transferToPaymentSourceId)) {
+    return { ok: false, error: "A payment source this transfer used has been deleted, so it can't be reverted" };
+  }
+
+  const keepReconciled = currentStatus === "RECONCILED";
+  const status: TransactionStatus = keepReconciled
+    ? "RECONCILED"
+    : snapshot.status === "RECONCILED"
+      ? currentStatus
+      : snapshot.status;
+
+  return {
+    ok: true,
+    value: {
+      ...snapshot,
+      status,
+      categoryId: keep(snapshot.categoryId, knownCategories),
+      paymentSourceId,
+      transferToPaymentSourceId,
+      payeeId: payee?.id ?? null,
+      tagIds: tags.map((t) => t.id).sort(),
+      splits: snapshot.splits.map((s) => ({ ...s, categoryId: keep(s.categoryId, knownCategories) })),
+    },
+  };
+}
+
+/** Overwrites a transaction with a (prepared) snapshot, splits and tags included. */
+export async function applyTransactionSnapshot(db: Db, transactionId: string, snapshot: TransactionSnapshot) {
+  await db.transactionSplit.deleteMany({ where: { transactionId } });
+  if (snapshot.splits.length) {
+    await db.transactionSplit.createMany({
+      data: snapshot.splits.map((s, i) => ({ ...s, transactionId, sortOrder: i })),
+    });
+  }
+
+  await db.transactionTag.deleteMany({ where: { transactionId } });
+  if (snapshot.tagIds.length) {
+    await db.transactionTag.createMany({
+      data: snapshot.tagIds.map((tagId) => ({ transactionId, tagId })),
+    });
+  }
+
+  await db.transaction.update({
+    where: { id: transactionId },
+    data: {
+      description: snapshot.description,
+      amountCents: snapshot.amountCents,
+      type: snapshot.type,
+      currency: snapshot.currency,
+      date: parseLocalDateOnly(snapshot.date)!,
+      status: snapshot.status,
+      notes: snapshot.notes,
+      categoryId: snapshot.splits.length ? null : snapshot.categoryId,
+      paymentSourceId: snapshot.paymentSourceId,
+      transferToPaymentSourceId: snapshot.transferToPaymentSourceId,
+      payeeId: snapshot.payeeId,
+    },
+  });
+}
+
+/** ----------------------------
+ * Display
+ * ---------------------------- */
+
+export type RevisionNames = {
+  categories: Map<string, string>;
+  paymentSources: Map<string, string>;
+  payees: Map<string, string>;
+  tags: Map<string, string>;
+};
+
+/** Every id the given changes point at, for one name lookup per kind. */
+export function collectRevisionIds(changes: RevisionChange[]) {
+  const out = {
+    categories: new Set<string>(),
+    paymentSources: new Set<string>(),
+    payees: new Set<string>(),
+    tags: new Set<string>(),
+  };
+
+  for (const c of changes) {
+    for (const v of [c.before, c.after]) {
+      if (c.field === "categoryId" && typeof v === "string") out.categories.add(v);
+      if ((c.field === "paymentSourceId" || c.field === "transferToPaymentSourceId") && typeof v === "string") {
+        out.paymentSources.add(v);
+      }
+      if (c.field === "payeeId" && typeof v === "string") out.payees.add(v);
+      if (c.field === "tagIds" && Array.isArray(v)) v.forEach((id) => out.tags.add(String(id)));
+      if (c.field === "splits" && Array.isArray(v)) {
+        for (const s of v as TransactionSplitInput[]) if (s.categoryId) out.categories.add(s.categoryId);
+      }
+    }
+  }
+
+  return out;
+}
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  PENDING: "Pending",
+  CLEARED: "Cleared",
+  RECONCILED: "Reconciled",
+};
+
+/** One side of a change as text; things deleted since show as "(deleted)". */
+export function formatRevisionValue(
+  field: SnapshotField,
+  value: unknown,
+  names: RevisionNames,
+  currency: string
+): string {
+  const name = (map: Map<string, string>, id: unknown) =>
+    typeof id === "string" ? (map.get(id) ?? "(deleted)") : "None";
+
+  switch (field) {
+    case "amountCents":
+      return typeof value === "number" ? formatMoneyCents(value, currency) : "—";
+    case "status":
+      return STATUS_LABELS[value as TransactionStatus] ?? String(value);
+    case "type":
+      return typeof value === "string" ? value.charAt(0) + value.slice(1).toLowerCase() : "—";
+    case "notes":
+      return typeof value === "string" && value ? value : "None";
+    case "categoryId":
+      return value ? name(names.categories, value) : "Uncategorized";
+    case "paymentSourceId":
+    case "transferToPaymentSourceId":
+      return name(names.paymentSources, value);
+    case "payeeId":
+      return name(names.payees, value);
+    case "tagIds":
+      return Array.isArray(value) && value.length ? value.map((id) => name(names.tags, id)).join(", ") : "None";
+    case "splits":
+      return Array.isArray(value) && value.length
+        ? (value as TransactionSplitInput[])
+            .map(
+              (s) =>
+                `${s.categoryId ? name(names.categories, s.categoryId) : "Uncategorized"} ${formatMoneyCents(s.amountCents, currency)}`
+            )
+            .join(", ")
+        : "Not split";
+    default:
+      return value === null || value === undefined || value === "" ? "—" : String(value);
+  }
+}
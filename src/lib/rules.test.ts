@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseRuleDescriptionCondition } from "@/lib/rules";
+
+// The parsers under test never touch the database (vi.mock is hoisted above the imports)
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+const regexError = (pattern: string) => {
+  const res = parseRuleDescriptionCondition("REGEX", pattern);
+  return res.ok ? null : res.error;
+};
+
+describe("parseRuleDescriptionCondition", () => {
+  it("accepts ordinary regexes", () => {
+    for (const pattern of [
+      "^amzn mktp",
+      "uber\\s*(eats)?",
+      "(?:netflix|spotify)\\.com",
+      "[a-z]+ coffee \\d{2,4}",
+      "(starbucks|peet's)?",
+      "(?<store>whole ?foods)",
+      "(a+)?b",
+    ]) {
+      expect(regexError(pattern), pattern).toBeNull();
+    }
+  });
+
+  it("rejects nested quantifiers and backreferences", () => {
+    for (const pattern of [
+      "(a+)+",
+      "(\\w+\\s?)*$",
+      "((ab)*c)+",
+      "(x|y+){2,}",
+      "(?:a*)*",
+      "(a|a)*$",
+      "(.*a){12}$",
+      "(\\w)\\1",
+    ]) {
+      expect(regexError(pattern), pattern).toMatch(/can't repeat a group|backreferences/);
+    }
+  });
+
+  it("rejects chains of open-ended repeats", () => {
+    for (const pattern of [".*.*.*.*.*.*.*.*=", "\\w+a\\w+a\\w+a=", "a{2,}b+c*"]) {
+      expect(regexError(pattern), pattern).toMatch(/open-ended repeats/);
+    }
+  });
+
+  it("rejects invalid and overlong patterns", () => {
+    expect(regexError("(unclosed")).toMatch(/not a valid regular expression/);
+    expect(regexError("a".repeat(201))).toMatch(/too long/);
+  });
+});
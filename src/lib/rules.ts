@@ -0,0 +1,444 @@
+/** ----------------------------
+ * Auto-categorization rules
+ *
+ * A rule has conditions (description contains / starts with / matches a
+ * regex, an amount range, a type, a payment source; every one that's set
+ * must hold) and actions (set category, set payment source, add tags,
+ * rename the description).
+ *
+ * Enabled rules run lowest priority first on POST /api/finance/transactions
+ * and the CSV / OFX imports. Conditions always look at the transaction as it
+ * came in; a field the user (or an earlier rule) already set is left alone,
+ * and tags from every matching rule add up.
+ * ---------------------------- */
+
+import { prisma } from "@/lib/prisma";
+import { MAX_AMOUNT_CENTS, formatLocalDateOnly, type TransactionType } from "@/lib/transactions";
+import { MAX_TAGS_PER_TRANSACTION } from "@/lib/tags";
+import { formatMoneyCents } from "@/lib/currency";
+import { loadTransactionSnapshots, recordTransactionRevisions } from "@/lib/revisions";
+
+export const MAX_RULE_NAME_LENGTH = 60;
+export const MAX_RULE_PATTERN_LENGTH = 200;
+export const MAX_RULES = 100;
+
+// A regex may use this many open-ended repeats ("*", "+", "{n,}"), and is
+// tested against this much of the description
+export const MAX_RULE_REGEX_REPEATS = 2;
+export const MAX_RULE_REGEX_INPUT_LENGTH = 256;
+
+// Dry runs list this many rows (the counts cover all of them)
+export const MAX_RULE_PREVIEW_ROWS = 200;
+
+export const RULE_DESCRIPTION_MATCHES = {
+  CONTAINS: "contains",
+  STARTS_WITH: "starts with",
+  REGEX: "matches regex",
+} as const;
+
+export type RuleDescriptionMatch = keyof typeof RULE_DESCRIPTION_MATCHES;
+
+export type TransactionRuleDefinition = {
+  id: string;
+  name: string;
+  descriptionMatch: RuleDescriptionMatch | null;
+  descriptionPattern: string | null;
+  minAmountCents: number | null;
+  maxAmountCents: number | null;
+  type: TransactionType | null;
+  paymentSourceId: string | null;
+  setCategoryId: string | null;
+  setPaymentSourceId: string | null;
+  renameTo: string | null;
+  addTagIds: string[];
+};
+
+export type RuleTarget = {
+  description: string;
+  amountCents: number; // stored positive
+  type: TransactionType;
+  categoryId: string | null;
+  paymentSourceId: string | null;
+  hasSplits: boolean;
+  tagIds: string[];
+};
+
+export type RuleOutcome = {
+  ruleIds: string[]; // every rule that matched, in the order they ran
+  categoryId: string | null; // null = no rule set it
+  paymentSourceId: string | null;
+  description: string | null;
+  addTagIds: string[];
+};
+
+export function validateRuleName(input: unknown): { ok: true; value: string } | { ok: false; error: string } {
+  const name = String(input ?? "").trim();
+  if (!name) return { ok: false, error: "name is required" };
+  if (name.length > MAX_RULE_NAME_LENGTH) {
+    return { ok: false, error: `name is too long (max ${MAX_RULE_NAME_LENGTH})` };
+  }
+  return { ok: true, value: name };
+}
+
+export function parseRuleDescriptionMatch(input: unknown): RuleDescriptionMatch | null {
+  const v = String(input ?? "").trim().toUpperCase();
+  return v in RULE_DESCRIPTION_MATCHES ? (v as RuleDescriptionMatch) : null;
+}
+
+/**
+ * Whether a regex can backtrack badly on a near miss: a group repeated with
+ * "*", "+" or "{n}" that itself repeats or alternates, like "(a+)+", "(a|a)*"
+ * or "(.*a){12}", more than MAX_RULE_REGEX_REPEATS open-ended repeats, like
+ * ".*.*.*=", or a backreference. Rules run on every new transaction, so these
+ * are refused rather than left to hang a request.
+ */
+function isUnsafeRegex(pattern: string): boolean {
+  const groups: boolean[] = []; // per open group: repeats or alternates inside
+  let closedGroupRisky: boolean | null = null; // the group that just closed, if the last token was ")"
+  let openEndedRepeats = 0;
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const justClosed = closedGroupRisky;
+    closedGroupRisky = null;
+
+    if (ch === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return true;
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+
+    if (ch === "[") {
+      inClass = true;
+    } else if (ch === "(") {
+      groups.push(false);
+      // (?:...), lookarounds and named groups aren't quantifiers
+      const prefix = /^\(\?(?:<[=!]|<[^>]*>|[:=!])/.exec(pattern.slice(i));
+      if (prefix) i += prefix[0].length - 1;
+    } else if (ch === ")") {
+      const risky = groups.pop() ?? false;
+      if (risky && groups.length) groups[groups.length - 1] = true;
+      closedGroupRisky = risky;
+    } else if (ch === "|") {
+      if (groups.length) groups[groups.length - 1] = true;
+    } else {
+      const bound = ch === "{" ? /^\{\d+(,\d*)?\}/.exec(pattern.slice(i)) : null;
+      if (ch !== "*" && ch !== "+" && ch !== "?" && !bound) continue;
+
+      if (ch !== "?" && justClosed) return true;
+      if ((ch === "*" || ch === "+" || bound?.[1] === ",") && ++openEndedRepeats > MAX_RULE_REGEX_REPEATS) {
+        return true;
+      }
+      if (groups.length) groups[groups.length - 1] = true;
+      if (bound) i += bound[0].length - 1;
+    }
+  }
+
+  return false;
+}
+
+/** The description condition: a match kind plus its text (a regex must compile). */
+export function parseRuleDescriptionCondition(
+  match: unknown,
+  pattern: unknown
+): { ok: true; value: { match: RuleDescriptionMatch; pattern: string } | null } | { ok: false; error: string } {
+  const text = String(pattern ?? "").trim();
+  if (!text) return { ok: true, value: null };
+  if (text.length > MAX_RULE_PATTERN_LENGTH) {
+    return { ok: false, error: `descriptionPattern is too long (max ${MAX_RULE_PATTERN_LENGTH})` };
+  }
+
+  const kind = match === undefined || match === null || match === "" ? "CONTAINS" : parseRuleDescriptionMatch(match);
+  if (!kind) return { ok: false, error: 'descriptionMatch must be "CONTAINS", "STARTS_WITH" or "REGEX"' };
+
+  if (kind === "REGEX") {
+    try {
+      new RegExp(text, "i");
+    } catch {
+      return { ok: false, error: "descriptionPattern is not a valid regular expression" };
+    }
+    if (isUnsafeRegex(text)) {
+      return {
+        ok: false,
+        error:
+          "descriptionPattern can't repeat a group that repeats or alternates inside, use more than " +
+          `${MAX_RULE_REGEX_REPEATS} open-ended repeats, or use backreferences`,
+      };
+    }
+  }
+
+  return { ok: true, value: { match: kind, pattern: text } };
+}
+
+/** An amount bound in cents (absolute); null / "" = no bound. */
+export function parseRuleAmountCents(
+  input: unknown,
+  field: string
+): { ok: true; value: number | null } | { ok: false; error: string } {
+  if (input === undefined || input === null || input === "") return { ok: true, value: null };
+  const n = Number(input);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_AMOUNT_CENTS) {
+    return { ok: false, error: `${field} must be a whole number of cents between 0 and ${MAX_AMOUNT_CENTS}` };
+  }
+  return { ok: true, value: n };
+}
+
+export function hasRuleCondition(r: Omit<TransactionRuleDefinition, "id" | "name">) {
+  return Boolean(
+    r.descriptionPattern ||
+      r.minAmountCents !== null ||
+      r.maxAmountCents !== null ||
+      r.type ||
+      r.paymentSourceId
+  );
+}
+
+export function hasRuleAction(r: Omit<TransactionRuleDefinition, "id" | "name">) {
+  return Boolean(r.setCategoryId || r.setPaymentSourceId || r.renameTo || r.addTagIds.length);
+}
+
+function descriptionMatches(rule: TransactionRuleDefinition, description: string) {
+  if (!rule.descriptionPattern) return true;
+
+  const text = description.toLowerCase();
+  const pattern = rule.descriptionPattern.toLowerCase();
+  switch (rule.descriptionMatch ?? "CONTAINS") {
+    case "CONTAINS":
+      return text.includes(pattern);
+    case "STARTS_WITH":
+      return text.startsWith(pattern);
+    case "REGEX":
+      // Saved before validation, or edited by hand
+      if (isUnsafeRegex(rule.descriptionPattern)) return false;
+      try {
+        return new RegExp(rule.descriptionPattern, "i").test(description.slice(0, MAX_RULE_REGEX_INPUT_LENGTH));
+      } catch {
+        return false;
+      }
+  }
+}
+
+export function ruleMatches(rule: TransactionRuleDefinition, t: RuleTarget) {
+  if (rule.type && rule.type !== t.type) return false;
+  if (rule.paymentSourceId && rule.paymentSourceId !== t.paymentSourceId) return false;
+  if (rule.minAmountCents !== null && t.amountCents < rule.minAmountCents) return false;
+  if (rule.maxAmountCents !== null && t.amountCents > rule.maxAmountCents) return false;
+  return descriptionMatches(rule, t.description);
+}
+
+/** Runs rules (already in priority order) over one transaction. */
+export function runTransactionRules(rules: TransactionRuleDefinition[], t: RuleTarget): RuleOutcome {
+  const out: RuleOutcome = { ruleIds: [], categoryId: null, paymentSourceId: null, description: null, addTagIds: [] };
+
+  // transfers have no category and keep their accounts; split rows are categorized by their lines
+  const canSetCategory = !t.categoryId && !t.hasSplits && t.type !== "TRANSFER";
+  const canSetPaymentSource = !t.paymentSourceId && t.type !== "TRANSFER";
+  const tags = new Set(t.tagIds);
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, t)) continue;
+    out.ruleIds.push(rule.id);
+
+    if (canSetCategory && !out.categoryId && rule.setCategoryId) out.categoryId = rule.setCategoryId;
+    if (canSetPaymentSource && !out.paymentSourceId && rule.setPaymentSourceId) {
+      out.paymentSourceId = rule.setPaymentSourceId;
+    }
+    if (!out.description && rule.renameTo && rule.renameTo !== t.description) out.description = rule.renameTo;
+
+    for (const tagId of rule.addTagIds) {
+      if (tags.has(tagId) || tags.size >= MAX_TAGS_PER_TRANSACTION) continue;
+      tags.add(tagId);
+      out.addTagIds.push(tagId);
+    }
+  }
+
+  return out;
+}
+
+export function ruleOutcomeChanges(o: RuleOutcome) {
+  return Boolean(o.categoryId || o.paymentSourceId || o.description || o.addTagIds.length);
+}
+
+/**
+ * The user's enabled rules, in the order they run. Actions pointing at an
+ * archived category or payment source are dropped, so rules never file into them.
+ */
+export async function loadTransactionRules(userId: string): Promise<TransactionRuleDefinition[]> {
+  const rows = await prisma.transactionRule.findMany({
+    where: { userId, enabled: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+    select: {
+      id: true,
+      name: true,
+      descriptionMatch: true,
+      descriptionPattern: true,
+      minAmountCents: true,
+      maxAmountCents: true,
+      type: true,
+      paymentSourceId: true,
+      setCategoryId: true,
+      setPaymentSourceId: true,
+      renameTo: true,
+      addTags: { select: { tagId: true } },
+      setCategory: { select: { archivedAt: true } },
+      setPaymentSource: { select: { archivedAt: true } },
+    },
+  });
+
+  return rows.map(({ addTags, setCategory, setPaymentSource, ...r }) => ({
+    ...r,
+    setCategoryId: setCategory?.archivedAt ? null : r.setCategoryId,
+    setPaymentSourceId: setPaymentSource?.archivedAt ? null : r.setPaymentSourceId,
+    addTagIds: addTags.map((t) => t.tagId),
+  }));
+}
+
+export type RulePreviewRow = {
+  transactionId: string;
+  date: string; // "YYYY-MM-DD"
+  description: string;
+  amount: string; // formatted, in the row's currency
+  rules: string[]; // names of the rules that matched
+  changes: Array<{ field: "description" | "category" | "paymentSource" | "tags"; before: string | null; after: string }>;
+};
+
+export type RulesRunResult = {
+  scanned: number;
+  changed: number;
+  rows: RulePreviewRow[]; // at most MAX_RULE_PREVIEW_ROWS
+};
+
+/**
+ * Runs the rules over existing uncategorized transactions (not split, not
+ * transfers, not in Trash, not reconciled). A dry run only reports which rows
+ * would change; otherwise the changes are saved, with a history entry per row.
+ */
+export async function applyRulesToUncategorized(
+  userId: string,
+  { dryRun }: { dryRun: boolean }
+): Promise<RulesRunResult> {
+  const rules = await loadTransactionRules(userId);
+  if (rules.length === 0) return { scanned: 0, changed: 0, rows: [] };
+
+  const [txs, categories, paymentSources, tags] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        categoryId: null,
+        type: { not: "TRANSFER" },
+        status: { not: "RECONCILED" },
+        splits: { none: {} },
+      },
+      orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+      select: {
+        id: true,
+        date: true,
+        description: true,
+        amountCents: true,
+        currency: true,
+        type: true,
+        categoryId: true,
+        paymentSourceId: true,
+        tags: { select: { tagId: true } },
+      },
+    }),
+    prisma.category.findMany({ where: { userId }, select: { id: true, name: true } }),
+    prisma.paymentSource.findMany({ where: { userId }, select: { id: true, name: true } }),
+    prisma.tag.findMany({ where: { userId }, select: { id: true, name: true } }),
+  ]);
+
+  const ruleNames = new Map(rules.map((r) => [r.id, r.name]));
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+  const sourceNames = new Map(paymentSources.map((p) => [p.id, p.name]));
+  const tagNames = new Map(tags.map((t) => [t.id, t.name]));
+
+  const outcomes = txs.flatMap((t) => {
+    const outcome = runTransactionRules(rules, {
+      description: t.description,
+      amountCents: t.amountCents,
+      type: t.type,
+      categoryId: t.categoryId,
+      paymentSourceId: t.paymentSourceId,
+      hasSplits: false,
+      tagIds: t.tags.map((x) => x.tagId),
+    });
+    return ruleOutcomeChanges(outcome) ? [{ t, outcome }] : [];
+  });
+
+  const rows: RulePreviewRow[] = outcomes.slice(0, MAX_RULE_PREVIEW_ROWS).map(({ t, outcome }) => {
+    const changes: RulePreviewRow["changes"] = [];
+    if (outcome.description) changes.push({ field: "description", before: t.description, after: outcome.description });
+    if (outcome.categoryId) {
+      changes.push({ field: "category", before: null, after: categoryNames.get(outcome.categoryId) ?? "Unknown" });
+    }
+    if (outcome.paymentSourceId) {
+      changes.push({
+        field: "paymentSource",
+        before: null,
+        after: sourceNames.get(outcome.paymentSourceId) ?? "Unknown",
+      });
+    }
+    if (outcome.addTagIds.length) {
+      changes.push({
+        field: "tags",
+        before: null,
+        after: outcome.addTagIds.map((id) => tagNames.get(id) ?? "Unknown").join(", "),
+      });
+    }
+
+    return {
+      transactionId: t.id,
+      date: formatLocalDateOnly(t.date),
+      description: t.description,
+      amount: formatMoneyCents(t.amountCents, t.currency),
+      rules: outcome.ruleIds.map((id) => ruleNames.get(id) ?? "Rule"),
+      changes,
+    };
+  });
+
+  if (!dryRun && outcomes.length > 0) {
+    await prisma.$transaction(
+      async (tx) => {
+        const ids = outcomes.map(({ t }) => t.id);
+        const before = await loadTransactionSnapshots(tx, ids);
+
+        for (const { t, outcome } of outcomes) {
+          await tx.transaction.update({
+            where: { id: t.id },
+            data: {
+              ...(outcome.categoryId ? { categoryId: outcome.categoryId } : {}),
+              ...(outcome.paymentSourceId ? { paymentSourceId: outcome.paymentSourceId } : {}),
+              ...(outcome.description ? { description: outcome.description } : {}),
+            },
+          });
+          if (outcome.addTagIds.length) {
+            await tx.transactionTag.createMany({
+              data: outcome.addTagIds.map((tagId) => ({ transactionId: t.id, tagId })),
+              skipDuplicates: true,
+            });
+          }
+        }
+
+        // Same history entries a hand edit records
+        const after = await loadTransactionSnapshots(tx, ids);
+        await recordTransactionRevisions(
+          tx,
+          userId,
+          "UPDATE",
+          ids.flatMap((id) =>
+            before.has(id) && after.has(id) ? [{ transactionId: id, before: before.get(id)!, after: after.get(id)! }] : []
+          )
+        );
+      },
+      { timeout: 60_000 }
+    );
+  }
+
+  return { scanned: txs.length, changed: outcomes.length, rows };
+}
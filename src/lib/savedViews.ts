@@ -0,0 +1,89 @@
+/** ----------------------------
+ * Saved report views
+ *
+ * A view is a name plus the Reports query params it opens with.
+ * Pure helpers: safe to import from client components.
+ * ---------------------------- */
+
+export const MAX_SAVED_VIEW_NAME_LENGTH = 60;
+export const MAX_SAVED_VIEWS = 50;
+
+// The ReportsFilters form fields a view can carry
+export const SAVED_VIEW_PARAM_KEYS = [
+  "month",
+  "range",
+  "from",
+  "to",
+  "minAmount",
+  "maxAmount",
+  "type",
+  "q",
+  "categoryId",
+  "paymentSourceId",
+  "tagId",
+  "payeeId",
+] as const;
+
+export type SavedViewParams = Partial<Record<(typeof SAVED_VIEW_PARAM_KEYS)[number], string>>;
+
+export type SavedViewSummary = {
+  id: string;
+  name: string;
+  params: SavedViewParams;
+  isDefault: boolean;
+};
+
+const MAX_PARAM_LENGTH = 500;
+
+export function validateSavedViewName(input: unknown): { ok: true; value: string } | { ok: false; error: string } {
+  const name = String(input ?? "").trim();
+  if (!name) return { ok: false, error: "name is required" };
+  if (name.length > MAX_SAVED_VIEW_NAME_LENGTH) {
+    return { ok: false, error: `name is too long (max ${MAX_SAVED_VIEW_NAME_LENGTH})` };
+  }
+  return { ok: true, value: name };
+}
+
+/**
+ * Keeps the known, non-empty params (as strings) and drops everything else.
+ * Values aren't checked here: Reports validates them like any other URL.
+ */
+export function parseSavedViewParams(
+  input: unknown
+): { ok: true; value: SavedViewParams } | { ok: false; error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { ok: false, error: "params must be an object of Reports filters" };
+  }
+
+  const out: SavedViewParams = {};
+  for (const key of SAVED_VIEW_PARAM_KEYS) {
+    const raw = (input as Record<string, unknown>)[key];
+    if (raw === undefined || raw === null) continue;
+    if (typeof raw !== "string" && typeof raw !== "number") {
+      return { ok: false, error: `params.${key} must be a string` };
+    }
+    const value = String(raw).trim();
+    if (value.length > MAX_PARAM_LENGTH) return { ok: false, error: `params.${key} is too long` };
+    if (value) out[key] = value;
+  }
+  return { ok: true, value: out };
+}
+
+/** Stored Json -> params (anything unexpected is dropped). */
+export function readSavedViewParams(stored: unknown): SavedViewParams {
+  const parsed = parseSavedViewParams(stored);
+  return parsed.ok ? parsed.value : {};
+}
+
+export function savedViewHref(params: SavedViewParams): string {
+  const qs = new URLSearchParams(
+    SAVED_VIEW_PARAM_KEYS.flatMap((key) => (params[key] ? [[key, params[key]!] as [string, string]] : []))
+  );
+  const query = qs.toString();
+  return query ? `/reports?${query}` : "/reports";
+}
+
+/** True when the Reports URL params are exactly the view's. */
+export function savedViewMatches(params: SavedViewParams, current: SavedViewParams): boolean {
+  return SAVED_VIEW_PARAM_KEYS.every((key) => (params[key] ?? "") === (current[key] ?? ""));
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { parseTransactionSearch } from "@/lib/search";
+
+/**
+ * Evaluates a Prisma where against in-memory rows the way Postgres does:
+ * comparisons on NULL are NULL, NOT NULL is NULL, and only rows where the
+ * whole clause is true come back. To-one relation filters compile to
+ * `fk IN (SELECT ...)`, so an unset foreign key is NULL as well.
+ */
+type Tri = boolean | null;
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+const TO_ONE = new Set(["category", "parent", "payee", "paymentSource", "transferToPaymentSource", "tag"]);
+
+const and = (vals: Tri[]): Tri => (vals.includes(false) ? false : vals.includes(null) ? null : true);
+const or = (vals: Tri[]): Tri => (vals.includes(true) ? true : vals.includes(null) ? null : false);
+const not = (v: Tri): Tri => (v === null ? null : !v);
+
+function scalar(actual: unknown, filter: unknown): Tri {
+  if (filter === null) return actual === null;
+  if (actual === null || actual === undefined) return null;
+  if (typeof filter !== "object" || filter instanceof Date) return actual === filter;
+
+  const f = filter as Record<string, unknown>;
+  const fold = (v: unknown) => (f.mode === "insensitive" && typeof v === "string" ? v.toLowerCase() : v);
+  const checks: boolean[] = [];
+  if ("equals" in f) checks.push(fold(actual) === fold(f.equals));
+  if ("contains" in f) checks.push(String(fold(actual)).includes(String(fold(f.contains))));
+  if ("gt" in f) checks.push((actual as number) > (f.gt as number));
+  if ("gte" in f) checks.push((actual as number) >= (f.gte as number));
+  if ("lt" in f) checks.push((actual as number) < (f.lt as number));
+  if ("lte" in f) checks.push((actual as number) <= (f.lte as number));
+  return checks.every(Boolean);
+}
+
+function evaluate(row: Row, where: Where): Tri {
+  const results: Tri[] = Object.entries(where).map(([key, spec]) => {
+    const list = (v: unknown) => (Array.isArray(v) ? v : [v]) as Where[];
+    if (key === "AND") return and(list(spec).map((w) => evaluate(row, w)));
+    if (key === "OR") return or(list(spec).map((w) => evaluate(row, w)));
+    if (key === "NOT") return not(and(list(spec).map((w) => evaluate(row, w))));
+
+    const value = row[key];
+    if (Array.isArray(value)) {
+      const s = spec as { some?: Where; none?: Where };
+      const some = (w: Where) => value.some((item) => evaluate(item as Row, w) === true);
+      if (s.some) return some(s.some);
+      if (s.none) return !some(s.none);
+      throw new Error(`Unsupported list filter on ${key}`);
+    }
+    if (TO_ONE.has(key)) {
+      if (value === null || value === undefined) return null;
+      return evaluate(value as Row, spec as Where) === true;
+    }
+    return scalar(value, spec);
+  });
+  return and(results);
+}
+
+function search(rows: Row[], q: string) {
+  const parsed = parseTransactionSearch(q);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return rows.filter((r) => !parsed.where || evaluate(r, parsed.where as Where) === true).map((r) => r.id);
+}
+
+const rent = { name: "Rent", parent: null };
+const deposit = { name: "Deposit", parent: rent };
+const food = { name: "Food", parent: null };
+
+function row(id: string, fields: Partial<Row> = {}): Row {
+  return {
+    id,
+    description: "Something",
+    notes: null,
+    categoryId: null,
+    category: null,
+    splits: [],
+    payeeId: null,
+    payee: null,
+    paymentSourceId: null,
+    paymentSource: null,
+    transferToPaymentSourceId: null,
+    transferToPaymentSource: null,
+    tags: [],
+    ...fields,
+  };
+}
+
+const inCategory = (category: Row) => ({ categoryId: String(category.name), category });
+const splitLine = (category: Row | null) => ({ categoryId: category ? String(category.name) : null, category });
+
+describe("parseTransactionSearch negation", () => {
+  it("keeps rows without notes for a negated word", () => {
+    const rows = [
+      row("plain"),
+      row("refund-description", { description: "Store refund" }),
+      row("refund-notes", { notes: "partial REFUND" }),
+      row("other-notes", { notes: "groceries" }),
+    ];
+
+    expect(search(rows, "-refund")).toEqual(["plain", "other-notes"]);
+    expect(search(rows, "refund")).toEqual(["refund-description", "refund-notes"]);
+  });
+
+  it("keeps uncategorized rows for a negated category", () => {
+    const rows = [
+      row("uncategorized"),
+      row("rent", inCategory(rent)),
+      row("deposit", inCategory(deposit)),
+      row("food", inCategory(food)),
+      row("split-food", { splits: [splitLine(food), splitLine(null)] }),
+      row("split-rent", { splits: [splitLine(food), splitLine(rent)] }),
+    ];
+
+    expect(search(rows, "-category:Rent")).toEqual(["uncategorized", "food", "split-food"]);
+    expect(search(rows, "category:rent")).toEqual(["rent", "deposit", "split-rent"]);
+  });
+
+  it("keeps rows without a payee or account for negated payee and account", () => {
+    const chase = { name: "Chase" };
+    const rows = [
+      row("none"),
+      row("starbucks", { payeeId: "p1", payee: { name: "Starbucks" } }),
+      row("chase", { paymentSourceId: "a1", paymentSource: chase }),
+      row("transfer-to-chase", {
+        paymentSourceId: "a2",
+        paymentSource: { name: "Cash" },
+        transferToPaymentSourceId: "a1",
+        transferToPaymentSource: chase,
+      }),
+    ];
+
+    expect(search(rows, "-payee:starbucks")).toEqual(["none", "chase", "transfer-to-chase"]);
+    expect(search(rows, "-account:Chase")).toEqual(["none", "starbucks"]);
+  });
+
+  it("still negates the none filters", () => {
+    const rows = [row("uncategorized"), row("food", inCategory(food))];
+    expect(search(rows, "-category:none")).toEqual(["food"]);
+  });
+});
@@ -0,0 +1,530 @@
+/** ----------------------------
+ * Transaction search language
+ *
+ * The search box takes words plus field filters, all of which must match:
+ *
+ *   coffee "whole foods"        description or notes contain the text
+ *   amount:>5 amount:<=20       also amount:12.50 and amount:5..20 (absolute amount)
+ *   category:Food  account:"Chase Visa"  tag:trip  payee:Starbucks
+ *                               by name, any case; `none` = not set
+ *                               (category:Food includes Food's subcategories)
+ *   type:income  status:cleared  currency:EUR
+ *   before:2026-03-01  after:2026-02-01  on:2026-02-14
+ *   -refund  -category:Rent     a leading "-" excludes
+ *
+ * `flag:` is kept as an alias of `tag:` (flags became tags).
+ * Parsed server-side into a Prisma where; errors name the offending term.
+ * ---------------------------- */
+
+import type { Prisma } from "@prisma/client";
+import {
+  MAX_AMOUNT_CENTS,
+  categorySubtreeWhere,
+  formatLocalDateOnly,
+  parseLocalDateOnly,
+  parseTransactionStatus,
+  parseTransactionType,
+  transactionCategoryWhere,
+  transactionPayeeWhere,
+  transactionPaymentSourceWhere,
+  transactionTagWhere,
+  type TransactionType,
+} from "@/lib/transactions";
+
+export const MAX_SEARCH_TERMS = 30;
+
+export const SEARCH_FIELDS = [
+  "amount",
+  "category",
+  "account",
+  "tag",
+  "payee",
+  "type",
+  "status",
+  "currency",
+  "before",
+  "after",
+  "on",
+] as const;
+
+type SearchField = (typeof SEARCH_FIELDS)[number];
+
+const FIELD_ALIASES: Record<string, SearchField> = { flag: "tag" };
+
+type Term = {
+  negated: boolean;
+  field: SearchField | null; // null = free text
+  value: string;
+  raw: string; // as typed, for error messages
+};
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+function tokenize(input: string): ParseResult<Term[]> {
+  const terms: Term[] = [];
+  const n = input.length;
+  let i = 0;
+
+  const readQuoted = (start: number): ParseResult<{ text: string; end: number }> => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) return { ok: false, error: "Missing closing quote" };
+    return { ok: true, value: { text: input.slice(start + 1, close), end: close + 1 } };
+  };
+
+  while (i < n) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === "-" && i + 1 < n && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const quoted = readQuoted(i);
+      if (!quoted.ok) return quoted;
+      i = quoted.value.end;
+      const text = quoted.value.text.trim();
+      if (text) terms.push({ negated, field: null, value: text, raw: input.slice(start, i) });
+      continue;
+    }
+
+    // A run up to whitespace; `key:"..."` continues into the quotes
+    let j = i;
+    while (j < n && !/\s/.test(input[j]) && !(input[j] === '"' && input[j - 1] === ":")) j++;
+    const run = input.slice(i, j);
+
+    const colon = run.indexOf(":");
+    const key = colon > 0 ? run.slice(0, colon).toLowerCase() : null;
+
+    if (key && /^[a-z]+$/.test(key)) {
+      const field = (SEARCH_FIELDS as readonly string[]).includes(key)
+        ? (key as SearchField)
+        : FIELD_ALIASES[key];
+      if (!field) {
+        return {
+          ok: false,
+          error: `Unknown filter "${key}:". Use ${SEARCH_FIELDS.map((f) => `${f}:`).join(", ")}`,
+        };
+      }
+
+      let value = run.slice(colon + 1);
+      i = j;
+      if (!value && input[j] === '"') {
+        const quoted = readQuoted(j);
+        if (!quoted.ok) return quoted;
+        value = quoted.value.text;
+        i = quoted.value.end;
+      }
+
+      value = value.trim();
+      if (!value) return { ok: false, error: `"${key}:" needs a value` };
+      terms.push({ negated, field, value, raw: input.slice(start, i) });
+      continue;
+    }
+
+    i = j;
+    terms.push({ negated, field: null, value: run, raw: input.slice(start, i) });
+  }
+
+  if (terms.length > MAX_SEARCH_TERMS) {
+    return { ok: false, error: `Search has too many terms (max ${MAX_SEARCH_TERMS})` };
+  }
+
+  return { ok: true, value: terms };
+}
+
+function parseAmountCents(raw: string): number | null {
+  if (!/^\d+(\.\d{1,2})?$/.test(raw)) return null;
+  const cents = Math.round(Number(raw) * 100);
+  return cents <= MAX_AMOUNT_CENTS ? cents : null;
+}
+
+function amountWhere(value: string): Prisma.TransactionWhereInput | null {
+  const range = value.match(/^([\d.]+)\.\.([\d.]+)$/);
+  if (range) {
+    const lo = parseAmountCents(range[1]);
+    const hi = parseAmountCents(range[2]);
+    if (lo === null || hi === null || lo > hi) return null;
+    return { amountCents: { gte: lo, lte: hi } };
+  }
+
+  const m = value.match(/^(>=|<=|>|<|=)?(.+)$/);
+  if (!m) return null;
+  const cents = parseAmountCents(m[2]);
+  if (cents === null) return null;
+
+  switch (m[1]) {
+    case ">":
+      return { amountCents: { gt: cents } };
+    case ">=":
+      return { amountCents: { gte: cents } };
+    case "<":
+      return { amountCents: { lt: cents } };
+    case "<=":
+      return { amountCents: { lte: cents } };
+    default:
+      return { amountCents: cents };
+  }
+}
+
+const isNone = (value: string) => value.toLowerCase() === "none";
+
+function termWhere(term: Term): ParseResult<Prisma.TransactionWhereInput> {
+  const { value } = term;
+  const name = { equals: value, mode: "insensitive" as const };
+  const invalid = (hint: string): ParseResult<Prisma.TransactionWhereInput> => ({
+    ok: false,
+    error: `Invalid "${term.raw}": ${hint}`,
+  });
+
+  switch (term.field) {
+    case null:
+      return {
+        ok: true,
+        value: {
+          OR: [
+            { description: { contains: value, mode: "insensitive" } },
+            { notes: { contains: value, mode: "insensitive" } },
+          ],
+        },
+      };
+
+    case "amount": {
+      const where = amountWhere(value);
+      return where ? { ok: true, value: where } : invalid("use e.g. amount:12.50, amount:>5 or amount:5..20");
+    }
+
+    // split transactions match on their lines' categories; parents include subcategories
+    case "category":
+      if (isNone(value)) return { ok: true, value: transactionCategoryWhere("uncategorized") };
+      return {
+        ok: true,
+        value: {
+          OR: [
+            { category: categorySubtreeWhere({ name }), splits: { none: {} } },
+            { splits: { some: { category: categorySubtreeWhere({ name }) } } },
+          ],
+        },
+      };
+
+    // transfers match both their from and to account
+    case "account":
+      if (isNone(value)) return { ok: true, value: { paymentSourceId: null } };
+      return {
+        ok: true,
+        value: { OR: [{ paymentSource: { name } }, { transferToPaymentSource: { name } }] },
+      };
+
+    case "tag":
+      if (isNone(value)) return { ok: true, value: { tags: { none: {} } } };
+      return { ok: true, value: { tags: { some: { tag: { name } } } } };
+
+    case "payee":
+      if (isNone(value)) return { ok: true, value: { payeeId: null } };
+      return { ok: true, value: { payee: { name } } };
+
+    case "type": {
+      const type = parseTransactionType(value);
+      return type ? { ok: true, value: { type } } : invalid("use income, expense or transfer");
+    }
+
+    case "status": {
+      const status = parseTransactionStatus(value);
+      return status ? { ok: true, value: { status } } : invalid("use pending, cleared or reconciled");
+    }
+
+    case "currency":
+      return /^[a-z]{3}$/i.test(value)
+        ? { ok: true, value: { currency: value.toUpperCase() } }
+        : invalid("use a 3-letter code like EUR");
+
+    case "before":
+    case "after":
+    case "on": {
+      const day = parseLocalDateOnly(value);
+      if (!day) return invalid("use a YYYY-MM-DD date");
+      const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+      if (term.field === "before") return { ok: true, value: { date: { lt: day } } };
+      if (term.field === "after") return { ok: true, value: { date: { gte: nextDay } } };
+      return { ok: true, value: { date: { gte: day, lt: nextDay } } };
+    }
+  }
+}
+
+/**
+ * The where for a "-" term. In SQL, NOT over a NULL column or a NULL foreign
+ * key is NULL, not true, so a plain NOT would drop "-refund" rows without
+ * notes and "-payee:X" rows without a payee. Fields that can be unset spell
+ * out that an unset value doesn't match; the rest are never NULL.
+ */
+function negatedTermWhere(term: Term, where: Prisma.TransactionWhereInput): Prisma.TransactionWhereInput {
+  const { value } = term;
+  const name = { equals: value, mode: "insensitive" as const };
+  if (term.field !== null && isNone(value)) return { NOT: where };
+
+  switch (term.field) {
+    case null: {
+      const text = { contains: value, mode: "insensitive" as const };
+      return {
+        AND: [{ NOT: { description: text } }, { OR: [{ notes: null }, { NOT: { notes: text } }] }],
+      };
+    }
+
+    // not split and not in the category, or split with no line in it
+    case "category": {
+      const category = categorySubtreeWhere({ name });
+      return {
+        AND: [
+          { OR: [{ categoryId: null }, { NOT: { category } }, { splits: { some: {} } }] },
+          { splits: { none: { category } } },
+        ],
+      };
+    }
+
+    case "account":
+      return {
+        AND: [
+          { OR: [{ paymentSourceId: null }, { NOT: { paymentSource: { name } } }] },
+          { OR: [{ transferToPaymentSourceId: null }, { NOT: { transferToPaymentSource: { name } } }] },
+        ],
+      };
+
+    case "payee":
+      return { OR: [{ payeeId: null }, { NOT: { payee: { name } } }] };
+
+    default:
+      return { NOT: where };
+  }
+}
+
+/**
+ * Parses a search box query into a where clause (null when it's blank).
+ * Callers add the user / deletedAt scope and their other filters.
+ */
+export function parseTransactionSearch(
+  input: string
+): { ok: true; where: Prisma.TransactionWhereInput | null } | { ok: false; error: string } {
+  const tokens = tokenize(input);
+  if (!tokens.ok) return tokens;
+  if (tokens.value.length === 0) return { ok: true, where: null };
+
+  const clauses: Prisma.TransactionWhereInput[] = [];
+  for (const term of tokens.value) {
+    const where = termWhere(term);
+    if (!where.ok) return where;
+    clauses.push(term.negated ? negatedTermWhere(term, where.value) : where.value);
+  }
+
+  return { ok: true, where: { AND: clauses } };
+}
+
+/** ----------------------------
+ * List filters
+ * ---------------------------- */
+
+function parseMonthRange(month: string) {
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return { ok: false as const, error: 'Invalid "month". Use YYYY-MM.' };
+  }
+
+  const [y, m] = month.split("-").map(Number);
+  if (!Number.isInteger(y) || !Number.isInteger(m) || m < 1 || m > 12) {
+    return { ok: false as const, error: 'Invalid "month". Use YYYY-MM.' };
+  }
+
+  const start = new Date(Date.UTC(y, m - 1, 1));
+  const end = new Date(Date.UTC(y, m, 1));
+  return { ok: true as const, range: { start, end } };
+}
+
+export const DATE_PRESETS = {
+  last7: "Last 7 days",
+  last30: "Last 30 days",
+  last90: "Last 90 days",
+  ytd: "Year to date",
+  lastYear: "Last year",
+} as const;
+
+export type DatePreset = keyof typeof DATE_PRESETS;
+
+export function parseDatePreset(input: unknown): DatePreset | null {
+  if (typeof input !== "string") return null;
+  return Object.hasOwn(DATE_PRESETS, input) ? (input as DatePreset) : null;
+}
+
+/** A preset as inclusive YYYY-MM-DD days, counted back from today. */
+export function datePresetRange(preset: DatePreset, today = new Date()): { from: string; to: string } {
+  const y = today.getFullYear();
+  const day = (yy: number, mm: number, dd: number) => formatLocalDateOnly(new Date(yy, mm, dd));
+  const daysBack = (n: number) => day(y, today.getMonth(), today.getDate() - (n - 1));
+
+  switch (preset) {
+    case "last7":
+      return { from: daysBack(7), to: formatLocalDateOnly(today) };
+    case "last30":
+      return { from: daysBack(30), to: formatLocalDateOnly(today) };
+    case "last90":
+      return { from: daysBack(90), to: formatLocalDateOnly(today) };
+    case "ytd":
+      return { from: day(y, 0, 1), to: formatLocalDateOnly(today) };
+    case "lastYear":
+      return { from: day(y - 1, 0, 1), to: day(y - 1, 11, 31) };
+  }
+}
+
+export type DateFilter = {
+  where: Prisma.DateTimeFilter | null;
+  // The days actually used when a range / from / to won (else "")
+  from: string;
+  to: string;
+};
+
+/**
+ * Date params, first match wins: range (a preset), then from / to
+ * (inclusive YYYY-MM-DD, either may be left open), then month (YYYY-MM).
+ * Forms submit all of them, so the more specific ones take precedence
+ * instead of conflicting.
+ */
+export function parseDateFilter(input: {
+  month?: string | null;
+  from?: string | null;
+  to?: string | null;
+  range?: string | null;
+}): { ok: true; value: DateFilter } | { ok: false; error: string } {
+  const rangeRaw = (input.range ?? "").trim();
+  const month = (input.month ?? "").trim();
+  let from = (input.from ?? "").trim();
+  let to = (input.to ?? "").trim();
+
+  if (rangeRaw) {
+    const preset = parseDatePreset(rangeRaw);
+    if (!preset) {
+      return { ok: false, error: `Invalid "range". Use ${Object.keys(DATE_PRESETS).join(", ")}.` };
+    }
+    ({ from, to } = datePresetRange(preset));
+  }
+
+  if (from || to) {
+    const start = from ? parseLocalDateOnly(from) : null;
+    if (from && !start) return { ok: false, error: 'Invalid "from". Use YYYY-MM-DD.' };
+
+    const last = to ? parseLocalDateOnly(to) : null;
+    if (to && !last) return { ok: false, error: 'Invalid "to". Use YYYY-MM-DD.' };
+
+    if (start && last && start > last) return { ok: false, error: '"from" must be on or before "to".' };
+
+    const end = last ? new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1) : null;
+    return {
+      ok: true,
+      value: { where: { ...(start ? { gte: start } : {}), ...(end ? { lt: end } : {}) }, from, to },
+    };
+  }
+
+  if (month) {
+    const parsed = parseMonthRange(month);
+    if (!parsed.ok) return parsed;
+    return { ok: true, value: { where: { gte: parsed.range.start, lt: parsed.range.end }, from: "", to: "" } };
+  }
+
+  return { ok: true, value: { where: null, from: "", to: "" } };
+}
+
+/** minAmount / maxAmount (absolute, e.g. "12.50") as an amountCents filter. */
+export function parseAmountFilter(input: {
+  minAmount?: string | null;
+  maxAmount?: string | null;
+}): { ok: true; where: Prisma.IntFilter | null } | { ok: false; error: string } {
+  const minRaw = (input.minAmount ?? "").trim();
+  const maxRaw = (input.maxAmount ?? "").trim();
+
+  const min = minRaw ? parseAmountCents(minRaw) : null;
+  if (minRaw && min === null) return { ok: false, error: 'Invalid "minAmount". Use an amount like 12.50.' };
+
+  const max = maxRaw ? parseAmountCents(maxRaw) : null;
+  if (maxRaw && max === null) return { ok: false, error: 'Invalid "maxAmount". Use an amount like 12.50.' };
+
+  if (min !== null && max !== null && min > max) {
+    return { ok: false, error: '"minAmount" must not be more than "maxAmount".' };
+  }
+
+  if (min === null && max === null) return { ok: true, where: null };
+  return { ok: true, where: { ...(min !== null ? { gte: min } : {}), ...(max !== null ? { lte: max } : {}) } };
+}
+
+export function parseTypeFilter(
+  input: string | null | undefined
+): { ok: true; type: TransactionType | null } | { ok: false; error: string } {
+  const raw = (input ?? "").trim();
+  if (!raw) return { ok: true, type: null };
+  const type = parseTransactionType(raw);
+  return type ? { ok: true, type } : { ok: false, error: 'Invalid "type". Use EXPENSE, INCOME or TRANSFER.' };
+}
+
+/**
+ * The filters GET /api/finance/transactions takes (month / range / from / to,
+ * minAmount, maxAmount, type, q, categoryId, paymentSourceId, tagId, payeeId,
+ * status) as a where clause, so bulk
+ * operations on "everything matching" hit exactly the listed rows.
+ * Callers add the userId / deletedAt scope.
+ */
+export function parseTransactionListFilter(
+  params: URLSearchParams
+): { ok: true; where: Prisma.TransactionWhereInput } | { ok: false; error: string } {
+  const date = parseDateFilter({
+    month: params.get("month"),
+    from: params.get("from"),
+    to: params.get("to"),
+    range: params.get("range"),
+  });
+  if (!date.ok) return { ok: false, error: date.error };
+
+  const amount = parseAmountFilter({ minAmount: params.get("minAmount"), maxAmount: params.get("maxAmount") });
+  if (!amount.ok) return { ok: false, error: amount.error };
+
+  const type = parseTypeFilter(params.get("type"));
+  if (!type.ok) return { ok: false, error: type.error };
+
+  const search = parseTransactionSearch(params.get("q") ?? "");
+  if (!search.ok) return { ok: false, error: search.error };
+
+  // "uncategorized" | id
+  const categoryId = (params.get("categoryId") ?? "").trim();
+
+  // "unassigned" | id ("all" = no filter)
+  const paymentSourceRaw = (params.get("paymentSourceId") ?? "").trim();
+  const paymentSourceId = paymentSourceRaw === "all" ? "" : paymentSourceRaw;
+
+  // "untagged" | tag id
+  const tagId = (params.get("tagId") ?? "").trim();
+
+  // "none" | payee id
+  const payeeId = (params.get("payeeId") ?? "").trim();
+
+  const statusParam = params.get("status");
+  const status = statusParam ? parseTransactionStatus(statusParam) : null;
+  if (statusParam && !status) {
+    return { ok: false, error: 'Invalid "status". Use PENDING, CLEARED or RECONCILED.' };
+  }
+
+  return {
+    ok: true,
+    where: {
+      ...(date.value.where ? { date: date.value.where } : {}),
+      ...(amount.where ? { amountCents: amount.where } : {}),
+      ...(type.type ? { type: type.type } : {}),
+      ...(status ? { status } : {}),
+      AND: [
+        ...(search.where ? [search.where] : []),
+        // split transactions match on their lines' categories
+        ...(categoryId ? [transactionCategoryWhere(categoryId)] : []),
+        // transfers match both their from and to account
+        ...(paymentSourceId ? [transactionPaymentSourceWhere(paymentSourceId)] : []),
+        ...(tagId ? [transactionTagWhere(tagId)] : []),
+        ...(payeeId ? [transactionPayeeWhere(payeeId)] : []),
+      ],
+    },
+  };
+}
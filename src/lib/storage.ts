@@ -0,0 +1,83 @@
+/** ----------------------------
+ * Attachment storage
+ *
+ * Route handlers only talk to the `BlobStorage` interface, so an
+ * S3-compatible store can replace the local filesystem later without
+ * touching them. Keys are opaque, generated by us (never user input).
+ *
+ * Server-only (uses node:fs).
+ * ---------------------------- */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface BlobStorage {
+  put(key: string, data: Uint8Array): Promise<void>;
+  /** null when the key doesn't exist */
+  get(key: string): Promise<Uint8Array | null>;
+  /** No-op when the key doesn't exist */
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function assertKey(key: string) {
+  // Keys become file names: no separators, no dots
+  if (!KEY_PATTERN.test(key)) throw new Error(`Invalid storage key: ${key}`);
+}
+
+export function createLocalStorage(rootDir: string): BlobStorage {
+  const fileFor = (key: string) => {
+    assertKey(key);
+    // Two-char fan-out keeps directories small
+    return path.join(rootDir, key.slice(0, 2), key);
+  };
+
+  return {
+    async put(key, data) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await fs.readFile(fileFor(key)));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await fs.unlink(fileFor(key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      }
+    },
+  };
+}
+
+const globalForStorage = globalThis as unknown as { attachmentStorage?: BlobStorage };
+
+/** ATTACHMENTS_DIR overrides the default ./.data/attachments */
+export function getAttachmentStorage(): BlobStorage {
+  if (!globalForStorage.attachmentStorage) {
+    const root = process.env.ATTACHMENTS_DIR || path.join(process.cwd(), ".data", "attachments");
+    globalForStorage.attachmentStorage = createLocalStorage(root);
+  }
+  return globalForStorage.attachmentStorage;
+}
+
+/**
+ * Best-effort removal after the rows are gone: a file that fails to delete
+ * is only wasted space, never a dangling reference.
+ */
+export async function deleteStoredFiles(keys: string[]) {
+  if (keys.length === 0) return;
+  const storage = getAttachmentStorage();
+  const results = await Promise.allSettled(keys.map((k) => storage.delete(k)));
+  const failed = results.filter((r) => r.status === "rejected").length;
+  if (failed) console.error(`Failed to delete ${failed} attachment file(s)`);
+}
@@ -0,0 +1,211 @@
+/** ----------------------------
+ * Learned category suggestions
+ *
+ * A per-user multinomial naive Bayes model over description tokens
+ * (normalized like payee matching, so "SQ *BLUE BOTTLE 0042" and
+ * "Blue Bottle" share tokens), trained on the user's own categorized
+ * transactions. Splits and transfers don't train it.
+ *
+ * Models live in this process's memory. Each use syncs incrementally: rows
+ * whose updatedAt moved since the last sync are taken out and put back with
+ * their current category, so new, re-categorized and trashed rows count right
+ * away. Changes that don't touch updatedAt (a deleted category, rows purged
+ * from Trash) show up as a count mismatch and trigger a full retrain.
+ * ---------------------------- */
+
+import { prisma } from "@/lib/prisma";
+import { normalizePayeeText } from "@/lib/payees";
+
+export const MAX_CATEGORY_SUGGESTIONS = 5;
+
+// Below this the model has seen too little to be worth asking
+const MIN_TRAINING_ROWS = 3;
+const MAX_CACHED_MODELS = 100;
+
+export type CategorySuggestion = {
+  categoryId: string;
+  name: string;
+  confidence: number; // 0..1, suggestions for one description add up to at most 1
+};
+
+type CategoryModel = {
+  syncedAt: Date | null; // newest updatedAt trained on
+  docs: Map<string, { categoryId: string; tokens: string[] }>; // by transaction id
+  docsPerCategory: Map<string, number>;
+  tokensPerCategory: Map<string, Map<string, number>>;
+  tokenTotals: Map<string, number>; // all token occurrences per category
+  vocabulary: Map<string, number>; // token -> occurrences across categories
+};
+
+const models = new Map<string, CategoryModel>();
+const syncing = new Map<string, Promise<CategoryModel>>();
+
+export function tokenizeDescription(description: string): string[] {
+  const words = normalizePayeeText(description)
+    .split(" ")
+    .filter((w) => w.length >= 2);
+  return [...new Set(words)];
+}
+
+function emptyModel(): CategoryModel {
+  return {
+    syncedAt: null,
+    docs: new Map(),
+    docsPerCategory: new Map(),
+    tokensPerCategory: new Map(),
+    tokenTotals: new Map(),
+    vocabulary: new Map(),
+  };
+}
+
+function bump(map: Map<string, number>, key: string, by: number) {
+  const next = (map.get(key) ?? 0) + by;
+  if (next > 0) map.set(key, next);
+  else map.delete(key);
+}
+
+function addDoc(model: CategoryModel, id: string, categoryId: string, tokens: string[]) {
+  model.docs.set(id, { categoryId, tokens });
+  bump(model.docsPerCategory, categoryId, 1);
+
+  const counts = model.tokensPerCategory.get(categoryId) ?? new Map<string, number>();
+  for (const t of tokens) {
+    bump(counts, t, 1);
+    bump(model.vocabulary, t, 1);
+  }
+  model.tokensPerCategory.set(categoryId, counts);
+  bump(model.tokenTotals, categoryId, tokens.length);
+}
+
+function removeDoc(model: CategoryModel, id: string) {
+  const doc = model.docs.get(id);
+  if (!doc) return;
+  model.docs.delete(id);
+  bump(model.docsPerCategory, doc.categoryId, -1);
+
+  const counts = model.tokensPerCategory.get(doc.categoryId);
+  for (const t of doc.tokens) {
+    if (counts) bump(counts, t, -1);
+    bump(model.vocabulary, t, -1);
+  }
+  if (counts && counts.size === 0) model.tokensPerCategory.delete(doc.categoryId);
+  bump(model.tokenTotals, doc.categoryId, -doc.tokens.length);
+}
+
+// Rows that teach the model: categorized, not split, not a transfer, not in Trash
+const TRAINING_WHERE = {
+  deletedAt: null,
+  categoryId: { not: null },
+  type: { not: "TRANSFER" },
+  splits: { none: {} },
+} as const;
+
+async function syncModel(userId: string): Promise<CategoryModel> {
+  const model = models.get(userId) ?? emptyModel();
+  const incremental = model.syncedAt !== null;
+
+  // Everything touched since the last sync (>= so rows saved in the same ms aren't missed)
+  const changed = await prisma.transaction.findMany({
+    where: {
+      userId,
+      ...(model.syncedAt ? { updatedAt: { gte: model.syncedAt } } : TRAINING_WHERE),
+    },
+    select: {
+      id: true,
+      description: true,
+      categoryId: true,
+      type: true,
+      deletedAt: true,
+      updatedAt: true,
+      _count: { select: { splits: true } },
+    },
+  });
+
+  for (const t of changed) {
+    removeDoc(model, t.id);
+    if (t.categoryId && !t.deletedAt && t.type !== "TRANSFER" && t._count.splits === 0) {
+      addDoc(model, t.id, t.categoryId, tokenizeDescription(t.description));
+    }
+    if (!model.syncedAt || t.updatedAt > model.syncedAt) model.syncedAt = t.updatedAt;
+  }
+
+  // Changes without an updatedAt (category deleted, Trash purged): start over
+  if (incremental) {
+    const trainable = await prisma.transaction.count({ where: { userId, ...TRAINING_WHERE } });
+    if (trainable !== model.docs.size) {
+      models.delete(userId);
+      return syncModel(userId);
+    }
+  }
+
+  // Most recently used last, so the first entry is the one to drop
+  models.delete(userId);
+  models.set(userId, model);
+  if (models.size > MAX_CACHED_MODELS) models.delete(models.keys().next().value!);
+
+  return model;
+}
+
+async function loadModel(userId: string): Promise<CategoryModel> {
+  const pending = syncing.get(userId);
+  if (pending) return pending;
+
+  const run = syncModel(userId).finally(() => syncing.delete(userId));
+  syncing.set(userId, run);
+  return run;
+}
+
+/**
+ * Ranked categories for a description, with a confidence each
+ * (posterior probabilities; only categories that still exist and aren't archived).
+ */
+export async function suggestCategories(
+  userId: string,
+  description: string,
+  limit = 3
+): Promise<CategorySuggestion[]> {
+  const tokens = tokenizeDescription(description);
+  if (tokens.length === 0) return [];
+
+  const model = await loadModel(userId);
+  if (model.docs.size < MIN_TRAINING_ROWS) return [];
+
+  // Words the model never saw say nothing either way
+  const known = tokens.filter((t) => model.vocabulary.has(t));
+  if (known.length === 0) return [];
+
+  const vocabularySize = model.vocabulary.size;
+  const scores: Array<{ categoryId: string; logScore: number }> = [];
+  for (const [categoryId, docCount] of model.docsPerCategory) {
+    const counts = model.tokensPerCategory.get(categoryId);
+    const total = model.tokenTotals.get(categoryId) ?? 0;
+
+    // log P(category) + sum of log P(token | category), Laplace-smoothed
+    let logScore = Math.log(docCount / model.docs.size);
+    for (const t of known) {
+      logScore += Math.log(((counts?.get(t) ?? 0) + 1) / (total + vocabularySize));
+    }
+    scores.push({ categoryId, logScore });
+  }
+
+  // Softmax over the log scores turns them into probabilities
+  const max = Math.max(...scores.map((s) => s.logScore));
+  const weights = scores.map((s) => ({ ...s, weight: Math.exp(s.logScore - max) }));
+  const sum = weights.reduce((acc, w) => acc + w.weight, 0);
+
+  const categories = await prisma.category.findMany({
+    where: { userId, id: { in: scores.map((s) => s.categoryId) }, archivedAt: null },
+    select: { id: true, name: true },
+  });
+  const names = new Map(categories.map((c) => [c.id, c.name]));
+
+  return weights
+    .filter((w) => names.has(w.categoryId))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, Math.min(Math.max(limit, 1), MAX_CATEGORY_SUGGESTIONS))
+    .map((w) => ({
+      categoryId: w.categoryId,
+      name: names.get(w.categoryId)!,
+      confidence: Math.round((w.weight / sum) * 100) / 100,
+    }));
+}
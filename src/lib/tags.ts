@@ -0,0 +1,82 @@
+/** ----------------------------
+ * Transaction tags
+ *
+ * Pure helpers: safe to import from client components.
+ * ---------------------------- */
+
+export const MAX_TAG_NAME_LENGTH = 40;
+export const MAX_TAGS_PER_TRANSACTION = 20;
+
+export const DEFAULT_TAG_COLOR = "#64748b";
+
+// Swatches offered in Profile; any "#rrggbb" value is accepted by the API
+export const TAG_COLORS = [
+  "#64748b",
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+// Names the old fixed flags were turned into (see the add_tags migration).
+// Used to read backups written before tags existed.
+export const LEGACY_FLAG_TAGS: Record<string, { name: string; color: string }> = {
+  WORTH_IT: { name: "Felt worth it", color: "#22c55e" },
+  UNEXPECTED: { name: "Unexpected", color: "#f97316" },
+  REVIEW_LATER: { name: "Review later", color: "#3b82f6" },
+};
+
+export type TagSummary = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export function validateTagName(input: unknown): { ok: true; value: string } | { ok: false; error: string } {
+  const name = String(input ?? "").trim();
+  if (!name) return { ok: false, error: "name is required" };
+  if (name.length > MAX_TAG_NAME_LENGTH) {
+    return { ok: false, error: `name is too long (max ${MAX_TAG_NAME_LENGTH})` };
+  }
+  return { ok: true, value: name };
+}
+
+/** "#RRGGBB" (any case) -> "#rrggbb"; anything else -> null. */
+export function parseTagColor(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const v = input.trim().toLowerCase();
+  return /^#[0-9a-f]{6}$/.test(v) ? v : null;
+}
+
+/**
+ * Validates `tagIds` from a create/update body.
+ * - undefined => leave tags alone
+ * - null / [] => remove every tag
+ * - otherwise a de-duplicated list of ids
+ *
+ * Ownership is checked by the caller (needs the database).
+ */
+export function parseTagIds(
+  input: unknown
+): { ok: true; value: string[] | undefined } | { ok: false; error: string } {
+  if (input === undefined) return { ok: true, value: undefined };
+  if (input === null) return { ok: true, value: [] };
+  if (!Array.isArray(input)) return { ok: false, error: "tagIds must be an array of strings" };
+
+  const out: string[] = [];
+  for (const raw of input) {
+    if (typeof raw !== "string") return { ok: false, error: "tagIds must be an array of strings" };
+    const v = raw.trim();
+    if (v && !out.includes(v)) out.push(v);
+  }
+
+  if (out.length > MAX_TAGS_PER_TRANSACTION) {
+    return { ok: false, error: `A transaction can have at most ${MAX_TAGS_PER_TRANSACTION} tags` };
+  }
+
+  return { ok: true, value: out };
+}
@@ -0,0 +1,269 @@
+/** ----------------------------
+ * Shared transaction validation
+ *
+ * Used by POST/PATCH /api/finance/transactions and the import routes so
+ * every write path applies the exact same date / amount / type rules.
+ * ---------------------------- */
+
+import type { Prisma } from "@prisma/client";
+import { MAX_CATEGORY_DEPTH } from "@/lib/categories";
+
+// TRANSFER moves money between two payment sources and never counts as
+// income or spending (Dashboard totals and category charts skip it).
+export type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER";
+
+const ALLOWED_TYPES = new Set<TransactionType>(["EXPENSE", "INCOME", "TRANSFER"]);
+
+// $10,000,000.00
+export const MAX_AMOUNT_CENTS = 10_000_000_00;
+
+export function parseLocalDateOnly(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+
+  const y = Number(m[1]);
+  const mo = Number(m[2]);
+  const d = Number(m[3]);
+
+  // Create a local-time date (prevents UTC shift)
+  const dt = new Date(y, mo - 1, d);
+  return Number.isNaN(dt.getTime()) ? null : dt;
+}
+
+/** Inverse of parseLocalDateOnly: Date -> "YYYY-MM-DD" (local calendar day). */
+export function formatLocalDateOnly(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+// PENDING until ticked off against the account; RECONCILED rows are locked
+// (PATCH / DELETE need an explicit override).
+export type TransactionStatus = "PENDING" | "CLEARED" | "RECONCILED";
+
+const ALLOWED_STATUSES = new Set<TransactionStatus>(["PENDING", "CLEARED", "RECONCILED"]);
+
+export function parseTransactionStatus(input: unknown): TransactionStatus | null {
+  if (input === undefined || input === null) return null;
+  const raw = String(input).trim().toUpperCase();
+  if (ALLOWED_STATUSES.has(raw as TransactionStatus)) return raw as TransactionStatus;
+  return null;
+}
+
+export function parseTransactionType(input: unknown): TransactionType | null {
+  if (input === undefined || input === null) return null;
+  const raw = String(input).trim().toUpperCase();
+  if (ALLOWED_TYPES.has(raw as TransactionType)) return raw as TransactionType;
+  return null;
+}
+
+/**
+ * Validates a signed amount in cents (string or number).
+ * Negative = expense, positive = income (see inferTransactionType).
+ */
+export function parseSignedAmountCents(
+  raw: unknown
+): { ok: true; value: number } | { ok: false; error: string } {
+  const amountCentsInput = typeof raw === "string" ? Number(raw) : raw;
+
+  if (typeof amountCentsInput !== "number" || !Number.isInteger(amountCentsInput)) {
+    return { ok: false, error: "amountCents must be an integer" };
+  }
+  if (Math.abs(amountCentsInput) > MAX_AMOUNT_CENTS) {
+    return { ok: false, error: "amountCents is out of bounds" };
+  }
+  if (amountCentsInput === 0) {
+    return { ok: false, error: "amountCents cannot be 0" };
+  }
+
+  return { ok: true, value: amountCentsInput };
+}
+
+export function inferTransactionType(signedAmountCents: number): "EXPENSE" | "INCOME" {
+  return signedAmountCents < 0 ? "EXPENSE" : "INCOME";
+}
+
+/** ----------------------------
+ * Splits
+ * ---------------------------- */
+
+export type TransactionSplitInput = {
+  categoryId: string | null;
+  amountCents: number; // positive; direction comes from the parent's type
+  note: string | null;
+};
+
+export const MAX_TRANSACTION_SPLITS = 20;
+
+/**
+ * Validates `splits` from a create/update body against the parent amount.
+ * - undefined => leave splits alone
+ * - null / [] => remove splits
+ * - otherwise 2..MAX_TRANSACTION_SPLITS lines whose amounts add up to totalCents
+ *
+ * Category ownership is checked by the caller (needs the database).
+ */
+export function parseTransactionSplits(
+  input: unknown,
+  totalCents: number
+): { ok: true; value: TransactionSplitInput[] | null | undefined } | { ok: false; error: string } {
+  if (input === undefined) return { ok: true, value: undefined };
+  if (input === null) return { ok: true, value: null };
+  if (!Array.isArray(input)) return { ok: false, error: "splits must be an array" };
+  if (input.length === 0) return { ok: true, value: null };
+
+  if (input.length < 2) return { ok: false, error: "A split needs at least 2 lines" };
+  if (input.length > MAX_TRANSACTION_SPLITS) {
+    return { ok: false, error: `A split can have at most ${MAX_TRANSACTION_SPLITS} lines` };
+  }
+
+  const out: TransactionSplitInput[] = [];
+  let sum = 0;
+
+  for (const [i, raw] of input.entries()) {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      return { ok: false, error: `splits[${i}] must be an object` };
+    }
+    const line = raw as Record<string, unknown>;
+
+    const amountCents = typeof line.amountCents === "string" ? Number(line.amountCents) : line.amountCents;
+    if (typeof amountCents !== "number" || !Number.isInteger(amountCents) || amountCents <= 0) {
+      return { ok: false, error: `splits[${i}].amountCents must be a positive integer` };
+    }
+    if (amountCents > MAX_AMOUNT_CENTS) {
+      return { ok: false, error: `splits[${i}].amountCents is out of bounds` };
+    }
+
+    const categoryId =
+      line.categoryId === undefined || line.categoryId === null || line.categoryId === ""
+        ? null
+        : String(line.categoryId);
+
+    const note = line.note === undefined || line.note === null ? "" : String(line.note).trim();
+
+    sum += amountCents;
+    out.push({ categoryId, amountCents, note: note ? note : null });
+  }
+
+  if (sum !== totalCents) {
+    return { ok: false, error: "Split amounts must add up to the transaction amount" };
+  }
+
+  return { ok: true, value: out };
+}
+
+/**
+ * Categories matching `match` or nested anywhere under one that does.
+ * The tree is at most MAX_CATEGORY_DEPTH deep, so this is a fixed set of
+ * parent hops rather than a recursive query.
+ */
+export function categorySubtreeWhere(match: Prisma.CategoryWhereInput): Prisma.CategoryWhereInput {
+  const levels: Prisma.CategoryWhereInput[] = [match];
+  for (let i = 1; i < MAX_CATEGORY_DEPTH; i++) levels.push({ parent: levels[i - 1] });
+  return { OR: levels };
+}
+
+/**
+ * Category filter ("uncategorized" | id) for transaction lists.
+ * A split transaction matches when any of its lines has the category;
+ * its own categoryId is ignored. A parent also matches its subcategories.
+ */
+export function transactionCategoryWhere(categoryId: string): Prisma.TransactionWhereInput {
+  if (categoryId === "uncategorized") {
+    return {
+      OR: [
+        { categoryId: null, splits: { none: {} } },
+        { splits: { some: { categoryId: null } } },
+      ],
+    };
+  }
+
+  const category = categorySubtreeWhere({ id: categoryId });
+  return {
+    OR: [
+      { category, splits: { none: {} } },
+      { splits: { some: { category } } },
+    ],
+  };
+}
+
+/**
+ * Account filter ("unassigned" | id) for transaction lists.
+ * A transfer matches both the account it came from and the one it went to.
+ */
+export function transactionPaymentSourceWhere(paymentSourceId: string): Prisma.TransactionWhereInput {
+  if (paymentSourceId === "unassigned") return { paymentSourceId: null };
+  return {
+    OR: [{ paymentSourceId }, { transferToPaymentSourceId: paymentSourceId }],
+  };
+}
+
+/**
+ * Tag filter ("untagged" | id) for transaction lists.
+ */
+export function transactionTagWhere(tagId: string): Prisma.TransactionWhereInput {
+  if (tagId === "untagged") return { tags: { none: {} } };
+  return { tags: { some: { tagId } } };
+}
+
+/**
+ * Payee filter ("none" | id) for transaction lists.
+ */
+export function transactionPayeeWhere(payeeId: string): Prisma.TransactionWhereInput {
+  return { payeeId: payeeId === "none" ? null : payeeId };
+}
+
+/** ----------------------------
+ * Cursor pagination
+ *
+ * Lists are ordered newest first by (date, createdAt, id); the id breaks ties
+ * so the order is total. A cursor is the sort key of the last row returned,
+ * and the next page is everything strictly after it: unlike an offset it
+ * doesn't skip or repeat rows when transactions are added or deleted meanwhile.
+ * ---------------------------- */
+
+export const TRANSACTION_LIST_ORDER_BY = [
+  { date: "desc" },
+  { createdAt: "desc" },
+  { id: "desc" },
+] satisfies Prisma.TransactionOrderByWithRelationInput[];
+
+type TransactionCursorKey = { date: Date; createdAt: Date; id: string };
+
+export function encodeTransactionCursor(row: TransactionCursorKey): string {
+  return Buffer.from(
+    JSON.stringify([row.date.toISOString(), row.createdAt.toISOString(), row.id])
+  ).toString("base64url");
+}
+
+/** The where clause for the rows after `row` in list order. */
+export function transactionsAfterWhere(row: TransactionCursorKey): Prisma.TransactionWhereInput {
+  const { date, createdAt, id } = row;
+  return {
+    OR: [
+      { date: { lt: date } },
+      { date, createdAt: { lt: createdAt } },
+      { date, createdAt, id: { lt: id } },
+    ],
+  };
+}
+
+/** The where clause for the rows after `cursor`; null if it isn't one of ours. */
+export function transactionCursorWhere(cursor: string): Prisma.TransactionWhereInput | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 3 || parsed.some((v) => typeof v !== "string")) return null;
+  const date = new Date(parsed[0]);
+  const createdAt = new Date(parsed[1]);
+  const id = parsed[2] as string;
+  if (Number.isNaN(date.getTime()) || Number.isNaN(createdAt.getTime()) || !id) return null;
+
+  return transactionsAfterWhere({ date, createdAt, id });
+}
@@ -0,0 +1,74 @@
+/** ----------------------------
+ * Transaction trash (soft delete)
+ *
+ * DELETE /api/finance/transactions only sets `deletedAt`; the row keeps its
+ * links and attachments so a restore puts it back exactly as it was. Rows
+ * older than the owner's retention period are purged for good (pages purge
+ * on load, a scheduled job purges everyone).
+ * ---------------------------- */
+
+import { prisma } from "@/lib/prisma";
+import { deleteStoredFiles } from "@/lib/storage";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseTrashRetentionDays(input: unknown): number | null {
+  const n = Number(input);
+  if (!Number.isInteger(n) || n < MIN_TRASH_RETENTION_DAYS || n > MAX_TRASH_RETENTION_DAYS) return null;
+  return n;
+}
+
+/** When a row deleted at `deletedAt` will be purged. */
+export function trashPurgeDate(deletedAt: Date, retentionDays: number) {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Permanently deletes trashed transactions (never rows outside Trash):
+ * the given ids, the ones deleted before `deletedBefore`, or the whole Trash.
+ * Attachment rows cascade; their files are removed after. Returns how many went.
+ */
+export async function deleteTrashedForGood(
+  userId: string,
+  filter: { ids?: string[]; deletedBefore?: Date } = {}
+): Promise<number> {
+  const where = {
+    userId,
+    deletedAt: filter.deletedBefore ? { lt: filter.deletedBefore } : { not: null },
+    ...(filter.ids ? { id: { in: filter.ids } } : {}),
+  };
+
+  const attachments = await prisma.attachment.findMany({
+    where: { transaction: where },
+    select: { storageKey: true },
+  });
+
+  const res = await prisma.transaction.deleteMany({ where });
+  await deleteStoredFiles(attachments.map((a) => a.storageKey));
+  return res.count;
+}
+
+/**
+ * Purges rows that have been in Trash longer than their owner's retention.
+ * userId = null runs for every user (scheduled job).
+ */
+export async function purgeExpiredTrash(userId: string | null): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: {
+      ...(userId ? { id: userId } : {}),
+      transactions: { some: { deletedAt: { not: null } } },
+    },
+    select: { id: true, trashRetentionDays: true },
+  });
+
+  let purged = 0;
+  for (const u of users) {
+    const cutoff = new Date(Date.now() - u.trashRetentionDays * DAY_MS);
+    purged += await deleteTrashedForGood(u.id, { deletedBefore: cutoff });
+  }
+  return purged;
+}